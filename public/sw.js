@@ -0,0 +1,101 @@
+/**
+ * DnDnB Service Worker
+ *
+ * Precaches the static export so the app opens without network:
+ * - App shell routes and every exported asset are cached on install
+ * - Navigations are network-first and fall back to the cached page
+ * - /_next/static assets are cache-first (their names are content-hashed)
+ * - Open5E API requests are left alone; IndexedDB caches those
+ *
+ * `npm run build` stamps CACHE_VERSION and PRECACHE_MANIFEST (see
+ * scripts/generate-sw-manifest.mjs). A new version waits until the page
+ * asks it to take over with a SKIP_WAITING message.
+ */
+
+const CACHE_VERSION = '__SW_VERSION__';
+const CACHE_PREFIX = 'dndnb-';
+const CACHE_NAME = `${CACHE_PREFIX}${CACHE_VERSION}`;
+
+const APP_ROUTES = ['/', '/characters', '/characters/new', '/characters/view'];
+const PRECACHE_MANIFEST = /* __PRECACHE_MANIFEST__ */ [];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll([...new Set([...APP_ROUTES, ...PRECACHE_MANIFEST])]))
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
+
+/** Pages: fresh when online, otherwise the cached route (query strings ignored) */
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request, { ignoreSearch: true })) ?? (await cache.match('/'));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request, { ignoreSearch: true });
+  const refresh = fetch(request)
+    .then((response) => {
+      if (response.ok) cache.put(request, response.clone());
+      return response;
+    })
+    .catch((error) => {
+      if (cached) return cached;
+      throw error;
+    });
+  return cached ?? refresh;
+}
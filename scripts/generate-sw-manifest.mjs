@@ -0,0 +1,66 @@
+/**
+ * Stamp the service worker in the static export.
+ *
+ * Runs after `next build`: lists every file in dist/ as a precache URL and
+ * derives the cache version from their contents, so each deploy with changed
+ * assets gets a fresh cache and triggers the "update available" prompt.
+ */
+
+import { createHash } from 'node:crypto';
+import { readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const DIST_DIR = path.resolve(process.cwd(), 'dist');
+const SW_FILE = path.join(DIST_DIR, 'sw.js');
+
+/** Files that must never be precached */
+const EXCLUDED = new Set(['sw.js', '404.html', '_not-found.html', '_not-found.txt']);
+
+async function listFiles(dir) {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const fullPath = path.join(dir, entry.name);
+      return entry.isDirectory() ? listFiles(fullPath) : [fullPath];
+    })
+  );
+  return files.flat();
+}
+
+/** "characters/new.html" → "/characters/new", "index.html" → "/" */
+function toUrl(relativePath) {
+  const url = `/${relativePath.split(path.sep).join('/')}`;
+  if (url === '/index.html') return '/';
+  return url.endsWith('.html') ? url.slice(0, -'.html'.length) : url;
+}
+
+async function main() {
+  const files = (await listFiles(DIST_DIR))
+    .map((file) => path.relative(DIST_DIR, file))
+    .filter((file) => !EXCLUDED.has(file) && !file.endsWith('.map'))
+    .sort();
+
+  const hash = createHash('sha256');
+  for (const file of files) {
+    hash.update(file);
+    hash.update(await readFile(path.join(DIST_DIR, file)));
+  }
+  const version = hash.digest('hex').slice(0, 12);
+  const urls = files.map(toUrl);
+
+  const source = await readFile(SW_FILE, 'utf8');
+  if (!source.includes('__SW_VERSION__')) {
+    throw new Error(`${SW_FILE} has already been stamped`);
+  }
+  const stamped = source
+    .replace('__SW_VERSION__', version)
+    .replace('/* __PRECACHE_MANIFEST__ */ []', JSON.stringify(urls));
+  await writeFile(SW_FILE, stamped);
+
+  console.log(`Service worker ${version}: ${urls.length} files precached`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
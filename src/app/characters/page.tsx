@@ -1,21 +1,31 @@
 'use client';
 
-import { useMemo, useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import Link from 'next/link';
 import { useQueryClient } from '@tanstack/react-query';
-import { User, Heart, ChevronRight, Trash2 } from 'lucide-react';
+import { User, Heart, ChevronRight, Trash2, Upload } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
-import { Navbar, PageWrapper } from '@/components/shared';
+import { CacheSettings, Navbar, PageWrapper } from '@/components/shared';
+import { Button } from '@/components/ui/button';
 import { useCharacters } from '@/hooks/useCharacters';
 import { characterSheetUrl } from '@/lib/routes';
 import { deleteCharacter } from '@/lib/db/characters';
+import { importCharacter } from '@/lib/transfer/import';
+import type { ImportApproximation } from '@/lib/transfer/external';
 import type { CharacterSummary } from '@/types/character';
 
+/** Open5E documents that characters from other tools are matched against */
+const IMPORT_DOCUMENT_KEYS = ['wotc-srd', 'srd-2024'];
+
 export default function CharactersPage() {
   const queryClient = useQueryClient();
   const { data: characters, isLoading, error } = useCharacters();
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  const [approximations, setApproximations] = useState<ImportApproximation[]>([]);
   const sortedCharacters = useMemo(
     () => characters?.slice().sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()) ?? [],
     [characters]
@@ -36,6 +46,31 @@ export default function CharactersPage() {
     }
   };
 
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportErrors([]);
+    setImportNotice(null);
+    setApproximations([]);
+
+    const result = await importCharacter(await file.text(), IMPORT_DOCUMENT_KEYS);
+    if (!result.valid) {
+      setImportErrors(result.errors);
+      return;
+    }
+
+    const notes = [
+      result.idChanged && 'it was given a new ID because a character with the same ID exists',
+      result.campaignRemoved && 'its campaign is not in this browser, so it was left unassigned',
+    ].filter(Boolean);
+    setImportNotice(
+      `Imported ${result.character.name}${notes.length > 0 ? `; ${notes.join(' and ')}` : ''}.`
+    );
+    setApproximations(result.approximations);
+    await queryClient.invalidateQueries({ queryKey: ['characters'] });
+  };
+
   return (
     <>
       <Navbar />
@@ -44,9 +79,63 @@ export default function CharactersPage() {
           <h1 className="font-[family-name:var(--font-cinzel)] text-3xl md:text-4xl font-bold text-foreground mb-2">
             My Characters
           </h1>
-          <p className="text-muted-foreground mb-8">
-            Characters stored in your browser. Click to open the character sheet.
-          </p>
+          <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+            <p className="text-muted-foreground">
+              Characters stored in your browser. Click to open the character sheet.
+            </p>
+            <Button
+              variant="outline"
+              title="DnDnB, D&D Beyond or Foundry VTT character JSON"
+              onClick={() => fileInputRef.current?.click()}
+            >
+              <Upload className="w-4 h-4" />
+              Import Character
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={handleImport}
+            />
+          </div>
+
+          {importNotice && (
+            <div className="mb-6 rounded-lg border border-primary/40 bg-primary/5 p-3 text-sm">
+              <p>{importNotice}</p>
+              {approximations.length > 0 && (
+                <>
+                  <p className="mt-2 text-muted-foreground">
+                    Some entries could not be matched to Open5E content and were approximated:
+                  </p>
+                  <ul className="mt-1 space-y-0.5 text-muted-foreground">
+                    {approximations.map((entry, index) => (
+                      <li key={`${entry.section}-${entry.name}-${index}`}>
+                        <span className="font-medium text-foreground">{entry.name}</span> (
+                        {entry.section}): {entry.message}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+
+          {importErrors.length > 0 && (
+            <div className="mb-6 rounded-lg border-2 border-destructive/30 bg-destructive/5 p-4">
+              <p className="text-destructive font-medium">Could not import the character file</p>
+              <ul className="mt-2 space-y-1 text-sm text-muted-foreground font-mono">
+                {importErrors.slice(0, 10).map((message) => (
+                  <li key={message}>{message}</li>
+                ))}
+              </ul>
+              {importErrors.length > 10 && (
+                <p className="mt-2 text-sm text-muted-foreground">
+                  …and {importErrors.length - 10} more problems
+                </p>
+              )}
+            </div>
+          )}
 
           {isLoading && (
             <div className="space-y-3">
@@ -141,6 +230,10 @@ export default function CharactersPage() {
                 formatDistanceToNow(sortedCharacters[0].updatedAt, { addSuffix: true })}
             </p>
           )}
+
+          <div className="mt-12">
+            <CacheSettings />
+          </div>
         </div>
       </PageWrapper>
     </>
@@ -1,8 +1,15 @@
 'use client';
 
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { TooltipProvider } from '@/components/ui/tooltip';
+import { OfflineIndicator, UpdatePrompt } from '@/components/shared';
+import { warmCache } from '@/lib/db/cache';
+import { checkDocumentUpdates } from '@/lib/db/document-versions';
+import { syncCacheRevalidation } from '@/hooks/api';
+
+/** Documents cached on first launch so the app works offline afterwards */
+const DEFAULT_DOCUMENT_KEYS = ['wotc-srd', 'srd-2024'];
 
 export function Providers({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(
@@ -18,9 +25,31 @@ export function Providers({ children }: { children: React.ReactNode }) {
       })
   );
 
+  // Refetch open queries when stale cached data is refreshed in the background
+  useEffect(() => syncCacheRevalidation(queryClient), [queryClient]);
+
+  // Drop the cache of sources that changed upstream, then fill gaps
+  // (entries that are still valid are skipped by warmCache)
+  useEffect(() => {
+    checkDocumentUpdates()
+      .then((updates) => {
+        if (updates.length > 0) return queryClient.invalidateQueries();
+      })
+      .catch(() => {
+        // Offline or API unavailable: keep using the cached data
+      })
+      .finally(() => {
+        void warmCache(DEFAULT_DOCUMENT_KEYS);
+      });
+  }, [queryClient]);
+
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider delayDuration={200}>{children}</TooltipProvider>
+      <TooltipProvider delayDuration={200}>
+        {children}
+        <OfflineIndicator />
+        <UpdatePrompt />
+      </TooltipProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,119 @@
+/**
+ * Character Creation Wizard Tests
+ *
+ * Walks the last wizard steps (Description → Review → Create) against
+ * fake-indexeddb, with Open5E data and navigation mocked.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+
+import { db } from '@/lib/db';
+import { useCharacterCreationStore } from '@/stores/characterCreationStore';
+import type { Open5eClass } from '@/types/open5e';
+
+import { CharacterCreationWizard } from './CharacterCreationWizard';
+
+const navigation = vi.hoisted(() => ({ step: '7', push: vi.fn() }));
+
+vi.mock('next/navigation', () => ({
+  useRouter: () => ({ push: navigation.push }),
+  useSearchParams: () => new URLSearchParams({ step: navigation.step }),
+  usePathname: () => '/characters/new',
+}));
+
+const fighter: Open5eClass = {
+  key: 'fighter',
+  name: 'Fighter',
+  url: '',
+  document: 'wotc-srd',
+  description: '',
+  hit_dice: '1d10',
+  hp_at_1st_level: '10 + your Constitution modifier',
+  hp_at_higher_levels: '1d10 (or 6) + your Constitution modifier per fighter level after 1st',
+  prof_armor: 'All armor, shields',
+  prof_weapons: 'Simple weapons, martial weapons',
+  prof_tools: 'None',
+  prof_saving_throws: ['Strength', 'Constitution'],
+  prof_skills: 'Choose two skills from Acrobatics, Animal Handling, Athletics',
+  equipment: '',
+  spellcasting_ability: null,
+  subtypes_name: 'Martial Archetypes',
+  archetypes: [],
+  class_features: [],
+};
+
+// Stable query results, so the wizard's review memo does not rebuild every render
+const queries = {
+  classes: { data: [fighter], isLoading: false },
+  empty: { data: [], isLoading: false },
+  equipment: { data: { weapons: [], armor: [], items: [] }, isLoading: false },
+};
+
+vi.mock('@/hooks/api/useOpen5e', () => ({
+  useClasses: () => queries.classes,
+  useSpecies: () => queries.empty,
+  useBackgrounds: () => queries.empty,
+  useFeats: () => queries.empty,
+  useSpells: () => queries.empty,
+  useEquipment: () => queries.equipment,
+}));
+
+function nextButton(name: 'Next' | 'Create Character') {
+  return screen.getByRole('button', { name });
+}
+
+beforeEach(async () => {
+  await db.characters.clear();
+  navigation.step = '7';
+  navigation.push.mockClear();
+  useCharacterCreationStore.getState().reset();
+  useCharacterCreationStore.setState({
+    selections: {
+      config: { documentKeys: ['wotc-srd'], edition: '2014', hpMethod: 'fixed' },
+      class: { classKey: 'fighter', level: 1, skillKeys: ['acrobatics', 'athletics'] },
+      abilityScores: {
+        method: 'standard',
+        scores: { STR: 15, DEX: 14, CON: 13, INT: 12, WIS: 10, CHA: 8 },
+      },
+    },
+    completedSteps: [0, 1, 2, 3, 4, 5, 6],
+  });
+});
+
+describe('CharacterCreationWizard', () => {
+  it('should require a name before leaving the Description step', () => {
+    render(<CharacterCreationWizard />);
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Enter a name for your character.');
+    expect(nextButton('Next')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Character Name'), { target: { value: 'Aldric' } });
+
+    expect(nextButton('Next')).toBeEnabled();
+    expect(useCharacterCreationStore.getState().selections.description?.name).toBe('Aldric');
+  });
+
+  it('should create and save the character from the Review step', async () => {
+    const { rerender } = render(<CharacterCreationWizard />);
+    fireEvent.change(screen.getByLabelText('Character Name'), { target: { value: 'Aldric' } });
+    fireEvent.click(nextButton('Next'));
+    expect(navigation.push).toHaveBeenCalledWith('/characters/new?step=8');
+
+    navigation.step = '8';
+    rerender(<CharacterCreationWizard />);
+    expect(await screen.findByText('Aldric')).toBeInTheDocument();
+
+    fireEvent.click(nextButton('Create Character'));
+
+    await waitFor(async () => {
+      const saved = await db.characters.toArray();
+      expect(saved).toHaveLength(1);
+      expect(saved[0]).toMatchObject({ name: 'Aldric', level: 1 });
+    });
+    const [saved] = await db.characters.toArray();
+    await waitFor(() =>
+      expect(navigation.push).toHaveBeenLastCalledWith(`/characters/view?id=${saved.id}`)
+    );
+  });
+});
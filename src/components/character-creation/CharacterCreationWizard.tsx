@@ -7,10 +7,27 @@
 
 'use client';
 
-import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 
 import { useUnsavedChangesGuard } from '@/hooks/useUnsavedChangesGuard';
+import {
+  useBackgrounds,
+  useClasses,
+  useEquipment,
+  useFeats,
+  useSpecies,
+  useSpells,
+} from '@/hooks/api/useOpen5e';
+import { createCharacter } from '@/lib/db/characters';
+import {
+  buildCharacter,
+  getEngineClassKey,
+  type NewCharacter,
+} from '@/lib/engine/character-builder';
+import { isSpellcaster } from '@/lib/engine/spellcasting';
+import { characterSheetUrl } from '@/lib/routes';
+import type { WizardSelections } from '@/types/character';
 
 import {
   EMPTY_VALIDATION_ERRORS,
@@ -23,6 +40,18 @@ import {
 import { StepWrapper } from './StepWrapper';
 import { WizardLayout } from './WizardLayout';
 import { StepConfig } from './StepConfig';
+import { StepClass } from './StepClass';
+import { StepBackground } from './StepBackground';
+import { StepSpecies } from './StepSpecies';
+import { StepAbilityScores } from './StepAbilityScores';
+import { StepEquipment } from './StepEquipment';
+import { StepSpells } from './StepSpells';
+import { StepDescription } from './StepDescription';
+import { StepReview } from './StepReview';
+
+const SPELLS_STEP = 6;
+const DESCRIPTION_STEP = 7;
+const REVIEW_STEP = WIZARD_STEP_COUNT - 1;
 
 function clampStep(step: number): number {
   return Math.max(0, Math.min(step, WIZARD_STEP_COUNT - 1));
@@ -41,11 +70,84 @@ export function CharacterCreationWizard() {
   const markStepComplete = useCharacterCreationStore((s) => s.markStepComplete);
   const canAccessStep = useCharacterCreationStore((s) => s.canAccessStep);
   const canProceed = useCharacterCreationStore((s) => s.canProceed);
+  const resetWizard = useCharacterCreationStore((s) => s.reset);
+  const [isCreating, setIsCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
 
   const stepParam = searchParams.get('step');
   const urlStep = clampStep(parseInt(stepParam ?? '0', 10) || 0);
 
   const currentStep = urlStep;
+  const isReviewStep = currentStep === REVIEW_STEP;
+
+  // Classes decide whether the Spells step is shown, so they are always fetched
+  const classesQuery = useClasses(selections.config?.documentKeys ?? []);
+  const selectedClass = classesQuery.data?.find((c) => c.key === selections.class?.classKey);
+  const skipsSpells = selectedClass ? !isSpellcaster(getEngineClassKey(selectedClass)) : false;
+
+  // Open5E data needed to build the character, only fetched on the Review step
+  const reviewDocumentKeys = isReviewStep ? (selections.config?.documentKeys ?? []) : [];
+  const speciesQuery = useSpecies(reviewDocumentKeys);
+  const backgroundsQuery = useBackgrounds(reviewDocumentKeys);
+  const featsQuery = useFeats(selections.background?.originFeatKey ? reviewDocumentKeys : []);
+  const equipmentQuery = useEquipment(selections.equipment?.items.length ? reviewDocumentKeys : []);
+  const spellsQuery = useSpells(skipsSpells || !selections.spells ? [] : reviewDocumentKeys);
+  const isReviewLoading =
+    classesQuery.isLoading ||
+    speciesQuery.isLoading ||
+    backgroundsQuery.isLoading ||
+    featsQuery.isLoading ||
+    equipmentQuery.isLoading ||
+    spellsQuery.isLoading;
+
+  const review = useMemo<{ character: NewCharacter | null; error: string | null }>(() => {
+    if (!isReviewStep || isReviewLoading) return { character: null, error: null };
+
+    const classData = classesQuery.data?.find((c) => c.key === selections.class?.classKey);
+    if (!classData) return { character: null, error: 'The selected class could not be found.' };
+
+    const speciesKey = selections.species?.speciesKey;
+    const species =
+      speciesQuery.data?.find(
+        (s) => s.key === speciesKey || s.subraces?.some((sub) => sub.key === speciesKey)
+      ) ?? null;
+    const background =
+      backgroundsQuery.data?.find((b) => b.key === selections.background?.backgroundKey) ?? null;
+    const originFeat =
+      featsQuery.data?.find((f) => f.key === selections.background?.originFeatKey) ?? null;
+
+    const equipment = equipmentQuery.data;
+    const items = equipment ? [...equipment.weapons, ...equipment.armor, ...equipment.items] : [];
+
+    try {
+      return {
+        character: buildCharacter(selections, {
+          classData,
+          species,
+          background,
+          originFeat,
+          items,
+          spells: spellsQuery.data,
+        }),
+        error: null,
+      };
+    } catch (err) {
+      return {
+        character: null,
+        error: err instanceof Error ? err.message : 'Failed to build character.',
+      };
+    }
+  }, [
+    isReviewStep,
+    isReviewLoading,
+    classesQuery.data,
+    speciesQuery.data,
+    backgroundsQuery.data,
+    featsQuery.data,
+    equipmentQuery.data,
+    spellsQuery.data,
+    selections,
+  ]);
 
   const goToStep = useCallback(
     (step: number) => {
@@ -60,21 +162,42 @@ export function CharacterCreationWizard() {
     [canAccessStep, pathname, router, searchParams, setStep]
   );
 
+  const handleCreate = useCallback(async () => {
+    if (!review.character || isCreating) return;
+    setIsCreating(true);
+    setCreateError(null);
+    try {
+      const created = await createCharacter(review.character);
+      resetWizard();
+      router.push(characterSheetUrl(created.id));
+    } catch (err) {
+      console.error('Failed to create character:', err);
+      setCreateError('Failed to save character. Please try again.');
+      setIsCreating(false);
+    }
+  }, [review.character, isCreating, resetWizard, router]);
+
   const handleNext = useCallback(() => {
     if (currentStep < WIZARD_STEP_COUNT - 1) {
       markStepComplete(currentStep);
-      goToStep(currentStep + 1);
+      let next = currentStep + 1;
+      // Non-casters pass over the Spells step
+      if (next === SPELLS_STEP && skipsSpells) {
+        markStepComplete(SPELLS_STEP);
+        next += 1;
+      }
+      goToStep(next);
     } else {
-      // Step 8 (Review) - Create Character not implemented yet
-      // TODO: implement character creation and redirect
+      void handleCreate();
     }
-  }, [currentStep, goToStep, markStepComplete]);
+  }, [currentStep, skipsSpells, goToStep, markStepComplete, handleCreate]);
 
   const handlePrev = useCallback(() => {
     if (currentStep > 0) {
-      goToStep(currentStep - 1);
+      const prev = currentStep - 1;
+      goToStep(prev === SPELLS_STEP && skipsSpells ? prev - 1 : prev);
     }
-  }, [currentStep, goToStep]);
+  }, [currentStep, skipsSpells, goToStep]);
 
   const handleSaveExit = useCallback(() => {
     router.push('/characters');
@@ -83,7 +206,8 @@ export function CharacterCreationWizard() {
   const validationErrors = useCharacterCreationStore(
     (s) => s.validationErrors[currentStep] ?? EMPTY_VALIDATION_ERRORS
   );
-  const canGoNext = canProceed(currentStep);
+  const canGoNext =
+    canProceed(currentStep) && (!isReviewStep || (review.character !== null && !isCreating));
 
   const hasUnsavedChanges = useMemo(
     () => Object.keys(selections).length > 0 && (selections.config?.documentKeys?.length ?? 0) > 0,
@@ -126,6 +250,104 @@ export function CharacterCreationWizard() {
     [setValidationErrors]
   );
 
+  const handleClassUpdate = useCallback(
+    (selection: NonNullable<WizardSelections['class']>) => {
+      updateSelections(1, selection);
+    },
+    [updateSelections]
+  );
+
+  const handleClassValidationChange = useCallback(
+    (errors: ValidationError[]) => {
+      setValidationErrors(1, errors);
+    },
+    [setValidationErrors]
+  );
+
+  const handleBackgroundUpdate = useCallback(
+    (selection: NonNullable<WizardSelections['background']>) => {
+      updateSelections(2, selection);
+    },
+    [updateSelections]
+  );
+
+  const handleBackgroundValidationChange = useCallback(
+    (errors: ValidationError[]) => {
+      setValidationErrors(2, errors);
+    },
+    [setValidationErrors]
+  );
+
+  const handleSpeciesUpdate = useCallback(
+    (selection: NonNullable<WizardSelections['species']>) => {
+      updateSelections(3, selection);
+    },
+    [updateSelections]
+  );
+
+  const handleSpeciesValidationChange = useCallback(
+    (errors: ValidationError[]) => {
+      setValidationErrors(3, errors);
+    },
+    [setValidationErrors]
+  );
+
+  const handleAbilityScoresUpdate = useCallback(
+    (selection: NonNullable<WizardSelections['abilityScores']>) => {
+      updateSelections(4, selection);
+    },
+    [updateSelections]
+  );
+
+  const handleAbilityScoresValidationChange = useCallback(
+    (errors: ValidationError[]) => {
+      setValidationErrors(4, errors);
+    },
+    [setValidationErrors]
+  );
+
+  const handleEquipmentUpdate = useCallback(
+    (selection: NonNullable<WizardSelections['equipment']>) => {
+      updateSelections(5, selection);
+    },
+    [updateSelections]
+  );
+
+  const handleEquipmentValidationChange = useCallback(
+    (errors: ValidationError[]) => {
+      setValidationErrors(5, errors);
+    },
+    [setValidationErrors]
+  );
+
+  const handleSpellsUpdate = useCallback(
+    (selection: NonNullable<WizardSelections['spells']>) => {
+      updateSelections(SPELLS_STEP, selection);
+    },
+    [updateSelections]
+  );
+
+  const handleSpellsValidationChange = useCallback(
+    (errors: ValidationError[]) => {
+      setValidationErrors(SPELLS_STEP, errors);
+    },
+    [setValidationErrors]
+  );
+
+  const handleDescriptionUpdate = useCallback(
+    (selection: NonNullable<WizardSelections['description']>) => {
+      updateSelections(DESCRIPTION_STEP, selection);
+    },
+    [updateSelections]
+  );
+
+  const handleDescriptionValidationChange = useCallback(
+    (errors: ValidationError[]) => {
+      setValidationErrors(DESCRIPTION_STEP, errors);
+    },
+    [setValidationErrors]
+  );
+
   return (
     <WizardLayout
       currentStep={currentStep}
@@ -150,6 +372,109 @@ export function CharacterCreationWizard() {
             onValidationChange={handleValidationChange}
           />
         </StepWrapper>
+      ) : currentStep === 1 ? (
+        <StepWrapper
+          title={WIZARD_STEP_NAMES[1]}
+          validationErrors={validationErrors}
+          stepRef={stepRef}
+        >
+          <StepClass
+            documentKeys={selections.config?.documentKeys ?? []}
+            value={selections.class}
+            onUpdate={handleClassUpdate}
+            onValidationChange={handleClassValidationChange}
+          />
+        </StepWrapper>
+      ) : currentStep === 2 ? (
+        <StepWrapper
+          title={WIZARD_STEP_NAMES[2]}
+          validationErrors={validationErrors}
+          stepRef={stepRef}
+        >
+          <StepBackground
+            documentKeys={selections.config?.documentKeys ?? []}
+            edition={selections.config?.edition ?? '2014'}
+            value={selections.background}
+            onUpdate={handleBackgroundUpdate}
+            onValidationChange={handleBackgroundValidationChange}
+          />
+        </StepWrapper>
+      ) : currentStep === 3 ? (
+        <StepWrapper
+          title={WIZARD_STEP_NAMES[3]}
+          validationErrors={validationErrors}
+          stepRef={stepRef}
+        >
+          <StepSpecies
+            documentKeys={selections.config?.documentKeys ?? []}
+            edition={selections.config?.edition ?? '2014'}
+            value={selections.species}
+            onUpdate={handleSpeciesUpdate}
+            onValidationChange={handleSpeciesValidationChange}
+          />
+        </StepWrapper>
+      ) : currentStep === 4 ? (
+        <StepWrapper
+          title={WIZARD_STEP_NAMES[4]}
+          validationErrors={validationErrors}
+          stepRef={stepRef}
+        >
+          <StepAbilityScores
+            selections={selections}
+            onUpdate={handleAbilityScoresUpdate}
+            onValidationChange={handleAbilityScoresValidationChange}
+          />
+        </StepWrapper>
+      ) : currentStep === 5 ? (
+        <StepWrapper
+          title={WIZARD_STEP_NAMES[5]}
+          validationErrors={validationErrors}
+          stepRef={stepRef}
+        >
+          <StepEquipment
+            selections={selections}
+            onUpdate={handleEquipmentUpdate}
+            onValidationChange={handleEquipmentValidationChange}
+          />
+        </StepWrapper>
+      ) : currentStep === SPELLS_STEP ? (
+        <StepWrapper
+          title={WIZARD_STEP_NAMES[SPELLS_STEP]}
+          validationErrors={validationErrors}
+          stepRef={stepRef}
+        >
+          <StepSpells
+            selections={selections}
+            onUpdate={handleSpellsUpdate}
+            onValidationChange={handleSpellsValidationChange}
+          />
+        </StepWrapper>
+      ) : currentStep === DESCRIPTION_STEP ? (
+        <StepWrapper
+          title={WIZARD_STEP_NAMES[DESCRIPTION_STEP]}
+          validationErrors={validationErrors}
+          stepRef={stepRef}
+        >
+          <StepDescription
+            value={selections.description}
+            onUpdate={handleDescriptionUpdate}
+            onValidationChange={handleDescriptionValidationChange}
+          />
+        </StepWrapper>
+      ) : isReviewStep ? (
+        <StepWrapper
+          title={WIZARD_STEP_NAMES[REVIEW_STEP]}
+          validationErrors={
+            createError ? [{ field: '', message: createError }] : EMPTY_VALIDATION_ERRORS
+          }
+          stepRef={stepRef}
+        >
+          <StepReview
+            character={review.character}
+            isLoading={isReviewLoading}
+            error={review.error}
+          />
+        </StepWrapper>
       ) : (
         <StepWrapper title={WIZARD_STEP_NAMES[currentStep]} stepRef={stepRef}>
           <p className="text-muted-foreground">Step {currentStep + 1} — Coming soon.</p>
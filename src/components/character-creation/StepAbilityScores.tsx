@@ -0,0 +1,574 @@
+/**
+ * Step 4: Ability Scores
+ *
+ * Standard array (drag values onto abilities), point buy with a live budget,
+ * seeded 4d6-drop-lowest rolls with a reroll history, or manual entry. Totals
+ * include the origin increases for the edition: species traits under the 2014
+ * rules, the background's +2/+1 under the 2024 rules.
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState, type DragEvent } from 'react';
+import { Dices, Minus, Plus, X } from 'lucide-react';
+
+import { useBackgrounds } from '@/hooks/api/useOpen5e';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  MAX_PC_SCORE,
+  MIN_PC_SCORE,
+  POINT_BUY_COSTS,
+  POINT_BUY_TOTAL,
+  STANDARD_ARRAY,
+  calculateModifier,
+  calculateTotalPointCost,
+  formatModifier,
+  generateManual,
+  generateRolled,
+  generateStandardArray,
+  getPointBuyStatus,
+  rollAbilityScores,
+  validatePointBuy,
+  type GenerationMethod,
+} from '@/lib/engine/ability-scores';
+import {
+  calculateOriginBonuses,
+  parseBackgroundAbilityOptions,
+} from '@/lib/engine/character-builder';
+import { cn } from '@/lib/utils';
+
+import { ABILITY_SCORES, type AbilityScore } from '@/types/game';
+import type { WizardSelections } from '@/types/character';
+import type { ValidationError } from '@/stores/characterCreationStore';
+
+type AbilityScoresSelection = NonNullable<WizardSelections['abilityScores']>;
+type Scores = Record<AbilityScore, number>;
+
+const METHODS: { value: GenerationMethod; label: string; description: string }[] = [
+  { value: 'standard', label: 'Standard Array', description: '15, 14, 13, 12, 10, 8' },
+  { value: 'pointbuy', label: 'Point Buy', description: `${POINT_BUY_TOTAL} points, 8–15` },
+  { value: 'roll', label: 'Roll 4d6', description: 'Drop the lowest die' },
+  { value: 'manual', label: 'Manual', description: `Any score ${MIN_PC_SCORE}–${MAX_PC_SCORE}` },
+];
+
+const ABILITY_NAMES: Record<AbilityScore, string> = {
+  STR: 'Strength',
+  DEX: 'Dexterity',
+  CON: 'Constitution',
+  INT: 'Intelligence',
+  WIS: 'Wisdom',
+  CHA: 'Charisma',
+};
+
+function uniformScores(value: number): Scores {
+  return { STR: value, DEX: value, CON: value, INT: value, WIS: value, CHA: value };
+}
+
+function newSeed(): number {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+/**
+ * Get the values that are assigned to abilities for the standard array and rolled methods
+ *
+ * @param selection - Current ability score selection
+ * @returns Value pool, or an empty list for point buy and manual
+ */
+export function getScorePool(selection: WizardSelections['abilityScores']): number[] {
+  if (selection?.method === 'standard') return [...STANDARD_ARRAY];
+  if (selection?.method === 'roll') {
+    const history = selection.rollHistory ?? [];
+    const active = history[selection.activeRoll ?? history.length - 1];
+    return active?.rolls.map((r) => r.total) ?? [];
+  }
+  return [];
+}
+
+function scoresFromAssignments(
+  pool: number[],
+  assignments: Partial<Record<AbilityScore, number>>
+): Scores {
+  const scores = uniformScores(10);
+  for (const ability of ABILITY_SCORES) {
+    const index = assignments[ability];
+    if (index !== undefined && pool[index] !== undefined) scores[ability] = pool[index];
+  }
+  return scores;
+}
+
+/**
+ * Validate an ability score selection
+ *
+ * @param selection - Current ability score selection
+ * @param originErrors - Errors in the 2024 background increases
+ * @returns Validation errors for the step
+ */
+export function validateAbilityScoreSelection(
+  selection: WizardSelections['abilityScores'],
+  originErrors: string[] = []
+): ValidationError[] {
+  if (!selection) {
+    return [{ field: 'method', message: 'Choose how to generate ability scores.' }];
+  }
+
+  const errors: ValidationError[] = [];
+  const assigned = Object.fromEntries(
+    Object.entries(selection.assignments ?? {}).map(([ability, index]) => [
+      ability,
+      getScorePool(selection)[index],
+    ])
+  ) as Partial<Scores>;
+
+  let error: string | undefined;
+  switch (selection.method) {
+    case 'standard':
+      error = generateStandardArray(assigned).error;
+      break;
+    case 'pointbuy':
+      error = validatePointBuy(selection.scores).error;
+      break;
+    case 'roll': {
+      const history = selection.rollHistory ?? [];
+      const active = history[selection.activeRoll ?? history.length - 1];
+      error = active ? generateRolled(assigned, active.rolls).error : 'Roll your ability scores';
+      break;
+    }
+    case 'manual':
+      error = generateManual(selection.scores).error;
+      break;
+  }
+  if (error) errors.push({ field: 'scores', message: `${error}.` });
+
+  if (originErrors.length > 0) {
+    errors.push({
+      field: 'backgroundBonuses',
+      message: 'Assign your background increases as +2/+1 or +1/+1/+1.',
+    });
+  }
+  return errors;
+}
+
+export interface StepAbilityScoresProps {
+  selections: Partial<WizardSelections>;
+  onUpdate: (selection: AbilityScoresSelection) => void;
+  onValidationChange: (errors: ValidationError[]) => void;
+}
+
+export function StepAbilityScores({
+  selections,
+  onUpdate,
+  onValidationChange,
+}: StepAbilityScoresProps) {
+  const value = selections.abilityScores;
+  const isModern = selections.config?.edition === '2024';
+  const { data: backgrounds, isLoading } = useBackgrounds(
+    isModern ? (selections.config?.documentKeys ?? []) : []
+  );
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const background = backgrounds?.find((b) => b.key === selections.background?.backgroundKey);
+  const backgroundOptions = useMemo(() => parseBackgroundAbilityOptions(background), [background]);
+  const origin = useMemo(
+    () => calculateOriginBonuses(selections, background),
+    [selections, background]
+  );
+
+  useEffect(() => {
+    if (isModern && isLoading) return;
+    onValidationChange(validateAbilityScoreSelection(value, isModern ? origin.errors : []));
+  }, [isModern, isLoading, value, origin.errors, onValidationChange]);
+
+  const pool = getScorePool(value);
+  const assignments = value?.assignments ?? {};
+  const usedIndexes = new Set(Object.values(assignments));
+
+  const handleMethodChange = (method: GenerationMethod) => {
+    if (method === value?.method) return;
+    const base = { backgroundBonuses: value?.backgroundBonuses, assignments: {} };
+    switch (method) {
+      case 'standard':
+        onUpdate({ ...base, method, scores: uniformScores(10) });
+        break;
+      case 'pointbuy':
+        onUpdate({ ...base, method, scores: uniformScores(8) });
+        break;
+      case 'roll': {
+        const seed = newSeed();
+        const history = value?.rollHistory ?? [];
+        const rollHistory =
+          history.length > 0 ? history : [{ seed, rolls: rollAbilityScores(seed) }];
+        onUpdate({
+          ...base,
+          method,
+          scores: uniformScores(10),
+          rollHistory,
+          activeRoll: rollHistory.length - 1,
+        });
+        break;
+      }
+      case 'manual':
+        onUpdate({ ...base, method, scores: value?.scores ?? uniformScores(10) });
+        break;
+    }
+  };
+
+  const assign = (ability: AbilityScore, index: number | undefined) => {
+    if (!value) return;
+    const next = { ...assignments };
+    // A value can only sit on one ability: move it off any other slot
+    for (const other of ABILITY_SCORES) {
+      if (next[other] === index) delete next[other];
+    }
+    if (index === undefined) delete next[ability];
+    else next[ability] = index;
+    onUpdate({ ...value, assignments: next, scores: scoresFromAssignments(pool, next) });
+  };
+
+  const handleDrop = (ability: AbilityScore) => (event: DragEvent<HTMLElement>) => {
+    event.preventDefault();
+    const index = Number(event.dataTransfer.getData('text/plain'));
+    setDragIndex(null);
+    if (Number.isInteger(index)) assign(ability, index);
+  };
+
+  const handleReroll = () => {
+    if (!value) return;
+    const seed = newSeed();
+    const rollHistory = [...(value.rollHistory ?? []), { seed, rolls: rollAbilityScores(seed) }];
+    onUpdate({
+      ...value,
+      rollHistory,
+      activeRoll: rollHistory.length - 1,
+      assignments: {},
+      scores: uniformScores(10),
+    });
+  };
+
+  const handleUseRoll = (activeRoll: number) => {
+    if (!value || activeRoll === value.activeRoll) return;
+    onUpdate({ ...value, activeRoll, assignments: {}, scores: uniformScores(10) });
+  };
+
+  const handleScoreChange = (ability: AbilityScore, score: number) => {
+    if (!value || Number.isNaN(score)) return;
+    onUpdate({ ...value, scores: { ...value.scores, [ability]: score } });
+  };
+
+  const handleBackgroundBonus = (ability: AbilityScore, bonus: number) => {
+    const backgroundBonuses = { ...value?.backgroundBonuses, [ability]: bonus };
+    if (bonus === 0) delete backgroundBonuses[ability];
+    onUpdate({
+      method: value?.method ?? 'standard',
+      scores: value?.scores ?? uniformScores(10),
+      ...value,
+      backgroundBonuses,
+    });
+  };
+
+  const pointCost =
+    value?.method === 'pointbuy' &&
+    ABILITY_SCORES.every((a) => value.scores[a] >= 8 && value.scores[a] <= 15)
+      ? calculateTotalPointCost(value.scores)
+      : 0;
+  const usesPool = value?.method === 'standard' || value?.method === 'roll';
+  const history = value?.rollHistory ?? [];
+  const activeRoll = value?.activeRoll ?? history.length - 1;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h3 className="font-semibold text-foreground mb-3">Method</h3>
+        <div role="radiogroup" aria-label="Generation method" className="grid gap-3 sm:grid-cols-4">
+          {METHODS.map((method) => {
+            const isSelected = method.value === value?.method;
+            return (
+              <button
+                key={method.value}
+                type="button"
+                role="radio"
+                aria-checked={isSelected}
+                onClick={() => handleMethodChange(method.value)}
+                className={cn(
+                  'rounded-xl border p-3 text-left transition-all bg-card/60 hover:bg-card',
+                  isSelected
+                    ? 'border-primary bg-primary/5 shadow-sm ring-2 ring-primary/50'
+                    : 'border-border hover:border-primary/40'
+                )}
+              >
+                <p className="text-sm font-medium text-foreground">{method.label}</p>
+                <p className="mt-1 text-xs text-muted-foreground">{method.description}</p>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {value?.method === 'roll' && (
+        <div>
+          <div className="flex items-center justify-between gap-3 mb-3">
+            <h3 className="font-semibold text-foreground">Rolls</h3>
+            <Button type="button" variant="outline" size="sm" onClick={handleReroll}>
+              <Dices className="size-4" aria-hidden />
+              Reroll
+            </Button>
+          </div>
+          <ol className="space-y-2">
+            {history.map((set, index) => (
+              <li
+                key={`${set.seed}-${index}`}
+                className={cn(
+                  'flex flex-wrap items-center gap-3 rounded-lg border px-3 py-2 text-sm',
+                  index === activeRoll ? 'border-primary bg-primary/5' : 'border-border'
+                )}
+              >
+                <span className="text-xs font-semibold text-muted-foreground">#{index + 1}</span>
+                {set.rolls.map((roll, i) => (
+                  <span
+                    key={i}
+                    className="font-semibold text-foreground"
+                    title={roll.dice.join(' ')}
+                  >
+                    {roll.total}
+                    <span className="ml-1 text-[10px] font-normal text-muted-foreground">
+                      ({roll.dice.join('+')} −{roll.dropped})
+                    </span>
+                  </span>
+                ))}
+                {index !== activeRoll && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto"
+                    onClick={() => handleUseRoll(index)}
+                  >
+                    Use
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {usesPool && (
+        <div>
+          <h3 className="font-semibold text-foreground mb-1">Values</h3>
+          <p className="text-sm text-muted-foreground mb-3">
+            Drag each value onto an ability, or pick it from the list.
+          </p>
+          <div className="flex flex-wrap gap-2" aria-label="Unassigned values">
+            {pool.map((score, index) =>
+              usedIndexes.has(index) ? null : (
+                <span
+                  key={index}
+                  draggable
+                  onDragStart={(event) => {
+                    event.dataTransfer.setData('text/plain', String(index));
+                    setDragIndex(index);
+                  }}
+                  onDragEnd={() => setDragIndex(null)}
+                  className={cn(
+                    'cursor-grab rounded-md border border-border bg-card px-3 py-1.5 text-sm font-semibold text-foreground',
+                    dragIndex === index && 'opacity-50'
+                  )}
+                >
+                  {score}
+                </span>
+              )
+            )}
+            {usedIndexes.size >= pool.length && (
+              <p className="text-sm text-muted-foreground">All values assigned.</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {value?.method === 'pointbuy' && (
+        <p
+          className={cn(
+            'text-sm font-medium',
+            pointCost > POINT_BUY_TOTAL ? 'text-destructive' : 'text-foreground'
+          )}
+          aria-live="polite"
+        >
+          {pointCost}/{POINT_BUY_TOTAL} points · {getPointBuyStatus(POINT_BUY_TOTAL - pointCost)}
+        </p>
+      )}
+
+      {value && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-muted-foreground">
+                <th className="py-2 pr-3 font-medium">Ability</th>
+                <th className="py-2 pr-3 font-medium">Base</th>
+                <th className="py-2 pr-3 font-medium">{isModern ? 'Background' : 'Species'}</th>
+                <th className="py-2 pr-3 font-medium">Total</th>
+                <th className="py-2 font-medium">Modifier</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ABILITY_SCORES.map((ability) => {
+                const isAssigned = !usesPool || assignments[ability] !== undefined;
+                const base = value.scores[ability];
+                const bonus = origin.bonuses[ability];
+                const total = Math.min(MAX_PC_SCORE, base + bonus);
+                return (
+                  <tr
+                    key={ability}
+                    className="border-t border-border"
+                    onDragOver={usesPool ? (event) => event.preventDefault() : undefined}
+                    onDrop={usesPool ? handleDrop(ability) : undefined}
+                  >
+                    <th scope="row" className="py-2 pr-3 text-left font-medium text-foreground">
+                      {ABILITY_NAMES[ability]}
+                    </th>
+                    <td className="py-2 pr-3">
+                      {usesPool ? (
+                        <div className="flex items-center gap-1">
+                          <Select
+                            value={
+                              assignments[ability] !== undefined
+                                ? String(assignments[ability])
+                                : undefined
+                            }
+                            onValueChange={(v) => assign(ability, Number(v))}
+                          >
+                            <SelectTrigger
+                              aria-label={`${ABILITY_NAMES[ability]} score`}
+                              className={cn(
+                                'w-20',
+                                dragIndex !== null && !isAssigned && 'border-primary border-dashed'
+                              )}
+                            >
+                              <SelectValue placeholder="—" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {pool.map((score, index) =>
+                                usedIndexes.has(index) && assignments[ability] !== index ? null : (
+                                  <SelectItem key={index} value={String(index)}>
+                                    {score}
+                                  </SelectItem>
+                                )
+                              )}
+                            </SelectContent>
+                          </Select>
+                          {isAssigned && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              className="size-7"
+                              aria-label={`Clear ${ABILITY_NAMES[ability]}`}
+                              onClick={() => assign(ability, undefined)}
+                            >
+                              <X className="size-3.5" aria-hidden />
+                            </Button>
+                          )}
+                        </div>
+                      ) : value.method === 'pointbuy' ? (
+                        <div className="flex items-center gap-1">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="icon"
+                            className="size-7"
+                            aria-label={`Decrease ${ABILITY_NAMES[ability]}`}
+                            disabled={base <= 8}
+                            onClick={() => handleScoreChange(ability, base - 1)}
+                          >
+                            <Minus className="size-3.5" aria-hidden />
+                          </Button>
+                          <span className="w-6 text-center font-semibold text-foreground">
+                            {base}
+                          </span>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="icon"
+                            className="size-7"
+                            aria-label={`Increase ${ABILITY_NAMES[ability]}`}
+                            disabled={
+                              base >= 15 ||
+                              pointCost - POINT_BUY_COSTS[base] + POINT_BUY_COSTS[base + 1] >
+                                POINT_BUY_TOTAL
+                            }
+                            onClick={() => handleScoreChange(ability, base + 1)}
+                          >
+                            <Plus className="size-3.5" aria-hidden />
+                          </Button>
+                          <span className="ml-1 text-xs text-muted-foreground">
+                            {POINT_BUY_COSTS[base] ?? '—'} pts
+                          </span>
+                        </div>
+                      ) : (
+                        <Input
+                          type="number"
+                          min={MIN_PC_SCORE}
+                          max={MAX_PC_SCORE}
+                          value={base}
+                          aria-label={`${ABILITY_NAMES[ability]} score`}
+                          className="w-20"
+                          onChange={(event) =>
+                            handleScoreChange(ability, parseInt(event.target.value, 10))
+                          }
+                        />
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-muted-foreground">
+                      {isModern && backgroundOptions.includes(ability) ? (
+                        <Select
+                          value={String(value.backgroundBonuses?.[ability] ?? 0)}
+                          onValueChange={(v) => handleBackgroundBonus(ability, Number(v))}
+                        >
+                          <SelectTrigger
+                            aria-label={`${ABILITY_NAMES[ability]} background increase`}
+                            className="w-16"
+                          >
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="0">—</SelectItem>
+                            <SelectItem value="1">+1</SelectItem>
+                            <SelectItem value="2">+2</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      ) : bonus > 0 ? (
+                        `+${bonus}`
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 font-semibold text-foreground">
+                      {isAssigned ? total : '—'}
+                    </td>
+                    <td className="py-2 text-muted-foreground">
+                      {isAssigned && total >= 1 && total <= 30
+                        ? formatModifier(calculateModifier(total))
+                        : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {isModern && (
+            <p className="mt-3 text-xs text-muted-foreground">
+              Under the 2024 rules your background raises one listed ability by 2 and another by 1,
+              or three by 1.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
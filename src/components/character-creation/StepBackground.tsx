@@ -0,0 +1,267 @@
+/**
+ * Step 2: Choose Background
+ *
+ * Background cards with skill, tool and language grants, the background
+ * feature, and (2024 rules) an origin feat picker. The skill and tool grants
+ * are recorded on the selection so the built character can attribute them.
+ */
+
+'use client';
+
+import { useEffect, useMemo } from 'react';
+
+import { useBackgrounds, useFeats } from '@/hooks/api/useOpen5e';
+import { findSkillKey } from '@/lib/engine/character-builder';
+import { cn, toOpen5eDisplayString } from '@/lib/utils';
+
+import type { Edition } from '@/types/game';
+import type { WizardSelections } from '@/types/character';
+import type { Open5eBackground, Open5eFeat } from '@/types/open5e';
+import type { ValidationError } from '@/stores/characterCreationStore';
+
+type BackgroundSelection = NonNullable<WizardSelections['background']>;
+
+/**
+ * Get the origin feats a 2024 background can grant.
+ * Falls back to every feat when the documents do not tag feat types.
+ *
+ * @param feats - Feats from the selected documents
+ * @returns Feats eligible as an origin feat
+ */
+export function getOriginFeats(feats: Open5eFeat[]): Open5eFeat[] {
+  const origin = feats.filter((f) => f.type?.toLowerCase().includes('origin'));
+  return origin.length > 0 ? origin : feats;
+}
+
+/**
+ * Validate a background selection
+ *
+ * @param selection - Current background selection
+ * @param background - Selected Open5E background (if loaded)
+ * @param requiresOriginFeat - Whether an origin feat must be picked (2024 rules)
+ * @returns Validation errors for the step
+ */
+export function validateBackgroundSelection(
+  selection: WizardSelections['background'],
+  background: Open5eBackground | undefined,
+  requiresOriginFeat: boolean
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!selection?.backgroundKey || !background) {
+    errors.push({ field: 'background', message: 'Choose a background.' });
+    return errors;
+  }
+  if (requiresOriginFeat && !selection.originFeatKey) {
+    errors.push({ field: 'originFeat', message: 'Choose an origin feat.' });
+  }
+  return errors;
+}
+
+function toDisplayList(values: unknown[] | null | undefined): string[] {
+  return (values ?? []).map(toOpen5eDisplayString).filter((v) => v.length > 0);
+}
+
+export interface StepBackgroundProps {
+  documentKeys: string[];
+  edition: Edition;
+  value: WizardSelections['background'];
+  onUpdate: (selection: BackgroundSelection) => void;
+  onValidationChange: (errors: ValidationError[]) => void;
+}
+
+export function StepBackground({
+  documentKeys,
+  edition,
+  value,
+  onUpdate,
+  onValidationChange,
+}: StepBackgroundProps) {
+  const isModern = edition === '2024';
+  const { data: backgrounds, isLoading } = useBackgrounds(documentKeys);
+  const { data: feats, isLoading: isFeatsLoading } = useFeats(isModern ? documentKeys : []);
+
+  const selectedBackground = useMemo(
+    () => backgrounds?.find((b) => b.key === value?.backgroundKey),
+    [backgrounds, value?.backgroundKey]
+  );
+  const originFeats = useMemo(() => getOriginFeats(feats ?? []), [feats]);
+  const selectedFeat = originFeats.find((f) => f.key === value?.originFeatKey);
+
+  useEffect(() => {
+    if (isLoading || (isModern && isFeatsLoading)) return;
+    onValidationChange(
+      validateBackgroundSelection(value, selectedBackground, isModern && originFeats.length > 0)
+    );
+  }, [
+    isLoading,
+    isFeatsLoading,
+    isModern,
+    value,
+    selectedBackground,
+    originFeats.length,
+    onValidationChange,
+  ]);
+
+  const handleBackgroundChange = (background: Open5eBackground) => {
+    if (background.key === value?.backgroundKey) return;
+    onUpdate({
+      backgroundKey: background.key,
+      originFeatKey: value?.originFeatKey,
+      skillKeys: toDisplayList(background.skill_proficiencies)
+        .map(findSkillKey)
+        .filter((key): key is string => key !== null),
+      toolProficiencies: toDisplayList(background.tool_proficiencies),
+    });
+  };
+
+  const handleFeatChange = (originFeatKey: string) => {
+    if (!value) return;
+    onUpdate({ ...value, originFeatKey });
+  };
+
+  if (isLoading || !backgrounds) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <p className="text-muted-foreground animate-pulse">Loading backgrounds…</p>
+      </div>
+    );
+  }
+
+  if (backgrounds.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No backgrounds found in the selected rulebooks. Go back and choose another source.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h3 className="font-semibold text-foreground mb-3">Background</h3>
+        <div role="radiogroup" aria-label="Background" className="grid gap-3 sm:grid-cols-2">
+          {backgrounds.map((background) => {
+            const isSelected = background.key === value?.backgroundKey;
+            const skills = toDisplayList(background.skill_proficiencies);
+            return (
+              <button
+                key={background.key}
+                type="button"
+                role="radio"
+                aria-checked={isSelected}
+                onClick={() => handleBackgroundChange(background)}
+                className={cn(
+                  'rounded-xl border p-3 text-left transition-all bg-card/60 hover:bg-card',
+                  isSelected
+                    ? 'border-primary bg-primary/5 shadow-sm ring-2 ring-primary/50'
+                    : 'border-border hover:border-primary/40'
+                )}
+              >
+                <p className="text-sm font-medium text-foreground">{background.name}</p>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  Skills: {skills.join(', ') || 'None'}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {selectedBackground && (
+        <div className="rounded-lg border border-border bg-muted/30 p-4 space-y-3">
+          <h3 className="font-semibold text-foreground">{selectedBackground.name}</h3>
+          {selectedBackground.description && (
+            <p className="text-sm leading-6 text-muted-foreground whitespace-pre-line">
+              {selectedBackground.description}
+            </p>
+          )}
+          <dl className="grid gap-2 text-sm sm:grid-cols-2">
+            <div>
+              <dt className="font-medium text-foreground">Skill Proficiencies</dt>
+              <dd className="text-muted-foreground">
+                {toDisplayList(selectedBackground.skill_proficiencies).join(', ') || 'None'}
+              </dd>
+            </div>
+            <div>
+              <dt className="font-medium text-foreground">Tool Proficiencies</dt>
+              <dd className="text-muted-foreground">
+                {toDisplayList(selectedBackground.tool_proficiencies).join(', ') || 'None'}
+              </dd>
+            </div>
+            <div>
+              <dt className="font-medium text-foreground">Languages</dt>
+              <dd className="text-muted-foreground">
+                {toDisplayList(selectedBackground.languages).join(', ') || 'None'}
+              </dd>
+            </div>
+            <div>
+              <dt className="font-medium text-foreground">Equipment</dt>
+              <dd className="text-muted-foreground">{selectedBackground.equipment || 'None'}</dd>
+            </div>
+          </dl>
+          {selectedBackground.feature && (
+            <div>
+              <p className="text-sm font-medium text-foreground">
+                Feature: {selectedBackground.feature}
+              </p>
+              {selectedBackground.feature_description && (
+                <p className="mt-1 text-sm leading-6 text-muted-foreground whitespace-pre-line">
+                  {selectedBackground.feature_description}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {isModern && selectedBackground && (
+        <div>
+          <h3 className="font-semibold text-foreground mb-1">Origin Feat</h3>
+          <p className="text-sm text-muted-foreground mb-3">
+            Under the 2024 rules your background grants one origin feat.
+          </p>
+          {isFeatsLoading ? (
+            <p className="text-sm text-muted-foreground animate-pulse">Loading feats…</p>
+          ) : originFeats.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No feats found in the selected rulebooks.
+            </p>
+          ) : (
+            <div role="radiogroup" aria-label="Origin Feat" className="grid gap-3 sm:grid-cols-2">
+              {originFeats.map((feat) => {
+                const isSelected = feat.key === value?.originFeatKey;
+                return (
+                  <button
+                    key={feat.key}
+                    type="button"
+                    role="radio"
+                    aria-checked={isSelected}
+                    onClick={() => handleFeatChange(feat.key)}
+                    className={cn(
+                      'rounded-xl border p-3 text-left text-sm transition-all bg-card/60 hover:bg-card',
+                      isSelected
+                        ? 'border-primary bg-primary/5 shadow-sm'
+                        : 'border-border hover:border-primary/40'
+                    )}
+                  >
+                    <p className="font-medium text-foreground">{feat.name}</p>
+                    {feat.desc && (
+                      <p
+                        className={cn(
+                          'mt-1 text-xs leading-5 text-muted-foreground whitespace-pre-line',
+                          feat.key !== selectedFeat?.key && 'line-clamp-3'
+                        )}
+                      >
+                        {feat.desc}
+                      </p>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
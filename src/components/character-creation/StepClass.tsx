@@ -0,0 +1,341 @@
+/**
+ * Step 1: Choose Class
+ *
+ * Class cards with hit die, saving throws and proficiencies, a starting level
+ * picker, skill choices, archetype selection once the subclass unlocks, and a
+ * preview of class features gained up to the chosen level.
+ */
+
+'use client';
+
+import { useEffect, useMemo } from 'react';
+
+import { useClasses } from '@/hooks/api/useOpen5e';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  getSubclassUnlockLevel,
+  parseHitDie,
+  parseProficiencyList,
+  parseSavingThrows,
+  parseSkillChoices,
+} from '@/lib/engine/character-builder';
+import { SKILLS } from '@/types/game';
+
+import type { WizardSelections } from '@/types/character';
+import type { Open5eClass } from '@/types/open5e';
+import type { ValidationError } from '@/stores/characterCreationStore';
+
+import { cn } from '@/lib/utils';
+
+type ClassSelection = NonNullable<WizardSelections['class']>;
+
+const LEVELS = Array.from({ length: 20 }, (_, i) => i + 1);
+
+function skillName(key: string): string {
+  return SKILLS.find((s) => s.key === key)?.name ?? key;
+}
+
+/**
+ * Validate a class selection against the class data
+ *
+ * @param selection - Current class selection
+ * @param classData - Selected Open5E class (if loaded)
+ * @returns Validation errors for the step
+ */
+export function validateClassSelection(
+  selection: WizardSelections['class'],
+  classData: Open5eClass | undefined
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  if (!selection?.classKey || !classData) {
+    errors.push({ field: 'class', message: 'Choose a class.' });
+    return errors;
+  }
+
+  const unlockLevel = getSubclassUnlockLevel(classData);
+  if (
+    selection.level >= unlockLevel &&
+    (classData.archetypes?.length ?? 0) > 0 &&
+    !selection.archetypeKey
+  ) {
+    errors.push({
+      field: classData.subtypes_name || 'Archetype',
+      message: `Choose a subclass (unlocked at level ${unlockLevel}).`,
+    });
+  }
+
+  const { count } = parseSkillChoices(classData.prof_skills);
+  const chosen = selection.skillKeys?.length ?? 0;
+  if (chosen !== count) {
+    errors.push({ field: 'skills', message: `Choose ${count} skill proficiencies.` });
+  }
+
+  return errors;
+}
+
+export interface StepClassProps {
+  documentKeys: string[];
+  value: WizardSelections['class'];
+  onUpdate: (selection: ClassSelection) => void;
+  onValidationChange: (errors: ValidationError[]) => void;
+}
+
+export function StepClass({ documentKeys, value, onUpdate, onValidationChange }: StepClassProps) {
+  const { data: classes, isLoading } = useClasses(documentKeys);
+
+  const level = value?.level ?? 1;
+  const selectedClass = useMemo(
+    () => classes?.find((c) => c.key === value?.classKey),
+    [classes, value?.classKey]
+  );
+  const unlockLevel = selectedClass ? getSubclassUnlockLevel(selectedClass) : 3;
+  const skillChoices = useMemo(
+    () => parseSkillChoices(selectedClass?.prof_skills),
+    [selectedClass?.prof_skills]
+  );
+  const selectedArchetype = selectedClass?.archetypes?.find((a) => a.key === value?.archetypeKey);
+
+  useEffect(() => {
+    if (isLoading) return;
+    onValidationChange(validateClassSelection(value, selectedClass));
+  }, [isLoading, value, selectedClass, onValidationChange]);
+
+  const handleClassChange = (classKey: string) => {
+    if (classKey === value?.classKey) return;
+    onUpdate({ classKey, level, archetypeKey: undefined, skillKeys: [] });
+  };
+
+  const handleLevelChange = (next: number) => {
+    if (!value) return;
+    const archetypeKey = next >= unlockLevel ? value.archetypeKey : undefined;
+    onUpdate({ ...value, level: next, archetypeKey });
+  };
+
+  const handleArchetypeChange = (archetypeKey: string) => {
+    if (!value) return;
+    onUpdate({ ...value, archetypeKey });
+  };
+
+  const handleSkillToggle = (skillKey: string, checked: boolean) => {
+    if (!value) return;
+    const current = value.skillKeys ?? [];
+    const skillKeys = checked
+      ? [...current, skillKey].slice(0, skillChoices.count)
+      : current.filter((k) => k !== skillKey);
+    onUpdate({ ...value, skillKeys });
+  };
+
+  if (isLoading || !classes) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <p className="text-muted-foreground animate-pulse">Loading classes…</p>
+      </div>
+    );
+  }
+
+  if (classes.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No classes found in the selected rulebooks. Go back and choose another source.
+      </p>
+    );
+  }
+
+  const features = [
+    ...(selectedClass?.class_features ?? []),
+    ...(selectedArchetype?.features ?? []),
+  ]
+    .filter((f) => f.level <= level)
+    .sort((a, b) => a.level - b.level);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h3 className="font-semibold text-foreground mb-3">Class</h3>
+        <div role="radiogroup" aria-label="Class" className="grid gap-3 sm:grid-cols-2">
+          {classes.map((cls) => {
+            const isSelected = cls.key === value?.classKey;
+            const saves = parseSavingThrows(cls.prof_saving_throws);
+            const armor = parseProficiencyList(cls.prof_armor);
+            const weapons = parseProficiencyList(cls.prof_weapons);
+
+            return (
+              <button
+                key={cls.key}
+                type="button"
+                role="radio"
+                aria-checked={isSelected}
+                onClick={() => handleClassChange(cls.key)}
+                className={cn(
+                  'rounded-xl border p-3 text-left transition-all bg-card/60 hover:bg-card',
+                  isSelected
+                    ? 'border-primary bg-primary/5 shadow-sm ring-2 ring-primary/50'
+                    : 'border-border hover:border-primary/40'
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-sm font-medium text-foreground">{cls.name}</p>
+                  <span className="shrink-0 rounded-full border border-border px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">
+                    d{parseHitDie(cls.hit_dice)}
+                  </span>
+                </div>
+                <dl className="mt-2 space-y-1 text-xs text-muted-foreground">
+                  <div>
+                    <dt className="inline font-medium">Saves: </dt>
+                    <dd className="inline">{saves.join(', ') || '—'}</dd>
+                  </div>
+                  <div>
+                    <dt className="inline font-medium">Armor: </dt>
+                    <dd className="inline">{armor.join(', ') || 'None'}</dd>
+                  </div>
+                  <div>
+                    <dt className="inline font-medium">Weapons: </dt>
+                    <dd className="inline">{weapons.join(', ') || 'None'}</dd>
+                  </div>
+                </dl>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {selectedClass && value && (
+        <>
+          <div>
+            <Label htmlFor="class-level" className="font-semibold text-foreground">
+              Starting Level
+            </Label>
+            <p className="text-sm text-muted-foreground mb-2">
+              Characters usually start at level 1; higher levels suit one-shots and late joins.
+            </p>
+            <Select value={String(level)} onValueChange={(v) => handleLevelChange(Number(v))}>
+              <SelectTrigger id="class-level" className="w-full max-w-[8rem]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LEVELS.map((lvl) => (
+                  <SelectItem key={lvl} value={String(lvl)}>
+                    Level {lvl}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {skillChoices.count > 0 && (
+            <div>
+              <h3 className="font-semibold text-foreground mb-1">Skill Proficiencies</h3>
+              <p className="text-sm text-muted-foreground mb-3">
+                Choose {skillChoices.count} ({value.skillKeys?.length ?? 0}/{skillChoices.count}{' '}
+                selected).
+              </p>
+              <div className="grid gap-2 sm:grid-cols-3">
+                {skillChoices.options.map((key) => {
+                  const isChecked = value.skillKeys?.includes(key) ?? false;
+                  const isFull = (value.skillKeys?.length ?? 0) >= skillChoices.count;
+                  return (
+                    <label
+                      key={key}
+                      className={cn(
+                        'flex items-center gap-2 rounded-lg border border-border px-3 py-2 text-sm',
+                        !isChecked && isFull ? 'opacity-50' : 'cursor-pointer hover:bg-card'
+                      )}
+                    >
+                      <Checkbox
+                        checked={isChecked}
+                        disabled={!isChecked && isFull}
+                        onCheckedChange={(checked) => handleSkillToggle(key, checked === true)}
+                      />
+                      {skillName(key)}
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {(selectedClass.archetypes?.length ?? 0) > 0 && (
+            <div>
+              <h3 className="font-semibold text-foreground mb-1">
+                {selectedClass.subtypes_name || 'Subclass'}
+              </h3>
+              {level < unlockLevel ? (
+                <p className="text-sm text-muted-foreground">
+                  Unlocks at level {unlockLevel}. You will choose it when you level up.
+                </p>
+              ) : (
+                <div
+                  role="radiogroup"
+                  aria-label={selectedClass.subtypes_name || 'Subclass'}
+                  className="grid gap-3 sm:grid-cols-2"
+                >
+                  {selectedClass.archetypes.map((archetype) => {
+                    const isSelected = archetype.key === value.archetypeKey;
+                    return (
+                      <button
+                        key={archetype.key}
+                        type="button"
+                        role="radio"
+                        aria-checked={isSelected}
+                        onClick={() => handleArchetypeChange(archetype.key)}
+                        className={cn(
+                          'rounded-xl border p-3 text-left text-sm transition-all bg-card/60 hover:bg-card',
+                          isSelected
+                            ? 'border-primary bg-primary/5 shadow-sm'
+                            : 'border-border hover:border-primary/40'
+                        )}
+                      >
+                        <p className="font-medium text-foreground">{archetype.name}</p>
+                        {archetype.description && (
+                          <p className="mt-1 text-xs leading-5 text-muted-foreground line-clamp-3">
+                            {archetype.description}
+                          </p>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div>
+            <h3 className="font-semibold text-foreground mb-3">Features up to Level {level}</h3>
+            {features.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No features listed for this class.</p>
+            ) : (
+              <ol className="space-y-2">
+                {features.map((feature) => (
+                  <li
+                    key={feature.key}
+                    className="rounded-lg border border-border bg-muted/30 px-3 py-2"
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="shrink-0 rounded bg-primary/10 px-1.5 py-0.5 text-[10px] font-semibold text-primary">
+                        Lv {feature.level}
+                      </span>
+                      <p className="text-sm font-medium text-foreground">{feature.name}</p>
+                    </div>
+                    {feature.description && (
+                      <p className="mt-1 text-xs leading-5 text-muted-foreground line-clamp-3">
+                        {feature.description}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
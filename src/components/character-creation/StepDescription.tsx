@@ -0,0 +1,145 @@
+/**
+ * Step 7: Description
+ *
+ * Character name (required), alignment, backstory and physical appearance.
+ * Personality traits and notes can be filled in later on the sheet.
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+
+import { ALIGNMENTS, type Alignment, type Appearance, type Personality } from '@/types/game';
+import type { WizardSelections } from '@/types/character';
+import type { ValidationError } from '@/stores/characterCreationStore';
+
+type DescriptionSelection = NonNullable<WizardSelections['description']>;
+
+const APPEARANCE_FIELDS: { key: keyof Appearance; label: string }[] = [
+  { key: 'age', label: 'Age' },
+  { key: 'height', label: 'Height' },
+  { key: 'weight', label: 'Weight' },
+  { key: 'eyes', label: 'Eyes' },
+  { key: 'skin', label: 'Skin' },
+  { key: 'hair', label: 'Hair' },
+];
+
+export interface StepDescriptionProps {
+  value?: DescriptionSelection;
+  onUpdate: (selection: DescriptionSelection) => void;
+  onValidationChange: (errors: ValidationError[]) => void;
+}
+
+export function StepDescription({ value, onUpdate, onValidationChange }: StepDescriptionProps) {
+  const name = value?.name ?? '';
+  const alignment = value?.alignment;
+  const personality = value?.personality ?? {};
+  const appearance = value?.appearance ?? {};
+
+  useEffect(() => {
+    const errors: ValidationError[] = [];
+    if (!name.trim()) {
+      errors.push({ field: 'name', message: 'Enter a name for your character.' });
+    }
+    onValidationChange(errors);
+  }, [name, onValidationChange]);
+
+  const update = (changes: Partial<DescriptionSelection>) => {
+    onUpdate({ name, alignment, personality, appearance, ...changes });
+  };
+
+  const updatePersonality = (key: keyof Personality, text: string) => {
+    update({ personality: { ...personality, [key]: text } });
+  };
+
+  const updateAppearance = (key: keyof Appearance, text: string) => {
+    update({ appearance: { ...appearance, [key]: text } });
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <Label htmlFor="character-name" className="font-semibold text-foreground">
+          Character Name
+        </Label>
+        <p className="text-sm text-muted-foreground mb-2">Required to create the character.</p>
+        <Input
+          id="character-name"
+          value={name}
+          onChange={(e) => update({ name: e.target.value })}
+          placeholder="e.g., Tordek Ironfist"
+          className="max-w-md"
+          aria-required="true"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor="character-alignment" className="font-semibold text-foreground">
+          Alignment
+        </Label>
+        <p className="text-sm text-muted-foreground mb-2">
+          Your character&apos;s moral and ethical outlook.
+        </p>
+        <Select
+          value={alignment}
+          onValueChange={(next) => update({ alignment: next as Alignment })}
+        >
+          <SelectTrigger id="character-alignment" className="w-full max-w-xs">
+            <SelectValue placeholder="Choose an alignment" />
+          </SelectTrigger>
+          <SelectContent>
+            {ALIGNMENTS.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label htmlFor="character-backstory" className="font-semibold text-foreground">
+          Backstory (optional)
+        </Label>
+        <Textarea
+          id="character-backstory"
+          value={personality.backstory ?? ''}
+          onChange={(e) => updatePersonality('backstory', e.target.value)}
+          placeholder="Where does your character come from?"
+          rows={4}
+          className="mt-2"
+        />
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-foreground mb-3">Appearance (optional)</h3>
+        <div className="grid gap-3 sm:grid-cols-3">
+          {APPEARANCE_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <Label htmlFor={`appearance-${key}`} className="text-sm text-muted-foreground">
+                {label}
+              </Label>
+              <Input
+                id={`appearance-${key}`}
+                value={appearance[key] ?? ''}
+                onChange={(e) => updateAppearance(key, e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,281 @@
+/**
+ * Step 5: Equipment
+ *
+ * Starting equipment parsed from the class and background text into
+ * "choose one of" groups, weapon picks for generic entries ("a martial
+ * weapon"), the take-gold-instead alternative, and equipped marks.
+ */
+
+'use client';
+
+import { useEffect, useMemo } from 'react';
+
+import { useBackgrounds, useClasses, useEquipment } from '@/hooks/api/useOpen5e';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getEngineClassKey } from '@/lib/engine/character-builder';
+import {
+  getStartingGold,
+  getWeaponChoices,
+  parseStartingEquipment,
+  resolveStartingEquipment,
+  type EquipmentChoiceGroup,
+  type EquipmentSelection,
+} from '@/lib/engine/starting-equipment';
+import { cn } from '@/lib/utils';
+
+import type { WizardSelections } from '@/types/character';
+import type { Open5eItem } from '@/types/open5e';
+import type { ValidationError } from '@/stores/characterCreationStore';
+
+/**
+ * Validate the equipment selection against the parsed groups
+ *
+ * @param missing - Unresolved group and weapon pick IDs from resolveStartingEquipment
+ * @returns Validation errors for the step
+ */
+export function validateEquipmentSelection(missing: string[]): ValidationError[] {
+  return missing.length > 0
+    ? [{ field: 'equipment', message: 'Choose an option for every equipment choice.' }]
+    : [];
+}
+
+export interface StepEquipmentProps {
+  selections: Partial<WizardSelections>;
+  onUpdate: (selection: EquipmentSelection) => void;
+  onValidationChange: (errors: ValidationError[]) => void;
+}
+
+export function StepEquipment({ selections, onUpdate, onValidationChange }: StepEquipmentProps) {
+  const documentKeys = selections.config?.documentKeys ?? [];
+  const value = selections.equipment;
+  const { data: classes, isLoading: isClassesLoading } = useClasses(documentKeys);
+  const { data: backgrounds, isLoading: isBackgroundsLoading } = useBackgrounds(documentKeys);
+  const { data: equipment, isLoading: isEquipmentLoading } = useEquipment(documentKeys);
+  const isLoading = isClassesLoading || isBackgroundsLoading || isEquipmentLoading;
+
+  const classData = classes?.find((c) => c.key === selections.class?.classKey);
+  const background = backgrounds?.find((b) => b.key === selections.background?.backgroundKey);
+  const catalog = useMemo<Open5eItem[]>(
+    () => (equipment ? [...equipment.weapons, ...equipment.armor, ...equipment.items] : []),
+    [equipment]
+  );
+  const groups = useMemo<EquipmentChoiceGroup[]>(
+    () => [
+      ...parseStartingEquipment(classData?.equipment, 'class', catalog),
+      ...parseStartingEquipment(background?.equipment, 'background', catalog),
+    ],
+    [classData?.equipment, background?.equipment, catalog]
+  );
+  const startingGold =
+    selections.config?.edition !== '2024' && classData
+      ? getStartingGold(getEngineClassKey(classData))
+      : null;
+  const resolved = useMemo(
+    () => resolveStartingEquipment(groups, value, catalog, startingGold),
+    [groups, value, catalog, startingGold]
+  );
+
+  useEffect(() => {
+    if (isLoading) return;
+    onValidationChange(validateEquipmentSelection(resolved.missing));
+  }, [isLoading, resolved.missing, onValidationChange]);
+
+  // Keep the stored items in step with the groups (fixed grants, class or background changes)
+  useEffect(() => {
+    if (isLoading) return;
+    const { items, currency } = resolved;
+    if (
+      JSON.stringify(items) !== JSON.stringify(value?.items ?? null) ||
+      JSON.stringify(currency) !== JSON.stringify(value?.currency ?? null)
+    ) {
+      onUpdate({ ...value, items, currency });
+    }
+  }, [isLoading, resolved, value, onUpdate]);
+
+  const update = (next: Partial<EquipmentSelection>) => {
+    const selection = { ...value, ...next };
+    const { items, currency } = resolveStartingEquipment(groups, selection, catalog, startingGold);
+    onUpdate({ ...selection, items, currency });
+  };
+
+  const handleChoice = (groupId: string, optionIndex: number) => {
+    update({ choices: { ...value?.choices, [groupId]: optionIndex } });
+  };
+
+  const handleWeaponPick = (entryId: string, itemKey: string) => {
+    update({ weaponPicks: { ...value?.weaponPicks, [entryId]: itemKey } });
+  };
+
+  const handleEquippedToggle = (entryId: string, checked: boolean) => {
+    const current = value?.equippedIds ?? [];
+    update({
+      equippedIds: checked ? [...current, entryId] : current.filter((id) => id !== entryId),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <p className="text-muted-foreground animate-pulse">Loading equipment…</p>
+      </div>
+    );
+  }
+
+  if (groups.length === 0 && startingGold === null) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Your class and background list no starting equipment. You can add items from the character
+        sheet.
+      </p>
+    );
+  }
+
+  const takeGold = Boolean(value?.takeGold) && startingGold !== null;
+
+  return (
+    <div className="space-y-8">
+      {startingGold !== null && (
+        <label className="flex items-start gap-3 rounded-lg border border-border bg-muted/30 p-3 text-sm cursor-pointer">
+          <Checkbox
+            checked={takeGold}
+            onCheckedChange={(checked) => update({ takeGold: checked === true })}
+            className="mt-0.5"
+          />
+          <span>
+            <span className="font-medium text-foreground">Take gold instead</span>
+            <span className="block text-muted-foreground">
+              Skip the class and background equipment and start with {startingGold} gp to buy your
+              own.
+            </span>
+          </span>
+        </label>
+      )}
+
+      {!takeGold &&
+        (['class', 'background'] as const).map((source) => {
+          const sourceGroups = groups.filter((g) => g.source === source);
+          if (sourceGroups.length === 0) return null;
+          return (
+            <div key={source}>
+              <h3 className="font-semibold text-foreground mb-3">
+                {source === 'class' ? classData?.name : background?.name} Equipment
+              </h3>
+              <ol className="space-y-3">
+                {sourceGroups.map((group) => {
+                  const chosen = group.options.length === 1 ? 0 : value?.choices?.[group.id];
+                  return (
+                    <li key={group.id} className="rounded-lg border border-border p-3">
+                      {group.options.length > 1 ? (
+                        <div
+                          role="radiogroup"
+                          aria-label="Equipment choice"
+                          className="grid gap-2 sm:grid-cols-2"
+                        >
+                          {group.options.map((option, index) => (
+                            <button
+                              key={index}
+                              type="button"
+                              role="radio"
+                              aria-checked={chosen === index}
+                              onClick={() => handleChoice(group.id, index)}
+                              className={cn(
+                                'rounded-md border px-3 py-2 text-left text-sm transition-all bg-card/60 hover:bg-card',
+                                chosen === index
+                                  ? 'border-primary bg-primary/5 shadow-sm'
+                                  : 'border-border hover:border-primary/40'
+                              )}
+                            >
+                              <span className="mr-1 font-semibold text-muted-foreground">
+                                ({String.fromCharCode(97 + index)})
+                              </span>
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-sm text-foreground">{group.options[0].label}</p>
+                      )}
+
+                      {chosen !== undefined &&
+                        group.options[chosen]?.entries
+                          .filter((entry) => entry.weaponCategory)
+                          .map((entry) => (
+                            <div key={entry.id} className="mt-3 flex items-center gap-3">
+                              <span className="w-40 text-sm text-muted-foreground">
+                                {entry.name}
+                              </span>
+                              <Select
+                                value={value?.weaponPicks?.[entry.id]}
+                                onValueChange={(key) => handleWeaponPick(entry.id, key)}
+                              >
+                                <SelectTrigger
+                                  aria-label={entry.name}
+                                  className="w-full max-w-[14rem]"
+                                >
+                                  <SelectValue placeholder="Choose a weapon" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {getWeaponChoices(entry, equipment?.weapons ?? []).map(
+                                    (weapon) => (
+                                      <SelectItem key={weapon.key} value={weapon.key}>
+                                        {weapon.name}
+                                      </SelectItem>
+                                    )
+                                  )}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          ))}
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          );
+        })}
+
+      <div>
+        <h3 className="font-semibold text-foreground mb-1">Starting Inventory</h3>
+        <p className="text-sm text-muted-foreground mb-3">
+          Mark the armor, shield and weapons you start with equipped.
+        </p>
+        {resolved.items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No items yet.</p>
+        ) : (
+          <ul className="grid gap-2 sm:grid-cols-2">
+            {resolved.items.map((item, index) => (
+              <li key={item.entryId ?? index}>
+                <label className="flex items-center gap-2 rounded-lg border border-border px-3 py-2 text-sm cursor-pointer hover:bg-card">
+                  <Checkbox
+                    checked={item.equipped ?? false}
+                    onCheckedChange={(checked) =>
+                      item.entryId && handleEquippedToggle(item.entryId, checked === true)
+                    }
+                    aria-label={`Equip ${item.name}`}
+                  />
+                  <span className="text-foreground">{item.name}</span>
+                  {item.quantity > 1 && (
+                    <span className="text-muted-foreground">×{item.quantity}</span>
+                  )}
+                  {!item.itemKey && (
+                    <span className="ml-auto text-[10px] uppercase tracking-wide text-muted-foreground">
+                      Custom
+                    </span>
+                  )}
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="mt-3 text-sm text-foreground">Gold: {resolved.currency?.gp ?? 0} gp</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * Step 8: Review
+ *
+ * Summary of the character built from the wizard selections.
+ * Creation itself is triggered by the wizard's "Create Character" button.
+ */
+
+'use client';
+
+import type { ReactNode } from 'react';
+
+import { ABILITY_SCORES, SKILLS } from '@/types/game';
+import { formatModifier } from '@/lib/engine/ability-scores';
+import type { NewCharacter } from '@/lib/engine/character-builder';
+
+interface StepReviewProps {
+  character: NewCharacter | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+function ReviewSection({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="rounded-lg border border-border bg-muted/30 p-4">
+      <h3 className="font-semibold text-foreground mb-3">{title}</h3>
+      {children}
+    </section>
+  );
+}
+
+function ReviewList({ items }: { items: string[] }) {
+  if (items.length === 0) {
+    return <p className="text-sm text-muted-foreground">None</p>;
+  }
+  return <p className="text-sm text-foreground">{items.join(', ')}</p>;
+}
+
+export function StepReview({ character, isLoading, error }: StepReviewProps) {
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <p className="text-muted-foreground animate-pulse">Loading rulebook data…</p>
+      </div>
+    );
+  }
+
+  if (error || !character) {
+    return (
+      <div role="alert" className="rounded-lg border-2 border-destructive/30 bg-destructive/5 p-4">
+        <p className="text-sm font-medium text-destructive">
+          {error ?? 'The character could not be built from the current selections.'}
+        </p>
+      </div>
+    );
+  }
+
+  const primaryClass = character.classes[0];
+  const skillNames = character.skills.map(
+    (skill) => SKILLS.find((s) => s.key === skill.skillKey)?.name ?? skill.skillKey
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <p className="font-[family-name:var(--font-cinzel)] text-xl font-bold text-foreground">
+          {character.name}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Level {character.level} {character.race.subrace ?? character.race.name}{' '}
+          {primaryClass?.name}
+          {character.background.name ? ` · ${character.background.name}` : ''}
+          {` · ${character.alignment}`}
+        </p>
+      </div>
+
+      <ReviewSection title="Ability Scores">
+        <dl className="grid grid-cols-3 sm:grid-cols-6 gap-3 text-center">
+          {ABILITY_SCORES.map((ability) => (
+            <div key={ability} className="rounded-md bg-background p-2">
+              <dt className="text-xs font-medium text-muted-foreground">{ability}</dt>
+              <dd className="text-lg font-bold text-foreground">
+                {character.abilityScores.total[ability]}
+              </dd>
+              <dd className="text-xs text-muted-foreground">
+                {formatModifier(character.abilityScores.modifier[ability])}
+              </dd>
+            </div>
+          ))}
+        </dl>
+      </ReviewSection>
+
+      <ReviewSection title="Combat">
+        <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+          <div>
+            <dt className="text-muted-foreground">Hit Points</dt>
+            <dd className="font-semibold text-foreground">{character.combat.maxHp}</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Armor Class</dt>
+            <dd className="font-semibold text-foreground">{character.combat.ac.total}</dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Initiative</dt>
+            <dd className="font-semibold text-foreground">
+              {formatModifier(character.combat.initiative)}
+            </dd>
+          </div>
+          <div>
+            <dt className="text-muted-foreground">Speed</dt>
+            <dd className="font-semibold text-foreground">{character.combat.speed} ft</dd>
+          </div>
+        </dl>
+      </ReviewSection>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <ReviewSection title="Skills">
+          <ReviewList items={skillNames} />
+        </ReviewSection>
+        <ReviewSection title="Saving Throws">
+          <ReviewList items={character.proficiencies.savingThrows ?? []} />
+        </ReviewSection>
+        <ReviewSection title="Armor & Weapons">
+          <ReviewList
+            items={[...character.proficiencies.armor, ...character.proficiencies.weapons]}
+          />
+        </ReviewSection>
+        <ReviewSection title="Tools & Languages">
+          <ReviewList
+            items={[...character.proficiencies.tools, ...character.proficiencies.languages]}
+          />
+        </ReviewSection>
+      </div>
+
+      <ReviewSection title="Features">
+        <ReviewList items={character.features.map((f) => f.name)} />
+      </ReviewSection>
+
+      {character.spellcasting && (
+        <ReviewSection title="Spellcasting">
+          <p className="text-sm text-foreground mb-2">
+            Save DC {character.spellcasting.saveDC} · Attack{' '}
+            {formatModifier(character.spellcasting.attackBonus)}
+          </p>
+          <ReviewList items={character.spellcasting.knownSpells.map((s) => s.name)} />
+        </ReviewSection>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+/**
+ * Step 3: Choose Species
+ *
+ * Species cards with speed, size and languages, a subrace picker when the
+ * species has subraces, and the full trait text of the selection. Under the
+ * 2014 rules the "Ability Score Increase" trait is parsed into bonuses the
+ * ability score step and character builder apply.
+ */
+
+'use client';
+
+import { useEffect, useMemo } from 'react';
+
+import { useSpecies } from '@/hooks/api/useOpen5e';
+import { flattenSpeciesWithSubspecies, type SpeciesOption } from '@/lib/api/endpoints/species';
+import { applySpeciesBonuses, type SpeciesBonus } from '@/lib/engine/ability-scores';
+import { parseSpeciesAbilityBonuses } from '@/lib/engine/character-builder';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+import { ABILITY_SCORES, type AbilityScore, type Edition } from '@/types/game';
+import type { WizardSelections } from '@/types/character';
+import type { ValidationError } from '@/stores/characterCreationStore';
+
+type SpeciesSelection = NonNullable<WizardSelections['species']>;
+
+const ZERO_SCORES: Record<AbilityScore, number> = {
+  STR: 0,
+  DEX: 0,
+  CON: 0,
+  INT: 0,
+  WIS: 0,
+  CHA: 0,
+};
+
+/** Number of abilities picked for each choice bonus */
+const CHOICE_COUNTS: Partial<Record<SpeciesBonus['ability'], number>> = {
+  any: 1,
+  any_two: 2,
+  any_three: 3,
+};
+
+/**
+ * Validate a species selection
+ *
+ * @param selection - Current species selection
+ * @param options - Flattened species options (if loaded)
+ * @returns Validation errors for the step
+ */
+export function validateSpeciesSelection(
+  selection: WizardSelections['species'],
+  options: SpeciesOption[] | undefined
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const species = options?.find((o) => o.key === selection?.speciesKey && !o.parentKey);
+  if (!selection || !species) {
+    errors.push({ field: 'species', message: 'Choose a species.' });
+    return errors;
+  }
+
+  const hasSubraces = options?.some((o) => o.parentKey === species.key) ?? false;
+  if (hasSubraces && !selection.subraceKey) {
+    errors.push({ field: 'subrace', message: `Choose a ${species.name} subrace.` });
+  }
+
+  const bonuses = selection.abilityBonuses ?? [];
+  if (bonuses.some((b) => CHOICE_COUNTS[b.ability])) {
+    const { errors: bonusErrors } = applySpeciesBonuses(
+      ZERO_SCORES,
+      bonuses,
+      selection.bonusChoices
+    );
+    if (bonusErrors.length > 0) {
+      errors.push({
+        field: 'abilityBonuses',
+        message: 'Choose a different ability for each ability score increase.',
+      });
+    }
+  }
+
+  return errors;
+}
+
+export interface StepSpeciesProps {
+  documentKeys: string[];
+  edition: Edition;
+  value: WizardSelections['species'];
+  onUpdate: (selection: SpeciesSelection) => void;
+  onValidationChange: (errors: ValidationError[]) => void;
+}
+
+export function StepSpecies({
+  documentKeys,
+  edition,
+  value,
+  onUpdate,
+  onValidationChange,
+}: StepSpeciesProps) {
+  const isModern = edition === '2024';
+  const { data: species, isLoading } = useSpecies(documentKeys);
+
+  const options = useMemo(
+    () => (species ? flattenSpeciesWithSubspecies(species) : undefined),
+    [species]
+  );
+  const baseOptions = options?.filter((o) => !o.parentKey) ?? [];
+  const selectedSpecies = baseOptions.find((o) => o.key === value?.speciesKey);
+  const subraceOptions = options?.filter((o) => o.parentKey === value?.speciesKey) ?? [];
+  const selectedSubrace = subraceOptions.find((o) => o.key === value?.subraceKey);
+  const shown = selectedSubrace ?? selectedSpecies;
+
+  useEffect(() => {
+    if (isLoading) return;
+    onValidationChange(validateSpeciesSelection(value, options));
+  }, [isLoading, value, options, onValidationChange]);
+
+  const selectOption = (option: SpeciesOption, subraceKey?: string) => {
+    onUpdate({
+      speciesKey: option.parentKey ?? option.key,
+      subraceKey,
+      abilityBonuses: isModern ? [] : parseSpeciesAbilityBonuses(option.traits),
+      bonusChoices: {},
+    });
+  };
+
+  const handleSpeciesChange = (option: SpeciesOption) => {
+    if (option.key === value?.speciesKey) return;
+    selectOption(option);
+  };
+
+  const handleSubraceChange = (option: SpeciesOption) => {
+    if (option.key === value?.subraceKey) return;
+    selectOption(option, option.key);
+  };
+
+  const handleBonusChoice = (bonusKey: string, slot: number, ability: string) => {
+    if (!value) return;
+    const current = value.bonusChoices?.[bonusKey]?.split(',') ?? [];
+    current[slot] = ability;
+    onUpdate({
+      ...value,
+      bonusChoices: { ...value.bonusChoices, [bonusKey]: current.join(',') },
+    });
+  };
+
+  if (isLoading || !options) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <p className="text-muted-foreground animate-pulse">Loading species…</p>
+      </div>
+    );
+  }
+
+  if (baseOptions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No species found in the selected rulebooks. Go back and choose another source.
+      </p>
+    );
+  }
+
+  const bonuses = value?.abilityBonuses ?? [];
+  const fixedAbilities = bonuses
+    .filter((b) => !CHOICE_COUNTS[b.ability])
+    .map((b) => b.ability as AbilityScore);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h3 className="font-semibold text-foreground mb-3">Species</h3>
+        <div role="radiogroup" aria-label="Species" className="grid gap-3 sm:grid-cols-2">
+          {baseOptions.map((option) => {
+            const isSelected = option.key === value?.speciesKey;
+            return (
+              <button
+                key={option.key}
+                type="button"
+                role="radio"
+                aria-checked={isSelected}
+                onClick={() => handleSpeciesChange(option)}
+                className={cn(
+                  'rounded-xl border p-3 text-left transition-all bg-card/60 hover:bg-card',
+                  isSelected
+                    ? 'border-primary bg-primary/5 shadow-sm ring-2 ring-primary/50'
+                    : 'border-border hover:border-primary/40'
+                )}
+              >
+                <p className="text-sm font-medium text-foreground">{option.name}</p>
+                <p className="mt-1 text-xs text-muted-foreground capitalize">
+                  {option.size} · {option.speed} ft
+                  {option.languages.length > 0 ? ` · ${option.languages.join(', ')}` : ''}
+                </p>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {selectedSpecies && subraceOptions.length > 0 && (
+        <div>
+          <h3 className="font-semibold text-foreground mb-3">Subrace</h3>
+          <div role="radiogroup" aria-label="Subrace" className="grid gap-3 sm:grid-cols-2">
+            {subraceOptions.map((option) => {
+              const isSelected = option.key === value?.subraceKey;
+              return (
+                <button
+                  key={option.key}
+                  type="button"
+                  role="radio"
+                  aria-checked={isSelected}
+                  onClick={() => handleSubraceChange(option)}
+                  className={cn(
+                    'rounded-xl border p-3 text-left text-sm transition-all bg-card/60 hover:bg-card',
+                    isSelected
+                      ? 'border-primary bg-primary/5 shadow-sm'
+                      : 'border-border hover:border-primary/40'
+                  )}
+                >
+                  <p className="font-medium text-foreground">{option.name}</p>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {shown && value && (
+        <>
+          <div>
+            <h3 className="font-semibold text-foreground mb-1">Ability Score Increases</h3>
+            {isModern ? (
+              <p className="text-sm text-muted-foreground">
+                Under the 2024 rules ability score increases come from your background.
+              </p>
+            ) : bonuses.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No ability score increases listed for this species.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  {bonuses
+                    .map((b) =>
+                      CHOICE_COUNTS[b.ability]
+                        ? `+${b.bonus} to ${CHOICE_COUNTS[b.ability]} of your choice`
+                        : `${b.ability} +${b.bonus}`
+                    )
+                    .join(', ')}
+                </p>
+                {bonuses
+                  .filter((b) => CHOICE_COUNTS[b.ability])
+                  .map((bonus) => {
+                    const chosen = value.bonusChoices?.[bonus.ability]?.split(',') ?? [];
+                    return Array.from({ length: CHOICE_COUNTS[bonus.ability] ?? 0 }, (_, slot) => {
+                      const id = `species-bonus-${bonus.ability}-${slot}`;
+                      return (
+                        <div key={id} className="flex items-center gap-3">
+                          <Label htmlFor={id} className="w-28 text-sm">
+                            +{bonus.bonus} choice {slot + 1}
+                          </Label>
+                          <Select
+                            value={chosen[slot] || undefined}
+                            onValueChange={(v) => handleBonusChoice(bonus.ability, slot, v)}
+                          >
+                            <SelectTrigger id={id} className="w-full max-w-[8rem]">
+                              <SelectValue placeholder="Ability" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ABILITY_SCORES.filter(
+                                (a) =>
+                                  !fixedAbilities.includes(a) &&
+                                  (a === chosen[slot] || !chosen.includes(a))
+                              ).map((ability) => (
+                                <SelectItem key={ability} value={ability}>
+                                  {ability}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      );
+                    });
+                  })}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="font-semibold text-foreground mb-3">{shown.name} Traits</h3>
+            {shown.traits.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No traits listed for this species.</p>
+            ) : (
+              <ul className="space-y-2">
+                {shown.traits.map((trait, index) => (
+                  <li
+                    key={`${trait.name}-${index}`}
+                    className="rounded-lg border border-border bg-muted/30 px-3 py-2"
+                  >
+                    <p className="text-sm font-medium text-foreground">{trait.name}</p>
+                    <p className="mt-1 text-sm leading-6 text-muted-foreground whitespace-pre-line">
+                      {trait.description}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
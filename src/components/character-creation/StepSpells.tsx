@@ -0,0 +1,346 @@
+/**
+ * Step 6: Spells
+ *
+ * Cantrips and leveled spells from the class spell list, up to the highest
+ * spell level the class level allows. Known casters pick their spells known;
+ * preparation casters pick prepared spells; wizards fill their spellbook and
+ * prepare a subset of it. Only shown for spellcasting classes.
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+
+import { useBackgrounds, useClasses, useSpells } from '@/hooks/api/useOpen5e';
+import { filterSpellsByClass, groupSpellsByLevel } from '@/lib/api/endpoints/spells';
+import { calculateOriginBonuses, getEngineClassKey } from '@/lib/engine/character-builder';
+import {
+  calculateSpellSelectionLimits,
+  getSpellcastingAbility,
+  type SpellSelectionLimits,
+} from '@/lib/engine/spellcasting';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+
+import type { SpellLevel } from '@/types/game';
+import type { WizardSelections } from '@/types/character';
+import type { Open5eSpell } from '@/types/open5e';
+import type { ValidationError } from '@/stores/characterCreationStore';
+
+type SpellSelection = NonNullable<WizardSelections['spells']>;
+type SpellPick = SpellSelection['knownPrepared'][number];
+
+const LEVEL_LABELS = ['Cantrips', '1st', '2nd', '3rd', '4th', '5th', '6th', '7th', '8th', '9th'];
+
+/**
+ * Validate a spell selection against the class limits
+ *
+ * @param selection - Current spell selection
+ * @param limits - Pick limits for the class and level
+ * @param available - Number of cantrips and leveled spells on the class list
+ * @returns Validation errors for the step
+ */
+export function validateSpellSelection(
+  selection: WizardSelections['spells'],
+  limits: SpellSelectionLimits | null,
+  available: { cantrips: number; spells: number }
+): ValidationError[] {
+  if (!limits) return [];
+  const errors: ValidationError[] = [];
+
+  const cantrips = selection?.cantrips.length ?? 0;
+  const requiredCantrips = Math.min(limits.cantrips, available.cantrips);
+  if (cantrips > limits.cantrips) {
+    errors.push({ field: 'cantrips', message: `Choose at most ${limits.cantrips} cantrips.` });
+  } else if (cantrips < requiredCantrips) {
+    errors.push({ field: 'cantrips', message: `Choose ${requiredCantrips} cantrips.` });
+  }
+
+  const prepared = selection?.knownPrepared.length ?? 0;
+  if (limits.spellbook !== null) {
+    const spellbook = selection?.spellbook?.length ?? 0;
+    const requiredSpellbook = Math.min(limits.spellbook, available.spells);
+    if (spellbook > limits.spellbook) {
+      errors.push({
+        field: 'spellbook',
+        message: `Your spellbook holds at most ${limits.spellbook} spells.`,
+      });
+    } else if (spellbook < requiredSpellbook) {
+      errors.push({
+        field: 'spellbook',
+        message: `Choose ${requiredSpellbook} spells for your spellbook.`,
+      });
+    }
+    const inBook = new Set(selection?.spellbook?.map((s) => s.spellKey));
+    if (selection?.knownPrepared.some((s) => !inBook.has(s.spellKey))) {
+      errors.push({ field: 'prepared', message: 'Prepare only spells from your spellbook.' });
+    }
+  }
+
+  if (prepared > limits.spells) {
+    errors.push({
+      field: 'spells',
+      message:
+        limits.mode === 'prepared'
+          ? `You can prepare at most ${limits.spells} spells.`
+          : `Choose at most ${limits.spells} spells known.`,
+    });
+  } else if (limits.mode === 'known' && prepared < Math.min(limits.spells, available.spells)) {
+    errors.push({
+      field: 'spells',
+      message: `Choose ${Math.min(limits.spells, available.spells)} spells known.`,
+    });
+  }
+
+  return errors;
+}
+
+export interface StepSpellsProps {
+  selections: Partial<WizardSelections>;
+  onUpdate: (selection: SpellSelection) => void;
+  onValidationChange: (errors: ValidationError[]) => void;
+}
+
+export function StepSpells({ selections, onUpdate, onValidationChange }: StepSpellsProps) {
+  const documentKeys = selections.config?.documentKeys ?? [];
+  const value = selections.spells;
+  const [search, setSearch] = useState('');
+  const { data: classes, isLoading: isClassesLoading } = useClasses(documentKeys);
+  const { data: backgrounds, isLoading: isBackgroundsLoading } = useBackgrounds(documentKeys);
+  const { data: spells, isLoading: isSpellsLoading } = useSpells(documentKeys);
+  const isLoading = isClassesLoading || isBackgroundsLoading || isSpellsLoading;
+
+  const classData = classes?.find((c) => c.key === selections.class?.classKey);
+  const background = backgrounds?.find((b) => b.key === selections.background?.backgroundKey);
+  const classKey = classData ? getEngineClassKey(classData) : '';
+  const ability = getSpellcastingAbility(classKey);
+  const level = selections.class?.level ?? 1;
+
+  const abilityScore = useMemo(() => {
+    if (!ability) return 10;
+    const { bonuses } = calculateOriginBonuses(selections as WizardSelections, background);
+    return (selections.abilityScores?.scores[ability] ?? 10) + bonuses[ability];
+  }, [ability, selections, background]);
+
+  const limits = useMemo(
+    () => (classKey ? calculateSpellSelectionLimits(classKey, level, abilityScore) : null),
+    [classKey, level, abilityScore]
+  );
+
+  const classSpells = useMemo<Open5eSpell[]>(
+    () =>
+      spells && classData
+        ? filterSpellsByClass(spells, classData.name).filter(
+            (spell) => spell.level <= (limits?.maxSpellLevel ?? 0)
+          )
+        : [],
+    [spells, classData, limits?.maxSpellLevel]
+  );
+  const available = useMemo(
+    () => ({
+      cantrips: classSpells.filter((s) => s.level === 0).length,
+      spells: classSpells.filter((s) => s.level > 0).length,
+    }),
+    [classSpells]
+  );
+
+  useEffect(() => {
+    if (isLoading) return;
+    onValidationChange(validateSpellSelection(value, limits, available));
+  }, [isLoading, value, limits, available, onValidationChange]);
+
+  const current: SpellSelection = {
+    cantrips: value?.cantrips ?? [],
+    knownPrepared: value?.knownPrepared ?? [],
+    ...(limits?.spellbook != null ? { spellbook: value?.spellbook ?? [] } : {}),
+  };
+
+  const toggleCantrip = (spellKey: string, checked: boolean) => {
+    onUpdate({
+      ...current,
+      cantrips: checked
+        ? [...current.cantrips, spellKey]
+        : current.cantrips.filter((key) => key !== spellKey),
+    });
+  };
+
+  const togglePick = (
+    list: 'knownPrepared' | 'spellbook',
+    spell: Open5eSpell,
+    checked: boolean
+  ) => {
+    const picks = current[list] ?? [];
+    const next: SpellPick[] = checked
+      ? [...picks, { spellKey: spell.key, level: spell.level as SpellLevel }]
+      : picks.filter((s) => s.spellKey !== spell.key);
+    onUpdate({
+      ...current,
+      [list]: next,
+      // Removing a spell from the spellbook also unprepares it
+      ...(list === 'spellbook' && !checked
+        ? { knownPrepared: current.knownPrepared.filter((s) => s.spellKey !== spell.key) }
+        : {}),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <p className="text-muted-foreground animate-pulse">Loading spells…</p>
+      </div>
+    );
+  }
+
+  if (!classData || !limits) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Your class does not cast spells. Continue to the next step.
+      </p>
+    );
+  }
+
+  const query = search.trim().toLowerCase();
+  const matches = (spell: Open5eSpell) => !query || spell.name.toLowerCase().includes(query);
+  const cantripOptions = classSpells.filter((s) => s.level === 0 && matches(s));
+  const leveledOptions = classSpells.filter((s) => s.level > 0 && matches(s));
+  const spellbookKeys = new Set(current.spellbook?.map((s) => s.spellKey));
+  const preparedOptions =
+    limits.spellbook !== null
+      ? classSpells.filter((s) => spellbookKeys.has(s.key) && matches(s))
+      : leveledOptions;
+
+  const renderSpellList = (
+    options: Open5eSpell[],
+    isChecked: (spell: Open5eSpell) => boolean,
+    isFull: boolean,
+    onToggle: (spell: Open5eSpell, checked: boolean) => void,
+    emptyMessage: string
+  ) => {
+    if (options.length === 0) {
+      return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+    }
+    return (
+      <div className="space-y-4">
+        {[...groupSpellsByLevel(options)]
+          .sort(([a], [b]) => a - b)
+          .map(([spellLevel, levelSpells]) => (
+            <div key={spellLevel}>
+              {spellLevel > 0 && (
+                <p className="mb-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                  {LEVEL_LABELS[spellLevel]} level
+                </p>
+              )}
+              <ul className="grid gap-2 sm:grid-cols-2">
+                {levelSpells.map((spell) => {
+                  const checked = isChecked(spell);
+                  const disabled = !checked && isFull;
+                  return (
+                    <li key={spell.key}>
+                      <label
+                        className={cn(
+                          'flex items-center gap-2 rounded-lg border px-3 py-2 text-sm transition-all',
+                          checked
+                            ? 'border-primary bg-primary/5 shadow-sm'
+                            : 'border-border hover:bg-card',
+                          disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'
+                        )}
+                      >
+                        <Checkbox
+                          checked={checked}
+                          disabled={disabled}
+                          onCheckedChange={(state) => onToggle(spell, state === true)}
+                        />
+                        <span className="text-foreground">{spell.name}</span>
+                        <span className="ml-auto text-xs text-muted-foreground capitalize">
+                          {spell.school}
+                          {spell.ritual ? ' · ritual' : ''}
+                        </span>
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ))}
+      </div>
+    );
+  };
+
+  const spellsLabel = limits.mode === 'prepared' ? 'Prepared Spells' : 'Spells Known';
+
+  return (
+    <div className="space-y-8">
+      <Input
+        type="search"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search spells"
+        aria-label="Search spells"
+        className="max-w-sm"
+      />
+
+      {limits.cantrips > 0 && (
+        <div>
+          <h3 className="font-semibold text-foreground mb-1">
+            Cantrips ({current.cantrips.length}/{limits.cantrips})
+          </h3>
+          <p className="text-sm text-muted-foreground mb-3">
+            Cantrips can be cast at will and are always ready.
+          </p>
+          {renderSpellList(
+            cantripOptions,
+            (spell) => current.cantrips.includes(spell.key),
+            current.cantrips.length >= limits.cantrips,
+            (spell, checked) => toggleCantrip(spell.key, checked),
+            'No cantrips match.'
+          )}
+        </div>
+      )}
+
+      {limits.spellbook !== null && limits.spells > 0 && (
+        <div>
+          <h3 className="font-semibold text-foreground mb-1">
+            Spellbook ({current.spellbook?.length ?? 0}/{limits.spellbook})
+          </h3>
+          <p className="text-sm text-muted-foreground mb-3">
+            Copy spells into your spellbook. You prepare your daily spells from it.
+          </p>
+          {renderSpellList(
+            leveledOptions,
+            (spell) => spellbookKeys.has(spell.key),
+            (current.spellbook?.length ?? 0) >= limits.spellbook,
+            (spell, checked) => togglePick('spellbook', spell, checked),
+            'No spells match.'
+          )}
+        </div>
+      )}
+
+      {limits.spells > 0 ? (
+        <div>
+          <h3 className="font-semibold text-foreground mb-1">
+            {spellsLabel} ({current.knownPrepared.length}/{limits.spells})
+          </h3>
+          <p className="text-sm text-muted-foreground mb-3">
+            {limits.spellbook !== null
+              ? `Prepare up to ${limits.spells} spells from your spellbook.`
+              : limits.mode === 'prepared'
+                ? `Prepare up to ${limits.spells} spells. You can change them after a long rest.`
+                : `Choose ${limits.spells} spells. You can swap one when you gain a level.`}
+          </p>
+          {renderSpellList(
+            preparedOptions,
+            (spell) => current.knownPrepared.some((s) => s.spellKey === spell.key),
+            current.knownPrepared.length >= limits.spells,
+            (spell, checked) => togglePick('knownPrepared', spell, checked),
+            limits.spellbook !== null ? 'Add spells to your spellbook first.' : 'No spells match.'
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          You gain leveled spells at a higher {classData.name} level.
+        </p>
+      )}
+    </div>
+  );
+}
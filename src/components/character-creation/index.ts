@@ -7,5 +7,13 @@
 
 export { CharacterCreationWizard } from './CharacterCreationWizard';
 export { StepConfig } from './StepConfig';
+export { StepClass } from './StepClass';
+export { StepBackground } from './StepBackground';
+export { StepSpecies } from './StepSpecies';
+export { StepAbilityScores } from './StepAbilityScores';
+export { StepEquipment } from './StepEquipment';
+export { StepSpells } from './StepSpells';
+export { StepDescription } from './StepDescription';
+export { StepReview } from './StepReview';
 export { StepWrapper } from './StepWrapper';
 export { WizardLayout } from './WizardLayout';
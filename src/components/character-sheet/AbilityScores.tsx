@@ -13,7 +13,11 @@ import { cn } from '@/lib/utils';
 import type { AbilityScore } from '@/types/game';
 import { ABILITY_SCORES } from '@/types/game';
 import { formatModifier } from '@/lib/engine/ability-scores';
+import { d20Notation } from '@/lib/engine/dice';
+import { getRollMode, type StatBreakdown, type StatBreakdowns } from '@/lib/engine/effects';
 import { EditableField } from './EditableField';
+import { RollButton, type RollHandler } from './RollButton';
+import { StatTooltip } from './StatTooltip';
 import { ChevronDown, ChevronUp } from 'lucide-react';
 
 // Full names for abilities
@@ -41,9 +45,15 @@ interface AbilityScoresProps {
   modifiers: Record<AbilityScore, number>;
   saveProficiencies: Record<AbilityScore, boolean>;
   proficiencyBonus: number;
+  /** Derived save totals; calculated from the modifiers when omitted */
+  saveModifiers?: Record<AbilityScore, number>;
+  /** Where each score and save came from, shown on hover */
+  breakdown?: StatBreakdowns;
   onScoreChange?: (ability: AbilityScore, score: number) => void;
   onSaveProficiencyChange?: (ability: AbilityScore, proficient: boolean) => void;
   onSave?: () => void;
+  /** Rolls an ability check or save when its modifier is clicked */
+  onRoll?: RollHandler;
   className?: string;
 }
 
@@ -54,14 +64,18 @@ function AbilityScoreItem({
   ability,
   score,
   modifier,
+  breakdown,
   onScoreChange,
   onSave,
+  onRoll,
 }: {
   ability: AbilityScore;
   score: number;
   modifier: number;
+  breakdown?: StatBreakdown;
   onScoreChange?: (score: number) => void;
   onSave?: () => void;
+  onRoll?: RollHandler;
 }) {
   return (
     <div
@@ -101,16 +115,27 @@ function AbilityScoreItem({
       </div>
 
       {/* Modifier */}
-      <div
-        className={cn(
-          'flex-shrink-0 px-1.5 py-0.5 rounded text-sm font-bold',
-          modifier > 0 && 'bg-emerald-100 text-emerald-800',
-          modifier < 0 && 'bg-red-100 text-red-800',
-          modifier === 0 && 'bg-gray-200 text-gray-700'
-        )}
-      >
-        {formatModifier(modifier)}
-      </div>
+      <StatTooltip breakdown={breakdown} title={`${ABILITY_NAMES[ability]} ${score}`}>
+        <div
+          className={cn(
+            'flex-shrink-0 px-1.5 py-0.5 rounded text-sm font-bold',
+            modifier > 0 && 'bg-emerald-100 text-emerald-800',
+            modifier < 0 && 'bg-red-100 text-red-800',
+            modifier === 0 && 'bg-gray-200 text-gray-700'
+          )}
+        >
+          <RollButton
+            request={{
+              label: `${ABILITY_NAMES[ability]} check`,
+              notation: d20Notation(modifier),
+              kind: 'check',
+            }}
+            onRoll={onRoll}
+          >
+            {formatModifier(modifier)}
+          </RollButton>
+        </div>
+      </StatTooltip>
     </div>
   );
 }
@@ -122,59 +147,75 @@ function SavingThrowItem({
   ability,
   isProficient,
   totalModifier,
+  breakdown,
   onToggle,
+  onRoll,
 }: {
   ability: AbilityScore;
   isProficient: boolean;
   totalModifier: number;
+  breakdown?: StatBreakdown;
   onToggle?: () => void;
+  onRoll?: RollHandler;
 }) {
   return (
-    <button
-      type="button"
-      onClick={onToggle}
-      className={cn(
-        'flex items-center gap-1.5 px-2 py-1 rounded',
-        'transition-all text-left',
-        isProficient
-          ? 'bg-emerald-100 border border-emerald-300 hover:bg-emerald-200'
-          : 'bg-white border border-amber-200 hover:bg-amber-50'
-      )}
-      title={`${ABILITY_NAMES[ability]} Save`}
-    >
-      {/* Proficiency indicator */}
+    <StatTooltip breakdown={breakdown} title={`${ABILITY_NAMES[ability]} Save`} signed>
       <div
         className={cn(
-          'w-3.5 h-3.5 rounded border flex items-center justify-center',
-          isProficient ? 'bg-emerald-500 border-emerald-600' : 'bg-gray-100 border-gray-300'
+          'flex items-center gap-1.5 px-2 py-1 rounded',
+          'transition-all text-left',
+          isProficient
+            ? 'bg-emerald-100 border border-emerald-300 hover:bg-emerald-200'
+            : 'bg-white border border-amber-200 hover:bg-amber-50'
         )}
       >
-        {isProficient && (
-          <svg className="w-2.5 h-2.5 text-white" fill="currentColor" viewBox="0 0 20 20">
-            <path
-              fillRule="evenodd"
-              d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"
-              clipRule="evenodd"
-            />
-          </svg>
-        )}
-      </div>
+        <button
+          type="button"
+          onClick={onToggle}
+          className="flex items-center gap-1.5"
+          title={`${ABILITY_NAMES[ability]} Save`}
+        >
+          {/* Proficiency indicator */}
+          <div
+            className={cn(
+              'w-3.5 h-3.5 rounded border flex items-center justify-center',
+              isProficient ? 'bg-emerald-500 border-emerald-600' : 'bg-gray-100 border-gray-300'
+            )}
+          >
+            {isProficient && (
+              <svg className="w-2.5 h-2.5 text-white" fill="currentColor" viewBox="0 0 20 20">
+                <path
+                  fillRule="evenodd"
+                  d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"
+                  clipRule="evenodd"
+                />
+              </svg>
+            )}
+          </div>
 
-      {/* Ability abbreviation */}
-      <span className="text-xs font-bold text-gray-700">{ability}</span>
+          {/* Ability abbreviation */}
+          <span className="text-xs font-bold text-gray-700">{ability}</span>
+        </button>
 
-      {/* Total modifier */}
-      <span
-        className={cn(
-          'text-sm font-bold ml-auto',
-          totalModifier > 0 && 'text-emerald-700',
-          totalModifier < 0 && 'text-red-600',
-          totalModifier === 0 && 'text-gray-600'
-        )}
-      >
-        {formatModifier(totalModifier)}
-      </span>
-    </button>
+        {/* Total modifier */}
+        <RollButton
+          request={{
+            label: `${ABILITY_NAMES[ability]} save`,
+            notation: d20Notation(totalModifier, breakdown ? getRollMode(breakdown) : 'normal'),
+            kind: 'save',
+          }}
+          onRoll={onRoll}
+          className={cn(
+            'text-sm font-bold ml-auto',
+            totalModifier > 0 && 'text-emerald-700',
+            totalModifier < 0 && 'text-red-600',
+            totalModifier === 0 && 'text-gray-600'
+          )}
+        >
+          {formatModifier(totalModifier)}
+        </RollButton>
+      </div>
+    </StatTooltip>
   );
 }
 
@@ -187,15 +228,19 @@ export function AbilityScores({
   modifiers,
   saveProficiencies,
   proficiencyBonus,
+  saveModifiers,
+  breakdown,
   onScoreChange,
   onSaveProficiencyChange,
   onSave,
+  onRoll,
   className,
 }: AbilityScoresProps) {
   const [showSaves, setShowSaves] = useState(false);
 
   // Calculate saving throw modifiers
   const getSaveModifier = (ability: AbilityScore): number => {
+    if (saveModifiers) return saveModifiers[ability];
     const baseMod = modifiers[ability] ?? 0;
     const profBonus = saveProficiencies[ability] ? proficiencyBonus : 0;
     return baseMod + profBonus;
@@ -258,8 +303,10 @@ export function AbilityScores({
                 ability={ability}
                 score={scores[ability] ?? 10}
                 modifier={modifiers[ability] ?? 0}
+                breakdown={breakdown?.[`ability:${ability}`]}
                 onScoreChange={(score) => onScoreChange?.(ability, score)}
                 onSave={onSave}
+                onRoll={onRoll}
               />
             ))}
           </div>
@@ -279,7 +326,9 @@ export function AbilityScores({
                   ability={ability}
                   isProficient={saveProficiencies[ability] ?? false}
                   totalModifier={getSaveModifier(ability)}
+                  breakdown={breakdown?.[`save:${ability}`]}
                   onToggle={() => onSaveProficiencyChange?.(ability, !saveProficiencies[ability])}
+                  onRoll={onRoll}
                 />
               ))}
             </div>
@@ -81,6 +81,11 @@ function ActionCard({
               <span className="font-medium text-red-700">
                 {action.attackDetails.damage} {action.attackDetails.damageType}
               </span>
+              {action.attackDetails.versatileDamage && (
+                <span className="text-xs text-red-600">
+                  ({action.attackDetails.versatileDamage} two-handed)
+                </span>
+              )}
               <span className="text-gray-400">|</span>
               <span className="text-amber-700 text-xs">{action.attackDetails.range}</span>
             </div>
@@ -14,6 +14,8 @@ import { Button } from '@/components/ui/button';
 import { Plus, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
 import type { CharacterAction, ActionType } from '@/types/game';
 import { formatModifier } from '@/lib/engine/ability-scores';
+import { d20Notation } from '@/lib/engine/dice';
+import { RollButton, type RollHandler } from './RollButton';
 
 interface ActionsSectionProps {
   actions: CharacterAction[];
@@ -21,6 +23,8 @@ interface ActionsSectionProps {
   onAddAction?: (action: Omit<CharacterAction, 'id'>) => void;
   onRemoveAction?: (actionId: string) => void;
   onUseAction?: (actionId: string) => void;
+  /** Rolls attacks and damage when clicked */
+  onRoll?: RollHandler;
 }
 
 /**
@@ -30,12 +34,16 @@ function ActionCard({
   action,
   onRemove,
   onUse,
+  onRoll,
 }: {
   action: CharacterAction;
   onRemove?: (id: string) => void;
   onUse?: (id: string) => void;
+  onRoll?: RollHandler;
 }) {
   const [expanded, setExpanded] = useState(false);
+  // Set by a natural 20 on the attack roll; the next damage roll is a critical hit
+  const [criticalHit, setCriticalHit] = useState(false);
 
   const isCustom = action.source === 'custom';
   const hasUses = action.uses !== undefined;
@@ -60,13 +68,50 @@ function ActionCard({
 
           {action.isAttack && action.attackDetails && (
             <div className="flex items-center gap-3 mt-1 text-sm flex-wrap">
-              <span className="font-medium text-amber-800">
+              <RollButton
+                request={{
+                  label: `${action.name} attack`,
+                  notation: d20Notation(action.attackDetails.bonus),
+                  kind: 'attack',
+                }}
+                onRoll={onRoll}
+                onRolled={(result) => setCriticalHit(result.isCritical)}
+                className="font-medium text-amber-800"
+              >
                 {formatModifier(action.attackDetails.bonus)} to hit
-              </span>
+              </RollButton>
               <span className="text-gray-400">|</span>
-              <span className="font-medium text-red-700">
+              <RollButton
+                request={{
+                  label: `${action.name} damage`,
+                  notation: `${action.attackDetails.damage} ${action.attackDetails.damageType}`,
+                  kind: 'damage',
+                  critical: criticalHit,
+                }}
+                onRoll={onRoll}
+                onRolled={() => setCriticalHit(false)}
+                className="font-medium text-red-700"
+              >
                 {action.attackDetails.damage} {action.attackDetails.damageType}
-              </span>
+              </RollButton>
+              {action.attackDetails.versatileDamage && (
+                <RollButton
+                  request={{
+                    label: `${action.name} damage (two-handed)`,
+                    notation: `${action.attackDetails.versatileDamage} ${action.attackDetails.damageType}`,
+                    kind: 'damage',
+                    critical: criticalHit,
+                  }}
+                  onRoll={onRoll}
+                  onRolled={() => setCriticalHit(false)}
+                  className="text-xs text-red-600"
+                >
+                  ({action.attackDetails.versatileDamage} two-handed)
+                </RollButton>
+              )}
+              {criticalHit && (
+                <span className="text-xs font-bold text-red-700 uppercase">Critical hit!</span>
+              )}
               <span className="text-gray-400">|</span>
               <span className="text-amber-700 text-xs">{action.attackDetails.range}</span>
             </div>
@@ -217,6 +262,7 @@ export function ActionsSection({
   onAddAction,
   onRemoveAction,
   onUseAction,
+  onRoll,
 }: ActionsSectionProps) {
   const [showAddAction, setShowAddAction] = useState(false);
 
@@ -232,6 +278,7 @@ export function ActionsSection({
             action={action}
             onRemove={onRemoveAction}
             onUse={onUseAction}
+            onRoll={onRoll}
           />
         ))}
 
@@ -7,7 +7,7 @@
 
 'use client';
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 
 import {
@@ -24,14 +24,34 @@ import { NotesPanel } from '@/components/character-sheet/NotesPanel';
 import { CombatActionsPanel } from '@/components/character-sheet/CombatActionsPanel';
 import { EquipmentPanel } from '@/components/character-sheet/EquipmentPanel';
 import { FeaturesPanel } from '@/components/character-sheet/FeaturesPanel';
+import { LevelUpDialog } from '@/components/character-sheet/LevelUpDialog';
+import { RestDialog } from '@/components/character-sheet/RestDialog';
+import { HistoryDrawer } from '@/components/character-sheet/HistoryDrawer';
+import { RollLogPanel } from '@/components/character-sheet/RollLogPanel';
+import type { RollHandler } from '@/components/character-sheet/RollButton';
 import { mockCharacter, mockSpellcaster } from '@/lib/debug/mockCharacters';
-import { useCharacter } from '@/hooks/useCharacter';
+import { useAddRoll, useCharacter } from '@/hooks/useCharacter';
 import { useAutoSave, SaveIndicator } from '@/hooks/useAutoSave';
+import { useUndoShortcuts } from '@/hooks/useUndoShortcuts';
 import { useCharacterStore } from '@/stores/characterStore';
 import { deleteCharacter } from '@/lib/db/characters';
+import { downloadCharacterPdf } from '@/lib/pdf/export';
+import { downloadCharacterFile } from '@/lib/transfer/character-file';
+import { EMPTY_IMPORT_CATALOG } from '@/lib/transfer/external';
+import { downloadFoundryActor } from '@/lib/transfer/foundry-export';
+import { loadImportCatalog } from '@/lib/transfer/import';
+import { useCampaign } from '@/hooks/useCampaign';
+import { useEquipment } from '@/hooks/api/useOpen5e';
 import { toOpen5eDisplayString } from '@/lib/utils';
 import type { Character, CharacterUpdate } from '@/types/character';
-import type { ProficiencyLevel, SpellLevel } from '@/types/game';
+import type { AbilityScore, ProficiencyLevel, SpellLevel } from '@/types/game';
+import type { RestType } from '@/lib/engine/features';
+import { rollDice } from '@/lib/engine/dice';
+import {
+  deriveCharacterStats,
+  type CharacterContentIndex,
+  type DerivedCharacterStats,
+} from '@/lib/engine/derived-stats';
 
 const DEBUG_IDS = ['debug-fighter', 'debug-wizard'];
 
@@ -39,6 +59,54 @@ interface CharacterSheetClientProps {
   characterId: string;
 }
 
+/**
+ * Derived values in the shapes the sheet panels take; edits still go to the
+ * stored character
+ */
+function getSheetValues(character: Character, stats: DerivedCharacterStats) {
+  const saveProficiencies = {} as Record<AbilityScore, boolean>;
+  const saveModifiers = {} as Record<AbilityScore, number>;
+  for (const save of Object.values(stats.savingThrows)) {
+    saveProficiencies[save.ability] = save.isProficient;
+    saveModifiers[save.ability] = save.total;
+  }
+  const skillProficiencies: Record<string, ProficiencyLevel> = {};
+  const skillModifiers: Record<string, number> = {};
+  for (const skill of Object.values(stats.skills)) {
+    skillProficiencies[skill.skillKey] = skill.proficiencyLevel;
+    skillModifiers[skill.skillKey] = skill.total;
+  }
+  const { armorClass } = stats;
+  const combat = {
+    ...character.combat,
+    maxHp: stats.maxHp,
+    initiative: stats.initiative.total,
+    speed: stats.speed,
+    ac: {
+      base: armorClass.base,
+      dexModifier: armorClass.dexModifier,
+      bonus: armorClass.shieldBonus + armorClass.magicBonus + armorClass.featureBonus,
+      total: armorClass.total,
+    },
+  };
+  const spellcasting =
+    character.spellcasting && stats.spellcasting
+      ? {
+          ...character.spellcasting,
+          saveDC: stats.spellcasting.saveDC,
+          attackBonus: stats.spellcasting.attackBonus,
+        }
+      : character.spellcasting;
+  return {
+    saveProficiencies,
+    saveModifiers,
+    skillProficiencies,
+    skillModifiers,
+    combat,
+    spellcasting,
+  };
+}
+
 function DebugCharacterSheet({ characterId }: CharacterSheetClientProps) {
   // Use appropriate mock character based on ID
   const isWizard = characterId === 'debug-wizard';
@@ -59,14 +127,16 @@ function DebugCharacterSheet({ characterId }: CharacterSheetClientProps) {
     }, 500);
   };
 
-  // Calculate proficiency bonus based on level
-  const proficiencyBonus = Math.floor((character.level - 1) / 4) + 2;
-
-  // Convert skills array to proficiency map
-  const skillProficiencies: Record<string, ProficiencyLevel> = {};
-  character.skills.forEach((skill) => {
-    skillProficiencies[skill.skillKey] = skill.proficiency as ProficiencyLevel;
-  });
+  const stats = deriveCharacterStats(character);
+  const proficiencyBonus = stats.proficiencyBonus;
+  const {
+    saveProficiencies,
+    saveModifiers,
+    skillProficiencies,
+    skillModifiers,
+    combat,
+    spellcasting,
+  } = getSheetValues(character, stats);
 
   return (
     <CharacterSheetLayout>
@@ -109,16 +179,11 @@ function DebugCharacterSheet({ characterId }: CharacterSheetClientProps) {
       {/* Ability Scores Bar - Right under header */}
       <CharacterSheetHeader>
         <AbilityScores
-          scores={character.abilityScores.total}
-          modifiers={character.abilityScores.modifier}
-          saveProficiencies={{
-            STR: character.classes.some((c) => c.key === 'fighter' || c.key === 'barbarian'),
-            DEX: false,
-            CON: character.classes.some((c) => c.key === 'fighter' || c.key === 'barbarian'),
-            INT: false,
-            WIS: false,
-            CHA: false,
-          }}
+          scores={stats.abilityScores.total}
+          modifiers={stats.abilityScores.modifier}
+          saveProficiencies={saveProficiencies}
+          saveModifiers={saveModifiers}
+          breakdown={stats.breakdown}
           proficiencyBonus={proficiencyBonus}
           onScoreChange={(ability, score) => {
             // TODO: Update ability score
@@ -138,9 +203,12 @@ function DebugCharacterSheet({ characterId }: CharacterSheetClientProps) {
         <div className="flex flex-col gap-4">
           {/* Skills Panel */}
           <SkillsPanel
-            abilityModifiers={character.abilityScores.modifier}
+            abilityModifiers={stats.abilityScores.modifier}
             skillProficiencies={skillProficiencies}
             proficiencyBonus={proficiencyBonus}
+            skillModifiers={skillModifiers}
+            passivePerception={stats.passivePerception}
+            breakdown={stats.breakdown}
             onSkillProficiencyChange={(skillKey, level) => {
               // TODO: Update skill proficiency
               console.log(`Update ${skillKey} proficiency to ${level}`);
@@ -162,9 +230,12 @@ function DebugCharacterSheet({ characterId }: CharacterSheetClientProps) {
         <div className="flex flex-col gap-4">
           {/* Combat Stats */}
           <CombatStats
-            combatStats={character.combat}
+            combatStats={combat}
             classes={character.classes}
             conditions={character.conditions}
+            breakdown={stats.breakdown}
+            resistances={stats.resistances}
+            armorWarnings={stats.armor?.warnings}
             onACChange={(ac) => console.log('AC changed:', ac)}
             onDeathSaveChange={(type, value) => console.log('Death save changed:', type, value)}
             onConditionToggle={(conditionKey) => {
@@ -209,7 +280,8 @@ function DebugCharacterSheet({ characterId }: CharacterSheetClientProps) {
           {/* HP Tracker */}
           <HPTracker
             currentHp={character.combat.currentHp}
-            maxHp={character.combat.maxHp}
+            maxHp={stats.maxHp}
+            maxHpBreakdown={stats.breakdown.maxHp}
             tempHp={character.combat.tempHp}
             onHpChange={(current, temp) => console.log('HP changed:', current, temp)}
             onDamage={(amount) => console.log('Damage taken:', amount)}
@@ -222,11 +294,12 @@ function DebugCharacterSheet({ characterId }: CharacterSheetClientProps) {
         <div className="flex flex-col gap-4">
           {/* Combat Actions Panel (unified Actions + Spellcasting) */}
           <CombatActionsPanel
-            actions={character.actions}
+            actions={stats.actions}
             onAddAction={(action) => console.log('Add action:', action)}
             onRemoveAction={(id) => console.log('Remove action:', id)}
             onUseAction={(id) => console.log('Use action:', id)}
-            spellcasting={character.spellcasting}
+            spellcasting={spellcasting}
+            spellcastingBreakdown={stats.breakdown}
             primaryClassKey={character.classes[0]?.key || ''}
             documentKeys={['wotc-srd', 'srd-2024']}
             onSpellSlotUse={(level: SpellLevel, isUsed: boolean) =>
@@ -275,7 +348,7 @@ function DebugCharacterSheet({ characterId }: CharacterSheetClientProps) {
             onInventoryChange={(inventory) => handleUpdate({ inventory })}
             onCurrencyChange={(currency) => handleUpdate({ currency })}
             showEncumbrance={true}
-            strengthScore={character.abilityScores.total.STR}
+            strengthScore={stats.abilityScores.total.STR}
           />
 
           {/* Rest Buttons */}
@@ -311,12 +384,29 @@ function DebugCharacterSheet({ characterId }: CharacterSheetClientProps) {
 function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
   const router = useRouter();
   const { data: loadedCharacter, isLoading, error } = useCharacter(characterId);
-  const { draft, setOriginal, updateDraft, markSaved } = useCharacterStore();
+  const { draft, setOriginal, updateDraft, markSaved, undo, redo, past, future } =
+    useCharacterStore();
+  const [isLevelUpOpen, setIsLevelUpOpen] = useState(false);
+  const [restType, setRestType] = useState<RestType>('short');
+  const [isRestOpen, setIsRestOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const { data: equipment } = useEquipment(['wotc-srd', 'srd-2024'], {
+    staleTime: 60 * 60 * 1000,
+  });
+  const contentIndex = useMemo<CharacterContentIndex>(
+    () => ({
+      items: equipment ? [...equipment.weapons, ...equipment.armor, ...equipment.items] : [],
+    }),
+    [equipment]
+  );
+  const { data: campaign } = useCampaign(loadedCharacter?.campaignId ?? null);
   const {
     saveState,
     lastSavedAt,
     error: saveError,
     save,
+    reset: cancelPendingSave,
   } = useAutoSave({
     characterId,
     delay: 1000,
@@ -335,6 +425,76 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
     [updateDraft, save]
   );
 
+  // Undo and redo persist the fields they change, like any other edit
+  const handleUndo = useCallback(() => {
+    const changes = undo();
+    if (changes) void save(changes);
+  }, [undo, save]);
+
+  const handleRedo = useCallback(() => {
+    const changes = redo();
+    if (changes) void save(changes);
+  }, [redo, save]);
+
+  useUndoShortcuts(handleUndo, handleRedo);
+
+  const { mutate: addRoll } = useAddRoll();
+  const handleRoll = useCallback<RollHandler>(
+    (request) => {
+      let result;
+      try {
+        result = rollDice(request.notation, { critical: request.critical });
+      } catch {
+        // Damage written as free text (e.g. "see description") has nothing to roll
+        return null;
+      }
+      addRoll({ characterId, label: request.label, kind: request.kind, result });
+      return result;
+    },
+    [addRoll, characterId]
+  );
+
+  const handleExportPdf = useCallback(
+    async (target: Character) => {
+      setIsExporting(true);
+      try {
+        await downloadCharacterPdf(target, contentIndex.items);
+      } catch {
+        alert('Failed to export PDF. Please try again.');
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [contentIndex]
+  );
+
+  const handleExportJson = useCallback(
+    (target: Character) => {
+      const documentKeys = campaign?.settings.allowedDocuments.length
+        ? campaign.settings.allowedDocuments
+        : ['wotc-srd', 'srd-2024'];
+      downloadCharacterFile(target, documentKeys);
+    },
+    [campaign]
+  );
+
+  const handleExportFoundry = useCallback(
+    async (target: Character) => {
+      setIsExporting(true);
+      try {
+        const documentKeys = campaign?.settings.allowedDocuments.length
+          ? campaign.settings.allowedDocuments
+          : ['wotc-srd', 'srd-2024'];
+        // Offline, export without Open5E descriptions rather than not at all
+        const catalog = await loadImportCatalog(documentKeys).catch(() => EMPTY_IMPORT_CATALOG);
+        downloadFoundryActor(target, catalog);
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [campaign]
+  );
+
   const handleDelete = useCallback(async () => {
     if (!window.confirm(`Delete "${draft?.name ?? 'this character'}"? This cannot be undone.`)) {
       return;
@@ -373,19 +533,16 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
   }
 
   const character = (draft as Character | null) ?? loadedCharacter;
-  const proficiencyBonus = Math.floor((character.level - 1) / 4) + 2;
-  const skillProficiencies: Record<string, ProficiencyLevel> = {};
-  character.skills.forEach((skill) => {
-    skillProficiencies[skill.skillKey] = skill.proficiency as ProficiencyLevel;
-  });
-  const saveProficiencies = {
-    STR: character.classes.some((c) => c.key === 'fighter' || c.key === 'barbarian'),
-    DEX: false,
-    CON: character.classes.some((c) => c.key === 'fighter' || c.key === 'barbarian'),
-    INT: false,
-    WIS: false,
-    CHA: false,
-  };
+  const stats = deriveCharacterStats(character, contentIndex);
+  const proficiencyBonus = stats.proficiencyBonus;
+  const {
+    saveProficiencies,
+    saveModifiers,
+    skillProficiencies,
+    skillModifiers,
+    combat,
+    spellcasting,
+  } = getSheetValues(character, stats);
 
   return (
     <CharacterSheetLayout>
@@ -397,7 +554,29 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
         >
           ← Back to Home
         </button>
-        <SaveIndicator state={saveState} lastSavedAt={lastSavedAt} error={saveError} />
+        <div className="flex items-center gap-3">
+          <div className="flex gap-1">
+            <button
+              type="button"
+              className="px-2 py-1 text-sm rounded text-muted-foreground hover:text-foreground hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+              title="Undo (Ctrl+Z)"
+              disabled={past.length === 0}
+              onClick={handleUndo}
+            >
+              ↶ Undo
+            </button>
+            <button
+              type="button"
+              className="px-2 py-1 text-sm rounded text-muted-foreground hover:text-foreground hover:bg-gray-100 transition-colors disabled:opacity-40 disabled:pointer-events-none"
+              title="Redo (Ctrl+Shift+Z)"
+              disabled={future.length === 0}
+              onClick={handleRedo}
+            >
+              Redo ↷
+            </button>
+          </div>
+          <SaveIndicator state={saveState} lastSavedAt={lastSavedAt} error={saveError} />
+        </div>
       </div>
 
       <CharacterSheetHeader>
@@ -422,24 +601,39 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
 
       <CharacterSheetHeader>
         <AbilityScores
-          scores={character.abilityScores.total}
-          modifiers={character.abilityScores.modifier}
+          scores={stats.abilityScores.total}
+          modifiers={stats.abilityScores.modifier}
           saveProficiencies={saveProficiencies}
+          saveModifiers={saveModifiers}
+          breakdown={stats.breakdown}
           proficiencyBonus={proficiencyBonus}
+          onRoll={handleRoll}
           onScoreChange={(ability, score) => {
             const newBase = { ...character.abilityScores.base, [ability]: score };
             handleUpdate({ abilityScores: { ...character.abilityScores, base: newBase } });
           }}
-          onSaveProficiencyChange={() => {}}
+          onSaveProficiencyChange={(ability, proficient) => {
+            const saves = (character.proficiencies.savingThrows ?? []).filter((s) => s !== ability);
+            handleUpdate({
+              proficiencies: {
+                ...character.proficiencies,
+                savingThrows: proficient ? [...saves, ability] : saves,
+              },
+            });
+          }}
         />
       </CharacterSheetHeader>
 
       <CharacterSheetGrid>
         <div className="flex flex-col gap-4">
           <SkillsPanel
-            abilityModifiers={character.abilityScores.modifier}
+            abilityModifiers={stats.abilityScores.modifier}
             skillProficiencies={skillProficiencies}
             proficiencyBonus={proficiencyBonus}
+            skillModifiers={skillModifiers}
+            passivePerception={stats.passivePerception}
+            breakdown={stats.breakdown}
+            onRoll={handleRoll}
             onSkillProficiencyChange={(skillKey, level) => {
               const existing = character.skills.find((s) => s.skillKey === skillKey);
               if (existing) {
@@ -470,14 +664,14 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
 
         <div className="flex flex-col gap-4">
           <CombatStats
-            combatStats={character.combat}
+            combatStats={combat}
             classes={character.classes}
             conditions={character.conditions}
-            onACChange={(ac) =>
-              handleUpdate({
-                combat: { ...character.combat, ac: { ...character.combat.ac, total: ac } },
-              })
-            }
+            breakdown={stats.breakdown}
+            resistances={stats.resistances}
+            armorWarnings={stats.armor?.warnings}
+            onRoll={handleRoll}
+            onACChange={(ac) => handleUpdate({ overrides: { ...character.overrides, ac } })}
             onDeathSaveChange={(type, value) => {
               const key = type === 'success' ? 'successes' : 'failures';
               handleUpdate({
@@ -519,7 +713,8 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
           />
           <HPTracker
             currentHp={character.combat.currentHp}
-            maxHp={character.combat.maxHp}
+            maxHp={stats.maxHp}
+            maxHpBreakdown={stats.breakdown.maxHp}
             tempHp={character.combat.tempHp}
             onHpChange={(current, temp) =>
               handleUpdate({ combat: { ...character.combat, currentHp: current, tempHp: temp } })
@@ -538,10 +733,7 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
               });
             }}
             onHeal={(amount) => {
-              const newCurrent = Math.min(
-                character.combat.maxHp,
-                character.combat.currentHp + amount
-              );
+              const newCurrent = Math.min(stats.maxHp, character.combat.currentHp + amount);
               const deathSaves =
                 character.combat.currentHp === 0 && newCurrent > 0
                   ? { successes: 0, failures: 0 }
@@ -559,12 +751,20 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
             <button
               type="button"
               className="px-4 py-3 bg-blue-100 text-blue-800 rounded-lg font-bold hover:bg-blue-200 transition-colors"
+              onClick={() => {
+                setRestType('short');
+                setIsRestOpen(true);
+              }}
             >
               Short Rest
             </button>
             <button
               type="button"
               className="px-4 py-3 bg-indigo-100 text-indigo-800 rounded-lg font-bold hover:bg-indigo-200 transition-colors"
+              onClick={() => {
+                setRestType('long');
+                setIsRestOpen(true);
+              }}
             >
               Long Rest
             </button>
@@ -573,7 +773,7 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
 
         <div className="flex flex-col gap-4">
           <CombatActionsPanel
-            actions={character.actions}
+            actions={stats.actions}
             onAddAction={(action) =>
               handleUpdate({
                 actions: [...character.actions, { ...action, id: `action-${Date.now()}` }],
@@ -591,7 +791,9 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
                 ),
               });
             }}
-            spellcasting={character.spellcasting}
+            spellcasting={spellcasting}
+            spellcastingBreakdown={stats.breakdown}
+            onRoll={handleRoll}
             primaryClassKey={character.classes[0]?.key || ''}
             documentKeys={['wotc-srd', 'srd-2024']}
             onSpellSlotUse={(level, isUsed) => {
@@ -610,6 +812,21 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
                 },
               });
             }}
+            onPactSlotUse={(isUsed) => {
+              const pactMagic = character.spellcasting?.pactMagic;
+              if (!character.spellcasting || !pactMagic) return;
+              handleUpdate({
+                spellcasting: {
+                  ...character.spellcasting,
+                  pactMagic: {
+                    ...pactMagic,
+                    used: isUsed
+                      ? Math.min(pactMagic.max, pactMagic.used + 1)
+                      : Math.max(0, pactMagic.used - 1),
+                  },
+                },
+              });
+            }}
             onSpellTogglePrepared={(spellKey) => {
               if (!character.spellcasting) return;
               handleUpdate({
@@ -657,6 +874,7 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
               });
             }}
           />
+          <RollLogPanel characterId={characterId} className="print:hidden" />
           <FeaturesPanel
             features={character.features}
             documentKeys={['wotc-srd', 'srd-2024']}
@@ -688,7 +906,7 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
             onInventoryChange={(inventory) => handleUpdate({ inventory })}
             onCurrencyChange={(currency) => handleUpdate({ currency })}
             showEncumbrance={true}
-            strengthScore={character.abilityScores.total.STR}
+            strengthScore={stats.abilityScores.total.STR}
           />
         </div>
       </CharacterSheetGrid>
@@ -697,19 +915,45 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
         <div className="flex gap-2">
           <button
             type="button"
-            className="px-4 py-2 bg-amber-100 text-amber-800 rounded hover:bg-amber-200 font-medium opacity-50 cursor-not-allowed"
-            disabled
-            title="Level Up — coming soon"
+            className="px-4 py-2 bg-amber-100 text-amber-800 rounded hover:bg-amber-200 font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={character.level >= 20}
+            title={character.level >= 20 ? 'Already at level 20' : undefined}
+            onClick={() => setIsLevelUpOpen(true)}
           >
             Level Up
           </button>
           <button
             type="button"
-            className="px-4 py-2 bg-gray-100 text-gray-800 rounded hover:bg-gray-200 font-medium opacity-50 cursor-not-allowed"
-            disabled
-            title="Export PDF — coming soon"
+            className="px-4 py-2 bg-gray-100 text-gray-800 rounded hover:bg-gray-200 font-medium transition-colors disabled:opacity-50 disabled:cursor-wait"
+            disabled={isExporting}
+            onClick={() => handleExportPdf(character)}
           >
-            Export PDF
+            {isExporting ? 'Exporting…' : 'Export PDF'}
+          </button>
+          <button
+            type="button"
+            className="px-4 py-2 bg-gray-100 text-gray-800 rounded hover:bg-gray-200 font-medium transition-colors"
+            title="Download a file you can import in another browser or share with your DM"
+            onClick={() => handleExportJson(character)}
+          >
+            Export JSON
+          </button>
+          <button
+            type="button"
+            className="px-4 py-2 bg-gray-100 text-gray-800 rounded hover:bg-gray-200 font-medium transition-colors disabled:opacity-50 disabled:cursor-wait"
+            title="Download a dnd5e actor for Foundry VTT's Import Data"
+            disabled={isExporting}
+            onClick={() => handleExportFoundry(character)}
+          >
+            Export Foundry
+          </button>
+          <button
+            type="button"
+            className="px-4 py-2 bg-gray-100 text-gray-800 rounded hover:bg-gray-200 font-medium transition-colors"
+            title="See earlier versions of this character and restore one"
+            onClick={() => setIsHistoryOpen(true)}
+          >
+            History
           </button>
         </div>
         <button
@@ -720,6 +964,28 @@ function LiveCharacterSheet({ characterId }: CharacterSheetClientProps) {
           Delete Character
         </button>
       </div>
+
+      <LevelUpDialog
+        open={isLevelUpOpen}
+        onOpenChange={setIsLevelUpOpen}
+        character={character}
+        documentKeys={['wotc-srd', 'srd-2024']}
+        onLevelUp={handleUpdate}
+      />
+      <RestDialog
+        open={isRestOpen}
+        onOpenChange={setIsRestOpen}
+        restType={restType}
+        character={character}
+        maxHp={stats.maxHp}
+        onRest={handleUpdate}
+      />
+      <HistoryDrawer
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+        characterId={characterId}
+        onBeforeRestore={cancelPendingSave}
+      />
     </CharacterSheetLayout>
   );
 }
@@ -40,7 +40,7 @@ async function getCharacterById(id: string): Promise<CharacterTableEntry | undef
  */
 function SaveTestHarness({ characterId }: { characterId: string }) {
   const { data: loadedCharacter, isLoading } = mockUseCharacter(characterId);
-  const { draft, setOriginal, updateDraft, markSaved } = useCharacterStore();
+  const { draft, setOriginal, updateDraft, markSaved, undo } = useCharacterStore();
   const { save } = useAutoSave({
     characterId,
     delay: 50,
@@ -71,6 +71,16 @@ function SaveTestHarness({ characterId }: { characterId: string }) {
         value={character.name}
         onChange={(e) => handleUpdate({ name: e.target.value })}
       />
+      <button
+        type="button"
+        data-testid="undo"
+        onClick={() => {
+          const changes = undo();
+          if (changes) void save(changes);
+        }}
+      >
+        Undo
+      </button>
       <label htmlFor="hp-input">Current HP</label>
       <input
         id="hp-input"
@@ -151,4 +161,25 @@ describe('Character Sheet Save Integration', () => {
       { timeout: 2000 }
     );
   }, 10000);
+
+  it('should persist the previous value after undo', async () => {
+    render(<SaveTestHarness characterId={characterId} />);
+
+    await act(async () => {
+      fireEvent.change(screen.getByTestId('name-input'), { target: { value: 'Mistake' } });
+    });
+    await waitFor(async () => expect((await getCharacterById(characterId))?.name).toBe('Mistake'), {
+      timeout: 2000,
+    });
+
+    await act(async () => {
+      fireEvent.click(screen.getByTestId('undo'));
+    });
+
+    expect(screen.getByTestId('name-input')).toHaveValue('Original Name');
+    await waitFor(
+      async () => expect((await getCharacterById(characterId))?.name).toBe('Original Name'),
+      { timeout: 2000 }
+    );
+  }, 10000);
 });
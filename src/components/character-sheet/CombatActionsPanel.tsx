@@ -20,6 +20,8 @@ import type { CharacterAction } from '@/types/game';
 import type { Spellcasting } from '@/types/character';
 import type { SpellLevel } from '@/types/game';
 import type { Open5eSpell } from '@/types/open5e';
+import type { StatBreakdowns } from '@/lib/engine/effects';
+import type { RollHandler } from './RollButton';
 
 import { TabbedPanel, type TabDefinition } from './TabbedPanel';
 import { ActionsSection } from './ActionsSection';
@@ -37,9 +39,14 @@ interface CombatActionsPanelProps {
   primaryClassKey?: string;
   documentKeys: string[];
   onSpellSlotUse?: (level: SpellLevel, isUsed: boolean) => void;
+  onPactSlotUse?: (isUsed: boolean) => void;
   onSpellTogglePrepared?: (spellKey: string) => void;
   onAddSpell?: (spell: Open5eSpell) => void;
   onRemoveSpell?: (spellKey: string) => void;
+  /** Where the spellcasting numbers came from, shown on hover */
+  spellcastingBreakdown?: StatBreakdowns;
+  /** Rolls attacks, damage and spell attacks when clicked */
+  onRoll?: RollHandler;
 }
 
 export function CombatActionsPanel({
@@ -51,9 +58,12 @@ export function CombatActionsPanel({
   primaryClassKey = '',
   documentKeys,
   onSpellSlotUse,
+  onPactSlotUse,
   onSpellTogglePrepared,
   onAddSpell,
   onRemoveSpell,
+  spellcastingBreakdown,
+  onRoll,
 }: CombatActionsPanelProps) {
   // Build tabs array
   const tabs: TabDefinition[] = [
@@ -68,6 +78,7 @@ export function CombatActionsPanel({
           onAddAction={onAddAction}
           onRemoveAction={onRemoveAction}
           onUseAction={onUseAction}
+          onRoll={onRoll}
         />
       ),
     },
@@ -82,6 +93,7 @@ export function CombatActionsPanel({
           onAddAction={onAddAction}
           onRemoveAction={onRemoveAction}
           onUseAction={onUseAction}
+          onRoll={onRoll}
         />
       ),
     },
@@ -96,6 +108,7 @@ export function CombatActionsPanel({
           onAddAction={onAddAction}
           onRemoveAction={onRemoveAction}
           onUseAction={onUseAction}
+          onRoll={onRoll}
         />
       ),
     },
@@ -113,9 +126,12 @@ export function CombatActionsPanel({
           primaryClassKey={primaryClassKey}
           documentKeys={documentKeys}
           onSpellSlotUse={onSpellSlotUse}
+          onPactSlotUse={onPactSlotUse}
           onSpellTogglePrepared={onSpellTogglePrepared}
           onAddSpell={onAddSpell}
           onRemoveSpell={onRemoveSpell}
+          breakdown={spellcastingBreakdown}
+          onRoll={onRoll}
         />
       ),
     });
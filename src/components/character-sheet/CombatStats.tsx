@@ -18,7 +18,12 @@ import { cn } from '@/lib/utils';
 import type { CombatStats as CombatStatsType, ActiveCondition } from '@/types/game';
 import type { CharacterClass } from '@/types/character';
 import { formatModifier } from '@/lib/engine/ability-scores';
+import type { ArmorWarning } from '@/lib/engine/armor';
+import { d20Notation } from '@/lib/engine/dice';
+import { getRollMode, type StatBreakdowns } from '@/lib/engine/effects';
 import { EditableField } from './EditableField';
+import { RollButton, type RollHandler } from './RollButton';
+import { StatBreakdownList, StatTooltip } from './StatTooltip';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
@@ -217,10 +222,18 @@ interface CombatStatsProps {
   combatStats: CombatStatsType;
   classes: CharacterClass[];
   conditions: ActiveCondition[];
+  /** Where AC, initiative and speed came from, shown on hover */
+  breakdown?: StatBreakdowns;
+  /** Damage types resisted, with the sources granting the resistance */
+  resistances?: Record<string, string[]>;
+  /** Problems with the worn armor (missing proficiency, Strength requirement) */
+  armorWarnings?: ArmorWarning[];
   onACChange?: (ac: number) => void;
   onDeathSaveChange?: (type: 'success' | 'failure', value: number) => void;
   onConditionToggle?: (conditionKey: string) => void;
   onExhaustionChange?: (level: number) => void;
+  /** Rolls initiative when clicked */
+  onRoll?: RollHandler;
   className?: string;
 }
 
@@ -486,10 +499,14 @@ export function CombatStats({
   combatStats,
   classes,
   conditions,
+  breakdown,
+  resistances = {},
+  armorWarnings = [],
   onACChange,
   onDeathSaveChange,
   onConditionToggle,
   onExhaustionChange,
+  onRoll,
   className,
 }: CombatStatsProps) {
   const [isEditingAC, setIsEditingAC] = useState(false);
@@ -544,29 +561,47 @@ export function CombatStats({
               </div>
             </TooltipTrigger>
             <TooltipContent side="top" className="bg-amber-50 border-amber-300 text-amber-900">
-              <p className="text-sm">
-                Armor Class - Click to edit
-                <br />
-                Base: {combatStats.ac.base} + DEX: {combatStats.ac.dexModifier} + Bonus:{' '}
-                {combatStats.ac.bonus}
-              </p>
+              <p className="text-sm">Armor Class - Click to edit</p>
+              {breakdown?.ac ? (
+                <StatBreakdownList breakdown={breakdown.ac} />
+              ) : (
+                <p className="text-sm">
+                  Base: {combatStats.ac.base} + DEX: {combatStats.ac.dexModifier} + Bonus:{' '}
+                  {combatStats.ac.bonus}
+                </p>
+              )}
             </TooltipContent>
           </Tooltip>
         </TooltipProvider>
 
-        <div className="flex flex-col items-center p-3 bg-gradient-to-br from-amber-100 to-amber-50 border border-amber-300 rounded-lg">
-          <Swords className="w-5 h-5 text-amber-700 mb-1" />
-          <div className="text-xs text-amber-600 uppercase font-medium mb-1">Initiative</div>
-          <div className="text-2xl font-bold text-amber-900">
-            {formatModifier(combatStats.initiative)}
+        <StatTooltip breakdown={breakdown?.initiative} title="Initiative" signed>
+          <div className="flex flex-col items-center p-3 bg-gradient-to-br from-amber-100 to-amber-50 border border-amber-300 rounded-lg">
+            <Swords className="w-5 h-5 text-amber-700 mb-1" />
+            <div className="text-xs text-amber-600 uppercase font-medium mb-1">Initiative</div>
+            <RollButton
+              request={{
+                label: 'Initiative',
+                notation: d20Notation(
+                  combatStats.initiative,
+                  breakdown?.initiative ? getRollMode(breakdown.initiative) : 'normal'
+                ),
+                kind: 'initiative',
+              }}
+              onRoll={onRoll}
+              className="text-2xl font-bold text-amber-900"
+            >
+              {formatModifier(combatStats.initiative)}
+            </RollButton>
           </div>
-        </div>
+        </StatTooltip>
 
-        <div className="flex flex-col items-center p-3 bg-gradient-to-br from-green-100 to-green-50 border border-green-300 rounded-lg">
-          <Footprints className="w-5 h-5 text-green-700 mb-1" />
-          <div className="text-xs text-green-600 uppercase font-medium mb-1">Speed</div>
-          <div className="text-2xl font-bold text-green-900">{combatStats.speed} ft</div>
-        </div>
+        <StatTooltip breakdown={breakdown?.speed} title="Speed">
+          <div className="flex flex-col items-center p-3 bg-gradient-to-br from-green-100 to-green-50 border border-green-300 rounded-lg">
+            <Footprints className="w-5 h-5 text-green-700 mb-1" />
+            <div className="text-xs text-green-600 uppercase font-medium mb-1">Speed</div>
+            <div className="text-2xl font-bold text-green-900">{combatStats.speed} ft</div>
+          </div>
+        </StatTooltip>
 
         <TooltipProvider delayDuration={300} skipDelayDuration={200}>
           <Tooltip>
@@ -592,6 +627,35 @@ export function CombatStats({
         </TooltipProvider>
       </div>
 
+      {armorWarnings.length > 0 && (
+        <div className="mb-4 space-y-1 text-xs">
+          {armorWarnings.map((warning) => (
+            <div
+              key={`${warning.kind}-${warning.source}`}
+              className="flex items-start gap-1.5 px-2 py-1 rounded bg-red-50 text-red-800 border border-red-300"
+            >
+              <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+              <span>{warning.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {Object.keys(resistances).length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-1.5 text-xs">
+          <span className="font-medium text-amber-800 uppercase">Resistances:</span>
+          {Object.entries(resistances).map(([damageType, sources]) => (
+            <span
+              key={damageType}
+              title={sources.join(', ')}
+              className="px-2 py-0.5 rounded-full bg-sky-100 text-sky-800 border border-sky-300 capitalize"
+            >
+              {damageType}
+            </span>
+          ))}
+        </div>
+      )}
+
       {combatStats.currentHp === 0 && (
         <div className="mb-4 p-3 bg-gradient-to-r from-red-100 to-red-50 border-2 border-red-400 rounded-lg">
           <div className="flex items-center gap-2 mb-2">
@@ -16,9 +16,11 @@
 import React, { useState } from 'react';
 
 import { cn } from '@/lib/utils';
+import type { StatBreakdown } from '@/lib/engine/effects';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Heart, Shield, Skull, Plus, Minus, Activity, ChevronDown, ChevronUp } from 'lucide-react';
+import { StatTooltip } from './StatTooltip';
 
 interface HPChange {
   id: string;
@@ -32,6 +34,8 @@ interface HPTrackerProps {
   currentHp: number;
   maxHp: number;
   tempHp: number;
+  /** Where the maximum came from, shown on hover */
+  maxHpBreakdown?: StatBreakdown;
   onHpChange?: (current: number, temp: number) => void;
   onDamage?: (amount: number) => void;
   onHeal?: (amount: number) => void;
@@ -46,6 +50,7 @@ export function HPTracker({
   currentHp,
   maxHp,
   tempHp,
+  maxHpBreakdown,
   onHpChange,
   onDamage,
   onHeal,
@@ -190,7 +195,9 @@ export function HPTracker({
         <div className="flex items-center justify-center gap-2">
           <span className="text-5xl font-bold text-red-900">{currentHp}</span>
           <span className="text-2xl text-gray-500">/</span>
-          <span className="text-3xl font-bold text-gray-700">{maxHp}</span>
+          <StatTooltip breakdown={maxHpBreakdown} title="Maximum HP">
+            <span className="text-3xl font-bold text-gray-700">{maxHp}</span>
+          </StatTooltip>
         </div>
         {tempHp > 0 && (
           <div className="mt-2 flex items-center justify-center gap-2 text-blue-600">
@@ -0,0 +1,194 @@
+/**
+ * HistoryDrawer Component
+ *
+ * Saved versions of a character in a side drawer:
+ * - Versions newest first, with the fields each save changed
+ * - Field-level diff of the selected version against the one before it
+ * - Restore any earlier version (the restore is saved as a new version)
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { useCharacterHistory, useRestoreCharacterVersion } from '@/hooks/useCharacter';
+import { diffCharacterVersions, type CharacterChange } from '@/lib/db/history';
+import type { CharacterHistoryEntry } from '@/lib/db/schema';
+
+interface HistoryDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  characterId: string;
+  /** Called before restoring, e.g. to cancel a pending auto-save */
+  onBeforeRestore?: () => void;
+}
+
+const REASON_LABELS: Record<CharacterHistoryEntry['reason'], string> = {
+  baseline: 'Before tracked changes',
+  edit: 'Edited',
+  restore: 'Restored',
+};
+
+/** "experiencePoints" → "Experience points" */
+function toLabel(field: string): string {
+  const words = field.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '(none)' : value.map((item) => formatValue(item)).join(', ');
+  }
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    if (typeof record.name === 'string') return record.name;
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function ChangeRow({ change }: { change: CharacterChange }) {
+  const [field, ...rest] = change.path;
+  return (
+    <li className="rounded border border-gray-200 bg-white px-3 py-2 text-sm">
+      <div className="font-medium text-gray-800">
+        {[
+          toLabel(field),
+          ...rest.map((segment) => (/^[a-z]/.test(segment) ? toLabel(segment) : segment)),
+        ].join(' › ')}
+      </div>
+      <div className="mt-1 grid grid-cols-[auto_1fr] gap-x-2 text-xs">
+        <span className="text-red-700">Before</span>
+        <span className="text-red-900 line-through break-words">{formatValue(change.before)}</span>
+        <span className="text-green-700">After</span>
+        <span className="text-green-900 break-words">{formatValue(change.after)}</span>
+      </div>
+    </li>
+  );
+}
+
+export function HistoryDrawer({
+  open,
+  onOpenChange,
+  characterId,
+  onBeforeRestore,
+}: HistoryDrawerProps) {
+  const { data: history = [], isLoading } = useCharacterHistory(characterId, open);
+  const restore = useRestoreCharacterVersion();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const selectedIndex = history.findIndex((entry) => entry.id === selectedId);
+  const selected = selectedIndex >= 0 ? history[selectedIndex] : null;
+  const previous = selectedIndex >= 0 ? history[selectedIndex + 1] : undefined;
+  const changes =
+    selected && previous ? diffCharacterVersions(previous.snapshot, selected.snapshot) : [];
+
+  const handleRestore = (entry: CharacterHistoryEntry) => {
+    onBeforeRestore?.();
+    restore.mutate(
+      { id: characterId, historyId: entry.id! },
+      { onSuccess: () => setSelectedId(null) }
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md p-0">
+        <SheetHeader className="border-b border-amber-200 px-4 py-3">
+          <SheetTitle className="flex items-center gap-2 text-amber-900">
+            <History className="w-5 h-5" />
+            Version History
+          </SheetTitle>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 h-[calc(100vh-80px)] p-4">
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading history…
+            </div>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No saved versions yet. Every change you make is recorded here.
+            </p>
+          ) : (
+            <ol className="space-y-2">
+              {history.map((entry, index) => {
+                const isSelected = entry.id === selectedId;
+                const isCurrent = index === 0;
+                return (
+                  <li key={entry.id}>
+                    <button
+                      type="button"
+                      className={cn(
+                        'w-full rounded border px-3 py-2 text-left transition-colors',
+                        isSelected
+                          ? 'border-amber-400 bg-amber-50'
+                          : 'border-gray-200 hover:bg-gray-50'
+                      )}
+                      onClick={() => setSelectedId(isSelected ? null : (entry.id ?? null))}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="text-sm font-medium text-gray-800">
+                          {new Date(entry.createdAt).toLocaleString()}
+                        </span>
+                        <span className="flex gap-1">
+                          {isCurrent && <Badge variant="secondary">Current</Badge>}
+                          <Badge variant="outline">{REASON_LABELS[entry.reason]}</Badge>
+                        </span>
+                      </div>
+                      {entry.changedFields.length > 0 && (
+                        <p className="mt-1 text-xs text-gray-500">
+                          {entry.changedFields.map(toLabel).join(', ')}
+                        </p>
+                      )}
+                    </button>
+
+                    {isSelected && (
+                      <div className="mt-2 space-y-2 pl-2">
+                        {previous ? (
+                          changes.length > 0 ? (
+                            <ul className="space-y-1">
+                              {changes.map((change) => (
+                                <ChangeRow key={change.path.join('.')} change={change} />
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="text-xs text-gray-500">No visible changes.</p>
+                          )
+                        ) : (
+                          <p className="text-xs text-gray-500">Oldest saved version.</p>
+                        )}
+                        {!isCurrent && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={restore.isPending}
+                            onClick={() => handleRestore(entry)}
+                          >
+                            <RotateCcw className="w-4 h-4 mr-1" />
+                            Restore this version
+                          </Button>
+                        )}
+                        {restore.isError && (
+                          <p className="text-xs text-red-700">Restore failed. Please try again.</p>
+                        )}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
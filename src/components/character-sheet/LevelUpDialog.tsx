@@ -0,0 +1,554 @@
+/**
+ * LevelUpDialog Component
+ *
+ * Guided level-up from the character sheet:
+ * - Pick the class gaining the level (or a new class, subject to the
+ *   multiclass prerequisites and the campaign's multiclassing switch)
+ * - Hit points from the fixed average or a roll
+ * - Preview of the new class and archetype features
+ * - Subclass, Ability Score Improvement or feat, and new spells when due
+ * - Applies everything as one character update
+ */
+
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Dices, TrendingUp } from 'lucide-react';
+
+import { cn, toOpen5eDisplayString } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useClasses, useFeats, useSpells } from '@/hooks/api/useOpen5e';
+import { useCampaign } from '@/hooks/useCampaign';
+import { filterSpellsByClass } from '@/lib/api/endpoints/spells';
+import { getEngineClassKey, getSubclassUnlockLevel } from '@/lib/engine/character-builder';
+import { calculateLevelUpHP } from '@/lib/engine/combat';
+import { createPassiveFeature } from '@/lib/engine/features';
+import { canMulticlassInto, formatMulticlassPrerequisite } from '@/lib/engine/multiclass';
+import {
+  applyLevelUp,
+  getLevelUpFeatures,
+  isAbilityScoreImprovementLevel,
+  validateAbilityScoreImprovement,
+} from '@/lib/engine/progression';
+import { calculateSpellSelectionLimits, getSpellcastingAbility } from '@/lib/engine/spellcasting';
+import { ABILITY_SCORES, CLASS_HIT_DICE, type AbilityScore, type SpellLevel } from '@/types/game';
+import type { Character, CharacterUpdate, KnownSpell } from '@/types/character';
+import type { Open5eClass, Open5eSpell } from '@/types/open5e';
+
+interface LevelUpDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  character: Character;
+  documentKeys: string[];
+  onLevelUp: (update: CharacterUpdate) => void;
+}
+
+/** One Open5E class per engine key, preferring the document of the character's edition */
+function indexClasses(classes: Open5eClass[], edition: Character['edition']) {
+  const byKey = new Map<string, Open5eClass>();
+  for (const classData of classes) {
+    const key = getEngineClassKey(classData);
+    const current = byKey.get(key);
+    const matchesEdition = classData.document.includes('2024') === (edition === '2024');
+    if (!current || matchesEdition) byKey.set(key, classData);
+  }
+  return byKey;
+}
+
+export function LevelUpDialog({
+  open,
+  onOpenChange,
+  character,
+  documentKeys,
+  onLevelUp,
+}: LevelUpDialogProps) {
+  const { data: classes, isLoading: isClassesLoading } = useClasses(open ? documentKeys : []);
+  const { data: spells } = useSpells(open ? documentKeys : []);
+  const { data: feats } = useFeats(open ? documentKeys : []);
+  const { data: campaign } = useCampaign(character.campaignId ?? null);
+
+  const [classKey, setClassKey] = useState(
+    character.classes.find((c) => c.isPrimary)?.key ?? character.classes[0]?.key ?? ''
+  );
+  const [hpMethod, setHpMethod] = useState<'fixed' | 'roll'>('fixed');
+  const [roll, setRoll] = useState<number | null>(null);
+  const [archetypeKey, setArchetypeKey] = useState<string>();
+  const [improvement, setImprovement] = useState<'asi' | 'feat'>('asi');
+  const [asiPicks, setAsiPicks] = useState<[AbilityScore?, AbilityScore?]>([]);
+  const [featKey, setFeatKey] = useState<string>();
+  const [cantripKeys, setCantripKeys] = useState<string[]>([]);
+  const [spellKeys, setSpellKeys] = useState<string[]>([]);
+
+  const classIndex = useMemo(
+    () => indexClasses(classes ?? [], character.edition),
+    [classes, character.edition]
+  );
+  const classData = classIndex.get(classKey);
+  const current = character.classes.find((c) => c.key === classKey);
+  const classLevel = (current?.level ?? 0) + 1;
+  const totals = character.abilityScores.total;
+
+  // Hit points
+  const hitDie = parseInt((CLASS_HIT_DICE[classKey] ?? 'd8').slice(1), 10);
+  const hpGained =
+    hpMethod === 'fixed' || roll !== null
+      ? calculateLevelUpHP(classKey, totals.CON, roll ?? undefined, hpMethod === 'fixed')
+      : null;
+
+  // Subclass
+  const needsArchetype =
+    !current?.archetype &&
+    classData !== undefined &&
+    (classData.archetypes?.length ?? 0) > 0 &&
+    classLevel >= getSubclassUnlockLevel(classData);
+  const chosenArchetype = current?.archetype ?? (needsArchetype ? archetypeKey : undefined);
+  const features = classData
+    ? getLevelUpFeatures(classData, classLevel, chosenArchetype, needsArchetype)
+    : [];
+
+  // Ability Score Improvement or feat
+  const hasImprovement = isAbilityScoreImprovementLevel(classKey, classLevel);
+  const abilityIncreases: Partial<Record<AbilityScore, number>> = {};
+  for (const ability of asiPicks) {
+    if (ability) abilityIncreases[ability] = (abilityIncreases[ability] ?? 0) + 1;
+  }
+  const takenFeats = new Set(character.features.map((f) => f.id));
+  const featOptions = (feats ?? []).filter((f) => !takenFeats.has(`feat-${f.key}`));
+  const feat = featOptions.find((f) => f.key === featKey);
+
+  // Spells
+  const castingAbility = getSpellcastingAbility(classKey);
+  const castingScore = castingAbility ? totals[castingAbility] : 10;
+  const spellLimits = (() => {
+    const next = calculateSpellSelectionLimits(classKey, classLevel, castingScore);
+    if (!next) return null;
+    const previous = current
+      ? calculateSpellSelectionLimits(classKey, current.level, castingScore)
+      : null;
+    const newSpells =
+      next.spellbook !== null
+        ? next.spellbook - (previous?.spellbook ?? 0)
+        : next.mode === 'known'
+          ? next.spells - (previous?.spells ?? 0)
+          : 0;
+    return {
+      cantrips: Math.max(0, next.cantrips - (previous?.cantrips ?? 0)),
+      spells: Math.max(0, newSpells),
+      maxSpellLevel: next.maxSpellLevel ?? 0,
+      isSpellbook: next.spellbook !== null,
+    };
+  })();
+
+  const knownKeys = new Set(character.spellcasting?.knownSpells.map((s) => s.spellKey));
+  const spellOptions: Open5eSpell[] =
+    spells && classData && spellLimits
+      ? filterSpellsByClass(spells, classData.name)
+          .filter((s) => s.level <= spellLimits.maxSpellLevel && !knownKeys.has(s.key))
+          .sort((a, b) => a.level - b.level || a.name.localeCompare(b.name))
+      : [];
+
+  const resetChoices = () => {
+    setRoll(null);
+    setArchetypeKey(undefined);
+    setAsiPicks([]);
+    setFeatKey(undefined);
+    setCantripKeys([]);
+    setSpellKeys([]);
+  };
+
+  const errors: string[] = [];
+  if (!classData) errors.push('Choose a class.');
+  if (classData && !current) {
+    errors.push(...canMulticlassInto(character, classKey, campaign?.settings).reasons);
+  }
+  if (hpGained === null) errors.push(`Roll or enter a ${hitDie}-sided hit die result.`);
+  if (needsArchetype && !archetypeKey) {
+    errors.push(`Choose a ${classData?.subtypes_name?.replace(/s$/, '') || 'subclass'}.`);
+  }
+  if (hasImprovement && improvement === 'asi') {
+    errors.push(...validateAbilityScoreImprovement(abilityIncreases, totals));
+  }
+  if (hasImprovement && improvement === 'feat' && !feat) errors.push('Choose a feat.');
+  if (spellLimits) {
+    const cantripCount = Math.min(
+      spellLimits.cantrips,
+      spellOptions.filter((s) => s.level === 0).length
+    );
+    const spellCount = Math.min(spellLimits.spells, spellOptions.filter((s) => s.level > 0).length);
+    if (cantripKeys.length !== cantripCount) errors.push(`Choose ${cantripCount} new cantrips.`);
+    if (spellKeys.length !== spellCount) errors.push(`Choose ${spellCount} new spells.`);
+  }
+
+  const handleConfirm = () => {
+    if (errors.length > 0 || !classData || hpGained === null) return;
+
+    const learned: KnownSpell[] = (spells ?? [])
+      .filter((s) => cantripKeys.includes(s.key) || spellKeys.includes(s.key))
+      .map((spell) => ({
+        id: `spell-${spell.key}`,
+        spellKey: spell.key,
+        name: spell.name,
+        level: spell.level as SpellLevel,
+        school: toOpen5eDisplayString(spell.school),
+        // Spellbook additions still have to be prepared
+        prepared: spell.level === 0 || !spellLimits?.isSpellbook,
+      }));
+
+    onLevelUp(
+      applyLevelUp(character, {
+        classKey,
+        className: classData.name,
+        hitDiceValue: hitDie,
+        hpGained,
+        archetypeKey: needsArchetype ? archetypeKey : undefined,
+        features,
+        abilityIncreases: hasImprovement && improvement === 'asi' ? abilityIncreases : undefined,
+        feat:
+          hasImprovement && improvement === 'feat' && feat
+            ? createPassiveFeature(
+                `feat-${feat.key}`,
+                feat.name,
+                feat.desc ?? '',
+                `Feat: ${feat.name}`
+              )
+            : undefined,
+        spells: learned,
+      })
+    );
+    resetChoices();
+    onOpenChange(false);
+  };
+
+  const toggleSpell = (spell: Open5eSpell, checked: boolean) => {
+    const update = spell.level === 0 ? setCantripKeys : setSpellKeys;
+    update((keys) => (checked ? [...keys, spell.key] : keys.filter((k) => k !== spell.key)));
+  };
+
+  const multiclassingOff = campaign?.settings.useMulticlassing === false;
+  const newClasses = multiclassingOff
+    ? []
+    : Array.from(classIndex.entries())
+        .filter(([key]) => !character.classes.some((c) => c.key === key))
+        .map(([key, c]) => ({
+          key,
+          classData: c,
+          check: canMulticlassInto(character, key, campaign?.settings),
+        }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <TrendingUp className="w-5 h-5" />
+            Level Up to {character.level + 1}
+          </DialogTitle>
+          <DialogDescription>
+            Choose the class that gains the level and make its choices.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isClassesLoading ? (
+          <p className="py-8 text-center text-sm text-muted-foreground animate-pulse">
+            Loading classes…
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {/* Class */}
+            <section>
+              <h3 className="text-sm font-semibold mb-2">Class</h3>
+              <div role="radiogroup" aria-label="Class" className="grid gap-2 sm:grid-cols-2">
+                {character.classes.map((c) => (
+                  <button
+                    key={c.key}
+                    type="button"
+                    role="radio"
+                    aria-checked={classKey === c.key}
+                    onClick={() => {
+                      setClassKey(c.key);
+                      resetChoices();
+                    }}
+                    className={cn(
+                      'rounded-md border px-3 py-2 text-left text-sm transition-all',
+                      classKey === c.key
+                        ? 'border-primary bg-primary/5 shadow-sm'
+                        : 'border-border hover:border-primary/40'
+                    )}
+                  >
+                    {c.name} {c.level} → {c.level + 1}
+                  </button>
+                ))}
+              </div>
+              {newClasses.length > 0 && (
+                <Select
+                  value={current ? '' : classKey}
+                  onValueChange={(key) => {
+                    setClassKey(key);
+                    resetChoices();
+                  }}
+                >
+                  <SelectTrigger aria-label="New class" className="mt-2 w-full">
+                    <SelectValue placeholder="Or take a level in a new class" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {newClasses.map(({ key, classData: c, check }) => (
+                      <SelectItem
+                        key={key}
+                        value={key}
+                        disabled={!check.allowed}
+                        title={check.reasons.join(' ')}
+                      >
+                        {c.name}
+                        {formatMulticlassPrerequisite(key) && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            {formatMulticlassPrerequisite(key)}
+                          </span>
+                        )}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {multiclassingOff && (
+                <p className="mt-2 text-xs text-muted-foreground">
+                  Multiclassing is turned off for this campaign.
+                </p>
+              )}
+            </section>
+
+            {/* Hit points */}
+            <section>
+              <h3 className="text-sm font-semibold mb-2">Hit Points (d{hitDie})</h3>
+              <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={hpMethod === 'fixed' ? 'default' : 'outline'}
+                  onClick={() => setHpMethod('fixed')}
+                >
+                  Average
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant={hpMethod === 'roll' ? 'default' : 'outline'}
+                  onClick={() => setHpMethod('roll')}
+                >
+                  Roll
+                </Button>
+                {hpMethod === 'roll' && (
+                  <>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={hitDie}
+                      value={roll ?? ''}
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        setRoll(value >= 1 && value <= hitDie ? value : null);
+                      }}
+                      aria-label="Hit die roll"
+                      className="h-8 w-20"
+                    />
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => setRoll(Math.floor(Math.random() * hitDie) + 1)}
+                    >
+                      <Dices className="w-4 h-4" />
+                      Roll d{hitDie}
+                    </Button>
+                  </>
+                )}
+              </div>
+              <p className="mt-2 text-sm text-muted-foreground">
+                {hpGained === null
+                  ? 'Enter the hit die result.'
+                  : `+${hpGained} maximum HP (including your Constitution modifier).`}
+              </p>
+            </section>
+
+            {/* Subclass */}
+            {needsArchetype && classData && (
+              <section>
+                <h3 className="text-sm font-semibold mb-2">
+                  {classData.subtypes_name || 'Subclass'}
+                </h3>
+                <Select value={archetypeKey} onValueChange={setArchetypeKey}>
+                  <SelectTrigger aria-label="Subclass" className="w-full">
+                    <SelectValue placeholder="Choose a subclass" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {classData.archetypes.map((a) => (
+                      <SelectItem key={a.key} value={a.key}>
+                        {a.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </section>
+            )}
+
+            {/* Ability Score Improvement or feat */}
+            {hasImprovement && (
+              <section>
+                <h3 className="text-sm font-semibold mb-2">Ability Score Improvement</h3>
+                <div className="flex gap-2 mb-3">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={improvement === 'asi' ? 'default' : 'outline'}
+                    onClick={() => setImprovement('asi')}
+                  >
+                    Increase Scores
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={improvement === 'feat' ? 'default' : 'outline'}
+                    onClick={() => setImprovement('feat')}
+                  >
+                    Take a Feat
+                  </Button>
+                </div>
+                {improvement === 'asi' ? (
+                  <div className="grid grid-cols-2 gap-2">
+                    {[0, 1].map((slot) => (
+                      <Select
+                        key={slot}
+                        value={asiPicks[slot]}
+                        onValueChange={(value) => {
+                          const next: [AbilityScore?, AbilityScore?] = [...asiPicks];
+                          next[slot] = value as AbilityScore;
+                          setAsiPicks(next);
+                        }}
+                      >
+                        <SelectTrigger aria-label={`Ability increase ${slot + 1}`}>
+                          <SelectValue placeholder="+1 to…" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ABILITY_SCORES.map((ability) => (
+                            <SelectItem key={ability} value={ability}>
+                              {ability} ({totals[ability]})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ))}
+                    <p className="col-span-2 text-xs text-muted-foreground">
+                      Pick the same ability twice for +2.
+                    </p>
+                  </div>
+                ) : (
+                  <Select value={featKey} onValueChange={setFeatKey}>
+                    <SelectTrigger aria-label="Feat" className="w-full">
+                      <SelectValue placeholder="Choose a feat" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {featOptions.map((f) => (
+                        <SelectItem key={f.key} value={f.key}>
+                          {f.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </section>
+            )}
+
+            {/* Spells */}
+            {spellLimits && (spellLimits.cantrips > 0 || spellLimits.spells > 0) && (
+              <section>
+                <h3 className="text-sm font-semibold mb-1">New Spells</h3>
+                <p className="text-xs text-muted-foreground mb-2">
+                  {spellLimits.cantrips > 0 &&
+                    `Cantrips: ${cantripKeys.length}/${spellLimits.cantrips}. `}
+                  {spellLimits.spells > 0 &&
+                    `${spellLimits.isSpellbook ? 'Spellbook' : 'Spells'}: ${spellKeys.length}/${spellLimits.spells}.`}
+                </p>
+                <ul className="max-h-56 space-y-1 overflow-y-auto rounded-md border border-border p-2">
+                  {spellOptions
+                    .filter((s) => (s.level === 0 ? spellLimits.cantrips : spellLimits.spells) > 0)
+                    .map((spell) => {
+                      const picked = spell.level === 0 ? cantripKeys : spellKeys;
+                      const cap = spell.level === 0 ? spellLimits.cantrips : spellLimits.spells;
+                      const checked = picked.includes(spell.key);
+                      return (
+                        <li key={spell.key}>
+                          <label className="flex items-center gap-2 text-sm cursor-pointer">
+                            <Checkbox
+                              checked={checked}
+                              disabled={!checked && picked.length >= cap}
+                              onCheckedChange={(state) => toggleSpell(spell, state === true)}
+                            />
+                            <span>{spell.name}</span>
+                            <span className="ml-auto text-xs text-muted-foreground">
+                              {spell.level === 0 ? 'Cantrip' : `Level ${spell.level}`}
+                            </span>
+                          </label>
+                        </li>
+                      );
+                    })}
+                </ul>
+              </section>
+            )}
+
+            {/* Features */}
+            <section>
+              <h3 className="text-sm font-semibold mb-2">New Features</h3>
+              {features.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No new features at this level.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {features.map((feature) => (
+                    <li key={feature.id} className="rounded-md bg-muted/40 px-3 py-2">
+                      <p className="text-sm font-medium">{feature.name}</p>
+                      <p className="text-xs text-muted-foreground line-clamp-3">
+                        {feature.description}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            {errors.length > 0 && (
+              <ul className="text-xs text-destructive space-y-0.5" aria-live="polite">
+                {errors.map((error) => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleConfirm} disabled={errors.length > 0}>
+            Level Up
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * RestDialog Component
+ *
+ * Short and long rests from the character sheet:
+ * - Short rest: spend hit dice one at a time (rolled or average) and see the
+ *   healing, then regain short-rest uses and Pact Magic slots
+ * - Long rest: summary of what is restored
+ * - Applies the rest as one character update
+ */
+
+'use client';
+
+import React, { useState } from 'react';
+import { BedDouble, Dices, Undo2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getHitDieAverage, rollHitDie } from '@/lib/engine/combat';
+import { calculateHitDieHeal } from '@/lib/engine/hp';
+import { applyLongRest, applyShortRest, getRemainingHitDice } from '@/lib/engine/rest';
+import type { Character, CharacterUpdate } from '@/types/character';
+import type { RestType } from '@/lib/engine/features';
+
+interface RestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  restType: RestType;
+  character: Character;
+  /** Derived maximum hit points, with effects and overrides */
+  maxHp: number;
+  onRest: (update: CharacterUpdate) => void;
+}
+
+export function RestDialog({
+  open,
+  onOpenChange,
+  restType,
+  character,
+  maxHp,
+  onRest,
+}: RestDialogProps) {
+  const [rolls, setRolls] = useState<number[]>([]);
+
+  const { combat } = character;
+  const dieType = combat.hitDice.type;
+  const conScore = character.abilityScores.total.CON;
+  const remaining = getRemainingHitDice(character) - rolls.length;
+  const healing = rolls.map((roll) => calculateHitDieHeal(dieType, roll, conScore));
+  const totalHealing = healing.reduce((total, hp) => total + hp, 0);
+  const hpAfter = Math.min(maxHp, combat.currentHp + totalHealing);
+
+  const exhaustion =
+    character.conditions.find((c) => c.conditionKey === 'exhaustion')?.exhaustionLevel ?? 0;
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setRolls([]);
+    onOpenChange(next);
+  };
+
+  const handleConfirm = () => {
+    onRest(
+      restType === 'short'
+        ? applyShortRest(character, rolls, maxHp)
+        : applyLongRest(character, maxHp)
+    );
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BedDouble className="w-5 h-5" />
+            {restType === 'short' ? 'Short Rest' : 'Long Rest'}
+          </DialogTitle>
+          <DialogDescription>
+            {restType === 'short'
+              ? 'Spend hit dice to heal. Short-rest features, actions and Pact Magic slots recover.'
+              : 'At least 8 hours of rest. Everything below is restored when you finish.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {restType === 'short' ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm">
+              <span>
+                Hit Dice: <span className="font-semibold">{remaining}</span> /{' '}
+                {combat.hitDice.total} {dieType}
+              </span>
+              <span>
+                HP: <span className="font-semibold">{hpAfter}</span> / {maxHp}
+              </span>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                type="button"
+                size="sm"
+                variant="secondary"
+                disabled={remaining <= 0}
+                onClick={() => setRolls([...rolls, rollHitDie(dieType)])}
+              >
+                <Dices className="w-4 h-4" />
+                Roll {dieType}
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                disabled={remaining <= 0}
+                onClick={() => setRolls([...rolls, getHitDieAverage(dieType)])}
+              >
+                Take average ({getHitDieAverage(dieType)})
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                disabled={rolls.length === 0}
+                onClick={() => setRolls(rolls.slice(0, -1))}
+              >
+                <Undo2 className="w-4 h-4" />
+                Undo die
+              </Button>
+            </div>
+
+            {rolls.length > 0 ? (
+              <ul className="space-y-1 text-sm" aria-live="polite">
+                {rolls.map((roll, index) => (
+                  <li key={index} className="flex justify-between rounded-md bg-muted/40 px-3 py-1">
+                    <span>
+                      {dieType}: {roll}
+                    </span>
+                    <span className="font-medium text-green-700">+{healing[index]} HP</span>
+                  </li>
+                ))}
+                <li className="flex justify-between px-3 pt-1 font-semibold">
+                  <span>Total</span>
+                  <span>+{hpAfter - combat.currentHp} HP</span>
+                </li>
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {getRemainingHitDice(character) > 0
+                  ? 'No hit dice spent yet.'
+                  : 'No hit dice left. They recover on a long rest.'}
+              </p>
+            )}
+          </div>
+        ) : (
+          <ul className="list-disc pl-5 space-y-1 text-sm">
+            <li>
+              Hit points to {maxHp}
+              {combat.tempHp > 0 && ' (temporary hit points end)'}
+            </li>
+            <li>Regain up to {Math.max(1, Math.ceil(combat.hitDice.total / 2))} spent hit dice</li>
+            {character.spellcasting && <li>All spell slots</li>}
+            <li>All feature and action uses</li>
+            <li>Death saves cleared</li>
+            {exhaustion > 0 && (
+              <li>
+                Exhaustion {exhaustion} → {exhaustion - 1}
+              </li>
+            )}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleConfirm}>
+            Finish {restType === 'short' ? 'Short' : 'Long'} Rest
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
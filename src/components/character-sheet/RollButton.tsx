@@ -0,0 +1,63 @@
+/**
+ * RollButton Component
+ *
+ * Makes a value on the sheet (a modifier, an attack bonus, a damage
+ * expression) roll its dice when clicked. Without a roll handler the value is
+ * shown as plain text, so panels work the same on sheets that do not roll.
+ */
+
+'use client';
+
+import React from 'react';
+
+import { cn } from '@/lib/utils';
+import type { DiceRollResult } from '@/lib/engine/dice';
+import type { RollLogEntry } from '@/lib/db/schema';
+
+/** A roll requested from the sheet */
+export interface RollRequest {
+  /** What is rolled, shown in the roll log (e.g., "Athletics check") */
+  label: string;
+  /** Dice notation, e.g. "1d20adv+5" or "1d8+3 slashing" */
+  notation: string;
+  kind: RollLogEntry['kind'];
+  /** Roll critical hit damage (dice doubled) */
+  critical?: boolean;
+}
+
+/** Rolls a request and records it; returns the result, or null if the notation is invalid */
+export type RollHandler = (request: RollRequest) => DiceRollResult | null;
+
+interface RollButtonProps {
+  request: RollRequest;
+  onRoll?: RollHandler;
+  /** Called with the result after rolling */
+  onRolled?: (result: DiceRollResult) => void;
+  className?: string;
+  children: React.ReactNode;
+}
+
+export function RollButton({ request, onRoll, onRolled, className, children }: RollButtonProps) {
+  if (!onRoll) return <span className={className}>{children}</span>;
+
+  const handleClick = (event: React.MouseEvent) => {
+    // Rolling should not also trigger the row's own click behaviour
+    event.stopPropagation();
+    const result = onRoll(request);
+    if (result) onRolled?.(result);
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleClick}
+      title={`Roll ${request.notation}`}
+      className={cn(
+        'cursor-pointer rounded hover:underline decoration-dotted underline-offset-2',
+        className
+      )}
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * RollLogPanel Component
+ *
+ * Dice rolled from the sheet, newest first:
+ * - Total with every die rolled (dropped dice struck through)
+ * - Critical hit and fumble badges on d20 rolls
+ * - Damage type and doubled critical damage
+ * - Kept per character, so the log survives reloads
+ */
+
+'use client';
+
+import React from 'react';
+import { Dices, Trash2 } from 'lucide-react';
+
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useClearRollLog, useRollLog } from '@/hooks/useCharacter';
+import type { TermResult } from '@/lib/engine/dice';
+import type { RollLogEntry } from '@/lib/db/schema';
+
+interface RollLogPanelProps {
+  characterId: string;
+  className?: string;
+}
+
+function TermBreakdown({ term, first }: { term: TermResult; first: boolean }) {
+  const sign = term.term.sign === -1 ? '−' : first ? '' : '+';
+
+  if (term.term.kind === 'constant') {
+    return (
+      <span>
+        {sign && `${sign} `}
+        {term.term.value}
+      </span>
+    );
+  }
+
+  return (
+    <span>
+      {sign && `${sign} `}[
+      {term.dice.map((die, index) => (
+        <React.Fragment key={index}>
+          {index > 0 && ', '}
+          <span
+            className={cn(
+              !die.kept && 'line-through text-gray-400',
+              die.kept && die.sides === 20 && die.value === 20 && 'font-bold text-emerald-700',
+              die.kept && die.sides === 20 && die.value === 1 && 'font-bold text-red-700'
+            )}
+          >
+            {die.value}
+          </span>
+        </React.Fragment>
+      ))}
+      ]
+    </span>
+  );
+}
+
+function RollRow({ entry }: { entry: RollLogEntry }) {
+  const { result } = entry;
+
+  return (
+    <li className="rounded border border-amber-200 bg-white px-3 py-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-amber-900 truncate">{entry.label}</span>
+        <span className="text-lg font-bold text-amber-900">{result.total}</span>
+      </div>
+      <div className="mt-1 flex items-center gap-1.5 flex-wrap text-xs text-gray-600">
+        <span className="font-mono">{result.notation}</span>
+        <span className="text-gray-400">→</span>
+        <span className="flex items-center gap-1 flex-wrap">
+          {result.terms.map((term, index) => (
+            <TermBreakdown key={index} term={term} first={index === 0} />
+          ))}
+        </span>
+        {result.isCritical && (
+          <Badge className="bg-emerald-100 text-emerald-800 border-emerald-300">Critical</Badge>
+        )}
+        {result.isFumble && (
+          <Badge className="bg-red-100 text-red-800 border-red-300">Fumble</Badge>
+        )}
+        {result.critical && (
+          <Badge className="bg-red-100 text-red-800 border-red-300">Critical damage</Badge>
+        )}
+      </div>
+      <div className="mt-1 text-[10px] text-gray-400">
+        {new Date(entry.createdAt).toLocaleTimeString()}
+      </div>
+    </li>
+  );
+}
+
+export function RollLogPanel({ characterId, className }: RollLogPanelProps) {
+  const { data: entries = [] } = useRollLog(characterId);
+  const clearRollLog = useClearRollLog();
+
+  return (
+    <div
+      className={cn('bg-gradient-to-b from-amber-50 to-white rounded-lg shadow-lg p-4', className)}
+    >
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2">
+          <Dices className="w-5 h-5 text-amber-700" />
+          <h3 className="text-lg font-bold text-amber-900 uppercase tracking-wide">Roll Log</h3>
+        </div>
+        {entries.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => clearRollLog.mutate(characterId)}
+            disabled={clearRollLog.isPending}
+            className="text-red-600 hover:text-red-700 hover:bg-red-50 px-2 h-7"
+          >
+            <Trash2 className="w-3 h-3 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-center py-6 text-sm text-gray-500">
+          Click a skill, save, attack or damage value to roll it.
+        </p>
+      ) : (
+        <ScrollArea className="h-72">
+          <ul className="space-y-2 pr-3">
+            {entries.map((entry) => (
+              <RollRow key={entry.id} entry={entry} />
+            ))}
+          </ul>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
@@ -12,10 +12,14 @@ import React, { useState, useMemo } from 'react';
 import { cn } from '@/lib/utils';
 import { SKILLS, type AbilityScore, type ProficiencyLevel } from '@/types/game';
 import { formatModifier } from '@/lib/engine/ability-scores';
+import { d20Notation } from '@/lib/engine/dice';
+import { getRollMode, type StatBreakdown, type StatBreakdowns } from '@/lib/engine/effects';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Button } from '@/components/ui/button';
 import { ChevronDown, ChevronUp, Filter, Eye } from 'lucide-react';
 import { useSkills } from '@/hooks/api/useOpen5e';
+import { RollButton, type RollHandler } from './RollButton';
+import { StatBreakdownList, StatTooltip } from './StatTooltip';
 
 // Skill descriptions for tooltips
 const SKILL_DESCRIPTIONS: Record<string, string> = {
@@ -63,7 +67,14 @@ interface SkillsPanelProps {
   abilityModifiers: Record<AbilityScore, number>;
   skillProficiencies: Record<string, ProficiencyLevel>;
   proficiencyBonus: number;
+  /** Derived skill totals; calculated from the modifiers when omitted */
+  skillModifiers?: Record<string, number>;
+  passivePerception?: number;
+  /** Where each skill modifier came from, shown on hover */
+  breakdown?: StatBreakdowns;
   onSkillProficiencyChange?: (skillKey: string, level: ProficiencyLevel) => void;
+  /** Rolls a skill check when its modifier is clicked */
+  onRoll?: RollHandler;
   className?: string;
 }
 
@@ -94,7 +105,10 @@ function SkillRow({
   abilityModifier,
   proficiencyLevel,
   proficiencyBonus,
+  totalModifier,
+  breakdown,
   onProficiencyChange,
+  onRoll,
   description,
 }: {
   skillName: string;
@@ -102,10 +116,14 @@ function SkillRow({
   abilityModifier: number;
   proficiencyLevel: ProficiencyLevel;
   proficiencyBonus: number;
+  totalModifier?: number;
+  breakdown?: StatBreakdown;
   onProficiencyChange?: (level: ProficiencyLevel) => void;
+  onRoll?: RollHandler;
   description: string;
 }) {
-  const modifier = calculateSkillModifier(abilityModifier, proficiencyLevel, proficiencyBonus);
+  const modifier =
+    totalModifier ?? calculateSkillModifier(abilityModifier, proficiencyLevel, proficiencyBonus);
 
   const handleClick = () => {
     if (!onProficiencyChange) return;
@@ -185,7 +203,13 @@ function SkillRow({
             </div>
 
             {/* Modifier */}
-            <span
+            <RollButton
+              request={{
+                label: `${skillName} check`,
+                notation: d20Notation(modifier, breakdown ? getRollMode(breakdown) : 'normal'),
+                kind: 'check',
+              }}
+              onRoll={onRoll}
               className={cn(
                 'font-bold text-lg ml-3 flex-shrink-0',
                 modifier > 0 && 'text-emerald-700',
@@ -194,7 +218,7 @@ function SkillRow({
               )}
             >
               {formatModifier(modifier)}
-            </span>
+            </RollButton>
           </div>
         </TooltipTrigger>
         <TooltipContent
@@ -202,6 +226,11 @@ function SkillRow({
           className="max-w-xs bg-amber-50 border-amber-300 text-amber-900 p-3"
         >
           <p className="text-sm">{description}</p>
+          {breakdown && (
+            <div className="mt-2 pt-2 border-t border-amber-200">
+              <StatBreakdownList breakdown={breakdown} signed />
+            </div>
+          )}
         </TooltipContent>
       </Tooltip>
     </TooltipProvider>
@@ -215,7 +244,11 @@ export function SkillsPanel({
   abilityModifiers,
   skillProficiencies,
   proficiencyBonus,
+  skillModifiers,
+  passivePerception: derivedPassivePerception,
+  breakdown,
   onSkillProficiencyChange,
+  onRoll,
   className,
 }: SkillsPanelProps) {
   const [filter, setFilter] = useState<FilterType>('all');
@@ -243,7 +276,7 @@ export function SkillsPanel({
     perceptionProficiency,
     proficiencyBonus
   );
-  const passivePerception = 10 + perceptionModifier;
+  const passivePerception = derivedPassivePerception ?? 10 + perceptionModifier;
 
   // Filter and sort skills
   const filteredSkills = useMemo(() => {
@@ -285,11 +318,13 @@ export function SkillsPanel({
 
         <div className="flex items-center gap-3">
           {/* Passive Perception - minimal display */}
-          <div className="flex items-center gap-2 px-3 py-1.5 bg-blue-50 border border-blue-200 rounded-md">
-            <Eye className="w-4 h-4 text-blue-600" />
-            <span className="text-xs font-medium text-blue-700">Passive Perception:</span>
-            <span className="text-sm font-bold text-blue-800">{passivePerception}</span>
-          </div>
+          <StatTooltip breakdown={breakdown?.passivePerception} title="Passive Perception">
+            <div className="flex items-center gap-2 px-3 py-1.5 bg-blue-50 border border-blue-200 rounded-md">
+              <Eye className="w-4 h-4 text-blue-600" />
+              <span className="text-xs font-medium text-blue-700">Passive Perception:</span>
+              <span className="text-sm font-bold text-blue-800">{passivePerception}</span>
+            </div>
+          </StatTooltip>
 
           {/* Collapse Toggle */}
           <button
@@ -356,11 +391,14 @@ export function SkillsPanel({
                   abilityModifier={abilityModifiers[skill.ability]}
                   proficiencyLevel={skillProficiencies[skill.key] ?? 'none'}
                   proficiencyBonus={proficiencyBonus}
+                  totalModifier={skillModifiers?.[skill.key]}
+                  breakdown={breakdown?.[`skill:${skill.key}`]}
                   onProficiencyChange={
                     onSkillProficiencyChange
                       ? (level) => onSkillProficiencyChange(skill.key, level)
                       : undefined
                   }
+                  onRoll={onRoll}
                   description={skillDescriptions[skill.key] ?? SKILL_DESCRIPTIONS[skill.key] ?? ''}
                 />
               ))
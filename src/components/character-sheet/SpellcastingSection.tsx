@@ -39,17 +39,36 @@ import type { SpellSlot, SpellLevel } from '@/types/game';
 import type { Spellcasting, KnownSpell } from '@/types/character';
 import type { Open5eSpell } from '@/types/open5e';
 import { formatModifier } from '@/lib/engine/ability-scores';
+import { d20Notation } from '@/lib/engine/dice';
 import { isPreparationCaster, isKnownSpellCaster } from '@/lib/engine/spellcasting';
+import type { StatBreakdowns } from '@/lib/engine/effects';
 import { toOpen5eDisplayString } from '@/lib/utils';
+import { StatTooltip } from './StatTooltip';
+import { RollButton, type RollHandler } from './RollButton';
 
 interface SpellcastingSectionProps {
   spellcasting: Spellcasting | null;
   primaryClassKey: string;
   documentKeys: string[];
   onSpellSlotUse?: (level: SpellLevel, isUsed: boolean) => void;
+  onPactSlotUse?: (isUsed: boolean) => void;
   onSpellTogglePrepared?: (spellKey: string) => void;
   onAddSpell?: (spell: Open5eSpell) => void;
   onRemoveSpell?: (spellKey: string) => void;
+  /** Where the save DC and attack bonus came from, shown on hover */
+  breakdown?: StatBreakdowns;
+  /** Rolls spell attacks and damage when clicked */
+  onRoll?: RollHandler;
+}
+
+/** Damage written in a spell description, e.g. "8d6 fire damage" */
+const SPELL_DAMAGE = /(\d+d\d+(?:\s*\+\s*\d+)?)\s+([a-z]+)\s+damage/gi;
+
+function findSpellDamage(description: string): string[] {
+  const found = [...description.matchAll(SPELL_DAMAGE)].map(
+    ([, dice, type]) => `${dice.replace(/\s+/g, '')} ${type.toLowerCase()}`
+  );
+  return [...new Set(found)];
 }
 
 /**
@@ -119,12 +138,14 @@ function SpellCard({
   canTogglePrepared,
   onTogglePrepared,
   onRemove,
+  onRoll,
 }: {
   spell: KnownSpell;
   isPrepared: boolean;
   canTogglePrepared: boolean;
   onTogglePrepared?: (spellKey: string) => void;
   onRemove?: (spellKey: string) => void;
+  onRoll?: RollHandler;
 }) {
   const [expanded, setExpanded] = useState(false);
 
@@ -242,6 +263,21 @@ function SpellCard({
                   {fullSpell.higher_levels}
                 </p>
               )}
+              {onRoll && findSpellDamage(fullSpell.desc).length > 0 && (
+                <div className="flex items-center gap-2 flex-wrap mt-2">
+                  <span className="font-medium text-purple-800">Roll:</span>
+                  {findSpellDamage(fullSpell.desc).map((notation) => (
+                    <RollButton
+                      key={notation}
+                      request={{ label: `${spell.name} damage`, notation, kind: 'spell' }}
+                      onRoll={onRoll}
+                      className="px-1.5 py-0.5 bg-red-50 text-red-700 font-medium"
+                    >
+                      {notation}
+                    </RollButton>
+                  ))}
+                </div>
+              )}
             </>
           )}
         </div>
@@ -259,12 +295,14 @@ function SpellLevelSection({
   canTogglePrepared,
   onTogglePrepared,
   onRemoveSpell,
+  onRoll,
 }: {
   level: SpellLevel;
   spells: KnownSpell[];
   canTogglePrepared: boolean;
   onTogglePrepared?: (spellKey: string) => void;
   onRemoveSpell?: (spellKey: string) => void;
+  onRoll?: RollHandler;
 }) {
   const [expanded, setExpanded] = useState(true);
 
@@ -307,6 +345,7 @@ function SpellLevelSection({
               canTogglePrepared={canTogglePrepared}
               onTogglePrepared={onTogglePrepared}
               onRemove={onRemoveSpell}
+              onRoll={onRoll}
             />
           ))}
         </div>
@@ -486,9 +525,12 @@ export function SpellcastingSection({
   primaryClassKey,
   documentKeys,
   onSpellSlotUse,
+  onPactSlotUse,
   onSpellTogglePrepared,
   onAddSpell,
   onRemoveSpell,
+  breakdown,
+  onRoll,
 }: SpellcastingSectionProps) {
   const [showAddSpell, setShowAddSpell] = useState(false);
 
@@ -537,6 +579,7 @@ export function SpellcastingSection({
   };
 
   const hasSlots = spellcasting.slots.some((s) => s.max > 0 && s.level > 0);
+  const pactMagic = spellcasting.pactMagic;
 
   return (
     <div className="space-y-2">
@@ -552,15 +595,28 @@ export function SpellcastingSection({
           <div className="text-[10px] text-purple-700 font-medium uppercase tracking-wider">
             Save DC
           </div>
-          <div className="text-lg font-bold text-purple-900">{spellcasting.saveDC}</div>
+          <StatTooltip breakdown={breakdown?.spellSaveDC} title="Spell Save DC">
+            <div className="text-lg font-bold text-purple-900">{spellcasting.saveDC}</div>
+          </StatTooltip>
         </div>
         <div className="text-center">
           <div className="text-[10px] text-purple-700 font-medium uppercase tracking-wider">
             Attack
           </div>
-          <div className="text-lg font-bold text-purple-900">
-            {formatModifier(spellcasting.attackBonus)}
-          </div>
+          <StatTooltip breakdown={breakdown?.spellAttack} title="Spell Attack" signed>
+            <div className="text-lg font-bold text-purple-900">
+              <RollButton
+                request={{
+                  label: 'Spell attack',
+                  notation: d20Notation(spellcasting.attackBonus),
+                  kind: 'spell',
+                }}
+                onRoll={onRoll}
+              >
+                {formatModifier(spellcasting.attackBonus)}
+              </RollButton>
+            </div>
+          </StatTooltip>
         </div>
       </div>
 
@@ -575,6 +631,20 @@ export function SpellcastingSection({
         </div>
       )}
 
+      {/* Pact Magic (recovers on a short rest) */}
+      {pactMagic && pactMagic.max > 0 && (
+        <div className="p-2 bg-white border border-purple-300 rounded">
+          <div className="flex items-center gap-1.5 mb-2">
+            <Star className="w-3 h-3 text-purple-700" />
+            <h4 className="font-bold text-purple-900 text-xs">Pact Magic</h4>
+          </div>
+          <SpellSlotTracker
+            slots={[pactMagic]}
+            onToggle={(_level, _index, isUsed) => onPactSlotUse?.(isUsed)}
+          />
+        </div>
+      )}
+
       {/* Info Banners */}
       {usesPreparation && (
         <div className="p-2 bg-green-50 border border-green-300 rounded text-xs text-green-800">
@@ -612,6 +682,7 @@ export function SpellcastingSection({
               canTogglePrepared={usesPreparation}
               onTogglePrepared={onSpellTogglePrepared}
               onRemoveSpell={onRemoveSpell}
+              onRoll={onRoll}
             />
           );
         })}
@@ -0,0 +1,69 @@
+/**
+ * StatTooltip Component
+ *
+ * Wraps a number on the sheet with a tooltip listing the parts it was built
+ * from (base value, modifiers, item and feature effects) and any sources of
+ * advantage or disadvantage.
+ */
+
+'use client';
+
+import React from 'react';
+
+import { formatModifier } from '@/lib/engine/ability-scores';
+import type { StatBreakdown } from '@/lib/engine/effects';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+
+interface StatTooltipProps {
+  breakdown?: StatBreakdown;
+  title?: string;
+  /** Show every part as a signed modifier (for modifiers rather than scores) */
+  signed?: boolean;
+  children: React.ReactElement;
+}
+
+/**
+ * Breakdown lines, for panels that add them to an existing tooltip
+ */
+export function StatBreakdownList({
+  breakdown,
+  signed = false,
+}: {
+  breakdown: StatBreakdown;
+  signed?: boolean;
+}) {
+  return (
+    <div className="text-xs space-y-0.5">
+      {breakdown.sources.map((source, index) => (
+        <div key={`${source.label}-${index}`} className="flex justify-between gap-4">
+          <span>{source.label}</span>
+          <span className="font-mono font-semibold">
+            {signed || index > 0 ? formatModifier(source.value) : source.value}
+          </span>
+        </div>
+      ))}
+      {breakdown.advantage.length > 0 && (
+        <div className="text-emerald-700">Advantage: {breakdown.advantage.join(', ')}</div>
+      )}
+      {breakdown.disadvantage.length > 0 && (
+        <div className="text-red-700">Disadvantage: {breakdown.disadvantage.join(', ')}</div>
+      )}
+    </div>
+  );
+}
+
+export function StatTooltip({ breakdown, title, signed, children }: StatTooltipProps) {
+  if (!breakdown) return children;
+
+  return (
+    <TooltipProvider delayDuration={300}>
+      <Tooltip>
+        <TooltipTrigger asChild>{children}</TooltipTrigger>
+        <TooltipContent side="top" className="bg-amber-50 border-amber-300 text-amber-900 p-2">
+          {title && <p className="text-sm font-semibold mb-1">{title}</p>}
+          <StatBreakdownList breakdown={breakdown} signed={signed} />
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
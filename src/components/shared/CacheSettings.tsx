@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Database, RefreshCw, Trash2 } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useDocumentUpdates } from '@/hooks/api/useOpen5e';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { clearAllCache, getCacheStats } from '@/lib/db/cache';
+
+const CACHE_STATS_KEY = ['cacheStats'] as const;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Offline data settings: size of the Open5E cache, rulebook sources that
+ * changed upstream since they were cached, and cache maintenance actions.
+ */
+export function CacheSettings() {
+  const queryClient = useQueryClient();
+  const online = useOnlineStatus();
+  const { updates, checkForUpdates, dismissUpdates } = useDocumentUpdates();
+  const { data: stats } = useQuery({ queryKey: CACHE_STATS_KEY, queryFn: getCacheStats });
+  const [isChecking, setIsChecking] = useState(false);
+  const [checkResult, setCheckResult] = useState<string | null>(null);
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    setCheckResult(null);
+    try {
+      const found = await checkForUpdates();
+      setCheckResult(found.length === 0 ? 'All sources are up to date.' : null);
+    } catch {
+      setCheckResult('Could not reach Open5E. Try again when online.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Clear all cached rulebook data? It will be downloaded again.')) return;
+    await clearAllCache();
+    await queryClient.invalidateQueries();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 font-[family-name:var(--font-cinzel)]">
+          <Database className="w-5 h-5" />
+          Offline Data
+        </CardTitle>
+        <CardDescription>
+          Rulebook content is cached in your browser so the app works without a connection.
+          {stats && ` ${stats.total} entries, about ${formatBytes(stats.sizeBytes)}.`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {updates.length > 0 && (
+          <div className="rounded-lg border border-primary/40 bg-primary/5 p-3 space-y-2">
+            <p className="text-sm font-medium">Updated sources</p>
+            <ul className="space-y-1 text-sm">
+              {updates.map((update) => (
+                <li key={update.documentKey} className="flex items-center justify-between gap-2">
+                  <span>{update.name}</span>
+                  <Badge variant="secondary">
+                    {update.invalidatedEntries > 0 ? 'Refreshed' : 'Updated'}{' '}
+                    {new Date(update.detectedAt).toLocaleDateString()}
+                  </Badge>
+                </li>
+              ))}
+            </ul>
+            <Button size="sm" variant="ghost" onClick={dismissUpdates}>
+              Dismiss
+            </Button>
+          </div>
+        )}
+
+        {checkResult && <p className="text-sm text-muted-foreground">{checkResult}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!online || isChecking}
+            onClick={handleCheck}
+          >
+            <RefreshCw className={isChecking ? 'w-4 h-4 animate-spin' : 'w-4 h-4'} />
+            Check for updates
+          </Button>
+          <Button size="sm" variant="ghost" onClick={handleClear}>
+            <Trash2 className="w-4 h-4" />
+            Clear cache
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
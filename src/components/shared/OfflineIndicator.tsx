@@ -0,0 +1,24 @@
+'use client';
+
+import { WifiOff } from 'lucide-react';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+
+/**
+ * Badge shown while the browser is offline; game data then comes from the
+ * local cache and new content cannot be downloaded.
+ */
+export function OfflineIndicator() {
+  const online = useOnlineStatus();
+
+  if (online) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 left-4 z-50 flex items-center gap-2 rounded-full border border-border bg-card px-3 py-1.5 text-sm text-muted-foreground shadow-lg"
+    >
+      <WifiOff className="w-4 h-4" />
+      Offline: using cached data
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import { RefreshCw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useServiceWorker } from '@/hooks/useServiceWorker';
+
+/**
+ * Banner shown when a new version of the app has been downloaded.
+ * Reloading activates it; until then the cached version keeps running.
+ */
+export function UpdatePrompt() {
+  const { updateAvailable, applyUpdate, dismissUpdate } = useServiceWorker();
+
+  if (!updateAvailable) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 right-4 z-50 flex items-center gap-3 rounded-lg border border-border bg-card px-4 py-3 shadow-lg"
+    >
+      <span className="text-sm">A new version of DnDnB is available.</span>
+      <Button size="sm" onClick={applyUpdate}>
+        <RefreshCw className="w-4 h-4" />
+        Reload
+      </Button>
+      <Button size="icon" variant="ghost" aria-label="Dismiss" onClick={dismissUpdate}>
+        <X className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
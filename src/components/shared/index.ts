@@ -2,3 +2,6 @@
 export { Navbar } from './Navbar';
 export { PageWrapper } from './PageWrapper';
 export { ErrorBoundary } from './ErrorBoundary';
+export { UpdatePrompt } from './UpdatePrompt';
+export { OfflineIndicator } from './OfflineIndicator';
+export { CacheSettings } from './CacheSettings';
@@ -9,6 +9,10 @@ export {
   // Query keys for external use
   queryKeys,
 
+  // Background revalidation
+  getQueryKeysForEndpoint,
+  syncCacheRevalidation,
+
   // Document hooks
   useDocuments,
 
@@ -48,4 +52,5 @@ export {
   useCacheStatus,
   useRefreshCache,
   useClearCache,
+  useDocumentUpdates,
 } from './useOpen5e';
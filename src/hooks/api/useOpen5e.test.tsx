@@ -25,6 +25,8 @@ import {
   useRefreshCache,
   useClearCache,
   queryKeys,
+  getQueryKeysForEndpoint,
+  syncCacheRevalidation,
 } from './useOpen5e';
 import {
   fetchDocuments,
@@ -34,6 +36,7 @@ import {
   fetchSpells,
   fetchAllEquipment,
   fetchConditions,
+  open5eClient,
 } from '@/lib/api';
 import type {
   Open5eDocument,
@@ -63,6 +66,8 @@ vi.mock('@/lib/api', () => ({
   fetchSkills: vi.fn(),
   fetchLanguages: vi.fn(),
   fetchAllReferenceData: vi.fn(),
+  isOnline: () => true,
+  open5eClient: { onRevalidate: vi.fn() },
 }));
 
 // ============================================================================
@@ -627,4 +632,50 @@ describe('React Query Hooks', () => {
       expect(keys).toContain(JSON.stringify(filters));
     });
   });
+
+  // --------------------------------------------------------------------------
+  // Background Revalidation
+  // --------------------------------------------------------------------------
+
+  describe('cache revalidation', () => {
+    it('should map endpoints to the query keys that show their data', () => {
+      expect(getQueryKeysForEndpoint('spells')).toEqual([['spells'], ['spell'], ['allOpen5e']]);
+      expect(getQueryKeysForEndpoint('spells/fireball')).toContainEqual(['spell']);
+      expect(getQueryKeysForEndpoint('magicitems')).toContainEqual(['equipment']);
+      expect(getQueryKeysForEndpoint('damagetypes')).toContainEqual(queryKeys.reference);
+    });
+
+    it('should refetch matching queries when the client refreshes stale data', async () => {
+      vi.mocked(fetchSpells).mockResolvedValue([mockSpell]);
+      vi.mocked(fetchDocuments).mockResolvedValue([mockDocument]);
+
+      let notify: Parameters<typeof open5eClient.onRevalidate>[0] = () => {};
+      const unsubscribe = vi.fn();
+      vi.mocked(open5eClient.onRevalidate).mockImplementation((listener) => {
+        notify = listener;
+        return unsubscribe;
+      });
+
+      const Wrapper = ({ children }: { children: ReactNode }) => (
+        <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+      );
+      const { result } = renderHook(
+        () => ({ spells: useSpells(['wotc-srd']), documents: useDocuments() }),
+        { wrapper: Wrapper }
+      );
+      await waitFor(() => {
+        expect(result.current.spells.isSuccess).toBe(true);
+        expect(result.current.documents.isSuccess).toBe(true);
+      });
+
+      const stop = syncCacheRevalidation(queryClient);
+      notify({ endpoint: 'spells', cacheKey: 'spells:abc', documentKey: 'wotc-srd' });
+
+      await waitFor(() => expect(fetchSpells).toHaveBeenCalledTimes(2));
+      expect(fetchDocuments).toHaveBeenCalledTimes(1);
+
+      stop();
+      expect(unsubscribe).toHaveBeenCalled();
+    });
+  });
 });
@@ -7,7 +7,7 @@
  */
 
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import type { UseQueryOptions } from '@tanstack/react-query';
+import type { QueryClient, QueryKey, UseQueryOptions } from '@tanstack/react-query';
 import type {
   Open5eDocument,
   Open5eClass,
@@ -39,7 +39,15 @@ import {
   fetchLanguages,
   fetchAllEquipment,
   fetchAllReferenceData,
+  isOnline,
+  open5eClient,
 } from '@/lib/api';
+import {
+  checkDocumentUpdates,
+  dismissDocumentUpdates,
+  getDocumentUpdates,
+  type DocumentUpdate,
+} from '@/lib/db/document-versions';
 import { useCallback } from 'react';
 
 // ============================================================================
@@ -69,8 +77,55 @@ export const queryKeys = {
   skills: ['skills'] as const,
   languages: ['languages'] as const,
   reference: ['reference'] as const,
+  documentUpdates: ['documentUpdates'] as const,
+};
+
+// ============================================================================
+// Background Revalidation
+// ============================================================================
+
+/** Query keys to invalidate per API endpoint; prefixes match every document set */
+const ENDPOINT_QUERY_KEYS: Record<string, QueryKey[]> = {
+  documents: [queryKeys.documents],
+  classes: [['classes'], ['class']],
+  species: [['species']],
+  backgrounds: [['backgrounds'], ['background']],
+  feats: [['feats'], ['feat']],
+  spells: [['spells'], ['spell']],
+  weapons: [['weapons'], ['equipment']],
+  armor: [['armor'], ['equipment']],
+  items: [['items'], ['equipment']],
+  magicitems: [['magicItems'], ['equipment']],
+  conditions: [queryKeys.conditions, queryKeys.reference],
+  skills: [queryKeys.skills, queryKeys.reference],
+  languages: [queryKeys.languages, queryKeys.reference],
+  damagetypes: [queryKeys.reference],
 };
 
+/**
+ * Query keys that show data from an API endpoint
+ * @param endpoint Endpoint path (e.g., "spells" or "spells/fireball")
+ * @returns Query key prefixes, including the combined all-data query
+ */
+export function getQueryKeysForEndpoint(endpoint: string): QueryKey[] {
+  const resource = endpoint.replace(/^\/+/, '').split('/')[0];
+  return [...(ENDPOINT_QUERY_KEYS[resource] ?? []), ['allOpen5e']];
+}
+
+/**
+ * Invalidate the matching queries whenever the client finishes a background
+ * (stale-while-revalidate) refresh, so open lists pick up the fresh data.
+ * @param queryClient React Query client
+ * @returns Unsubscribe function
+ */
+export function syncCacheRevalidation(queryClient: QueryClient): () => void {
+  return open5eClient.onRevalidate(({ endpoint }) => {
+    for (const queryKey of getQueryKeysForEndpoint(endpoint)) {
+      void queryClient.invalidateQueries({ queryKey });
+    }
+  });
+}
+
 // ============================================================================
 // Default Query Options
 // ============================================================================
@@ -78,6 +133,10 @@ export const queryKeys = {
 const STALE_TIME = 60 * 60 * 1000; // 1 hour - Open5E data is static
 const GC_TIME = 24 * 60 * 60 * 1000; // 24 hours
 const RETRY_DELAY = (attemptIndex: number) => Math.min(1000 * 2 ** attemptIndex, 30000);
+/** Retry twice, but not while offline where it cannot succeed */
+const RETRY = (failureCount: number) => isOnline() && failureCount < 2;
+/** Run the query offline too, so the client can answer from IndexedDB */
+const NETWORK_MODE = 'offlineFirst' as const;
 
 // ============================================================================
 // Document Hooks
@@ -94,7 +153,8 @@ export function useDocuments(options?: Partial<UseQueryOptions<Open5eDocument[]>
     queryFn: () => fetchDocuments(),
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -120,7 +180,8 @@ export function useClasses(
     enabled: documentKeys.length > 0,
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -146,7 +207,8 @@ export function useSpecies(
     enabled: documentKeys.length > 0,
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -172,7 +234,8 @@ export function useBackgrounds(
     enabled: documentKeys.length > 0,
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -200,7 +263,8 @@ export function useSpells(
     enabled: documentKeys.length > 0,
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -223,7 +287,8 @@ export function useFeats(documentKeys: string[], options?: Partial<UseQueryOptio
     enabled: documentKeys.length > 0,
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -256,7 +321,8 @@ export function useWeapons(
     enabled: documentKeys.length > 0,
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -278,7 +344,8 @@ export function useArmor(
     enabled: documentKeys.length > 0,
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -297,7 +364,8 @@ export function useItems(documentKeys: string[], options?: Partial<UseQueryOptio
     enabled: documentKeys.length > 0,
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -319,7 +387,8 @@ export function useMagicItems(
     enabled: documentKeys.length > 0,
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -341,7 +410,8 @@ export function useEquipment(
     enabled: documentKeys.length > 0,
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -362,7 +432,8 @@ export function useConditions(options?: Partial<UseQueryOptions<Open5eCondition[
     queryFn: () => fetchConditions(),
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -379,7 +450,8 @@ export function useSkills(options?: Partial<UseQueryOptions<Open5eSkill[]>>) {
     queryFn: () => fetchSkills(),
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -396,7 +468,8 @@ export function useLanguages(options?: Partial<UseQueryOptions<Open5eLanguage[]>
     queryFn: () => fetchLanguages(),
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -420,7 +493,8 @@ export function useReferenceData(options?: Partial<UseQueryOptions<ReferenceData
     queryFn: () => fetchAllReferenceData(),
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -488,7 +562,8 @@ export function useAllOpen5eData(
     enabled: documentKeys.length > 0,
     staleTime: STALE_TIME,
     gcTime: GC_TIME,
-    retry: 2,
+    retry: RETRY,
+    networkMode: NETWORK_MODE,
     retryDelay: RETRY_DELAY,
     ...options,
   });
@@ -671,3 +746,35 @@ export function useClearCache() {
     clearAll,
   };
 }
+
+/**
+ * Hook for rulebook sources that changed upstream since they were cached
+ * @returns Pending updates plus functions to check again and dismiss them
+ */
+export function useDocumentUpdates() {
+  const queryClient = useQueryClient();
+
+  const query = useQuery<DocumentUpdate[]>({
+    queryKey: queryKeys.documentUpdates,
+    queryFn: () => getDocumentUpdates(),
+  });
+
+  const checkForUpdates = useCallback(async () => {
+    const updates = await checkDocumentUpdates();
+    // Changed sources were removed from the cache, so reload everything that shows them
+    await queryClient.invalidateQueries();
+    return updates;
+  }, [queryClient]);
+
+  const dismissUpdates = useCallback(async () => {
+    await dismissDocumentUpdates();
+    await queryClient.invalidateQueries({ queryKey: queryKeys.documentUpdates });
+  }, [queryClient]);
+
+  return {
+    updates: query.data ?? [],
+    isLoading: query.isLoading,
+    checkForUpdates,
+    dismissUpdates,
+  };
+}
@@ -21,3 +21,10 @@ export * from './useAutoSave';
 
 // Navigation guards
 export * from './useUnsavedChangesGuard';
+
+// Keyboard shortcuts
+export * from './useUndoShortcuts';
+
+// Offline support
+export * from './useOnlineStatus';
+export * from './useServiceWorker';
@@ -1,5 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { getCharacter, updateCharacter } from '@/lib/db/characters';
+import { getCharacter, restoreCharacterVersion, updateCharacter } from '@/lib/db/characters';
+import { getCharacterHistory } from '@/lib/db/history';
+import { addRollLogEntry, clearRollLog, getRollLog } from '@/lib/db/roll-log';
+import type { RollLogEntry } from '@/lib/db/schema';
 import type { CharacterUpdate } from '@/types/character';
 
 /**
@@ -8,6 +11,8 @@ import type { CharacterUpdate } from '@/types/character';
 export const characterKeys = {
   all: ['characters'] as const,
   detail: (id: string) => ['character', id] as const,
+  history: (id: string) => ['character', id, 'history'] as const,
+  rolls: (id: string) => ['character', id, 'rolls'] as const,
 };
 
 /**
@@ -47,3 +52,84 @@ export function useUpdateCharacter() {
     },
   });
 }
+
+/**
+ * Hook to fetch a character's saved versions, newest first
+ */
+export function useCharacterHistory(id: string | null, enabled: boolean = true) {
+  return useQuery({
+    queryKey: characterKeys.history(id ?? ''),
+    queryFn: async () => {
+      if (!id) return [];
+      return getCharacterHistory(id);
+    },
+    enabled: !!id && enabled,
+  });
+}
+
+/**
+ * Hook to restore a character to a saved version
+ */
+export function useRestoreCharacterVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, historyId }: { id: string; historyId: number }) => {
+      const restored = await restoreCharacterVersion(id, historyId);
+      if (!restored) {
+        throw new Error(`Version ${historyId} of character ${id} not found`);
+      }
+      return restored;
+    },
+    onSuccess: (restoredCharacter) => {
+      queryClient.setQueryData(characterKeys.detail(restoredCharacter.id), restoredCharacter);
+      queryClient.invalidateQueries({ queryKey: characterKeys.history(restoredCharacter.id) });
+      queryClient.invalidateQueries({ queryKey: characterKeys.all });
+    },
+  });
+}
+
+/**
+ * Hook to fetch a character's dice rolls, newest first
+ */
+export function useRollLog(id: string | null) {
+  return useQuery({
+    queryKey: characterKeys.rolls(id ?? ''),
+    queryFn: async () => {
+      if (!id) return [];
+      return getRollLog(id);
+    },
+    enabled: !!id,
+  });
+}
+
+/**
+ * Hook to record a dice roll in a character's roll log
+ */
+export function useAddRoll() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (entry: Omit<RollLogEntry, 'id' | 'createdAt'>) => addRollLogEntry(entry),
+    onSuccess: (entry) => {
+      queryClient.invalidateQueries({ queryKey: characterKeys.rolls(entry.characterId) });
+    },
+  });
+}
+
+/**
+ * Hook to clear a character's roll log
+ */
+export function useClearRollLog() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      await clearRollLog(id);
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({ queryKey: characterKeys.rolls(id) });
+    },
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * useOnlineStatus Hook
+ *
+ * Tracks whether the browser is online so the UI can say when it is
+ * working from cached data.
+ */
+
+import { useSyncExternalStore } from 'react';
+import { isOnline, subscribeToNetworkStatus } from '@/lib/api/network';
+
+/**
+ * Hook returning the current online state
+ * @returns True when the browser reports a network connection
+ */
+export function useOnlineStatus(): boolean {
+  return useSyncExternalStore(subscribeToNetworkStatus, isOnline, () => true);
+}
@@ -0,0 +1,81 @@
+/**
+ * useServiceWorker Hook
+ *
+ * Registers the offline service worker (production builds only) and
+ * reports when a new version has been installed and is waiting.
+ * Applying the update activates the new worker and reloads the page.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+
+/** Path of the generated service worker in the static export */
+const SERVICE_WORKER_URL = '/sw.js';
+
+export interface ServiceWorkerState {
+  /** A new version is installed and waiting to take over */
+  updateAvailable: boolean;
+  /** Activate the waiting version and reload */
+  applyUpdate: () => void;
+  /** Hide the update prompt until the next update */
+  dismissUpdate: () => void;
+}
+
+/**
+ * Hook to register the service worker and surface updates
+ * @returns Update state and control functions
+ */
+export function useServiceWorker(): ServiceWorkerState {
+  const [waitingWorker, setWaitingWorker] = useState<ServiceWorker | null>(null);
+
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    let registration: ServiceWorkerRegistration | undefined;
+
+    // Only an update has a controller already; the first install is not an "update"
+    const trackInstalling = (worker: ServiceWorker | null) => {
+      worker?.addEventListener('statechange', () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) {
+          setWaitingWorker(worker);
+        }
+      });
+    };
+
+    const handleUpdateFound = () => trackInstalling(registration?.installing ?? null);
+
+    navigator.serviceWorker
+      .register(SERVICE_WORKER_URL)
+      .then((reg) => {
+        registration = reg;
+        if (reg.waiting && navigator.serviceWorker.controller) {
+          setWaitingWorker(reg.waiting);
+        }
+        reg.addEventListener('updatefound', handleUpdateFound);
+      })
+      .catch((error) => {
+        console.error('Service worker registration failed:', error);
+      });
+
+    return () => {
+      registration?.removeEventListener('updatefound', handleUpdateFound);
+    };
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!waitingWorker) return;
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), {
+      once: true,
+    });
+    waitingWorker.postMessage({ type: 'SKIP_WAITING' });
+  }, [waitingWorker]);
+
+  const dismissUpdate = useCallback(() => {
+    setWaitingWorker(null);
+  }, []);
+
+  return {
+    updateAvailable: waitingWorker !== null,
+    applyUpdate,
+    dismissUpdate,
+  };
+}
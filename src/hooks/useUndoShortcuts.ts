@@ -0,0 +1,39 @@
+/**
+ * useUndoShortcuts
+ *
+ * Binds Ctrl+Z / Cmd+Z to undo and Ctrl+Shift+Z / Cmd+Shift+Z / Ctrl+Y to
+ * redo. Text fields keep their native undo, so typing can be undone letter
+ * by letter while focus is in the field.
+ */
+
+import { useEffect } from 'react';
+
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLInputElement &&
+      !['checkbox', 'radio', 'button', 'submit', 'range'].includes(target.type))
+  );
+}
+
+export function useUndoShortcuts(onUndo: () => void, onRedo: () => void): void {
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && !e.shiftKey)) {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, [onUndo, onRedo]);
+}
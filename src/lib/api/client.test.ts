@@ -192,6 +192,30 @@ describe('Open5eClient', () => {
       expect(fetchSpy).toHaveBeenCalledTimes(1);
     });
 
+    it('should fail without fetching when offline', async () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+      await expect(client.fetch('classes/fighter', undefined, { retries: 3 })).rejects.toThrow(
+        'Open5E API unavailable offline for classes/fighter'
+      );
+
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should stop retrying when the connection drops', async () => {
+      const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+      fetchSpy.mockImplementationOnce(() => {
+        onLine.mockReturnValue(false);
+        return Promise.reject(new TypeError('Failed to fetch'));
+      });
+
+      await expect(client.fetch('classes/fighter', undefined, { retries: 3 })).rejects.toThrow(
+        'Failed to fetch'
+      );
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+    });
+
     it('should build URL with trailing slash', async () => {
       fetchSpy.mockResolvedValueOnce(mockResponse({ key: 'test' }));
 
@@ -333,6 +357,21 @@ describe('Open5eClient', () => {
       expect(cacheEntries.length).toBeGreaterThan(0);
       expect(cacheEntries[0].data).toEqual(mockData);
     });
+
+    it("should stamp entries with the document's content version", async () => {
+      await db.settings.put({
+        key: 'documentVersions',
+        value: { 'wotc-srd': 'abc123' },
+        updatedAt: new Date().toISOString(),
+      });
+      fetchSpy.mockResolvedValueOnce(mockResponse({ key: 'fighter' }));
+
+      await client.fetchCached('classes/fighter', undefined, { documentKey: 'wotc-srd' });
+
+      const [entry] = await db.apiCache.toArray();
+      expect(entry.version).toBe('abc123');
+      await db.settings.clear();
+    });
   });
 
   describe('fetchAllCached', () => {
@@ -372,6 +411,114 @@ describe('Open5eClient', () => {
     });
   });
 
+  describe('staleWhileRevalidate', () => {
+    /** Age every cache entry past its TTL */
+    async function expireCache() {
+      const entries = await db.apiCache.toArray();
+      await db.apiCache.bulkPut(
+        entries.map((entry) => ({ ...entry, cachedAt: new Date(0).toISOString() }))
+      );
+    }
+
+    it('should return expired data immediately and refresh it in the background', async () => {
+      fetchSpy
+        .mockResolvedValueOnce(mockResponse(paginatedResponse([{ key: 'fireball' }])))
+        .mockResolvedValueOnce(
+          mockResponse(paginatedResponse([{ key: 'fireball' }, { key: 'shield' }]))
+        );
+      const listener = vi.fn();
+      client.onRevalidate(listener);
+
+      await client.fetchAllCached('spells', undefined, { staleWhileRevalidate: true });
+      await expireCache();
+
+      const stale = await client.fetchAllCached('spells', undefined, {
+        documentKey: 'wotc-srd',
+        staleWhileRevalidate: true,
+      });
+      expect(stale).toEqual([{ key: 'fireball' }]);
+
+      await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1));
+      expect(listener.mock.calls[0][0]).toMatchObject({
+        endpoint: 'spells',
+        documentKey: 'wotc-srd',
+      });
+
+      const fresh = await client.fetchAllCached('spells', undefined, {
+        staleWhileRevalidate: true,
+      });
+      expect(fresh).toEqual([{ key: 'fireball' }, { key: 'shield' }]);
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share one background refresh between concurrent reads', async () => {
+      fetchSpy.mockResolvedValue(mockResponse({ key: 'fireball' }));
+
+      await client.fetchCached('spells/fireball');
+      await expireCache();
+
+      const listener = vi.fn();
+      client.onRevalidate(listener);
+      await Promise.all([
+        client.fetchCached('spells/fireball', undefined, { staleWhileRevalidate: true }),
+        client.fetchCached('spells/fireball', undefined, { staleWhileRevalidate: true }),
+      ]);
+
+      await vi.waitFor(() => expect(listener).toHaveBeenCalledTimes(1));
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep serving stale data when the refresh fails', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      fetchSpy
+        .mockResolvedValueOnce(mockResponse({ key: 'fireball' }))
+        .mockResolvedValueOnce(mockResponse({ error: 'Not Found' }, 404));
+
+      await client.fetchCached('spells/fireball');
+      await expireCache();
+
+      const listener = vi.fn();
+      client.onRevalidate(listener);
+      const result = await client.fetchCached('spells/fireball', undefined, {
+        staleWhileRevalidate: true,
+      });
+
+      expect(result).toEqual({ key: 'fireball' });
+      await vi.waitFor(() => expect(console.warn).toHaveBeenCalled());
+      expect(listener).not.toHaveBeenCalled();
+      expect(await db.apiCache.count()).toBe(1);
+    });
+
+    it('should treat expired entries as misses without the option', async () => {
+      fetchSpy
+        .mockResolvedValueOnce(mockResponse({ key: 'fireball', level: 3 }))
+        .mockResolvedValueOnce(mockResponse({ key: 'fireball', level: 4 }));
+
+      await client.fetchCached('spells/fireball');
+      await expireCache();
+
+      const result = await client.fetchCached('spells/fireball');
+      expect(result).toEqual({ key: 'fireball', level: 4 });
+      expect(fetchSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop notifying after unsubscribing', async () => {
+      fetchSpy.mockResolvedValue(mockResponse({ key: 'fireball' }));
+
+      await client.fetchCached('spells/fireball');
+      await expireCache();
+
+      const listener = vi.fn();
+      const unsubscribe = client.onRevalidate(listener);
+      unsubscribe();
+      await client.fetchCached('spells/fireball', undefined, { staleWhileRevalidate: true });
+
+      await vi.waitFor(() => expect(fetchSpy).toHaveBeenCalledTimes(2));
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
   // --------------------------------------------------------------------------
   // Queue stats
   // --------------------------------------------------------------------------
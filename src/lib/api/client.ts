@@ -7,8 +7,16 @@
  */
 
 import type { Open5ePaginatedResponse } from '@/types/open5e';
-import { generateCacheKey, getOrCache, getCachedApiData, cacheApiData } from '@/lib/db/cache';
+import {
+  generateCacheKey,
+  getOrCache,
+  getCachedApiData,
+  getStaleCachedApiData,
+  cacheApiData,
+} from '@/lib/db/cache';
+import { getDocumentVersion } from '@/lib/db/document-versions';
 import { CACHE_TTL } from '@/lib/db/schema';
+import { isOnline } from './network';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_OPEN5E_API_URL || 'https://api.open5e.com/v2';
 
@@ -142,14 +150,35 @@ export interface CachedFetchOptions extends PaginatedFetchOptions {
   ttl?: number;
   /** Force refresh (skip cache read, but still write to cache) */
   forceRefresh?: boolean;
+  /**
+   * Return expired cached data immediately and refresh it in the background.
+   * Revalidation listeners are notified once the fresh data is cached.
+   */
+  staleWhileRevalidate?: boolean;
+}
+
+/** Fresh data cached by a background (stale-while-revalidate) refresh */
+export interface CacheRevalidationEvent {
+  /** API endpoint path that was refreshed */
+  endpoint: string;
+  /** Cache key that now holds fresh data */
+  cacheKey: string;
+  /** Document key the entry belongs to */
+  documentKey: string;
 }
 
+/** Listener for background cache refreshes */
+export type CacheRevalidationListener = (event: CacheRevalidationEvent) => void;
+
 /**
  * Enhanced API client for Open5E with throttling, retry, and cache support.
  */
 export class Open5eClient {
   private baseUrl: string;
   private queue: RequestQueue;
+  private revalidationListeners = new Set<CacheRevalidationListener>();
+  /** Background refreshes in flight, by cache key */
+  private revalidating = new Map<string, Promise<void>>();
 
   constructor(baseUrl?: string) {
     this.baseUrl = baseUrl || API_BASE_URL;
@@ -187,6 +216,7 @@ export class Open5eClient {
 
   /**
    * Fetch with exponential backoff retry logic.
+   * Fails straight away when the browser is offline, since retries cannot succeed.
    */
   private async fetchWithRetry<T>(
     endpoint: string,
@@ -194,6 +224,10 @@ export class Open5eClient {
     retries: number,
     signal?: AbortSignal
   ): Promise<T> {
+    if (!isOnline()) {
+      throw new Error(`Open5E API unavailable offline for ${endpoint}`);
+    }
+
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
@@ -222,6 +256,11 @@ export class Open5eClient {
           throw lastError;
         }
 
+        // Don't retry once the connection is gone
+        if (!isOnline()) {
+          throw lastError;
+        }
+
         // Don't retry on 4xx errors (except 429)
         if (
           lastError.message.includes('Open5E API error: 4') &&
@@ -295,6 +334,7 @@ export class Open5eClient {
   /**
    * Fetch data with automatic caching.
    * Uses the cache-aside pattern: check cache first, fetch if miss, cache result.
+   * With `staleWhileRevalidate`, expired entries are returned and refreshed in the background.
    * @param endpoint API endpoint path
    * @param params Query parameters
    * @param options Cached fetch options
@@ -305,30 +345,11 @@ export class Open5eClient {
     params?: Record<string, string | number | boolean | undefined>,
     options: CachedFetchOptions = {}
   ): Promise<T> {
-    const {
-      documentKey = 'global',
-      ttl = CACHE_TTL.default,
-      forceRefresh = false,
-      ...fetchOptions
-    } = options;
-
     const cacheKey = generateCacheKey(endpoint, params as Record<string, unknown>);
 
-    // If not forcing refresh, try cache first
-    if (!forceRefresh) {
-      const cached = await getCachedApiData<T>(cacheKey);
-      if (cached !== null) {
-        return cached;
-      }
-    }
-
-    // Fetch from API
-    const data = await this.fetch<T>(endpoint, params, fetchOptions);
-
-    // Cache the result
-    await cacheApiData(cacheKey, data, documentKey, '1', ttl);
-
-    return data;
+    return this.readThroughCache<T>(endpoint, cacheKey, options, (fetchOptions) =>
+      this.fetch<T>(endpoint, params, fetchOptions)
+    );
   }
 
   /**
@@ -344,32 +365,101 @@ export class Open5eClient {
     params?: Record<string, string | number | boolean | undefined>,
     options: CachedFetchOptions = {}
   ): Promise<T[]> {
+    const cacheKey = generateCacheKey(endpoint, {
+      ...(params as Record<string, unknown>),
+      _allPages: true,
+    });
+
+    return this.readThroughCache<T[]>(endpoint, cacheKey, options, (fetchOptions) =>
+      this.fetchAll<T>(endpoint, params, fetchOptions)
+    );
+  }
+
+  /**
+   * Subscribe to background cache refreshes (stale-while-revalidate).
+   * @param listener Called after fresh data has been cached
+   * @returns Unsubscribe function
+   */
+  onRevalidate(listener: CacheRevalidationListener): () => void {
+    this.revalidationListeners.add(listener);
+    return () => {
+      this.revalidationListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Shared cache logic for fetchCached and fetchAllCached.
+   * Entries are stamped with their document's content version.
+   */
+  private async readThroughCache<T>(
+    endpoint: string,
+    cacheKey: string,
+    options: CachedFetchOptions,
+    load: (fetchOptions: PaginatedFetchOptions) => Promise<T>
+  ): Promise<T> {
     const {
       documentKey = 'global',
       ttl = CACHE_TTL.default,
       forceRefresh = false,
+      staleWhileRevalidate = false,
       ...fetchOptions
     } = options;
 
-    const cacheKey = generateCacheKey(endpoint, {
-      ...(params as Record<string, unknown>),
-      _allPages: true,
-    });
-
     if (!forceRefresh) {
-      const cached = await getCachedApiData<T[]>(cacheKey);
-      if (cached !== null) {
-        return cached;
+      if (staleWhileRevalidate) {
+        const cached = await getStaleCachedApiData<T>(cacheKey);
+        if (cached !== null) {
+          if (cached.isExpired) {
+            this.revalidate(endpoint, cacheKey, documentKey, ttl, () => load(fetchOptions));
+          }
+          return cached.data;
+        }
+      } else {
+        const cached = await getCachedApiData<T>(cacheKey);
+        if (cached !== null) {
+          return cached;
+        }
       }
     }
 
-    const data = await this.fetchAll<T>(endpoint, params, fetchOptions);
+    const data = await load(fetchOptions);
 
-    await cacheApiData(cacheKey, data, documentKey, '1', ttl);
+    await cacheApiData(cacheKey, data, documentKey, await getDocumentVersion(documentKey), ttl);
 
     return data;
   }
 
+  /**
+   * Refresh a cache entry in the background and notify listeners.
+   * Concurrent requests for the same key share one refresh; failures keep
+   * the stale entry so the next read tries again.
+   */
+  private revalidate<T>(
+    endpoint: string,
+    cacheKey: string,
+    documentKey: string,
+    ttl: number,
+    load: () => Promise<T>
+  ): void {
+    if (this.revalidating.has(cacheKey)) return;
+
+    const refresh = load()
+      .then(async (data) => {
+        await cacheApiData(cacheKey, data, documentKey, await getDocumentVersion(documentKey), ttl);
+        for (const listener of this.revalidationListeners) {
+          listener({ endpoint, cacheKey, documentKey });
+        }
+      })
+      .catch((error) => {
+        console.warn(`Background refresh of ${endpoint} failed:`, error);
+      })
+      .finally(() => {
+        this.revalidating.delete(cacheKey);
+      });
+
+    this.revalidating.set(cacheKey, refresh);
+  }
+
   /**
    * Fetch with cache-aside pattern using getOrCache utility.
    * @param endpoint API endpoint path
@@ -385,8 +475,15 @@ export class Open5eClient {
     ttl: number = CACHE_TTL.default
   ): Promise<T> {
     const cacheKey = generateCacheKey(endpoint, params as Record<string, unknown>);
-
-    return getOrCache<T>(cacheKey, () => this.fetch<T>(endpoint, params), documentKey, '1', ttl);
+    const version = await getDocumentVersion(documentKey);
+
+    return getOrCache<T>(
+      cacheKey,
+      () => this.fetch<T>(endpoint, params),
+      documentKey,
+      version,
+      ttl
+    );
   }
 
   // --------------------------------------------------------------------------
@@ -31,6 +31,7 @@ export async function fetchBackgroundsByDocument(
       documentKey,
       ttl: CACHE_TTL.content,
       forceRefresh,
+      staleWhileRevalidate: true,
     }
   );
 }
@@ -24,6 +24,7 @@ export async function fetchDocuments(forceRefresh = false): Promise<Open5eDocume
     documentKey: 'global',
     ttl: CACHE_TTL.documents,
     forceRefresh,
+    staleWhileRevalidate: true,
   });
 }
 
@@ -34,6 +34,7 @@ export async function fetchWeaponsByDocument(
       documentKey,
       ttl: CACHE_TTL.content,
       forceRefresh,
+      staleWhileRevalidate: true,
       pageSize: 1000,
     }
   );
@@ -80,6 +81,7 @@ export async function fetchArmorByDocument(
       documentKey,
       ttl: CACHE_TTL.content,
       forceRefresh,
+      staleWhileRevalidate: true,
       pageSize: 1000,
     }
   );
@@ -126,6 +128,7 @@ export async function fetchItemsByDocument(
       documentKey,
       ttl: CACHE_TTL.content,
       forceRefresh,
+      staleWhileRevalidate: true,
       pageSize: 1000,
     }
   );
@@ -172,6 +175,7 @@ export async function fetchMagicItemsByDocument(
       documentKey,
       ttl: CACHE_TTL.content,
       forceRefresh,
+      staleWhileRevalidate: true,
       pageSize: 1000,
     }
   );
@@ -30,6 +30,7 @@ export async function fetchFeatsByDocument(
       documentKey,
       ttl: CACHE_TTL.default,
       forceRefresh,
+      staleWhileRevalidate: true,
     }
   );
 }
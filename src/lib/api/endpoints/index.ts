@@ -2,6 +2,8 @@
  * API Endpoints
  *
  * Organized exports for all Open5E API endpoint functions.
+ * List fetches use stale-while-revalidate: expired lists are served from the
+ * cache while a background refresh runs.
  * @module api/endpoints
  */
 
@@ -29,6 +29,7 @@ export async function fetchConditions(forceRefresh = false): Promise<Open5eCondi
     documentKey: 'global',
     ttl: CACHE_TTL.reference,
     forceRefresh,
+    staleWhileRevalidate: true,
   });
 }
 
@@ -50,6 +51,7 @@ export async function fetchSkills(forceRefresh = false): Promise<Open5eSkill[]>
     documentKey: 'global',
     ttl: CACHE_TTL.reference,
     forceRefresh,
+    staleWhileRevalidate: true,
   });
 }
 
@@ -71,6 +73,7 @@ export async function fetchLanguages(forceRefresh = false): Promise<Open5eLangua
     documentKey: 'global',
     ttl: CACHE_TTL.reference,
     forceRefresh,
+    staleWhileRevalidate: true,
   });
 }
 
@@ -101,6 +104,7 @@ export async function fetchDamageTypes(forceRefresh = false): Promise<Open5eDama
     documentKey: 'global',
     ttl: CACHE_TTL.reference,
     forceRefresh,
+    staleWhileRevalidate: true,
   });
 }
 
@@ -88,6 +88,7 @@ export async function fetchSpellsByDocument(
     documentKey,
     ttl: CACHE_TTL.spells,
     forceRefresh,
+    staleWhileRevalidate: true,
   });
 }
 
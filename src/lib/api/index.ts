@@ -6,5 +6,13 @@
  */
 
 export { Open5eClient, open5eClient } from './client';
-export type { FetchOptions, PaginatedFetchOptions, CachedFetchOptions } from './client';
+export type {
+  FetchOptions,
+  PaginatedFetchOptions,
+  CachedFetchOptions,
+  CacheRevalidationEvent,
+  CacheRevalidationListener,
+} from './client';
+export { isOnline, subscribeToNetworkStatus } from './network';
+export type { NetworkStatusListener } from './network';
 export * from './endpoints';
@@ -0,0 +1,34 @@
+/**
+ * Network Status Tests
+ * @module api/network.test
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { isOnline, subscribeToNetworkStatus } from './network';
+
+describe('network status', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should follow navigator.onLine', () => {
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+    expect(isOnline()).toBe(true);
+
+    onLine.mockReturnValue(false);
+    expect(isOnline()).toBe(false);
+  });
+
+  it('should notify listeners of online and offline events', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToNetworkStatus(listener);
+
+    window.dispatchEvent(new Event('offline'));
+    window.dispatchEvent(new Event('online'));
+    expect(listener.mock.calls).toEqual([[false], [true]]);
+
+    unsubscribe();
+    window.dispatchEvent(new Event('offline'));
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
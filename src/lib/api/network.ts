@@ -0,0 +1,39 @@
+/**
+ * Network Status
+ *
+ * Online/offline state from the browser, shared by the API client (to skip
+ * retries that cannot succeed) and the Open5E query hooks.
+ * @module api/network
+ */
+
+/** Listener called with the new online state */
+export type NetworkStatusListener = (online: boolean) => void;
+
+/**
+ * Whether the browser reports a network connection.
+ * Outside the browser (build, tests without navigator) this is always true.
+ * @returns False only when the browser knows it is offline
+ */
+export function isOnline(): boolean {
+  if (typeof navigator === 'undefined') return true;
+  return navigator.onLine !== false;
+}
+
+/**
+ * Subscribe to online/offline changes.
+ * @param listener Called with the new state on every change
+ * @returns Unsubscribe function
+ */
+export function subscribeToNetworkStatus(listener: NetworkStatusListener): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const handleOnline = () => listener(true);
+  const handleOffline = () => listener(false);
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+}
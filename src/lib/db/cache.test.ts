@@ -6,7 +6,7 @@
  * @module db/cache.test
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { db } from './database';
 import type { ApiCacheEntry } from './schema';
 import { CACHE_TTL } from './schema';
@@ -14,6 +14,7 @@ import {
   generateCacheKey,
   cacheApiData,
   getCachedApiData,
+  getStaleCachedApiData,
   isCacheValid,
   invalidateCache,
   invalidateDocumentCache,
@@ -181,6 +182,34 @@ describe('Cache Operations', () => {
     });
   });
 
+  describe('getStaleCachedApiData', () => {
+    it('should return expired data without deleting it', async () => {
+      const key = 'test:stale';
+      const entry = createTestCacheEntry(key, {
+        data: { stale: true },
+        cachedAt: new Date(Date.now() - 2000).toISOString(),
+        ttl: 1000,
+      });
+      await db.apiCache.add(entry);
+
+      const retrieved = await getStaleCachedApiData(key);
+      expect(retrieved).toEqual({ data: { stale: true }, isExpired: true });
+      expect(await getCacheEntryById(key)).toBeDefined();
+    });
+
+    it('should flag data within TTL as not expired', async () => {
+      const key = 'test:stale-valid';
+      await cacheApiData(key, { valid: true }, 'wotc-srd', '1.0', 10000);
+
+      const retrieved = await getStaleCachedApiData(key);
+      expect(retrieved).toEqual({ data: { valid: true }, isExpired: false });
+    });
+
+    it('should return null for non-existent key', async () => {
+      expect(await getStaleCachedApiData('non-existent')).toBeNull();
+    });
+  });
+
   describe('isCacheValid', () => {
     it('should return true for valid cache', async () => {
       const key = 'test:valid-check';
@@ -370,11 +399,25 @@ describe('Cache Statistics', () => {
 });
 
 describe('Cache Warming', () => {
+  const fetchSpy = vi.fn();
+
   beforeEach(async () => {
     if (!db.isOpen()) {
       await db.open();
     }
     await db.apiCache.clear();
+    fetchSpy.mockReset();
+    fetchSpy.mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      json: async () => ({ count: 1, next: null, previous: null, results: [{ key: url }] }),
+    }));
+    vi.stubGlobal('fetch', fetchSpy);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
   });
 
   it('should call progress callback with updates', async () => {
@@ -389,7 +432,7 @@ describe('Cache Warming', () => {
     await warmCache(['wotc-srd'], ['classes', 'spells'], callback);
 
     expect(callback).toHaveBeenCalled();
-    expect(progressUpdates.length).toBeGreaterThan(0);
+    expect(progressUpdates.map((p) => p.endpoint)).toContain('wotc-srd/spells');
     expect(progressUpdates[progressUpdates.length - 1].percentage).toBe(100);
   });
 
@@ -403,6 +446,44 @@ describe('Cache Warming', () => {
     const result = await warmCache(['wotc-srd'], []);
     expect(result.success).toBe(true);
   });
+
+  it('should cache every document and endpoint under the keys the endpoints read', async () => {
+    await warmCache(['wotc-srd', 'srd-2024'], ['classes', 'weapons', 'reference']);
+
+    // 2 documents × 2 endpoints + 4 reference endpoints
+    expect(fetchSpy).toHaveBeenCalledTimes(8);
+    expect(
+      await isCacheValid(
+        generateCacheKey('classes', { document__key: 'srd-2024', _allPages: true })
+      )
+    ).toBe(true);
+    expect(await isCacheValid(generateCacheKey('conditions', { _allPages: true }))).toBe(true);
+    const weapons = fetchSpy.mock.calls.find(([url]) => String(url).includes('/weapons/'));
+    expect(String(weapons?.[0])).toContain('limit=1000');
+  });
+
+  it('should resume after a partial failure without refetching what succeeded', async () => {
+    fetchSpy.mockImplementation(async (url: string) =>
+      url.includes('/spells/')
+        ? { ok: false, status: 404, statusText: 'Not Found', json: async () => ({}) }
+        : {
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            json: async () => ({ count: 1, next: null, previous: null, results: [] }),
+          }
+    );
+
+    const first = await warmCache(['wotc-srd'], ['classes', 'spells']);
+    expect(first.success).toBe(false);
+    expect(first.errors).toEqual([expect.stringContaining('wotc-srd/spells')]);
+
+    fetchSpy.mockClear();
+    const second = await warmCache(['wotc-srd'], ['classes', 'spells']);
+    expect(second.success).toBe(false);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(String(fetchSpy.mock.calls[0][0])).toContain('/spells/');
+  });
 });
 
 describe('Advanced Cache Operations', () => {
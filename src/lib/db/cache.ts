@@ -99,6 +99,34 @@ export async function getCachedApiData<T = unknown>(key: string): Promise<T | nu
   return entry.data as T;
 }
 
+/** Cached data that may be past its TTL */
+export interface StaleCacheResult<T> {
+  data: T;
+  /** True when the entry is older than its TTL */
+  isExpired: boolean;
+}
+
+/**
+ * Get cached API data even when expired (for stale-while-revalidate).
+ * Unlike getCachedApiData, expired entries are kept so they can be served
+ * until a refresh replaces them.
+ * @param key Cache key
+ * @returns Cached data with its expiry state, or null if not found
+ */
+export async function getStaleCachedApiData<T = unknown>(
+  key: string
+): Promise<StaleCacheResult<T> | null> {
+  const entry = await db.apiCache.get(key);
+
+  if (!entry) {
+    return null;
+  }
+
+  const age = Date.now() - new Date(entry.cachedAt).getTime();
+
+  return { data: entry.data as T, isExpired: age > entry.ttl };
+}
+
 /**
  * Check if cache entry exists and is valid (not expired)
  * @param key Cache key
@@ -262,63 +290,151 @@ export interface CacheWarmingProgress {
 
 export type CacheWarmingCallback = (progress: CacheWarmingProgress) => void;
 
+/** Endpoints warmed for every selected document, plus the global reference data */
+export const CACHE_WARMING_ENDPOINTS = [
+  'classes',
+  'species',
+  'backgrounds',
+  'spells',
+  'feats',
+  'weapons',
+  'armor',
+  'items',
+  'magicitems',
+  'reference',
+];
+
+/** Global endpoints fetched once for 'reference' */
+const REFERENCE_ENDPOINTS = ['conditions', 'skills', 'languages', 'damagetypes'];
+
+/** TTL per endpoint, matching the endpoint modules so warmed entries are reused */
+const ENDPOINT_TTL: Record<string, number> = {
+  classes: CACHE_TTL.content,
+  species: CACHE_TTL.content,
+  backgrounds: CACHE_TTL.content,
+  spells: CACHE_TTL.spells,
+  feats: CACHE_TTL.default,
+  weapons: CACHE_TTL.content,
+  armor: CACHE_TTL.content,
+  items: CACHE_TTL.content,
+  magicitems: CACHE_TTL.content,
+};
+
+/** Endpoints the equipment module fetches with large pages */
+const LARGE_PAGE_ENDPOINTS = new Set(['weapons', 'armor', 'items', 'magicitems']);
+
+interface CacheWarmingTask {
+  /** Label for progress and errors (e.g., "wotc-srd/classes") */
+  label: string;
+  endpoint: string;
+  params?: Record<string, string>;
+  documentKey: string;
+  ttl: number;
+  pageSize?: number;
+}
+
+/**
+ * Expand documents × endpoints into fetch tasks. The params match the
+ * endpoint modules so the cache keys are the ones the app reads.
+ */
+function buildCacheWarmingTasks(documentKeys: string[], endpoints: string[]): CacheWarmingTask[] {
+  const tasks: CacheWarmingTask[] = [];
+
+  for (const endpoint of endpoints) {
+    if (endpoint === 'reference') {
+      for (const reference of REFERENCE_ENDPOINTS) {
+        tasks.push({
+          label: reference,
+          endpoint: reference,
+          documentKey: 'global',
+          ttl: CACHE_TTL.reference,
+        });
+      }
+      continue;
+    }
+
+    for (const documentKey of documentKeys) {
+      tasks.push({
+        label: `${documentKey}/${endpoint}`,
+        endpoint,
+        params: { document__key: documentKey },
+        documentKey,
+        ttl: ENDPOINT_TTL[endpoint] ?? CACHE_TTL.default,
+        pageSize: LARGE_PAGE_ENDPOINTS.has(endpoint) ? 1000 : undefined,
+      });
+    }
+  }
+
+  return tasks;
+}
+
 /**
  * Warm cache for a set of documents
- * This is a placeholder that will be implemented with actual API integration
+ * Fetches every page of each document × endpoint through the API client's
+ * request queue. Entries that are still valid are skipped, so running it
+ * again after a partial failure only fetches what is missing.
  * @param documentKeys Document keys to warm cache for
- * @param endpoints List of endpoints to cache (e.g., ['classes', 'species', 'backgrounds'])
- * @param onProgress Optional progress callback
+ * @param endpoints Endpoints to cache (see CACHE_WARMING_ENDPOINTS; 'reference' covers the global reference data)
+ * @param onProgress Optional progress callback, called as each endpoint starts and finishes
  * @returns Object with success status and any errors
  */
 export async function warmCache(
   documentKeys: string[],
-  endpoints: string[],
+  endpoints: string[] = CACHE_WARMING_ENDPOINTS,
   onProgress?: CacheWarmingCallback
 ): Promise<{ success: boolean; errors: string[] }> {
+  // Loaded lazily: the client itself depends on this module
+  const { open5eClient } = await import('@/lib/api/client');
+  const tasks = buildCacheWarmingTasks(documentKeys, endpoints);
   const errors: string[] = [];
   let completed = 0;
 
-  for (const endpoint of endpoints) {
-    if (onProgress) {
-      onProgress({
-        currentEndpoint: endpoint,
-        completed,
-        total: endpoints.length,
-        percentage: Math.round((completed / endpoints.length) * 100),
-        status: `Caching ${endpoint}...`,
-        errors,
-      });
-    }
-
-    try {
-      // TODO: Implement actual API fetching and caching
-      // For now, this is a placeholder that demonstrates the structure
-      // When API integration is complete, this will:
-      // 1. Fetch data from Open5E API for each endpoint/document
-      // 2. Cache the results using cacheApiData()
-      // 3. Handle pagination if needed
-      // 4. Handle rate limiting
-
-      // Placeholder delay to simulate API calls
-      await new Promise((resolve) => setTimeout(resolve, 100));
-
-      completed++;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-      errors.push(`Failed to cache ${endpoint}: ${errorMessage}`);
-    }
-  }
-
-  if (onProgress) {
-    onProgress({
-      currentEndpoint: '',
+  const report = (currentEndpoint: string, status: string) => {
+    onProgress?.({
+      currentEndpoint,
       completed,
-      total: endpoints.length,
-      percentage: 100,
-      status: errors.length > 0 ? 'Completed with errors' : 'Completed successfully',
-      errors,
+      total: tasks.length,
+      percentage: tasks.length === 0 ? 100 : Math.round((completed / tasks.length) * 100),
+      status,
+      errors: [...errors],
     });
-  }
+  };
+
+  await Promise.all(
+    tasks.map(async (task) => {
+      const cacheKey = generateCacheKey(task.endpoint, { ...task.params, _allPages: true });
+
+      if (await isCacheValid(cacheKey)) {
+        completed++;
+        report(task.label, `${task.label} already cached`);
+        return;
+      }
+
+      report(task.label, `Caching ${task.label}...`);
+      try {
+        await open5eClient.fetchAllCached(task.endpoint, task.params, {
+          documentKey: task.documentKey,
+          ttl: task.ttl,
+          pageSize: task.pageSize,
+        });
+        completed++;
+        report(task.label, `Cached ${task.label}`);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        errors.push(`Failed to cache ${task.label}: ${errorMessage}`);
+        report(task.label, `Failed to cache ${task.label}`);
+      }
+    })
+  );
+
+  onProgress?.({
+    currentEndpoint: '',
+    completed,
+    total: tasks.length,
+    percentage: 100,
+    status: errors.length > 0 ? 'Completed with errors' : 'Completed successfully',
+    errors,
+  });
 
   return {
     success: errors.length === 0,
@@ -335,10 +451,7 @@ export async function warmCache(
 export async function prewarmCommonCache(
   onProgress?: CacheWarmingCallback
 ): Promise<{ success: boolean; errors: string[] }> {
-  // Common endpoints that should be pre-cached
-  const commonEndpoints = ['conditions', 'skills', 'languages', 'damage-types', 'ability-scores'];
-
-  return warmCache(['wotc-srd'], commonEndpoints, onProgress);
+  return warmCache([], ['reference'], onProgress);
 }
 
 // ============================================================================
@@ -7,6 +7,8 @@
 
 import { db } from './database';
 import type { CharacterTableEntry } from './schema';
+import { deleteCharacterHistory, recordCharacterVersion } from './history';
+import { clearRollLog } from './roll-log';
 import type { Character, CharacterSummary, CharacterUpdate } from '@/types/character';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -147,27 +149,51 @@ export async function getCharacterSummaries(options?: {
 
 /**
  * Update a character
+ * Every save that changes something is recorded in the character's history.
  * @param id Character ID
  * @param changes Partial character changes
+ * @param options restoredFrom: history entry being restored, if any
  * @returns Updated character or null if not found
  */
 export async function updateCharacter(
   id: string,
-  changes: CharacterUpdate
+  changes: CharacterUpdate,
+  options: { restoredFrom?: number } = {}
 ): Promise<Character | null> {
-  const existing = await db.characters.get(id);
-  if (!existing) return null;
-
-  const updated: CharacterTableEntry = {
-    ...existing,
-    ...changes,
-    id: existing.id, // Ensure ID doesn't change
-    createdAt: existing.createdAt, // Ensure createdAt doesn't change
-    updatedAt: new Date().toISOString(),
-  };
+  return db.transaction('rw', db.characters, db.characterHistory, async () => {
+    const existing = await db.characters.get(id);
+    if (!existing) return null;
+
+    const updated: CharacterTableEntry = {
+      ...existing,
+      ...changes,
+      id: existing.id, // Ensure ID doesn't change
+      createdAt: existing.createdAt, // Ensure createdAt doesn't change
+      updatedAt: new Date().toISOString(),
+    };
+
+    await db.characters.put(updated);
+    await recordCharacterVersion(existing, updated, options.restoredFrom);
+    return fromTableEntry(updated);
+  });
+}
+
+/**
+ * Restore a character to a saved version
+ * The restore is saved like any other update, so it can itself be undone.
+ * @param id Character ID
+ * @param historyId History entry to restore
+ * @returns Restored character, or null if the character or version was not found
+ */
+export async function restoreCharacterVersion(
+  id: string,
+  historyId: number
+): Promise<Character | null> {
+  const entry = await db.characterHistory.get(historyId);
+  if (!entry || entry.characterId !== id) return null;
 
-  await db.characters.put(updated);
-  return fromTableEntry(updated);
+  // updateCharacter keeps the current ID and timestamps
+  return updateCharacter(id, fromTableEntry(entry.snapshot), { restoredFrom: historyId });
 }
 
 /**
@@ -179,7 +205,8 @@ export async function deleteCharacter(id: string): Promise<boolean> {
   let deleted = false;
 
   // Existence check and deletion are inside the same transaction to avoid TOCTOU
-  await db.transaction('rw', db.characters, db.campaigns, async () => {
+  const tables = [db.characters, db.campaigns, db.characterHistory, db.rollLog];
+  await db.transaction('rw', tables, async () => {
     const existing = await db.characters.get(id);
     if (!existing) return; // leaves `deleted` as false, signaling not found
 
@@ -191,6 +218,8 @@ export async function deleteCharacter(id: string): Promise<boolean> {
       }
     }
     await db.characters.delete(id);
+    await deleteCharacterHistory(id);
+    await clearRollLog(id);
     deleted = true;
   });
 
@@ -220,6 +249,27 @@ export async function duplicateCharacter(id: string, newName?: string): Promise<
   return fromTableEntry(duplicated);
 }
 
+/**
+ * Store a character from an import file
+ * Keeps the file's ID unless a character with that ID already exists, in
+ * which case it gets a new one so the existing character is not overwritten.
+ * @param character Validated character from the file
+ * @returns The stored character and whether its ID was replaced
+ */
+export async function saveImportedCharacter(
+  character: Character
+): Promise<{ character: Character; idChanged: boolean }> {
+  const idChanged = (await db.characters.get(character.id)) !== undefined;
+  const imported: Character = {
+    ...character,
+    id: idChanged ? uuidv4() : character.id,
+    updatedAt: new Date(),
+  };
+
+  await db.characters.add(toTableEntry(imported));
+  return { character: imported, idChanged };
+}
+
 // ============================================================================
 // Bulk Operations
 // ============================================================================
@@ -4,8 +4,12 @@ import type {
   CampaignTableEntry,
   ApiCacheEntry,
   SettingsEntry,
+  MigrationBackupEntry,
+  CharacterHistoryEntry,
+  RollLogEntry,
 } from './schema';
-import { DB_CONFIG } from './schema';
+import { DB_CONFIG, DB_VERSIONS, getVersionStores } from './schema';
+import { runMigration } from './migrations';
 
 /**
  * DnDnB Database Class
@@ -13,7 +17,7 @@ import { DB_CONFIG } from './schema';
  * Extended Dexie database with all tables and indexes configured.
  * Supports characters, campaigns, API caching, and application settings.
  */
-class DnDnBDatabase extends Dexie {
+export class DnDnBDatabase extends Dexie {
   /** Character storage table */
   characters!: Table<CharacterTableEntry, string>;
   /** Campaign storage table */
@@ -22,27 +26,23 @@ class DnDnBDatabase extends Dexie {
   apiCache!: Table<ApiCacheEntry, string>;
   /** Application settings table */
   settings!: Table<SettingsEntry, string>;
+  /** Snapshots taken before destructive upgrades */
+  migrationBackups!: Table<MigrationBackupEntry, string>;
+  /** Saved versions of each character */
+  characterHistory!: Table<CharacterHistoryEntry, number>;
+  /** Dice rolls made from each character's sheet */
+  rollLog!: Table<RollLogEntry, number>;
 
-  constructor() {
-    super(DB_CONFIG.name);
+  constructor(name: string = DB_CONFIG.name) {
+    super(name);
 
-    // Define database schema: primary key first, then indexes (Dexie uses first as primary key)
-    this.version(DB_CONFIG.version).stores({
-      characters: [
-        DB_CONFIG.tables.characters.primaryKey,
-        ...DB_CONFIG.tables.characters.indexes,
-      ].join(', '),
-      campaigns: [
-        DB_CONFIG.tables.campaigns.primaryKey,
-        ...DB_CONFIG.tables.campaigns.indexes,
-      ].join(', '),
-      apiCache: [DB_CONFIG.tables.apiCache.primaryKey, ...DB_CONFIG.tables.apiCache.indexes].join(
-        ', '
-      ),
-      settings: [DB_CONFIG.tables.settings.primaryKey, ...DB_CONFIG.tables.settings.indexes].join(
-        ', '
-      ),
-    });
+    // Declare every schema version so older databases upgrade step by step,
+    // running each version's data migration on the way
+    for (const { version, tables } of DB_VERSIONS) {
+      this.version(version)
+        .stores(getVersionStores(tables))
+        .upgrade((tx) => runMigration(version, tx));
+    }
   }
 
   /**
@@ -93,6 +93,9 @@ class DnDnBDatabase extends Dexie {
       this.campaigns.clear(),
       this.apiCache.clear(),
       this.settings.clear(),
+      this.migrationBackups.clear(),
+      this.characterHistory.clear(),
+      this.rollLog.clear(),
     ]);
   }
 }
@@ -106,4 +109,12 @@ export const db = new DnDnBDatabase();
 /**
  * Re-export database types for convenience
  */
-export type { CharacterTableEntry, CampaignTableEntry, ApiCacheEntry, SettingsEntry };
+export type {
+  CharacterTableEntry,
+  CampaignTableEntry,
+  ApiCacheEntry,
+  SettingsEntry,
+  MigrationBackupEntry,
+  CharacterHistoryEntry,
+  RollLogEntry,
+};
@@ -0,0 +1,111 @@
+/**
+ * Document Content Version Tests
+ * @module db/document-versions.test
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from './database';
+import { cacheApiData } from './cache';
+import {
+  UNVERSIONED_DOCUMENT,
+  checkDocumentUpdates,
+  computeDocumentVersion,
+  dismissDocumentUpdates,
+  getDocumentUpdates,
+  getDocumentVersion,
+} from './document-versions';
+import type { Open5eDocument } from '@/types/open5e';
+
+function createDocument(key: string, overrides: Partial<Open5eDocument> = {}): Open5eDocument {
+  return {
+    key,
+    name: key.toUpperCase(),
+    url: `https://api.open5e.com/v2/documents/${key}/`,
+    desc: 'Rules',
+    license_url: '',
+    author: 'Author',
+    published_at: '2023-01-01T00:00:00',
+    ...overrides,
+  };
+}
+
+describe('Document Versions', () => {
+  beforeEach(async () => {
+    if (!db.isOpen()) {
+      await db.open();
+    }
+    await Promise.all([db.apiCache.clear(), db.settings.clear()]);
+  });
+
+  describe('computeDocumentVersion', () => {
+    it('should not depend on field order', () => {
+      const doc = createDocument('wotc-srd');
+      const reordered = Object.fromEntries(Object.entries(doc).reverse()) as Open5eDocument;
+      expect(computeDocumentVersion(reordered)).toBe(computeDocumentVersion(doc));
+    });
+
+    it('should change when the record changes', () => {
+      const doc = createDocument('wotc-srd');
+      const republished = createDocument('wotc-srd', { published_at: '2024-06-01T00:00:00' });
+      expect(computeDocumentVersion(republished)).not.toBe(computeDocumentVersion(doc));
+    });
+  });
+
+  describe('getDocumentVersion', () => {
+    it('should fall back to the unversioned marker', async () => {
+      expect(await getDocumentVersion('wotc-srd')).toBe(UNVERSIONED_DOCUMENT);
+    });
+
+    it('should return the recorded version after a check', async () => {
+      const doc = createDocument('wotc-srd');
+      await checkDocumentUpdates([doc]);
+      expect(await getDocumentVersion('wotc-srd')).toBe(computeDocumentVersion(doc));
+    });
+  });
+
+  describe('checkDocumentUpdates', () => {
+    it('should replace unversioned entries without reporting an update', async () => {
+      await cacheApiData('classes:a', [], 'wotc-srd', UNVERSIONED_DOCUMENT);
+
+      const updates = await checkDocumentUpdates([createDocument('wotc-srd')]);
+
+      expect(updates).toEqual([]);
+      expect(await db.apiCache.count()).toBe(0);
+      expect(await getDocumentUpdates()).toEqual([]);
+    });
+
+    it('should invalidate only documents whose version changed', async () => {
+      const srd = createDocument('wotc-srd');
+      const a5e = createDocument('a5e');
+      await checkDocumentUpdates([srd, a5e]);
+      await cacheApiData('classes:srd', [], 'wotc-srd', computeDocumentVersion(srd));
+      await cacheApiData('spells:srd', [], 'wotc-srd', computeDocumentVersion(srd));
+      await cacheApiData('classes:a5e', [], 'a5e', computeDocumentVersion(a5e));
+      await cacheApiData('conditions:x', [], 'global', UNVERSIONED_DOCUMENT);
+
+      const updatedSrd = createDocument('wotc-srd', { desc: 'Errata applied' });
+      const updates = await checkDocumentUpdates([updatedSrd, a5e]);
+
+      expect(updates).toHaveLength(1);
+      expect(updates[0]).toMatchObject({
+        documentKey: 'wotc-srd',
+        name: 'WOTC-SRD',
+        previousVersion: computeDocumentVersion(srd),
+        version: computeDocumentVersion(updatedSrd),
+        invalidatedEntries: 2,
+      });
+      const remaining = await db.apiCache.toArray();
+      expect(remaining.map((entry) => entry.key).sort()).toEqual(['classes:a5e', 'conditions:x']);
+    });
+
+    it('should keep updates pending until dismissed', async () => {
+      await checkDocumentUpdates([createDocument('wotc-srd')]);
+      await checkDocumentUpdates([createDocument('wotc-srd', { name: 'SRD 5.1' })]);
+
+      expect((await getDocumentUpdates()).map((u) => u.documentKey)).toEqual(['wotc-srd']);
+
+      await dismissDocumentUpdates();
+      expect(await getDocumentUpdates()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Document Content Versions
+ *
+ * Tracks a content version per Open5E document (rulebook) so cached API
+ * data can be invalidated when a source changes upstream. The version is a
+ * hash of the document's record from the /documents/ endpoint; cache entries
+ * are stamped with it when written.
+ * @module db/document-versions
+ */
+
+import crypto from 'crypto';
+
+import type { Open5eDocument } from '@/types/open5e';
+import { db } from './database';
+import { invalidateDocumentCache } from './cache';
+
+/** Version stamped on entries whose document has not been versioned yet */
+export const UNVERSIONED_DOCUMENT = '1';
+
+/** Settings key for the latest known version of each document */
+const VERSIONS_SETTING_KEY = 'documentVersions';
+
+/** Settings key for updates found but not yet dismissed */
+const UPDATES_SETTING_KEY = 'documentUpdates';
+
+/** A document whose content changed since it was cached */
+export interface DocumentUpdate {
+  /** Document key (e.g., "wotc-srd") */
+  documentKey: string;
+  /** Document display name */
+  name: string;
+  /** Version the cached data was stamped with */
+  previousVersion: string;
+  /** Version reported by the API now */
+  version: string;
+  /** Number of cache entries removed */
+  invalidatedEntries: number;
+  /** When the update was found (ISO string) */
+  detectedAt: string;
+}
+
+// ============================================================================
+// Versions
+// ============================================================================
+
+/**
+ * Compute a document's content version
+ * @param document Document record from the /documents/ endpoint
+ * @returns Short hash that changes whenever any field of the record changes
+ */
+export function computeDocumentVersion(document: Open5eDocument): string {
+  const sortedFields = Object.keys(document)
+    .sort()
+    .map((key) => [key, document[key as keyof Open5eDocument]]);
+  return crypto.createHash('md5').update(JSON.stringify(sortedFields)).digest('hex').slice(0, 12);
+}
+
+async function readSetting<T>(key: string, fallback: T): Promise<T> {
+  const entry = await db.settings.get(key);
+  return (entry?.value as T | undefined) ?? fallback;
+}
+
+async function writeSetting(key: string, value: unknown): Promise<void> {
+  await db.settings.put({ key, value, updatedAt: new Date().toISOString() });
+}
+
+/**
+ * Get the latest known version of every document
+ * @returns Map of document key to version
+ */
+export async function getDocumentVersions(): Promise<Record<string, string>> {
+  return readSetting<Record<string, string>>(VERSIONS_SETTING_KEY, {});
+}
+
+/**
+ * Get the version to stamp on cache entries for a document
+ * @param documentKey Document key ("global" entries are never versioned)
+ * @returns Latest known version, or UNVERSIONED_DOCUMENT
+ */
+export async function getDocumentVersion(documentKey: string): Promise<string> {
+  const versions = await getDocumentVersions();
+  return versions[documentKey] ?? UNVERSIONED_DOCUMENT;
+}
+
+// ============================================================================
+// Update Check
+// ============================================================================
+
+/**
+ * Compare cached data with the current document list and invalidate changed sources.
+ * Fetches /documents/ from the network, records each document's version and
+ * deletes the cache of every document whose entries carry another version.
+ * Entries written before versioning existed are replaced without being
+ * reported as updates.
+ * @param documents Current documents (fetched fresh when omitted)
+ * @returns Documents whose content changed since the last check
+ */
+export async function checkDocumentUpdates(
+  documents?: Open5eDocument[]
+): Promise<DocumentUpdate[]> {
+  if (!documents) {
+    // Loaded lazily: the API client depends on this module
+    const { fetchDocuments } = await import('@/lib/api/endpoints/documents');
+    documents = await fetchDocuments(true);
+  }
+
+  const previousVersions = await getDocumentVersions();
+  const versions: Record<string, string> = { ...previousVersions };
+  const updates: DocumentUpdate[] = [];
+  const detectedAt = new Date().toISOString();
+
+  for (const document of documents) {
+    const version = computeDocumentVersion(document);
+    const previousVersion = previousVersions[document.key];
+    versions[document.key] = version;
+
+    const outdated = await db.apiCache
+      .where('documentKey')
+      .equals(document.key)
+      .filter((entry) => entry.version !== version)
+      .count();
+    const invalidatedEntries = outdated > 0 ? await invalidateDocumentCache(document.key) : 0;
+
+    if (previousVersion !== undefined && previousVersion !== version) {
+      updates.push({
+        documentKey: document.key,
+        name: document.name,
+        previousVersion,
+        version,
+        invalidatedEntries,
+        detectedAt,
+      });
+    }
+  }
+
+  await writeSetting(VERSIONS_SETTING_KEY, versions);
+
+  if (updates.length > 0) {
+    const updatedKeys = new Set(updates.map((update) => update.documentKey));
+    const pending = (await getDocumentUpdates()).filter((u) => !updatedKeys.has(u.documentKey));
+    await writeSetting(UPDATES_SETTING_KEY, [...pending, ...updates]);
+  }
+
+  return updates;
+}
+
+/**
+ * Get updates found by checkDocumentUpdates that have not been dismissed
+ * @returns Pending document updates
+ */
+export async function getDocumentUpdates(): Promise<DocumentUpdate[]> {
+  return readSetting<DocumentUpdate[]>(UPDATES_SETTING_KEY, []);
+}
+
+/**
+ * Dismiss all pending document updates
+ */
+export async function dismissDocumentUpdates(): Promise<void> {
+  await writeSetting(UPDATES_SETTING_KEY, []);
+}
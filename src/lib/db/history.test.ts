@@ -0,0 +1,159 @@
+/**
+ * Character History Tests
+ * @module db/history.test
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from './database';
+import {
+  createCharacter,
+  deleteCharacter,
+  restoreCharacterVersion,
+  updateCharacter,
+} from './characters';
+import {
+  diffCharacterVersions,
+  getChangedFields,
+  getCharacterHistory,
+  HISTORY_MAX_AGE,
+  MAX_HISTORY_ENTRIES,
+} from './history';
+import type { CharacterTableEntry } from './schema';
+import { mockCharacter } from '@/lib/debug/mockCharacters';
+
+function toEntry(overrides: Partial<CharacterTableEntry> = {}): CharacterTableEntry {
+  return {
+    ...mockCharacter,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+// createCharacter assigns a new ID and timestamps
+const createTestCharacter = () => createCharacter(mockCharacter);
+
+beforeEach(async () => {
+  await db.characters.clear();
+  await db.characterHistory.clear();
+});
+
+describe('diffCharacterVersions', () => {
+  it('should report nested value changes by path', () => {
+    const before = toEntry();
+    const after = toEntry({ combat: { ...before.combat, currentHp: 10 } });
+
+    expect(diffCharacterVersions(before, after)).toEqual([
+      { path: ['combat', 'currentHp'], before: before.combat.currentHp, after: 10 },
+    ]);
+  });
+
+  it('should match list items by ID and label them by name', () => {
+    const before = toEntry();
+    const [longsword, potion, ...rest] = before.inventory;
+    const after = toEntry({ inventory: [{ ...potion, quantity: 3 }, ...rest] });
+
+    expect(diffCharacterVersions(before, after)).toEqual([
+      { path: ['inventory', longsword.name], before: longsword, after: undefined },
+      { path: ['inventory', potion.name, 'quantity'], before: potion.quantity, after: 3 },
+    ]);
+  });
+
+  it('should ignore the save timestamp', () => {
+    const before = toEntry();
+    const after = toEntry({ updatedAt: '2025-06-01T00:00:00.000Z' });
+
+    expect(diffCharacterVersions(before, after)).toEqual([]);
+    expect(getChangedFields(before, after)).toEqual([]);
+  });
+
+  it('should list changed top-level fields', () => {
+    const before = toEntry();
+    const after = toEntry({ name: 'Renamed', inventory: [] });
+
+    expect(getChangedFields(before, after)).toEqual(['name', 'inventory']);
+  });
+});
+
+describe('recording history on update', () => {
+  it('should keep the version before the first change as a baseline', async () => {
+    const character = await createTestCharacter();
+    await updateCharacter(character.id, { name: 'Aldric the Brave' });
+
+    const history = await getCharacterHistory(character.id);
+
+    expect(history.map((entry) => entry.reason)).toEqual(['edit', 'baseline']);
+    expect(history[0].changedFields).toEqual(['name']);
+    expect(history[0].snapshot.name).toBe('Aldric the Brave');
+    expect(history[1].snapshot.name).toBe(mockCharacter.name);
+  });
+
+  it('should not record saves that change nothing', async () => {
+    const character = await createTestCharacter();
+    await updateCharacter(character.id, { name: character.name });
+
+    expect(await getCharacterHistory(character.id)).toEqual([]);
+  });
+
+  it('should keep at most the configured number of versions', async () => {
+    const character = await createTestCharacter();
+    for (let xp = 1; xp <= MAX_HISTORY_ENTRIES + 5; xp++) {
+      await updateCharacter(character.id, { experiencePoints: xp });
+    }
+
+    const history = await getCharacterHistory(character.id);
+
+    expect(history).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history[0].snapshot.experiencePoints).toBe(MAX_HISTORY_ENTRIES + 5);
+  });
+
+  it('should prune versions older than the retention period', async () => {
+    const character = await createTestCharacter();
+    await db.characterHistory.add({
+      characterId: character.id,
+      createdAt: new Date(Date.now() - HISTORY_MAX_AGE - 1000).toISOString(),
+      reason: 'edit',
+      changedFields: ['name'],
+      snapshot: toEntry({ id: character.id }),
+    });
+    await updateCharacter(character.id, { name: 'Recent' });
+
+    const history = await getCharacterHistory(character.id);
+
+    expect(history.map((entry) => entry.snapshot.name)).toEqual(['Recent']);
+  });
+
+  it('should remove the history when the character is deleted', async () => {
+    const character = await createTestCharacter();
+    await updateCharacter(character.id, { name: 'Doomed' });
+    await deleteCharacter(character.id);
+
+    expect(await db.characterHistory.count()).toBe(0);
+  });
+});
+
+describe('restoreCharacterVersion', () => {
+  it('should restore the saved version as a new version', async () => {
+    const character = await createTestCharacter();
+    await updateCharacter(character.id, { inventory: [] });
+    const [, baseline] = await getCharacterHistory(character.id);
+
+    const restored = await restoreCharacterVersion(character.id, baseline.id!);
+    const history = await getCharacterHistory(character.id);
+
+    expect(restored?.inventory).toEqual(mockCharacter.inventory);
+    expect(restored?.id).toBe(character.id);
+    expect(history.map((entry) => entry.reason)).toEqual(['restore', 'edit', 'baseline']);
+    expect(history[0]).toMatchObject({ restoredFrom: baseline.id, changedFields: ['inventory'] });
+  });
+
+  it('should return null for a version of another character', async () => {
+    const character = await createTestCharacter();
+    const other = await createTestCharacter();
+    await updateCharacter(other.id, { name: 'Other' });
+    const [entry] = await getCharacterHistory(other.id);
+
+    expect(await restoreCharacterVersion(character.id, entry.id!)).toBeNull();
+    expect(await restoreCharacterVersion(character.id, 9999)).toBeNull();
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Character History
+ *
+ * Saved versions of each character, recorded whenever a character is
+ * updated, with field-level diffs between versions. Restoring is done by
+ * restoreCharacterVersion in characters.ts so it goes through the normal
+ * update path and is itself recorded.
+ * @module db/history
+ */
+
+import { db } from './database';
+import type { CharacterHistoryEntry, CharacterTableEntry } from './schema';
+
+/** Versions kept per character; older ones are pruned */
+export const MAX_HISTORY_ENTRIES = 50;
+
+/** Versions older than this are pruned (the latest is always kept) */
+export const HISTORY_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+/** Fields that change on every save and are not shown as changes */
+const IGNORED_FIELDS = ['updatedAt'];
+
+/** Fields that identify an entry in a list, in order of preference */
+const ITEM_KEY_FIELDS = ['id', 'skillKey', 'conditionKey', 'spellKey', 'key'];
+
+/**
+ * One changed value between two versions
+ */
+export interface CharacterChange {
+  /** Readable path to the value (e.g., ["inventory", "Longsword", "quantity"]) */
+  path: string[];
+  /** Value in the older version (undefined if added) */
+  before: unknown;
+  /** Value in the newer version (undefined if removed) */
+  after: unknown;
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** The field every item in a list can be matched by, if any */
+function getItemKeyField(items: unknown[]): string | null {
+  if (!items.every(isPlainObject)) return null;
+  return (
+    ITEM_KEY_FIELDS.find((field) =>
+      (items as Record<string, unknown>[]).every((item) => typeof item[field] === 'string')
+    ) ?? null
+  );
+}
+
+function diffValues(before: unknown, after: unknown, path: string[], changes: CharacterChange[]) {
+  if (isEqual(before, after)) return;
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      if (path.length === 0 && IGNORED_FIELDS.includes(key)) continue;
+      diffValues(before[key], after[key], [...path, key], changes);
+    }
+    return;
+  }
+
+  // Lists of identifiable entries (inventory, features, spells) are matched by
+  // key so a removed item shows as one removal rather than a shifted list
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const keyField = getItemKeyField([...before, ...after]);
+    if (keyField) {
+      const byKey = (items: unknown[]) =>
+        new Map((items as Record<string, unknown>[]).map((item) => [item[keyField], item]));
+      const beforeItems = byKey(before);
+      const afterItems = byKey(after);
+      for (const key of new Set([...beforeItems.keys(), ...afterItems.keys()])) {
+        const item = afterItems.get(key) ?? beforeItems.get(key)!;
+        const label = typeof item.name === 'string' ? item.name : String(key);
+        diffValues(beforeItems.get(key), afterItems.get(key), [...path, label], changes);
+      }
+      return;
+    }
+  }
+
+  changes.push({ path, before, after });
+}
+
+/**
+ * Compute the field-level changes between two versions of a character
+ * @param before Older version
+ * @param after Newer version
+ * @returns Changed values, with lists of items matched by ID
+ */
+export function diffCharacterVersions(
+  before: CharacterTableEntry,
+  after: CharacterTableEntry
+): CharacterChange[] {
+  const changes: CharacterChange[] = [];
+  diffValues(before, after, [], changes);
+  return changes;
+}
+
+/**
+ * List the top-level fields that differ between two versions
+ * @param before Older version
+ * @param after Newer version
+ * @returns Field names, excluding fields that change on every save
+ */
+export function getChangedFields(
+  before: CharacterTableEntry,
+  after: CharacterTableEntry
+): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return [...keys].filter(
+    (key) =>
+      !IGNORED_FIELDS.includes(key) &&
+      !isEqual(before[key as keyof CharacterTableEntry], after[key as keyof CharacterTableEntry])
+  );
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Get a character's saved versions
+ * @param characterId Character ID
+ * @returns Versions, newest first
+ */
+export async function getCharacterHistory(characterId: string): Promise<CharacterHistoryEntry[]> {
+  const entries = await db.characterHistory.where('characterId').equals(characterId).toArray();
+  return entries.sort((a, b) => (b.id ?? 0) - (a.id ?? 0));
+}
+
+/**
+ * Record a saved version of a character
+ * Call inside a transaction that includes the characterHistory table. The
+ * version before the first recorded change is kept as a baseline so the
+ * character can always be taken back to how it was.
+ * @param previous The character as stored before the save
+ * @param next The character as stored after the save
+ * @param restoredFrom History entry the save restored, if any
+ * @returns The new entry, or null if nothing but timestamps changed
+ */
+export async function recordCharacterVersion(
+  previous: CharacterTableEntry,
+  next: CharacterTableEntry,
+  restoredFrom?: number
+): Promise<CharacterHistoryEntry | null> {
+  const changedFields = getChangedFields(previous, next);
+  if (changedFields.length === 0) return null;
+
+  const existing = await db.characterHistory.where('characterId').equals(next.id).count();
+  if (existing === 0) {
+    await db.characterHistory.add({
+      characterId: previous.id,
+      createdAt: previous.updatedAt,
+      reason: 'baseline',
+      changedFields: [],
+      snapshot: previous,
+    });
+  }
+
+  const entry: CharacterHistoryEntry = {
+    characterId: next.id,
+    createdAt: next.updatedAt,
+    reason: restoredFrom === undefined ? 'edit' : 'restore',
+    changedFields,
+    ...(restoredFrom === undefined ? {} : { restoredFrom }),
+    snapshot: next,
+  };
+  entry.id = await db.characterHistory.add(entry);
+
+  await pruneCharacterHistory(next.id);
+  return entry;
+}
+
+/**
+ * Apply the retention limits to a character's history
+ * @param characterId Character ID
+ * @returns Number of versions removed
+ */
+export async function pruneCharacterHistory(characterId: string): Promise<number> {
+  const [latest, ...older] = await getCharacterHistory(characterId);
+  if (!latest) return 0;
+
+  const cutoff = Date.now() - HISTORY_MAX_AGE;
+  const stale = older.filter(
+    (entry, index) =>
+      index >= MAX_HISTORY_ENTRIES - 1 || new Date(entry.createdAt).getTime() < cutoff
+  );
+  await db.characterHistory.bulkDelete(stale.map((entry) => entry.id!));
+  return stale.length;
+}
+
+/**
+ * Delete all saved versions of a character
+ * @param characterId Character ID
+ */
+export async function deleteCharacterHistory(characterId: string): Promise<void> {
+  await db.characterHistory.where('characterId').equals(characterId).delete();
+}
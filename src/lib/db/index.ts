@@ -9,3 +9,5 @@ export * from './database';
 export * from './schema';
 export * from './migrations';
 export * from './characters';
+export * from './history';
+export * from './roll-log';
@@ -0,0 +1,176 @@
+/**
+ * Database Migration Tests
+ *
+ * Seeds databases at older schema versions with fake-indexeddb and checks
+ * they upgrade cleanly to the current version.
+ * @module db/migrations.test
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import Dexie from 'dexie';
+import { DnDnBDatabase } from './database';
+import { getDatabaseInfo } from './migrations';
+import { DB_CONFIG, DB_VERSIONS, getVersionStores } from './schema';
+
+let databaseCount = 0;
+const openDatabases: Dexie[] = [];
+
+function nextDatabaseName(): string {
+  return `dndnb-migration-test-${databaseCount++}`;
+}
+
+/**
+ * Create a database with the schema of an older version and fill it
+ */
+async function seedDatabase(
+  name: string,
+  version: number,
+  data: Record<string, unknown[]>
+): Promise<void> {
+  const legacy = new Dexie(name);
+  for (const entry of DB_VERSIONS.filter((v) => v.version <= version)) {
+    legacy.version(entry.version).stores(getVersionStores(entry.tables));
+  }
+  await legacy.open();
+  for (const [table, rows] of Object.entries(data)) {
+    await legacy.table(table).bulkAdd(rows);
+  }
+  legacy.close();
+}
+
+function openCurrent(name: string): DnDnBDatabase {
+  const database = new DnDnBDatabase(name);
+  openDatabases.push(database);
+  return database;
+}
+
+// A character as stored by the first release: no edition, overrides or
+// notes, and dates saved as Date objects
+const v1Character = {
+  id: 'char-1',
+  name: 'Old Timer',
+  race: { key: 'human', name: 'Human' },
+  classes: [{ key: 'fighter', name: 'Fighter', level: 3, hitDiceValue: 10, isPrimary: true }],
+  background: { key: 'soldier', name: 'Soldier' },
+  alignment: 'Neutral',
+  level: 3,
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-02-01T00:00:00.000Z'),
+  campaignId: 'camp-1',
+};
+
+const v1Campaign = {
+  id: 'camp-1',
+  name: 'Lost Mine',
+  characterIds: ['char-1'],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  for (const database of openDatabases.splice(0)) {
+    await database.delete();
+  }
+});
+
+describe('schema history', () => {
+  it('should end at the current version with the current indexes', () => {
+    expect(DB_VERSIONS[DB_VERSIONS.length - 1].version).toBe(DB_CONFIG.version);
+
+    const merged = Object.assign({}, ...DB_VERSIONS.map((v) => v.tables));
+    for (const [name, table] of Object.entries(DB_CONFIG.tables)) {
+      expect(merged[name]).toEqual(table.indexes);
+    }
+  });
+});
+
+describe('upgrading a v1 database', () => {
+  it('should keep every character and campaign', async () => {
+    const name = nextDatabaseName();
+    await seedDatabase(name, 1, { characters: [v1Character], campaigns: [v1Campaign] });
+
+    const database = openCurrent(name);
+    await database.open();
+
+    expect(database.verno).toBe(DB_CONFIG.version);
+    expect(await database.characters.count()).toBe(1);
+    expect(await database.campaigns.toArray()).toEqual([v1Campaign]);
+  });
+
+  it('should fill in fields older characters lack', async () => {
+    const name = nextDatabaseName();
+    await seedDatabase(name, 1, { characters: [v1Character] });
+
+    const database = openCurrent(name);
+    const [character] = await database.characters.toArray();
+
+    expect(character).toMatchObject({
+      name: 'Old Timer',
+      edition: '2014',
+      playerName: '',
+      experiencePoints: 0,
+      overrides: {},
+      sessionNotes: [],
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-02-01T00:00:00.000Z',
+    });
+  });
+
+  it('should index characters added by version 2', async () => {
+    const name = nextDatabaseName();
+    await seedDatabase(name, 1, { characters: [v1Character] });
+
+    const database = openCurrent(name);
+    const inCampaign = await database.characters.where('campaignId').equals('camp-1').toArray();
+
+    expect(inCampaign.map((c) => c.id)).toEqual(['char-1']);
+  });
+
+  it('should back up the data before the destructive upgrade', async () => {
+    const name = nextDatabaseName();
+    await seedDatabase(name, 2, { characters: [v1Character], campaigns: [v1Campaign] });
+
+    const database = openCurrent(name);
+    const [backup] = await database.migrationBackups.toArray();
+
+    expect(backup).toMatchObject({ fromVersion: 2, toVersion: 3 });
+    expect(backup.data.characters).toEqual([v1Character]);
+    expect(backup.data.campaigns).toEqual([v1Campaign]);
+  });
+
+  it('should report the upgrade in the database info', async () => {
+    const name = nextDatabaseName();
+    await seedDatabase(name, 1, { characters: [v1Character] });
+
+    const info = await getDatabaseInfo(openCurrent(name));
+
+    expect(info.version).toBe(DB_CONFIG.version);
+    expect(info.tables).toContain('migrationBackups');
+    expect(info.migrations.status).toBe('current');
+    expect(info.migrations.log.map((entry) => entry.version)).toEqual([3]);
+    expect(info.migrations.log[0].backupId).toBe(info.migrations.backups[0].id);
+  });
+});
+
+describe('getDatabaseInfo', () => {
+  it('should report no migrations for a new database', async () => {
+    const info = await getDatabaseInfo(openCurrent(nextDatabaseName()));
+
+    expect(info.migrations).toMatchObject({ status: 'current', log: [], backups: [] });
+  });
+
+  it('should report an upgrade that failed', async () => {
+    const database = openCurrent(nextDatabaseName());
+    vi.spyOn(database, 'open').mockRejectedValue(new Error('Upgrade transaction aborted'));
+
+    const info = await getDatabaseInfo(database);
+
+    expect(info.isOpen).toBe(false);
+    expect(info.migrations).toMatchObject({
+      status: 'failed',
+      error: 'Upgrade transaction aborted',
+      log: [],
+    });
+  });
+});
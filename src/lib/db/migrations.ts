@@ -5,48 +5,151 @@
  * @module db/migrations
  */
 
-import { db } from './database';
-import type { CharacterTableEntry, CampaignTableEntry, SettingsEntry } from './schema';
+import type { Transaction } from 'dexie';
+import { withCharacterDefaults } from '@/lib/transfer/migrations';
+import { db, type DnDnBDatabase } from './database';
+import type {
+  CharacterTableEntry,
+  CampaignTableEntry,
+  SettingsEntry,
+  MigrationBackupEntry,
+} from './schema';
+import { DB_CONFIG } from './schema';
 
 // ============================================================================
 // Migration Handlers
 // ============================================================================
 
 /**
- * Migration function type
+ * Data migration for one schema version
  */
-type MigrationFunction = (db: typeof import('./database').db) => Promise<void>;
+interface Migration {
+  /** What the upgrade changes, shown in migration status */
+  description: string;
+  /** Rewrites stored records, so the data is backed up first */
+  destructive: boolean;
+  /** Transform data inside Dexie's upgrade transaction */
+  upgrade: (tx: Transaction) => Promise<void>;
+}
 
 /**
- * Migration registry - maps version numbers to migration functions
- * Each migration should upgrade from version N to N+1
+ * A completed upgrade, as recorded in settings
  */
-const migrations: Record<number, MigrationFunction> = {
-  // Example: Version 1 to 2 migration
-  // 1: async (database) => {
-  //   // Migration logic here
-  //   await database.characters.toCollection().modify((char) => {
-  //     // Transform character data
-  //   });
-  // },
+export interface MigrationLogEntry {
+  /** Schema version the upgrade migrated to */
+  version: number;
+  description: string;
+  /** Timestamp when the upgrade ran */
+  migratedAt: string;
+  /** Backup taken before the upgrade, if it was destructive */
+  backupId: string | null;
+}
+
+/** Settings key for the log of completed upgrades */
+const MIGRATION_LOG_SETTING_KEY = 'migrationLog';
+
+/** Number of pre-upgrade backups kept; older ones are pruned */
+const MAX_MIGRATION_BACKUPS = 3;
+
+/**
+ * Migration registry - maps a schema version to the migration that upgrades
+ * data from the previous version to it. Versions that only change indexes
+ * need no entry.
+ */
+const migrations: Record<number, Migration> = {
+  3: {
+    description: 'Fill in character fields added since characters were first stored',
+    destructive: true,
+    upgrade: async (tx) => {
+      await tx
+        .table<CharacterTableEntry, string>('characters')
+        .toCollection()
+        .modify((character, ref) => {
+          const upgraded = withCharacterDefaults(
+            character as unknown as Record<string, unknown>
+          ) as unknown as CharacterTableEntry;
+          // Early builds stored Date objects instead of ISO strings
+          upgraded.createdAt = toIsoString(upgraded.createdAt);
+          upgraded.updatedAt = toIsoString(upgraded.updatedAt);
+          ref.value = upgraded;
+        });
+    },
+  },
 };
 
+function toIsoString(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'string' ? value : new Date().toISOString();
+}
+
 /**
- * Run pending migrations
- * Called automatically by Dexie when opening database with newer version
+ * Copy user data into the backups table, inside the upgrade transaction
+ * @param tx Dexie upgrade transaction
+ * @param version Schema version being migrated to
+ * @returns ID of the new backup
  */
-export async function runMigrations(): Promise<void> {
-  // Get current database version
-  const currentVersion = await db.verno;
-
-  // Run migrations for each version increment
-  for (let version = currentVersion; version < db.verno; version++) {
-    const migration = migrations[version];
-    if (migration) {
-      console.log(`Running migration from version ${version} to ${version + 1}`);
-      await migration(db);
-    }
-  }
+async function backupBeforeUpgrade(tx: Transaction, version: number): Promise<string> {
+  const createdAt = new Date().toISOString();
+  const backup: MigrationBackupEntry = {
+    id: `v${version - 1}-to-v${version}-${Date.now()}`,
+    fromVersion: version - 1,
+    toVersion: version,
+    createdAt,
+    data: {
+      characters: await tx.table('characters').toArray(),
+      campaigns: await tx.table('campaigns').toArray(),
+      settings: await tx.table('settings').toArray(),
+    },
+  };
+
+  const backups = tx.table<MigrationBackupEntry, string>('migrationBackups');
+  await backups.add(backup);
+  const stale = await backups.orderBy('createdAt').reverse().offset(MAX_MIGRATION_BACKUPS).keys();
+  await backups.bulkDelete(stale as string[]);
+
+  return backup.id;
+}
+
+/**
+ * Run the data migration for one schema version
+ * Called by Dexie from version(n).upgrade() when an older database is opened;
+ * a throw aborts the whole upgrade and leaves the data untouched.
+ * @param version Schema version being migrated to
+ * @param tx Dexie upgrade transaction
+ */
+export async function runMigration(version: number, tx: Transaction): Promise<void> {
+  const migration = migrations[version];
+  if (!migration) return;
+
+  const backupId = migration.destructive ? await backupBeforeUpgrade(tx, version) : null;
+  console.log(`Running migration from version ${version - 1} to ${version}`);
+  await migration.upgrade(tx);
+
+  const settings = tx.table<SettingsEntry, string>('settings');
+  const log = ((await settings.get(MIGRATION_LOG_SETTING_KEY))?.value ?? []) as MigrationLogEntry[];
+  const migratedAt = new Date().toISOString();
+  await settings.put({
+    key: MIGRATION_LOG_SETTING_KEY,
+    value: [...log, { version, description: migration.description, migratedAt, backupId }],
+    updatedAt: migratedAt,
+  });
+}
+
+/**
+ * Download a pre-upgrade backup as a JSON file
+ * @param id Backup ID
+ * @returns false if the backup does not exist
+ */
+export async function downloadMigrationBackup(id: string): Promise<boolean> {
+  const backup = await db.migrationBackups.get(id);
+  if (!backup) return false;
+
+  await downloadBackup(`dndnb-${backup.id}.json`, {
+    version: backup.fromVersion,
+    exportedAt: backup.createdAt,
+    data: backup.data as ExportedDatabase['data'],
+  });
+  return true;
 }
 
 // ============================================================================
@@ -54,10 +157,9 @@ export async function runMigrations(): Promise<void> {
 // ============================================================================
 
 /**
- * Export all database data to JSON
- * Useful for backups or data portability
+ * Database contents as written to a backup file
  */
-export async function exportDatabase(): Promise<{
+export interface ExportedDatabase {
   version: number;
   exportedAt: string;
   data: {
@@ -65,7 +167,13 @@ export async function exportDatabase(): Promise<{
     campaigns: unknown[];
     settings: unknown[];
   };
-}> {
+}
+
+/**
+ * Export all database data to JSON
+ * Useful for backups or data portability
+ */
+export async function exportDatabase(): Promise<ExportedDatabase> {
   const [characters, campaigns, settings] = await Promise.all([
     db.characters.toArray(),
     db.campaigns.toArray(),
@@ -90,7 +198,7 @@ export async function exportDatabase(): Promise<{
  * @param merge If true, merge with existing data; if false, clear first
  */
 export async function importDatabase(
-  data: ReturnType<typeof exportDatabase> extends Promise<infer T> ? T : never,
+  data: ExportedDatabase,
   merge: boolean = false
 ): Promise<void> {
   await db.transaction('rw', db.characters, db.campaigns, db.settings, async () => {
@@ -114,9 +222,11 @@ export async function importDatabase(
 
 /**
  * Export data as downloadable JSON file
+ * @param filename File name (defaults to a dated name)
+ * @param data Data to download (defaults to the current database)
  */
-export async function downloadBackup(filename?: string): Promise<void> {
-  const data = await exportDatabase();
+export async function downloadBackup(filename?: string, data?: ExportedDatabase): Promise<void> {
+  data ??= await exportDatabase();
   const blob = new Blob([JSON.stringify(data, null, 2)], {
     type: 'application/json',
   });
@@ -256,17 +366,56 @@ export async function compactDatabase(): Promise<{
 
 /**
  * Get current database version info
+ * Opens the database if needed, which runs any pending migrations.
+ * @param database Database to inspect (defaults to the app database)
  */
-export async function getDatabaseInfo(): Promise<{
+export async function getDatabaseInfo(database: DnDnBDatabase = db): Promise<{
   name: string;
   version: number;
   isOpen: boolean;
   tables: string[];
+  migrations: {
+    /** 'failed' when an upgrade threw and the database could not be opened */
+    status: 'current' | 'failed';
+    /** Schema version this build of the app expects */
+    targetVersion: number;
+    error: string | null;
+    /** Completed upgrades, oldest first */
+    log: MigrationLogEntry[];
+    /** Backups taken before destructive upgrades, newest first */
+    backups: Omit<MigrationBackupEntry, 'data'>[];
+  };
 }> {
+  let error: string | null = null;
+  try {
+    await database.open();
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  const [logEntry, backups] = error
+    ? [undefined, []]
+    : await Promise.all([
+        database.settings.get(MIGRATION_LOG_SETTING_KEY),
+        database.migrationBackups.orderBy('createdAt').reverse().toArray(),
+      ]);
+
   return {
-    name: db.name,
-    version: db.verno,
-    isOpen: db.isOpen(),
-    tables: db.tables.map((t) => t.name),
+    name: database.name,
+    version: database.verno,
+    isOpen: database.isOpen(),
+    tables: database.tables.map((t) => t.name),
+    migrations: {
+      status: error ? 'failed' : 'current',
+      targetVersion: DB_CONFIG.version,
+      error,
+      log: (logEntry?.value ?? []) as MigrationLogEntry[],
+      backups: backups.map(({ id, fromVersion, toVersion, createdAt }) => ({
+        id,
+        fromVersion,
+        toVersion,
+        createdAt,
+      })),
+    },
   };
 }
@@ -0,0 +1,63 @@
+/**
+ * Roll Log Tests
+ * @module db/roll-log.test
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from './database';
+import { createCharacter, deleteCharacter } from './characters';
+import { addRollLogEntry, clearRollLog, getRollLog, MAX_ROLL_LOG_ENTRIES } from './roll-log';
+import { rollDice } from '@/lib/engine/dice';
+import { mockCharacter } from '@/lib/debug/mockCharacters';
+
+const result = rollDice('1d20+5', { random: () => 0.5 });
+
+function roll(characterId: string, label = 'Athletics check') {
+  return addRollLogEntry({ characterId, label, kind: 'check', result });
+}
+
+beforeEach(async () => {
+  await db.characters.clear();
+  await db.rollLog.clear();
+});
+
+describe('roll log', () => {
+  it('should return the rolls of one character, newest first', async () => {
+    await roll('a', 'First');
+    await roll('b', 'Other character');
+    await roll('a', 'Second');
+
+    const log = await getRollLog('a');
+    expect(log.map((entry) => entry.label)).toEqual(['Second', 'First']);
+    expect(log[0].result.total).toBe(16);
+    expect(log[0].createdAt).toEqual(expect.any(String));
+  });
+
+  it('should prune the oldest rolls past the limit', async () => {
+    for (let i = 0; i < MAX_ROLL_LOG_ENTRIES + 2; i++) {
+      await roll('a', `Roll ${i}`);
+    }
+
+    const log = await getRollLog('a');
+    expect(log).toHaveLength(MAX_ROLL_LOG_ENTRIES);
+    expect(log[log.length - 1].label).toBe('Roll 2');
+  });
+
+  it('should clear the rolls of one character', async () => {
+    await roll('a');
+    await roll('b');
+    await clearRollLog('a');
+
+    expect(await getRollLog('a')).toEqual([]);
+    expect(await getRollLog('b')).toHaveLength(1);
+  });
+
+  it('should delete the log with the character', async () => {
+    const character = await createCharacter(mockCharacter);
+    await roll(character.id);
+
+    await deleteCharacter(character.id);
+
+    expect(await getRollLog(character.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Roll Log
+ *
+ * Dice rolls made from a character's sheet, kept per character so the log
+ * survives reloads.
+ * @module db/roll-log
+ */
+
+import { db } from './database';
+import type { RollLogEntry } from './schema';
+
+/** Rolls kept per character; older ones are pruned */
+export const MAX_ROLL_LOG_ENTRIES = 100;
+
+/**
+ * Get a character's rolls
+ * @param characterId Character ID
+ * @returns Rolls, newest first
+ */
+export async function getRollLog(characterId: string): Promise<RollLogEntry[]> {
+  const entries = await db.rollLog.where('characterId').equals(characterId).toArray();
+  return entries.sort((a, b) => (b.id ?? 0) - (a.id ?? 0));
+}
+
+/**
+ * Record a roll and prune the character's oldest rolls past the limit
+ * @param entry Roll to record (createdAt defaults to now)
+ * @returns The stored entry
+ */
+export async function addRollLogEntry(
+  entry: Omit<RollLogEntry, 'id' | 'createdAt'> & { createdAt?: string }
+): Promise<RollLogEntry> {
+  const stored: RollLogEntry = { ...entry, createdAt: entry.createdAt ?? new Date().toISOString() };
+
+  await db.transaction('rw', db.rollLog, async () => {
+    stored.id = await db.rollLog.add(stored);
+    const older = (await getRollLog(entry.characterId)).slice(MAX_ROLL_LOG_ENTRIES);
+    await db.rollLog.bulkDelete(older.map((e) => e.id!));
+  });
+
+  return stored;
+}
+
+/**
+ * Delete all of a character's rolls
+ * @param characterId Character ID
+ */
+export async function clearRollLog(characterId: string): Promise<void> {
+  await db.rollLog.where('characterId').equals(characterId).delete();
+}
@@ -7,6 +7,7 @@
 
 import type { Character } from '@/types/character';
 import type { Campaign } from '@/types/campaign';
+import type { DiceRollResult } from '@/lib/engine/dice';
 
 // ============================================================================
 // Database Tables
@@ -50,6 +51,67 @@ export interface ApiCacheEntry {
   ttl: number;
 }
 
+/**
+ * Character history entry
+ * A snapshot of a character as saved, so earlier versions can be restored
+ */
+export interface CharacterHistoryEntry {
+  /** Auto-incremented entry ID */
+  id?: number;
+  /** Character this version belongs to */
+  characterId: string;
+  /** Timestamp when the version was saved */
+  createdAt: string;
+  /** How the version came about */
+  reason: 'baseline' | 'edit' | 'restore';
+  /** Top-level character fields that differ from the previous version */
+  changedFields: string[];
+  /** History entry a restore copied, when reason is 'restore' */
+  restoredFrom?: number;
+  /** The character as stored after this version was saved */
+  snapshot: CharacterTableEntry;
+}
+
+/**
+ * Roll log entry
+ * A dice roll made from a character's sheet
+ */
+export interface RollLogEntry {
+  /** Auto-incremented entry ID */
+  id?: number;
+  /** Character the roll was made for */
+  characterId: string;
+  /** Timestamp when the roll was made */
+  createdAt: string;
+  /** What was rolled (e.g., "Athletics check", "Longsword damage") */
+  label: string;
+  /** Kind of roll, used to group and style entries */
+  kind: 'check' | 'save' | 'attack' | 'damage' | 'spell' | 'initiative' | 'other';
+  /** The roll with every die rolled */
+  result: DiceRollResult;
+}
+
+/**
+ * Snapshot taken before a destructive schema upgrade
+ * Lets a player recover data if a migration transforms it wrongly
+ */
+export interface MigrationBackupEntry {
+  /** Backup ID: format "v{from}-to-v{to}-{timestamp}" */
+  id: string;
+  /** Schema version the data was stored with */
+  fromVersion: number;
+  /** Schema version the upgrade was migrating to */
+  toVersion: number;
+  /** Timestamp when the backup was taken */
+  createdAt: string;
+  /** Table contents before the upgrade */
+  data: {
+    characters: unknown[];
+    campaigns: unknown[];
+    settings: unknown[];
+  };
+}
+
 /**
  * Application settings
  * Stores user preferences and app state
@@ -73,7 +135,7 @@ export interface SettingsEntry {
  */
 export const DB_CONFIG = {
   name: 'dndnb',
-  version: 2,
+  version: 5,
   tables: {
     characters: {
       name: 'characters',
@@ -103,9 +165,81 @@ export const DB_CONFIG = {
       primaryKey: 'key',
       indexes: [],
     },
+    migrationBackups: {
+      name: 'migrationBackups',
+      primaryKey: 'id',
+      indexes: ['createdAt'],
+    },
+    characterHistory: {
+      name: 'characterHistory',
+      primaryKey: '++id',
+      indexes: ['characterId', 'createdAt'],
+    },
+    rollLog: {
+      name: 'rollLog',
+      primaryKey: '++id',
+      indexes: ['characterId', 'createdAt'],
+    },
   },
 } as const;
 
+/**
+ * Schema history, oldest first
+ * Each version lists only the tables it adds or re-indexes (Dexie carries the
+ * others over). To change the schema, bump DB_CONFIG.version, append an entry
+ * here and register its data migration in migrations.ts.
+ */
+export const DB_VERSIONS: {
+  version: number;
+  tables: Partial<Record<TableName, readonly string[]>>;
+}[] = [
+  {
+    version: 1,
+    tables: {
+      characters: ['name', 'level', 'updatedAt'],
+      campaigns: DB_CONFIG.tables.campaigns.indexes,
+      apiCache: DB_CONFIG.tables.apiCache.indexes,
+      settings: DB_CONFIG.tables.settings.indexes,
+    },
+  },
+  {
+    // Campaign lookups and sorted list queries
+    version: 2,
+    tables: { characters: DB_CONFIG.tables.characters.indexes },
+  },
+  {
+    // Backups taken before destructive upgrades
+    version: 3,
+    tables: { migrationBackups: DB_CONFIG.tables.migrationBackups.indexes },
+  },
+  {
+    // Saved versions of each character
+    version: 4,
+    tables: { characterHistory: DB_CONFIG.tables.characterHistory.indexes },
+  },
+  {
+    // Dice rolls made from each character's sheet
+    version: 5,
+    tables: { rollLog: DB_CONFIG.tables.rollLog.indexes },
+  },
+];
+
+/**
+ * Build the Dexie store definitions for one schema version
+ * @param tables Table indexes for the version
+ * @returns Dexie stores object: primary key first, then indexes
+ */
+export function getVersionStores(
+  tables: Partial<Record<TableName, readonly string[]>>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(tables).map(([name, indexes]) => [
+      name,
+      [DB_CONFIG.tables[name as TableName].primaryKey, ...indexes].join(', '),
+    ])
+  );
+}
+
 /**
  * Type helper for table names
  */
@@ -119,6 +253,9 @@ export interface TableTypes {
   campaigns: CampaignTableEntry;
   apiCache: ApiCacheEntry;
   settings: SettingsEntry;
+  migrationBackups: MigrationBackupEntry;
+  characterHistory: CharacterHistoryEntry;
+  rollLog: RollLogEntry;
 }
 
 // ============================================================================
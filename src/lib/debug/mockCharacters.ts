@@ -73,6 +73,7 @@ export const mockCharacter: Character = {
     weapons: ['simple', 'martial'],
     tools: [],
     languages: ['Common', 'Dwarvish'],
+    savingThrows: ['STR', 'CON'],
   },
   spellcasting: null,
   inventory: [
@@ -361,6 +362,7 @@ export const mockSpellcaster: Character = {
       isPrimary: true,
     },
   ],
+  proficiencies: { ...mockCharacter.proficiencies, savingThrows: ['INT', 'WIS'] },
   abilityScores: {
     base: { STR: 8, DEX: 14, CON: 13, INT: 16, WIS: 12, CHA: 10 },
     racialBonus: { STR: 0, DEX: 0, CON: 0, INT: 0, WIS: 0, CHA: 0 },
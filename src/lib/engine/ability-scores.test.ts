@@ -24,6 +24,11 @@ import {
   generatePointBuy,
   generateManual,
   applySpeciesBonuses,
+  applyBackgroundBonuses,
+  createSeededRandom,
+  roll4d6DropLowest,
+  rollAbilityScores,
+  generateRolled,
   calculateAbilityScores,
   formatModifier,
   getModifierString,
@@ -381,6 +386,53 @@ describe('Manual Entry Generation', () => {
   });
 });
 
+describe('Rolled Generation', () => {
+  it('should produce a repeatable sequence for a seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const values = Array.from({ length: 5 }, () => a());
+    expect(values).toEqual(Array.from({ length: 5 }, () => b()));
+    values.forEach((v) => {
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    });
+  });
+
+  it('should drop the lowest of four dice', () => {
+    const dice = [0.5, 0.0, 0.99, 0.2];
+    let i = 0;
+    const roll = roll4d6DropLowest(() => dice[i++]);
+    expect(roll.dice).toEqual([4, 1, 6, 2]);
+    expect(roll.dropped).toBe(1);
+    expect(roll.total).toBe(12);
+  });
+
+  it('should roll six scores between 3 and 18', () => {
+    const rolls = rollAbilityScores(1234);
+    expect(rolls).toHaveLength(6);
+    rolls.forEach((roll) => {
+      expect(roll.dice).toHaveLength(4);
+      expect(roll.total).toBeGreaterThanOrEqual(3);
+      expect(roll.total).toBeLessThanOrEqual(18);
+    });
+    expect(rollAbilityScores(1234)).toEqual(rolls);
+  });
+
+  it('should accept assignments matching the rolled totals', () => {
+    const rolls = [16, 14, 14, 12, 10, 7].map((total) => ({ dice: [], dropped: 0, total }));
+    const scores = { STR: 14, DEX: 16, CON: 14, INT: 10, WIS: 12, CHA: 7 };
+    expect(generateRolled(scores, rolls)).toEqual({ scores, valid: true });
+  });
+
+  it('should reject assignments that do not match the rolls', () => {
+    const rolls = [16, 14, 14, 12, 10, 7].map((total) => ({ dice: [], dropped: 0, total }));
+    const result = generateRolled({ STR: 16, DEX: 16, CON: 14, INT: 10, WIS: 12, CHA: 7 }, rolls);
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('rolled scores');
+    expect(generateRolled({ STR: 16 }, rolls).error).toContain('all 6');
+  });
+});
+
 describe('Species/Racial Bonuses', () => {
   describe('applySpeciesBonuses', () => {
     it('should apply fixed racial bonuses', () => {
@@ -457,6 +509,29 @@ describe('Species/Racial Bonuses', () => {
       expect(result.errors.length).toBeGreaterThan(0);
     });
   });
+
+  describe('applyBackgroundBonuses', () => {
+    const baseScores = { STR: 10, DEX: 10, CON: 15, INT: 10, WIS: 10, CHA: 10 };
+
+    it('should apply +2/+1 and +1/+1/+1 splits', () => {
+      expect(applyBackgroundBonuses(baseScores, { CON: 2, STR: 1 })).toMatchObject({
+        final: { STR: 11, CON: 17 },
+        errors: [],
+      });
+      expect(applyBackgroundBonuses(baseScores, { STR: 1, DEX: 1, CON: 1 }).errors).toEqual([]);
+    });
+
+    it('should reject other splits', () => {
+      expect(applyBackgroundBonuses(baseScores, { STR: 2 }).errors).toHaveLength(1);
+      expect(applyBackgroundBonuses(baseScores, { STR: 2, DEX: 2 }).errors).toHaveLength(1);
+      expect(applyBackgroundBonuses(baseScores, { STR: 3 }).errors[0]).toContain('+1 or +2');
+    });
+
+    it('should restrict bonuses to the background options', () => {
+      const result = applyBackgroundBonuses(baseScores, { STR: 2, CHA: 1 }, ['STR', 'CON', 'WIS']);
+      expect(result.errors).toEqual(['CHA is not a background option']);
+    });
+  });
 });
 
 describe('Complete Ability Score Calculation', () => {
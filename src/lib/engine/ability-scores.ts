@@ -225,6 +225,64 @@ export function generateManual(
   return { scores, valid: true };
 }
 
+// ============================================================================
+// Rolling (4d6 drop lowest)
+// ============================================================================
+
+export interface AbilityRoll {
+  dice: number[];
+  dropped: number;
+  total: number;
+}
+
+// Mulberry32: small deterministic PRNG so a roll set can be replayed from its seed
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function roll4d6DropLowest(random: () => number): AbilityRoll {
+  const dice = Array.from({ length: 4 }, () => Math.floor(random() * 6) + 1);
+  const dropped = Math.min(...dice);
+  const total = dice.reduce((sum, die) => sum + die, 0) - dropped;
+  return { dice, dropped, total };
+}
+
+export function rollAbilityScores(seed: number): AbilityRoll[] {
+  const random = createSeededRandom(seed);
+  return Array.from({ length: 6 }, () => roll4d6DropLowest(random));
+}
+
+export function generateRolled(
+  assignments: Partial<Record<AbilityScore, number>>,
+  rolls: AbilityRoll[]
+): GenerationResult {
+  const assigned = Object.keys(assignments) as AbilityScore[];
+
+  if (assigned.length !== 6) {
+    return { scores: createEmptyScores(), valid: false, error: 'Must assign all 6 abilities' };
+  }
+
+  const values = Object.values(assignments).sort((a, b) => b - a);
+  const rolled = rolls.map((r) => r.total).sort((a, b) => b - a);
+
+  if (JSON.stringify(values) !== JSON.stringify(rolled)) {
+    return {
+      scores: createEmptyScores(),
+      valid: false,
+      error: `Must match rolled scores [${rolled.join(', ')}]`,
+    };
+  }
+
+  return { scores: assignments as Record<AbilityScore, number>, valid: true };
+}
+
 // ============================================================================
 // Racial/Species Bonuses
 // ============================================================================
@@ -284,6 +342,43 @@ export function applySpeciesBonuses(
   return { final, bonuses: result, errors };
 }
 
+// 2024 backgrounds: +2 and +1 to two different abilities, or +1 to three, from the listed options
+export function applyBackgroundBonuses(
+  base: Record<AbilityScore, number>,
+  bonuses: Partial<Record<AbilityScore, number>>,
+  allowed: readonly AbilityScore[] = ABILITY_SCORES
+): {
+  final: Record<AbilityScore, number>;
+  bonuses: Record<AbilityScore, number>;
+  errors: string[];
+} {
+  const result = createZeroScores();
+  const errors: string[] = [];
+
+  for (const ability of ABILITY_SCORES) {
+    const bonus = bonuses[ability] ?? 0;
+    if (bonus === 0) continue;
+    if (!allowed.includes(ability)) errors.push(`${ability} is not a background option`);
+    else if (bonus !== 1 && bonus !== 2) errors.push(`${ability} bonus must be +1 or +2`);
+    else result[ability] = bonus;
+  }
+
+  const values = Object.values(result)
+    .filter((v) => v > 0)
+    .sort((a, b) => b - a);
+  const pattern = values.join(',');
+  if (errors.length === 0 && pattern !== '2,1' && pattern !== '1,1,1') {
+    errors.push('Background bonuses must be +2/+1 or +1/+1/+1');
+  }
+
+  const final: Record<AbilityScore, number> = { ...base };
+  for (const ability of ABILITY_SCORES) {
+    final[ability] = Math.min(MAX_PC_SCORE, final[ability] + result[ability]);
+  }
+
+  return { final, bonuses: result, errors };
+}
+
 // ============================================================================
 // Complete Calculation
 // ============================================================================
@@ -0,0 +1,226 @@
+/**
+ * Armor Resolution Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  findEquippedArmor,
+  hasArmorProficiency,
+  parseMagicBonus,
+  resolveArmorClass,
+} from './armor';
+import type { AbilityScore, EquipmentItem } from '@/types/game';
+import type { Character } from '@/types/character';
+import type { Open5eItem } from '@/types/open5e';
+
+function armorItem(overrides: Partial<Open5eItem>): Open5eItem {
+  return {
+    strength_requirement: null,
+    stealth_disadvantage: false,
+    ...overrides,
+  } as Open5eItem;
+}
+
+const items: Open5eItem[] = [
+  armorItem({
+    key: 'leather-armor',
+    name: 'Leather Armor',
+    armor_category: 'Light Armor',
+    armor_class: 11,
+  }),
+  armorItem({
+    key: 'splint-armor',
+    name: 'Splint Armor',
+    armor_category: 'Heavy Armor',
+    armor_class: 17,
+    strength_requirement: 15,
+    stealth_disadvantage: true,
+  }),
+  armorItem({ key: 'shield', name: 'Shield', armor_category: 'Shield', armor_class: 2 }),
+];
+
+function worn(itemKey: string, name = itemKey): EquipmentItem {
+  return { id: itemKey, name, quantity: 1, equipped: true, itemKey };
+}
+
+const scores: Record<AbilityScore, number> = {
+  STR: 10,
+  DEX: 14,
+  CON: 16,
+  INT: 10,
+  WIS: 12,
+  CHA: 8,
+};
+
+type ArmorCharacter = Parameters<typeof resolveArmorClass>[0];
+
+function character(overrides: Partial<ArmorCharacter> = {}): ArmorCharacter {
+  return {
+    inventory: [],
+    classes: [],
+    features: [],
+    conditions: [],
+    proficiencies: {
+      armor: ['light', 'medium', 'heavy', 'shields'],
+    } as Character['proficiencies'],
+    ...overrides,
+  };
+}
+
+function withClass(key: string, archetype?: string): Pick<Character, 'classes'> {
+  return {
+    classes: [{ key, name: key, level: 1, hitDiceValue: 8, isPrimary: true, archetype }],
+  };
+}
+
+describe('parseMagicBonus', () => {
+  it('should read +N enchantments from item names', () => {
+    expect(parseMagicBonus('Chain Mail +1')).toBe(1);
+    expect(parseMagicBonus('+2 Shield')).toBe(2);
+    expect(parseMagicBonus('Shield')).toBe(0);
+  });
+});
+
+describe('findEquippedArmor', () => {
+  it('should find equipped body armor and shields', () => {
+    const { armor, shield } = findEquippedArmor(
+      [worn('splint-armor', 'Splint Armor'), worn('shield', 'Shield +1')],
+      items
+    );
+
+    expect(armor).toMatchObject({
+      name: 'Splint Armor',
+      armorType: 'heavy',
+      armorClass: 17,
+      strengthRequirement: 15,
+      stealthDisadvantage: true,
+    });
+    expect(shield).toMatchObject({ armorClass: 2, magicBonus: 1 });
+  });
+
+  it('should ignore unequipped armor', () => {
+    expect(findEquippedArmor([{ ...worn('leather-armor'), equipped: false }], items)).toEqual({
+      armor: null,
+      shield: null,
+    });
+  });
+});
+
+describe('hasArmorProficiency', () => {
+  it('should match proficiency entries by armor type', () => {
+    expect(hasArmorProficiency(['Light armor', 'Shields'], 'light')).toBe(true);
+    expect(hasArmorProficiency(['Light armor', 'Shields'], 'shield')).toBe(true);
+    expect(hasArmorProficiency(['Light armor'], 'heavy')).toBe(false);
+    expect(hasArmorProficiency(['All armor'], 'heavy')).toBe(true);
+    expect(hasArmorProficiency(['All armor'], 'shield')).toBe(false);
+  });
+});
+
+describe('resolveArmorClass', () => {
+  it('should calculate AC from worn armor, shield and enchantments', () => {
+    const result = resolveArmorClass(
+      character({ inventory: [worn('leather-armor', 'Leather Armor +1'), worn('shield')] }),
+      items,
+      scores
+    );
+
+    expect(result.formula.label).toBe('Leather Armor +1');
+    expect(result.calculation).toMatchObject({
+      base: 11,
+      dexModifier: 2,
+      shieldBonus: 2,
+      magicBonus: 1,
+      total: 16,
+    });
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should use 10 + DEX without armor', () => {
+    expect(resolveArmorClass(character(), items, scores).calculation.total).toBe(12);
+  });
+
+  it('should pick the best of the unarmored formulas', () => {
+    const barbarian = resolveArmorClass(
+      character({ ...withClass('barbarian'), inventory: [worn('shield')] }),
+      items,
+      scores
+    );
+    expect(barbarian.formula.label).toBe('Unarmored Defense (Barbarian)');
+    expect(barbarian.calculation.total).toBe(10 + 2 + 3 + 2);
+
+    const mageArmor = resolveArmorClass(
+      character({
+        ...withClass('monk'),
+        conditions: [{ conditionKey: 'mage-armor', source: 'Mage Armor' }],
+      }),
+      items,
+      scores
+    );
+    expect(mageArmor.formula.label).toBe('Mage Armor');
+    expect(mageArmor.calculation.total).toBe(15);
+
+    const draconic = resolveArmorClass(
+      character(withClass('sorcerer', 'draconic-bloodline')),
+      items,
+      scores
+    );
+    expect(draconic.formula.label).toBe('Draconic Resilience');
+    expect(draconic.calculation.total).toBe(15);
+  });
+
+  it('should not use the Monk formula with a shield or any formula with armor', () => {
+    const monk = resolveArmorClass(
+      character({ ...withClass('monk'), inventory: [worn('shield')] }),
+      items,
+      { ...scores, WIS: 20 }
+    );
+    expect(monk.formula.label).toBe('Unarmored');
+
+    const armored = resolveArmorClass(
+      character({ ...withClass('barbarian'), inventory: [worn('leather-armor', 'Leather Armor')] }),
+      items,
+      { ...scores, CON: 20 }
+    );
+    expect(armored.formula.label).toBe('Leather Armor');
+  });
+
+  it('should warn about missing proficiency and Strength requirements', () => {
+    const result = resolveArmorClass(
+      character({
+        inventory: [worn('splint-armor', 'Splint Armor')],
+        proficiencies: { armor: ['light'] } as Character['proficiencies'],
+      }),
+      items,
+      scores
+    );
+
+    expect(result.warnings.map((w) => w.kind)).toEqual(['proficiency', 'strength']);
+    expect(result.effects).toContainEqual({
+      effect: { type: 'disadvantage', target: 'save:DEX' },
+      source: 'Splint Armor',
+      origin: 'item',
+    });
+    expect(result.effects).toContainEqual({
+      effect: { type: 'bonus', target: 'speed', value: -10 },
+      source: 'Splint Armor',
+      origin: 'item',
+    });
+    expect(result.effects).toContainEqual({
+      effect: { type: 'disadvantage', target: 'skill:stealth' },
+      source: 'Splint Armor',
+      origin: 'item',
+    });
+  });
+
+  it('should not warn when the requirements are met', () => {
+    const result = resolveArmorClass(
+      character({ inventory: [worn('splint-armor', 'Splint Armor')] }),
+      items,
+      { ...scores, STR: 15 }
+    );
+
+    expect(result.warnings).toEqual([]);
+    expect(result.effects.map((e) => e.effect.type)).toEqual(['disadvantage']);
+  });
+});
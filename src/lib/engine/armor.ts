@@ -0,0 +1,346 @@
+/**
+ * Armor Resolution - D&D 5e
+ *
+ * Works out a character's armor class from what they are wearing: the
+ * equipped body armor and shield (using the Open5E armor data), magic +N
+ * enchantments, and the alternative AC formulas granted by class features
+ * and spells (Unarmored Defense, Mage Armor, Draconic Resilience). Every
+ * formula that applies is calculated and the highest one is used.
+ *
+ * Wearing armor the character is not proficient with, or heavy armor without
+ * the required Strength, produces warnings and the matching penalties as
+ * effects, so they flow into the rest of the sheet like any other effect.
+ */
+
+import { SKILLS, type AbilityScore, type EquipmentItem } from '@/types/game';
+import type { Character } from '@/types/character';
+import type { Open5eItem } from '@/types/open5e';
+import { calculateModifier } from './ability-scores';
+import {
+  calculateAC,
+  calculateUnarmoredDefense,
+  type ArmorCalculation,
+  type ArmorType,
+} from './combat';
+import type { SourcedEffect, StatSource } from './effects';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BodyArmorType = Exclude<ArmorType, 'unarmored'>;
+
+/** An equipped piece of armor or shield with its Open5E data */
+export interface WornArmor {
+  name: string;
+  armorClass: number;
+  /** Enchantment bonus, e.g. 1 for "Chain Mail +1" */
+  magicBonus: number;
+  strengthRequirement: number | null;
+  stealthDisadvantage: boolean;
+}
+
+export interface WornBodyArmor extends WornArmor {
+  armorType: BodyArmorType;
+}
+
+export interface EquippedArmor {
+  armor: WornBodyArmor | null;
+  shield: WornArmor | null;
+}
+
+/** A way of calculating AC, e.g. worn armor or Unarmored Defense */
+export interface ArmorFormula {
+  label: string;
+  armorType: ArmorType;
+  armorBase: number;
+  hasShield: boolean;
+  /** Enchantment bonuses of the armor and shield the formula uses */
+  magicBonus: number;
+  /** Parts of the base AC, for the breakdown */
+  baseSources: StatSource[];
+}
+
+export interface ArmorWarning {
+  kind: 'proficiency' | 'strength';
+  /** Armor or shield causing the warning */
+  source: string;
+  message: string;
+}
+
+export interface ArmorResolution extends EquippedArmor {
+  /** The formula giving the highest AC */
+  formula: ArmorFormula;
+  calculation: ArmorCalculation;
+  warnings: ArmorWarning[];
+  /** Penalties from the worn armor (disadvantage, speed reduction) */
+  effects: SourcedEffect[];
+}
+
+/** Speed lost when wearing heavy armor without the required Strength */
+export const ARMOR_STRENGTH_SPEED_PENALTY = 10;
+
+// ============================================================================
+// Equipped Armor
+// ============================================================================
+
+const BODY_ARMOR_TYPES: BodyArmorType[] = ['light', 'medium', 'heavy'];
+
+/**
+ * Enchantment bonus from an item name ("Chain Mail +1", "+2 Shield")
+ *
+ * @param name - Item name
+ * @returns The +N bonus, or 0 for mundane items
+ */
+export function parseMagicBonus(name: string): number {
+  const match = name.match(/(?:^|\s)\+(\d+)\b/);
+  return match ? Number(match[1]) : 0;
+}
+
+function toWornArmor(entry: EquipmentItem, item: Open5eItem): WornArmor {
+  return {
+    name: entry.name || item.name,
+    armorClass: item.armor_class ?? 0,
+    magicBonus: parseMagicBonus(entry.name) || parseMagicBonus(item.name ?? ''),
+    strengthRequirement: item.strength_requirement ?? null,
+    stealthDisadvantage: item.stealth_disadvantage === true,
+  };
+}
+
+/**
+ * Find the equipped body armor and shield in an inventory
+ *
+ * @param inventory - Character inventory
+ * @param items - Open5E items referenced by the inventory
+ * @returns The last equipped body armor and shield found, or null for each
+ */
+export function findEquippedArmor(inventory: EquipmentItem[], items: Open5eItem[]): EquippedArmor {
+  const byKey = new Map(items.map((item) => [item.key, item]));
+  let armor: WornBodyArmor | null = null;
+  let shield: WornArmor | null = null;
+
+  for (const entry of inventory) {
+    if (!entry.equipped || !entry.itemKey) continue;
+    const item = byKey.get(entry.itemKey);
+    const category = item?.armor_category?.toLowerCase() ?? '';
+    if (!item || item.armor_class === null || !category) continue;
+    if (category.includes('shield')) {
+      shield = toWornArmor(entry, item);
+      continue;
+    }
+    const armorType = BODY_ARMOR_TYPES.find((type) => category.includes(type));
+    if (armorType) armor = { ...toWornArmor(entry, item), armorType };
+  }
+
+  return { armor, shield };
+}
+
+/**
+ * Whether a character's armor proficiencies cover a kind of armor
+ *
+ * @param proficiencies - Armor proficiencies ("light", "Medium armor", "All armor", "Shields")
+ * @param type - Body armor type, or 'shield'
+ * @returns True when proficient
+ */
+export function hasArmorProficiency(
+  proficiencies: string[],
+  type: BodyArmorType | 'shield'
+): boolean {
+  return proficiencies.some((entry) => {
+    const text = entry.toLowerCase();
+    return text.includes(type) || (type !== 'shield' && text.includes('all armor'));
+  });
+}
+
+// ============================================================================
+// AC Formulas
+// ============================================================================
+
+function hasClass(character: Pick<Character, 'classes'>, key: string): boolean {
+  return character.classes.some((c) => c.key === key);
+}
+
+function hasNamed(
+  character: Pick<Character, 'features' | 'conditions'>,
+  pattern: RegExp
+): string | null {
+  const feature = character.features.find((f) => pattern.test(f.name));
+  if (feature) return feature.name;
+  const condition = character.conditions.find(
+    (c) => pattern.test(c.conditionKey) || pattern.test(c.source ?? '')
+  );
+  return condition ? (condition.source ?? condition.conditionKey) : null;
+}
+
+/**
+ * Every way the character's AC can currently be calculated
+ *
+ * Worn armor (or plain 10 + DEX without it) always applies. Unarmored
+ * Defense, Mage Armor and Draconic Resilience only apply without body armor,
+ * and the Monk's Unarmored Defense also without a shield.
+ */
+function getArmorFormulas(
+  character: Pick<Character, 'classes' | 'features' | 'conditions'>,
+  equipped: EquippedArmor,
+  scores: Record<AbilityScore, number>
+): ArmorFormula[] {
+  const { armor, shield } = equipped;
+  const hasShield = shield !== null;
+  const shieldMagic = shield?.magicBonus ?? 0;
+
+  if (armor) {
+    return [
+      {
+        label: armor.name,
+        armorType: armor.armorType,
+        armorBase: armor.armorClass,
+        hasShield,
+        magicBonus: armor.magicBonus + shieldMagic,
+        baseSources: [{ label: armor.name, value: armor.armorClass }],
+      },
+    ];
+  }
+
+  const dexModifier = calculateModifier(scores.DEX);
+  // Formulas without armor behave like light armor with a different base
+  const unarmored = (label: string, armorBase: number, withShield = hasShield): ArmorFormula => ({
+    label,
+    armorType: 'light',
+    armorBase,
+    hasShield: withShield,
+    magicBonus: withShield ? shieldMagic : 0,
+    baseSources: [{ label, value: armorBase }],
+  });
+  const unarmoredDefense = (label: string, ability: AbilityScore, withShield: boolean) => {
+    const armorBase = calculateUnarmoredDefense(scores.DEX, scores[ability]) - dexModifier;
+    return {
+      ...unarmored(label, armorBase, withShield),
+      baseSources: [
+        { label, value: 10 },
+        { label: `${ability} modifier`, value: armorBase - 10 },
+      ],
+    };
+  };
+
+  const formulas: ArmorFormula[] = [unarmored('Unarmored', 10)];
+  if (hasClass(character, 'barbarian')) {
+    formulas.push(unarmoredDefense('Unarmored Defense (Barbarian)', 'CON', hasShield));
+  }
+  if (hasClass(character, 'monk') && !hasShield) {
+    formulas.push(unarmoredDefense('Unarmored Defense (Monk)', 'WIS', false));
+  }
+  const mageArmor = hasNamed(character, /mage[\s_-]?armor|armor of shadows/i);
+  if (mageArmor) formulas.push(unarmored(mageArmor, 13));
+  const draconic =
+    character.classes.some((c) => c.key === 'sorcerer' && /draconic/i.test(c.archetype ?? '')) ||
+    character.features.some((f) => /draconic resilience/i.test(f.name));
+  if (draconic) formulas.push(unarmored('Draconic Resilience', 13));
+
+  return formulas;
+}
+
+// ============================================================================
+// Penalties
+// ============================================================================
+
+const STR_DEX_TARGETS = [
+  'save:STR',
+  'save:DEX',
+  ...SKILLS.filter((s) => s.ability === 'STR' || s.ability === 'DEX').map(
+    (s) => `skill:${s.key}` as const
+  ),
+] as const;
+
+function getArmorPenalties(
+  character: Pick<Character, 'proficiencies'>,
+  equipped: EquippedArmor,
+  strengthScore: number
+): { warnings: ArmorWarning[]; effects: SourcedEffect[] } {
+  const warnings: ArmorWarning[] = [];
+  const effects: SourcedEffect[] = [];
+  const proficiencies = character.proficiencies.armor;
+  const worn = [
+    ...(equipped.armor ? [{ piece: equipped.armor, type: equipped.armor.armorType }] : []),
+    ...(equipped.shield ? [{ piece: equipped.shield, type: 'shield' as const }] : []),
+  ];
+
+  for (const { piece, type } of worn) {
+    const proficient = hasArmorProficiency(proficiencies, type);
+    if (!proficient) {
+      warnings.push({
+        kind: 'proficiency',
+        source: piece.name,
+        message: `Not proficient with ${piece.name}: disadvantage on Strength and Dexterity rolls and attacks, and no spellcasting`,
+      });
+      for (const target of STR_DEX_TARGETS) {
+        effects.push({
+          effect: { type: 'disadvantage', target },
+          source: piece.name,
+          origin: 'item',
+        });
+      }
+    }
+    if (piece.strengthRequirement !== null && strengthScore < piece.strengthRequirement) {
+      warnings.push({
+        kind: 'strength',
+        source: piece.name,
+        message: `${piece.name} requires STR ${piece.strengthRequirement}: speed reduced by ${ARMOR_STRENGTH_SPEED_PENALTY} ft`,
+      });
+      effects.push({
+        effect: { type: 'bonus', target: 'speed', value: -ARMOR_STRENGTH_SPEED_PENALTY },
+        source: piece.name,
+        origin: 'item',
+      });
+    }
+    // Without proficiency, Stealth already has disadvantage from the armor
+    if (piece.stealthDisadvantage && proficient) {
+      effects.push({
+        effect: { type: 'disadvantage', target: 'skill:stealth' },
+        source: piece.name,
+        origin: 'item',
+      });
+    }
+  }
+
+  return { warnings, effects };
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Resolve a character's armor class from their equipped items and features
+ *
+ * @param character - Character wearing the armor
+ * @param items - Open5E items referenced by the inventory
+ * @param scores - Ability score totals
+ * @returns The equipped armor, the best AC formula and its calculation (without
+ *   effect bonuses), and any warnings and penalties from the worn armor
+ */
+export function resolveArmorClass(
+  character: Pick<Character, 'inventory' | 'classes' | 'features' | 'conditions' | 'proficiencies'>,
+  items: Open5eItem[],
+  scores: Record<AbilityScore, number>
+): ArmorResolution {
+  const equipped = findEquippedArmor(character.inventory, items);
+
+  let best: { formula: ArmorFormula; calculation: ArmorCalculation } | null = null;
+  for (const formula of getArmorFormulas(character, equipped, scores)) {
+    const calculation = calculateAC(
+      formula.armorType,
+      formula.armorBase,
+      scores.DEX,
+      formula.hasShield,
+      formula.magicBonus
+    );
+    if (!best || calculation.total > best.calculation.total) best = { formula, calculation };
+  }
+
+  return {
+    ...equipped,
+    formula: best!.formula,
+    calculation: best!.calculation,
+    ...getArmorPenalties(character, equipped, scores.STR),
+  };
+}
@@ -0,0 +1,544 @@
+/**
+ * Character Builder Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  buildCharacter,
+  buildSpellcasting,
+  findSkillKey,
+  getEngineClassKey,
+  getSubclassUnlockLevel,
+  parseHitDie,
+  parseProficiencyList,
+  parseSavingThrows,
+  parseBackgroundAbilityOptions,
+  parseSkillChoices,
+  parseSpeciesAbilityBonuses,
+} from './character-builder';
+import type { WizardSelections } from '@/types/character';
+import type {
+  Open5eBackground,
+  Open5eClass,
+  Open5eFeat,
+  Open5eItem,
+  Open5eRace,
+} from '@/types/open5e';
+
+const fighter: Open5eClass = {
+  key: 'fighter',
+  name: 'Fighter',
+  url: '',
+  document: 'wotc-srd',
+  description: '',
+  hit_dice: '1d10',
+  hp_at_1st_level: '10 + your Constitution modifier',
+  hp_at_higher_levels: '1d10 (or 6) + your Constitution modifier per fighter level after 1st',
+  prof_armor: 'All armor, shields',
+  prof_weapons: 'Simple weapons, martial weapons',
+  prof_tools: 'None',
+  prof_saving_throws: ['Strength', 'Constitution'],
+  prof_skills: 'Choose two skills from Acrobatics, Animal Handling, Athletics',
+  equipment: '',
+  spellcasting_ability: null,
+  subtypes_name: 'Martial Archetypes',
+  archetypes: [
+    {
+      key: 'champion',
+      name: 'Champion',
+      description: '',
+      features: [
+        { key: 'improved-critical', name: 'Improved Critical', description: '', level: 3 },
+      ],
+    },
+  ],
+  class_features: [
+    { key: 'second-wind', name: 'Second Wind', description: 'Regain HP', level: 1 },
+    { key: 'action-surge', name: 'Action Surge', description: 'Extra action', level: 2 },
+    { key: 'extra-attack', name: 'Extra Attack', description: 'Attack twice', level: 5 },
+  ],
+};
+
+const wizard: Open5eClass = {
+  ...fighter,
+  key: 'srd_wizard',
+  name: 'Wizard',
+  hit_dice: '1d6',
+  prof_saving_throws: ['Intelligence', 'Wisdom'],
+  spellcasting_ability: 'Intelligence',
+  archetypes: [],
+  class_features: [],
+};
+
+const elf: Open5eRace = {
+  key: 'elf',
+  name: 'Elf',
+  url: '',
+  document: 'wotc-srd',
+  description: '',
+  speed: 30,
+  size: 'medium',
+  languages: ['Common', 'Elvish'],
+  language_desc: '',
+  traits: [{ name: 'Darkvision', description: 'See in the dark' }],
+  subraces: [
+    {
+      key: 'high-elf',
+      name: 'High Elf',
+      description: '',
+      traits: [{ name: 'Cantrip', description: 'Know one wizard cantrip' }],
+    },
+  ],
+};
+
+const soldier: Open5eBackground = {
+  key: 'soldier',
+  name: 'Soldier',
+  url: '',
+  document: 'wotc-srd',
+  description: '',
+  skill_proficiencies: ['Athletics', 'Intimidation'],
+  tool_proficiencies: ['Vehicles (land)'],
+  languages: [],
+  equipment: '',
+  feature: 'Military Rank',
+  feature_description: 'Soldiers loyal to your former organization recognize your authority.',
+  personality_traits: [],
+  ideals: [],
+  bonds: [],
+  flaws: [],
+};
+
+const chainMail: Open5eItem = {
+  key: 'chain-mail',
+  name: 'Chain Mail',
+  url: '',
+  document: 'wotc-srd',
+  type: 'armor',
+  description: '',
+  cost: '75 gp',
+  weight: '55 lb.',
+  damage_dice: null,
+  damage_type: null,
+  properties: [],
+  category: 'armor',
+  armor_class: 16,
+  armor_category: 'Heavy',
+  strength_requirement: 13,
+  stealth_disadvantage: true,
+};
+
+const shield: Open5eItem = {
+  ...chainMail,
+  key: 'shield',
+  name: 'Shield',
+  armor_class: 2,
+  armor_category: 'Shield',
+  strength_requirement: null,
+  stealth_disadvantage: false,
+};
+
+function createSelections(overrides: Partial<WizardSelections> = {}): Partial<WizardSelections> {
+  return {
+    config: { documentKeys: ['wotc-srd'], edition: '2014', hpMethod: 'fixed' },
+    class: { classKey: 'fighter', level: 1, skillKeys: ['acrobatics', 'athletics'] },
+    background: { backgroundKey: 'soldier' },
+    species: { speciesKey: 'high-elf', subraceKey: 'high-elf' },
+    abilityScores: {
+      method: 'standard',
+      scores: { STR: 15, DEX: 14, CON: 13, INT: 12, WIS: 10, CHA: 8 },
+    },
+    description: { name: 'Aldric' },
+    ...overrides,
+  };
+}
+
+describe('Open5E parsing', () => {
+  it('parses hit dice text', () => {
+    expect(parseHitDie('1d10')).toBe(10);
+    expect(parseHitDie('d12')).toBe(12);
+    expect(parseHitDie('6')).toBe(6);
+    expect(parseHitDie('unknown')).toBe(8);
+    expect(parseHitDie(undefined, 10)).toBe(10);
+  });
+
+  it('parses saving throw names', () => {
+    expect(parseSavingThrows(['Strength', 'CON'])).toEqual(['STR', 'CON']);
+    expect(parseSavingThrows(['Luck'])).toEqual([]);
+    expect(parseSavingThrows(undefined)).toEqual([]);
+  });
+
+  it('splits proficiency sentences', () => {
+    expect(parseProficiencyList('Light armor, medium armor, and shields')).toEqual([
+      'Light armor',
+      'medium armor',
+      'shields',
+    ]);
+    expect(parseProficiencyList('None')).toEqual([]);
+    expect(parseProficiencyList('')).toEqual([]);
+  });
+
+  it('resolves skill names and keys', () => {
+    expect(findSkillKey('Animal Handling')).toBe('animal_handling');
+    expect(findSkillKey('sleight-of-hand')).toBe('sleight_of_hand');
+    expect(findSkillKey('Basket Weaving')).toBeNull();
+  });
+
+  it('parses class skill choices', () => {
+    expect(parseSkillChoices(fighter.prof_skills)).toEqual({
+      count: 2,
+      options: ['acrobatics', 'animal_handling', 'athletics'],
+    });
+    expect(parseSkillChoices('Choose any three').count).toBe(3);
+    expect(parseSkillChoices('Choose any three').options).toHaveLength(18);
+    expect(parseSkillChoices('')).toEqual({ count: 0, options: [] });
+  });
+
+  it('finds the subclass unlock level', () => {
+    expect(getSubclassUnlockLevel(fighter)).toBe(3);
+    expect(
+      getSubclassUnlockLevel({
+        ...wizard,
+        subtypes_name: 'Arcane Traditions',
+        class_features: [{ key: 'tradition', name: 'Arcane Tradition', description: '', level: 2 }],
+      })
+    ).toBe(2);
+    expect(getSubclassUnlockLevel({ ...wizard, key: 'cleric', name: 'Cleric' })).toBe(1);
+    expect(getSubclassUnlockLevel({ ...wizard, key: 'rogue', name: 'Rogue' })).toBe(3);
+  });
+
+  it('falls back to the class name for prefixed keys', () => {
+    expect(getEngineClassKey(fighter)).toBe('fighter');
+    expect(getEngineClassKey(wizard)).toBe('wizard');
+  });
+
+  it('parses species ability score increases', () => {
+    const trait = (description: string) => [{ name: 'Ability Score Increase', description }];
+
+    expect(parseSpeciesAbilityBonuses(trait('Your Dexterity score increases by 2.'))).toEqual([
+      { ability: 'DEX', bonus: 2 },
+    ]);
+    expect(
+      parseSpeciesAbilityBonuses(
+        trait(
+          'Your Charisma score increases by 2, and two other ability scores of your choice increase by 1.'
+        )
+      )
+    ).toEqual([
+      { ability: 'CHA', bonus: 2 },
+      { ability: 'any_two', bonus: 1 },
+    ]);
+    expect(
+      parseSpeciesAbilityBonuses(trait('Your ability scores each increase by 1.'))
+    ).toHaveLength(6);
+    expect(
+      parseSpeciesAbilityBonuses([{ name: 'Darkvision', description: 'increases by 2' }])
+    ).toEqual([]);
+  });
+});
+
+describe('buildCharacter', () => {
+  it('throws when required selections are missing', () => {
+    const content = { classData: fighter };
+    expect(() => buildCharacter({ ...createSelections(), class: undefined }, content)).toThrow(
+      'A class must be selected'
+    );
+    expect(() =>
+      buildCharacter({ ...createSelections(), abilityScores: undefined }, content)
+    ).toThrow('Ability scores must be set');
+    expect(() => buildCharacter(createSelections({ description: { name: ' ' } }), content)).toThrow(
+      'Character name is required'
+    );
+  });
+
+  it('builds identity, ability scores and combat stats', () => {
+    const character = buildCharacter(createSelections(), {
+      classData: fighter,
+      species: elf,
+      background: soldier,
+    });
+
+    expect(character.name).toBe('Aldric');
+    expect(character.race).toEqual({ key: 'elf', name: 'Elf', subrace: 'High Elf' });
+    expect(character.classes).toEqual([
+      { key: 'fighter', name: 'Fighter', level: 1, hitDiceValue: 10, isPrimary: true },
+    ]);
+    expect(character.background).toEqual({ key: 'soldier', name: 'Soldier' });
+    expect(character.abilityScores.total.STR).toBe(15);
+    expect(character.abilityScores.modifier.CON).toBe(1);
+    expect(character.abilityScores.generationMethod).toBe('standard');
+
+    expect(character.combat.maxHp).toBe(11);
+    expect(character.combat.currentHp).toBe(11);
+    expect(character.combat.ac.total).toBe(12);
+    expect(character.combat.initiative).toBe(2);
+    expect(character.combat.speed).toBe(30);
+    expect(character.combat.hitDice).toEqual({ type: 'd10', total: 1, used: 0 });
+  });
+
+  it('uses the chosen alignment, defaulting to True Neutral', () => {
+    expect(buildCharacter(createSelections(), { classData: fighter }).alignment).toBe(
+      'True Neutral'
+    );
+    const character = buildCharacter(
+      createSelections({ description: { name: 'Aldric', alignment: 'Chaotic Good' } }),
+      { classData: fighter }
+    );
+    expect(character.alignment).toBe('Chaotic Good');
+  });
+
+  it('uses fixed hit points after first level', () => {
+    const character = buildCharacter(
+      createSelections({ class: { classKey: 'fighter', level: 5 } }),
+      { classData: fighter }
+    );
+    // 10 + 4 * 6, plus +1 CON per level
+    expect(character.combat.maxHp).toBe(39);
+    expect(character.level).toBe(5);
+  });
+
+  it('attributes skills, proficiencies and languages', () => {
+    const character = buildCharacter(createSelections(), {
+      classData: fighter,
+      species: elf,
+      background: soldier,
+    });
+
+    expect(character.skills).toEqual([
+      { skillKey: 'athletics', proficiency: 'proficient', bonus: 4, source: 'Background: Soldier' },
+      {
+        skillKey: 'intimidation',
+        proficiency: 'proficient',
+        bonus: 1,
+        source: 'Background: Soldier',
+      },
+      { skillKey: 'acrobatics', proficiency: 'proficient', bonus: 4, source: 'Class: Fighter' },
+    ]);
+    expect(character.proficiencies).toEqual({
+      armor: ['All armor', 'shields'],
+      weapons: ['Simple weapons', 'martial weapons'],
+      tools: ['Vehicles (land)'],
+      toolSources: { 'Vehicles (land)': 'Background: Soldier' },
+      languages: ['Common', 'Elvish'],
+      savingThrows: ['STR', 'CON'],
+    });
+  });
+
+  it('records the source of class and background tool proficiencies', () => {
+    const character = buildCharacter(
+      createSelections({
+        background: {
+          backgroundKey: 'soldier',
+          toolProficiencies: ["Thieves' tools", 'Gaming set (dice)'],
+        },
+      }),
+      { classData: { ...fighter, prof_tools: "Thieves' tools" }, background: soldier }
+    );
+
+    expect(character.proficiencies.tools).toEqual(["Thieves' tools", 'Gaming set (dice)']);
+    expect(character.proficiencies.toolSources).toEqual({
+      "Thieves' tools": 'Class: Fighter',
+      'Gaming set (dice)': 'Background: Soldier',
+    });
+  });
+
+  it('applies species ability increases under 2014 rules only', () => {
+    const species = {
+      speciesKey: 'elf',
+      abilityBonuses: [
+        { ability: 'DEX' as const, bonus: 2 },
+        { ability: 'any' as const, bonus: 1 },
+      ],
+      bonusChoices: { any: 'INT' },
+    };
+
+    const classic = buildCharacter(createSelections({ species }), { classData: fighter });
+    expect(classic.abilityScores.racialBonus).toMatchObject({ DEX: 2, INT: 1 });
+    expect(classic.abilityScores.total.DEX).toBe(16);
+    expect(classic.abilityScores.total.INT).toBe(13);
+
+    const modern = buildCharacter(
+      createSelections({
+        species,
+        config: { edition: '2024', documentKeys: ['srd-2024'], hpMethod: 'fixed' },
+      }),
+      { classData: fighter }
+    );
+    expect(modern.abilityScores.total.DEX).toBe(14);
+  });
+
+  it('applies background ability increases under 2024 rules', () => {
+    const sage: Open5eBackground = {
+      ...soldier,
+      key: 'sage',
+      name: 'Sage',
+      benefits: [
+        {
+          name: 'Ability Scores',
+          desc: 'Constitution, Intelligence, Wisdom',
+          type: 'ability_score',
+        },
+      ],
+    };
+    expect(parseBackgroundAbilityOptions(sage)).toEqual(['CON', 'INT', 'WIS']);
+    expect(parseBackgroundAbilityOptions(soldier)).toHaveLength(6);
+
+    const character = buildCharacter(
+      createSelections({
+        config: { edition: '2024', documentKeys: ['srd-2024'], hpMethod: 'fixed' },
+        abilityScores: {
+          method: 'standard',
+          scores: { STR: 15, DEX: 14, CON: 13, INT: 12, WIS: 10, CHA: 8 },
+          backgroundBonuses: { INT: 2, WIS: 1 },
+        },
+      }),
+      { classData: fighter, background: sage }
+    );
+    expect(character.abilityScores.total.INT).toBe(14);
+    expect(character.abilityScores.total.WIS).toBe(11);
+  });
+
+  it('uses recorded background grants and the origin feat', () => {
+    const alert: Open5eFeat = {
+      key: 'alert',
+      name: 'Alert',
+      url: '',
+      document: 'srd-2024',
+      desc: 'Add your proficiency bonus to initiative.',
+      type: 'Origin',
+    };
+    const character = buildCharacter(
+      createSelections({
+        background: {
+          backgroundKey: 'soldier',
+          skillKeys: ['perception'],
+          toolProficiencies: ['Gaming set (dice)'],
+        },
+      }),
+      { classData: fighter, background: soldier, originFeat: alert }
+    );
+
+    expect(character.skills.map((s) => [s.skillKey, s.source])).toEqual([
+      ['perception', 'Background: Soldier'],
+      ['acrobatics', 'Class: Fighter'],
+      ['athletics', 'Class: Fighter'],
+    ]);
+    expect(character.proficiencies.tools).toEqual(['Gaming set (dice)']);
+    expect(character.proficiencies.toolSources).toEqual({
+      'Gaming set (dice)': 'Background: Soldier',
+    });
+    expect(character.features.at(-1)).toMatchObject({
+      id: 'feat-alert',
+      name: 'Alert',
+      source: 'Feat: Alert',
+    });
+  });
+
+  it('collects features up to the class level', () => {
+    const character = buildCharacter(
+      createSelections({ class: { classKey: 'fighter', level: 3, archetypeKey: 'champion' } }),
+      { classData: fighter, species: elf, background: soldier }
+    );
+    const names = character.features.map((f) => f.name);
+
+    expect(names).toEqual([
+      'Second Wind',
+      'Action Surge',
+      'Improved Critical',
+      'Darkvision',
+      'Cantrip',
+      'Military Rank',
+    ]);
+    expect(character.features[2].source).toBe('Class: Fighter (Champion)');
+    expect(character.features[3].source).toBe('Species: High Elf');
+    expect(character.classes[0].archetype).toBe('champion');
+  });
+
+  it('derives AC from equipped armor and shield', () => {
+    const character = buildCharacter(
+      createSelections({
+        equipment: {
+          items: [
+            { itemKey: 'chain-mail', quantity: 1, equipped: true },
+            { itemKey: 'shield', quantity: 1, equipped: true },
+          ],
+          currency: { gp: 10 },
+        },
+      }),
+      { classData: fighter, items: [chainMail, shield] }
+    );
+
+    expect(character.combat.ac).toEqual({ base: 16, dexModifier: 0, bonus: 2, total: 18 });
+    expect(character.inventory.map((i) => i.name)).toEqual(['Chain Mail', 'Shield']);
+    expect(character.currency).toEqual({ cp: 0, sp: 0, ep: 0, gp: 10, pp: 0 });
+  });
+
+  it('leaves non-casters without spellcasting', () => {
+    const character = buildCharacter(createSelections(), { classData: fighter });
+    expect(character.spellcasting).toBeNull();
+  });
+
+  it('builds spellcasting for casters', () => {
+    const character = buildCharacter(
+      createSelections({
+        class: { classKey: 'srd_wizard', level: 1 },
+        abilityScores: {
+          method: 'standard',
+          scores: { STR: 8, DEX: 14, CON: 13, INT: 15, WIS: 12, CHA: 10 },
+        },
+        spells: { cantrips: ['light'], knownPrepared: [{ spellKey: 'magic-missile', level: 1 }] },
+      }),
+      { classData: wizard }
+    );
+
+    expect(character.classes[0].key).toBe('wizard');
+    expect(character.spellcasting).toMatchObject({
+      ability: 'INT',
+      saveDC: 12,
+      attackBonus: 4,
+      slots: [{ level: 1, max: 2, used: 0 }],
+      preparedSpells: [{ spellKey: 'magic-missile', level: 1 }],
+    });
+    expect(character.spellcasting?.knownSpells.map((s) => s.spellKey)).toEqual([
+      'light',
+      'magic-missile',
+    ]);
+  });
+
+  it('keeps unprepared spellbook spells as known', () => {
+    const character = buildCharacter(
+      createSelections({
+        class: { classKey: 'srd_wizard', level: 1 },
+        spells: {
+          cantrips: [],
+          knownPrepared: [{ spellKey: 'shield', level: 1 }],
+          spellbook: [
+            { spellKey: 'magic-missile', level: 1 },
+            { spellKey: 'shield', level: 1 },
+          ],
+        },
+      }),
+      { classData: wizard }
+    );
+
+    expect(character.spellcasting?.knownSpells.map((s) => [s.spellKey, s.prepared])).toEqual([
+      ['magic-missile', false],
+      ['shield', true],
+    ]);
+    expect(character.spellcasting?.preparedSpells).toEqual([{ spellKey: 'shield', level: 1 }]);
+  });
+});
+
+describe('buildSpellcasting', () => {
+  it('uses pact magic slots for warlocks', () => {
+    const spellcasting = buildSpellcasting(
+      'warlock',
+      5,
+      { STR: 8, DEX: 14, CON: 13, INT: 10, WIS: 12, CHA: 16 },
+      undefined
+    );
+    expect(spellcasting?.slots).toEqual([]);
+    expect(spellcasting?.pactMagic).toEqual({ level: 3, max: 2, used: 0 });
+  });
+});
@@ -0,0 +1,782 @@
+/**
+ * Character Builder - D&D 5e
+ *
+ * Turns the selections made in the character creation wizard, together with
+ * the Open5E class, species and background data they reference, into a
+ * complete Character ready to be persisted.
+ */
+
+import {
+  ABILITY_SCORES,
+  SKILLS,
+  CLASS_HIT_DICE,
+  type AbilityScore,
+  type CharacterFeature,
+  type Currency,
+  type DieType,
+  type EquipmentItem,
+  type ProficiencyLevel,
+  type SpellLevel,
+} from '@/types/game';
+import type {
+  Character,
+  CharacterSkill,
+  KnownSpell,
+  Spellcasting,
+  WizardSelections,
+} from '@/types/character';
+import type {
+  Open5eBackground,
+  Open5eClass,
+  Open5eFeat,
+  Open5eItem,
+  Open5eRace,
+  Open5eSpell,
+  Open5eSubrace,
+  Open5eTrait,
+} from '@/types/open5e';
+import { toOpen5eDisplayString } from '@/lib/utils';
+import {
+  applyBackgroundBonuses,
+  applySpeciesBonuses,
+  calculateAbilityScores,
+  type SpeciesBonus,
+} from './ability-scores';
+import { calculateAC, calculateInitiative, calculateLevelHP, type ArmorType } from './combat';
+import { findEquippedArmor } from './armor';
+import { calculateSkillModifier } from './proficiency';
+import { calculateSpellcastingStats } from './spellcasting';
+import { calculateMulticlassSpellcasting } from './multiclass';
+import { createPassiveFeature } from './features';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A character as accepted by createCharacter (ID and timestamps are assigned on save) */
+export type NewCharacter = Omit<Character, 'id' | 'createdAt' | 'updatedAt'>;
+
+/** Open5E content referenced by the wizard selections */
+export interface CharacterBuildContent {
+  classData: Open5eClass;
+  /** Base species (the parent race when a subrace was picked) */
+  species?: Open5eRace | null;
+  background?: Open5eBackground | null;
+  /** Origin feat picked with the background (2024 rules) */
+  originFeat?: Open5eFeat | null;
+  /** Item data used to name and classify selected equipment */
+  items?: Open5eItem[];
+  /** Spell data used to name selected spells */
+  spells?: Open5eSpell[];
+}
+
+const DEFAULT_SPEED = 30;
+
+const EMPTY_CURRENCY: Currency = { cp: 0, sp: 0, ep: 0, gp: 0, pp: 0 };
+
+// ============================================================================
+// Open5E Parsing
+// ============================================================================
+
+/**
+ * Resolve the engine class key (e.g. 'fighter') for an Open5E class.
+ * Open5E keys may carry a document prefix, so the class name is used as a fallback.
+ *
+ * @param classData - Open5E class key and name
+ * @returns Lowercase class key understood by the engine tables
+ */
+export function getEngineClassKey(classData: Pick<Open5eClass, 'key' | 'name'>): string {
+  const key = classData.key.toLowerCase();
+  if (CLASS_HIT_DICE[key]) return key;
+  return classData.name.trim().toLowerCase();
+}
+
+/**
+ * Parse an Open5E hit dice string ("1d10", "d10" or "10")
+ *
+ * @param hitDice - Hit dice text from the class
+ * @param fallback - Die size used when the text cannot be parsed
+ * @returns Hit die size (e.g. 10)
+ */
+export function parseHitDie(hitDice: string | null | undefined, fallback: number = 8): number {
+  const match = hitDice?.trim().match(/d?(\d+)$/i);
+  const value = match ? parseInt(match[1], 10) : NaN;
+  return [4, 6, 8, 10, 12, 20].includes(value) ? value : fallback;
+}
+
+/**
+ * Parse Open5E saving throw names ("Strength", "STR") into ability keys
+ *
+ * @param savingThrows - Saving throw names from the class
+ * @returns Ability scores the class is proficient in
+ */
+export function parseSavingThrows(savingThrows: string[] | null | undefined): AbilityScore[] {
+  const result: AbilityScore[] = [];
+  for (const save of savingThrows ?? []) {
+    const ability = save.trim().slice(0, 3).toUpperCase() as AbilityScore;
+    if (ABILITY_SCORES.includes(ability) && !result.includes(ability)) {
+      result.push(ability);
+    }
+  }
+  return result;
+}
+
+/**
+ * Split an Open5E proficiency sentence ("Light armor, medium armor, and shields")
+ * into individual entries
+ *
+ * @param text - Comma separated proficiency text
+ * @returns Trimmed entries, without "none"
+ */
+export function parseProficiencyList(text: string | null | undefined): string[] {
+  if (!text) return [];
+  return text
+    .split(/,|;|\band\b/i)
+    .map((entry) => entry.trim().replace(/\.$/, ''))
+    .filter((entry) => entry.length > 0 && entry.toLowerCase() !== 'none');
+}
+
+/**
+ * Resolve a skill name or key ("Animal Handling", "animal-handling") to a skill key
+ *
+ * @param value - Skill name or key
+ * @returns Skill key, or null if unknown
+ */
+export function findSkillKey(value: string): string | null {
+  const normalize = (text: string) =>
+    text
+      .trim()
+      .toLowerCase()
+      .replace(/[\s_-]+/g, '');
+  const target = normalize(value);
+  const skill = SKILLS.find((s) => normalize(s.key) === target || normalize(s.name) === target);
+  return skill?.key ?? null;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+};
+
+/**
+ * Parse the class skill choice sentence
+ * ("Choose two from Acrobatics, Athletics, and Survival", "Choose any three")
+ *
+ * @param text - Skill proficiency text from the class
+ * @returns Number of skills to pick and the skill keys to pick from
+ */
+export function parseSkillChoices(text: string | null | undefined): {
+  count: number;
+  options: string[];
+} {
+  if (!text) return { count: 0, options: [] };
+
+  const countMatch = text.match(/choose\s+(?:any\s+)?(\w+)/i);
+  const countWord = countMatch?.[1].toLowerCase() ?? '';
+  const count = NUMBER_WORDS[countWord] ?? (parseInt(countWord, 10) || 0);
+
+  const fromIndex = text.search(/\bfrom\b/i);
+  const options =
+    fromIndex === -1
+      ? SKILLS.map((s) => s.key)
+      : parseProficiencyList(text.slice(fromIndex + 4))
+          .map(findSkillKey)
+          .filter((key): key is string => key !== null);
+
+  return { count: Math.min(count, options.length), options: Array.from(new Set(options)) };
+}
+
+/** Level at which each class picks its subclass (2014 rules) */
+const SUBCLASS_LEVELS: Record<string, number> = {
+  cleric: 1,
+  sorcerer: 1,
+  warlock: 1,
+  druid: 2,
+  wizard: 2,
+};
+
+/**
+ * Get the class level at which the subclass (archetype) is chosen.
+ * Uses the earliest archetype feature when Open5E lists them, then the class
+ * feature named after the subclass type, then the SRD defaults.
+ *
+ * @param classData - Open5E class
+ * @returns Level the subclass unlocks (1-20)
+ */
+export function getSubclassUnlockLevel(classData: Open5eClass): number {
+  const archetypeLevels = (classData.archetypes ?? []).flatMap((a) =>
+    (a.features ?? []).map((f) => f.level)
+  );
+  if (archetypeLevels.length > 0) return Math.max(1, Math.min(...archetypeLevels));
+
+  const subtype = classData.subtypes_name?.trim().toLowerCase().replace(/s$/, '');
+  const subtypeFeature = subtype
+    ? classData.class_features?.find((f) => f.name.toLowerCase().includes(subtype))
+    : undefined;
+  if (subtypeFeature) return subtypeFeature.level;
+
+  return SUBCLASS_LEVELS[getEngineClassKey(classData)] ?? 3;
+}
+
+const ABILITY_NAMES: Record<string, AbilityScore> = {
+  strength: 'STR',
+  dexterity: 'DEX',
+  constitution: 'CON',
+  intelligence: 'INT',
+  wisdom: 'WIS',
+  charisma: 'CHA',
+};
+
+/**
+ * Parse the "Ability Score Increase" trait of a species or subrace
+ * ("Your Dexterity score increases by 2", "Two different ability scores of your
+ * choice increase by 1", "Your ability scores each increase by 1")
+ *
+ * @param traits - Species and subrace traits
+ * @returns Bonuses in applySpeciesBonuses shape
+ */
+export function parseSpeciesAbilityBonuses(
+  traits: Open5eTrait[] | null | undefined
+): SpeciesBonus[] {
+  const bonuses: SpeciesBonus[] = [];
+
+  for (const trait of traits ?? []) {
+    if (!/ability score increase/i.test(trait.name)) continue;
+
+    for (const sentence of trait.description.split(/\.\s*|,\s*and\s+/)) {
+      const amount = parseInt(sentence.match(/increases?\s+by\s+(\d+)/i)?.[1] ?? '', 10);
+      if (!amount) continue;
+
+      if (/\beach\b/i.test(sentence)) {
+        bonuses.push(...ABILITY_SCORES.map((ability) => ({ ability, bonus: amount })));
+        continue;
+      }
+
+      const choiceMatch = sentence.match(
+        /(\w+)\s+(?:different\s+|other\s+)?ability scores?\s+of your choice/i
+      );
+      if (choiceMatch) {
+        const count = NUMBER_WORDS[choiceMatch[1].toLowerCase()] ?? 1;
+        const ability = count >= 3 ? 'any_three' : count === 2 ? 'any_two' : 'any';
+        bonuses.push({ ability, bonus: amount });
+        continue;
+      }
+
+      for (const [name, ability] of Object.entries(ABILITY_NAMES)) {
+        if (new RegExp(`\\b${name}\\b`, 'i').test(sentence)) {
+          bonuses.push({ ability, bonus: amount });
+        }
+      }
+    }
+  }
+
+  return bonuses;
+}
+
+/**
+ * Get the abilities a 2024 background may increase, from its "Ability Scores" benefit
+ *
+ * @param background - Open5E background
+ * @returns Listed abilities, or all six when the background lists none
+ */
+export function parseBackgroundAbilityOptions(
+  background: Open5eBackground | null | undefined
+): AbilityScore[] {
+  const benefit = background?.benefits?.find(
+    (b) => b.type === 'ability_score' || /ability scores?/i.test(b.name)
+  );
+  const options = Object.entries(ABILITY_NAMES)
+    .filter(([name]) => benefit && new RegExp(`\\b${name}\\b`, 'i').test(benefit.desc))
+    .map(([, ability]) => ability);
+  return options.length > 0 ? options : [...ABILITY_SCORES];
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+function findSubrace(
+  species: Open5eRace | null | undefined,
+  selection: WizardSelections['species']
+): Open5eSubrace | null {
+  if (!species || !selection) return null;
+  const subraceKey = selection.subraceKey ?? selection.speciesKey;
+  return species.subraces?.find((s) => s.key === subraceKey) ?? null;
+}
+
+// ============================================================================
+// Section Builders
+// ============================================================================
+
+/**
+ * Calculate the ability score increases from the character's origin:
+ * species traits under the 2014 rules, the background's +2/+1 under the 2024 rules
+ *
+ * @param selections - Wizard selections
+ * @param background - Selected background (for its 2024 ability options)
+ * @returns Bonus per ability and any errors in the recorded choices
+ */
+export function calculateOriginBonuses(
+  selections: WizardSelections,
+  background: Open5eBackground | null | undefined
+): { bonuses: Record<AbilityScore, number>; errors: string[] } {
+  const base = selections.abilityScores?.scores ?? {
+    STR: 10,
+    DEX: 10,
+    CON: 10,
+    INT: 10,
+    WIS: 10,
+    CHA: 10,
+  };
+
+  if (selections.config?.edition === '2024') {
+    const { bonuses, errors } = applyBackgroundBonuses(
+      base,
+      selections.abilityScores?.backgroundBonuses ?? {},
+      parseBackgroundAbilityOptions(background)
+    );
+    return { bonuses, errors };
+  }
+
+  const { bonuses, errors } = applySpeciesBonuses(
+    base,
+    selections.species?.abilityBonuses ?? [],
+    selections.species?.bonusChoices
+  );
+  return { bonuses, errors };
+}
+
+/** Skills granted together by one source (class choices, background, ...) */
+export interface SkillGrant {
+  source: string;
+  skillKeys: string[];
+}
+
+/**
+ * Build skill proficiencies from grants, keeping the first source for each skill
+ *
+ * @param grants - Skill grants in priority order
+ * @param abilityScores - Total ability scores
+ * @param level - Character level
+ * @returns Proficient skills with calculated bonuses
+ */
+export function buildSkills(
+  grants: SkillGrant[],
+  abilityScores: Record<AbilityScore, number>,
+  level: number
+): CharacterSkill[] {
+  const sources = new Map<string, string>();
+
+  for (const grant of grants) {
+    for (const skillName of grant.skillKeys) {
+      const key = findSkillKey(skillName);
+      if (key && !sources.has(key)) sources.set(key, grant.source);
+    }
+  }
+
+  const proficiency: ProficiencyLevel = 'proficient';
+  return Array.from(sources, ([skillKey, source]) => ({
+    skillKey,
+    proficiency,
+    bonus: calculateSkillModifier(skillKey, abilityScores, proficiency, level).total,
+    source,
+  }));
+}
+
+/** Tool proficiencies granted together by one source */
+export interface ToolGrant {
+  source: string;
+  tools: string[];
+}
+
+/**
+ * Build tool proficiencies from grants, keeping the first source for each tool
+ *
+ * @param grants - Tool grants in priority order
+ * @returns Tool names and the source of each
+ */
+export function buildToolProficiencies(grants: ToolGrant[]): {
+  tools: string[];
+  toolSources: Record<string, string>;
+} {
+  const toolSources: Record<string, string> = {};
+  const known = new Set<string>();
+
+  for (const grant of grants) {
+    for (const tool of grant.tools) {
+      if (known.has(tool.toLowerCase())) continue;
+      known.add(tool.toLowerCase());
+      toolSources[tool] = grant.source;
+    }
+  }
+
+  return { tools: Object.keys(toolSources), toolSources };
+}
+
+/**
+ * Build class, archetype, species and background features
+ *
+ * @param classData - Open5E class
+ * @param classLevel - Level in the class
+ * @param archetypeKey - Selected archetype (if any)
+ * @param species - Base species
+ * @param subrace - Selected subrace (if any)
+ * @param background - Background
+ * @param originFeat - Origin feat granted by the background (2024 rules)
+ * @returns Character features with source attribution
+ */
+export function buildFeatures(
+  classData: Open5eClass,
+  classLevel: number,
+  archetypeKey: string | undefined,
+  species: Open5eRace | null | undefined,
+  subrace: Open5eSubrace | null,
+  background: Open5eBackground | null | undefined,
+  originFeat: Open5eFeat | null = null
+): CharacterFeature[] {
+  const features: CharacterFeature[] = [];
+  const classSource = `Class: ${classData.name}`;
+
+  for (const feature of classData.class_features ?? []) {
+    if (feature.level > classLevel) continue;
+    features.push(
+      createPassiveFeature(
+        `class-${feature.key}`,
+        feature.name,
+        feature.description,
+        classSource,
+        feature.level
+      )
+    );
+  }
+
+  const archetype = archetypeKey
+    ? classData.archetypes?.find((a) => a.key === archetypeKey)
+    : undefined;
+  for (const feature of archetype?.features ?? []) {
+    if (feature.level > classLevel) continue;
+    features.push(
+      createPassiveFeature(
+        `archetype-${feature.key}`,
+        feature.name,
+        feature.description,
+        `${classSource} (${archetype!.name})`,
+        feature.level
+      )
+    );
+  }
+
+  if (species) {
+    const speciesName = subrace?.name ?? species.name;
+    const traits = [...(species.traits ?? []), ...(subrace?.traits ?? [])];
+    for (const trait of traits) {
+      features.push(
+        createPassiveFeature(
+          `species-${slugify(trait.name)}`,
+          trait.name,
+          trait.description,
+          `Species: ${speciesName}`
+        )
+      );
+    }
+  }
+
+  if (background?.feature) {
+    features.push(
+      createPassiveFeature(
+        `background-${slugify(background.feature)}`,
+        background.feature,
+        background.feature_description ?? '',
+        `Background: ${background.name}`
+      )
+    );
+  }
+
+  if (originFeat) {
+    features.push(
+      createPassiveFeature(
+        `feat-${originFeat.key}`,
+        originFeat.name,
+        originFeat.desc ?? '',
+        `Feat: ${originFeat.name}`
+      )
+    );
+  }
+
+  return features;
+}
+
+/**
+ * Build starting inventory from the equipment selection
+ *
+ * @param selection - Equipment selection
+ * @param items - Item data for naming
+ * @returns Inventory items
+ */
+export function buildInventory(
+  selection: WizardSelections['equipment'],
+  items: Open5eItem[] = []
+): EquipmentItem[] {
+  const byKey = new Map(items.map((item) => [item.key, item]));
+  return (selection?.items ?? []).map((entry, index) => {
+    const name =
+      (entry.itemKey && byKey.get(entry.itemKey)?.name) || entry.name || entry.itemKey || 'Item';
+    return {
+      id: `item-${entry.itemKey ?? slugify(name)}-${index}`,
+      name,
+      quantity: entry.quantity,
+      equipped: entry.equipped ?? false,
+      ...(entry.itemKey ? { itemKey: entry.itemKey } : {}),
+    };
+  });
+}
+
+/**
+ * Build spellcasting for the starting class
+ *
+ * @param classKey - Engine class key
+ * @param classLevel - Level in the class
+ * @param abilityScores - Total ability scores
+ * @param selection - Spell selection
+ * @param spells - Spell data for naming
+ * @returns Spellcasting block, or null for non-casters
+ */
+export function buildSpellcasting(
+  classKey: string,
+  classLevel: number,
+  abilityScores: Record<AbilityScore, number>,
+  selection: WizardSelections['spells'],
+  spells: Open5eSpell[] = []
+): Spellcasting | null {
+  const stats = calculateSpellcastingStats(classKey, abilityScores, classLevel);
+  if (!stats) return null;
+
+  const { slots, pactMagic } = calculateMulticlassSpellcasting([{ classKey, level: classLevel }]);
+
+  const byKey = new Map(spells.map((spell) => [spell.key, spell]));
+  const prepared = selection?.knownPrepared ?? [];
+  const preparedKeys = new Set(prepared.map((s) => s.spellKey));
+  const chosen: { spellKey: string; level: SpellLevel }[] = [
+    ...(selection?.cantrips ?? []).map((spellKey) => ({ spellKey, level: 0 as SpellLevel })),
+    ...(selection?.spellbook ?? prepared),
+  ];
+  const knownSpells: KnownSpell[] = chosen.map(({ spellKey, level }) => {
+    const spell = byKey.get(spellKey);
+    return {
+      id: `spell-${spellKey}`,
+      spellKey,
+      name: spell?.name ?? spellKey,
+      level,
+      school: toOpen5eDisplayString(spell?.school),
+      prepared: level === 0 || preparedKeys.has(spellKey),
+    };
+  });
+
+  return {
+    ability: stats.ability,
+    saveDC: stats.saveDC,
+    attackBonus: stats.attackBonus,
+    slots,
+    pactMagic,
+    preparedSpells: prepared.filter((s) => s.level > 0),
+    knownSpells,
+  };
+}
+
+/**
+ * Find the equipped armor and shield in an inventory
+ *
+ * @param inventory - Character inventory
+ * @param items - Open5E items referenced by the inventory
+ * @returns Armor type and base AC (unarmored when none is equipped) and shield flag
+ */
+export function resolveArmor(
+  inventory: EquipmentItem[],
+  items: Open5eItem[]
+): { armorType: ArmorType; armorBase: number; hasShield: boolean } {
+  const { armor, shield } = findEquippedArmor(inventory, items);
+  return {
+    armorType: armor?.armorType ?? 'unarmored',
+    armorBase: armor?.armorClass ?? 10,
+    hasShield: shield !== null,
+  };
+}
+
+// ============================================================================
+// Character Builder
+// ============================================================================
+
+/**
+ * Build a complete character from wizard selections
+ *
+ * @param selections - Selections made in the creation wizard
+ * @param content - Open5E data referenced by the selections
+ * @returns Character without ID or timestamps, ready for createCharacter
+ * @throws Error if the class, ability score or name selections are missing
+ */
+export function buildCharacter(
+  selections: Partial<WizardSelections>,
+  content: CharacterBuildContent
+): NewCharacter {
+  const classSelection = selections.class;
+  if (!classSelection) throw new Error('A class must be selected');
+  if (!selections.abilityScores) throw new Error('Ability scores must be set');
+  const name = selections.description?.name?.trim();
+  if (!name) throw new Error('Character name is required');
+
+  const { classData, species, background, originFeat = null, items = [], spells = [] } = content;
+  const level = Math.max(1, Math.min(20, classSelection.level || 1));
+  const classKey = getEngineClassKey(classData);
+  const hitDiceValue = parseHitDie(classData.hit_dice, parseHitDie(CLASS_HIT_DICE[classKey]));
+  const hitDie = `d${hitDiceValue}` as DieType;
+  const subrace = findSubrace(species, selections.species);
+
+  // Ability scores
+  const edition = selections.config?.edition ?? '2014';
+  const { bonuses: racialBonus } = calculateOriginBonuses(selections, background);
+  const scores = calculateAbilityScores(selections.abilityScores.scores, racialBonus);
+  const abilityScores = {
+    ...scores,
+    override: { STR: null, DEX: null, CON: null, INT: null, WIS: null, CHA: null },
+    generationMethod: selections.abilityScores.method,
+  };
+  const totals = scores.total;
+
+  // Hit points (first level takes the maximum, later levels the fixed average)
+  let maxHp = 0;
+  for (let lvl = 1; lvl <= level; lvl++) {
+    maxHp += calculateLevelHP(lvl, classKey, hitDie, totals.CON).total;
+  }
+  maxHp = Math.max(1, maxHp);
+
+  // Equipment and armor
+  const inventory = buildInventory(selections.equipment, items);
+  const armor = resolveArmor(inventory, items);
+  const ac = calculateAC(armor.armorType, armor.armorBase, totals.DEX, armor.hasShield);
+
+  const languages = Array.from(
+    new Set(
+      [...(species?.languages ?? []), ...(background?.languages ?? [])]
+        .map(toOpen5eDisplayString)
+        .filter(Boolean)
+    )
+  );
+
+  return {
+    name,
+    playerName: '',
+    race: {
+      key: species?.key ?? selections.species?.speciesKey ?? '',
+      name: species?.name ?? '',
+      ...(subrace ? { subrace: subrace.name } : {}),
+    },
+    classes: [
+      {
+        key: classKey,
+        name: classData.name,
+        level,
+        hitDiceValue,
+        isPrimary: true,
+        ...(classSelection.archetypeKey ? { archetype: classSelection.archetypeKey } : {}),
+      },
+    ],
+    background: {
+      key: background?.key ?? selections.background?.backgroundKey ?? '',
+      name: background?.name ?? '',
+    },
+    alignment: selections.description?.alignment ?? 'True Neutral',
+    level,
+    experiencePoints: 0,
+    edition,
+    abilityScores,
+    skills: buildSkills(
+      [
+        {
+          source: `Background: ${background?.name ?? ''}`,
+          skillKeys:
+            selections.background?.skillKeys ??
+            (background?.skill_proficiencies ?? []).map(toOpen5eDisplayString),
+        },
+        { source: `Class: ${classData.name}`, skillKeys: classSelection.skillKeys ?? [] },
+      ],
+      totals,
+      level
+    ),
+    combat: {
+      maxHp,
+      currentHp: maxHp,
+      tempHp: 0,
+      ac: {
+        base: ac.base,
+        dexModifier: ac.dexModifier,
+        bonus: ac.shieldBonus + ac.magicBonus + ac.featureBonus,
+        total: ac.total,
+      },
+      initiative: calculateInitiative(totals.DEX).total,
+      speed: species?.speed || DEFAULT_SPEED,
+      hitDice: { type: hitDie, total: level, used: 0 },
+      deathSaves: { successes: 0, failures: 0 },
+    },
+    proficiencies: {
+      armor: parseProficiencyList(classData.prof_armor),
+      weapons: parseProficiencyList(classData.prof_weapons),
+      ...buildToolProficiencies([
+        { source: `Class: ${classData.name}`, tools: parseProficiencyList(classData.prof_tools) },
+        {
+          source: `Background: ${background?.name ?? ''}`,
+          tools:
+            selections.background?.toolProficiencies ??
+            (background?.tool_proficiencies ?? []).map(toOpen5eDisplayString),
+        },
+      ]),
+      languages,
+      savingThrows: parseSavingThrows(classData.prof_saving_throws),
+    },
+    spellcasting: buildSpellcasting(classKey, level, totals, selections.spells, spells),
+    inventory,
+    currency: { ...EMPTY_CURRENCY, ...selections.equipment?.currency },
+    features: buildFeatures(
+      classData,
+      level,
+      classSelection.archetypeKey,
+      species,
+      subrace,
+      background,
+      originFeat
+    ),
+    actions: [],
+    conditions: [],
+    personality: {
+      traits: [],
+      ideals: [],
+      bonds: [],
+      flaws: [],
+      appearance: '',
+      backstory: '',
+      allies: '',
+      enemies: '',
+      notes: '',
+      ...selections.description?.personality,
+    },
+    appearance: {
+      age: '',
+      height: '',
+      weight: '',
+      eyes: '',
+      skin: '',
+      hair: '',
+      other: '',
+      ...selections.description?.appearance,
+    },
+    sessionNotes: [],
+    ...(selections.config?.campaignId ? { campaignId: selections.config.campaignId } : {}),
+    overrides: {},
+  };
+}
@@ -450,6 +450,11 @@ describe('Utility Functions', () => {
       expect(result).toBeGreaterThanOrEqual(1);
       expect(result).toBeLessThanOrEqual(10);
     });
+
+    it('should use the given random source', () => {
+      expect(rollHitDie('d10', () => 0.99)).toBe(10);
+      expect(rollHitDie('d10', () => 0)).toBe(1);
+    });
   });
 
   describe('rollInitiative', () => {
@@ -458,6 +463,10 @@ describe('Utility Functions', () => {
       expect(result).toBeGreaterThanOrEqual(3); // 1 + 2
       expect(result).toBeLessThanOrEqual(22); // 20 + 2
     });
+
+    it('should use the given random source', () => {
+      expect(rollInitiative(2, () => 0.5)).toBe(13);
+    });
   });
 
   describe('formatCombatValue', () => {
@@ -7,6 +7,7 @@
 import { type AbilityScore, type DieType, CLASS_HIT_DICE } from '@/types/game';
 import { calculateModifier } from './ability-scores';
 import { calculateProficiencyBonus } from './proficiency';
+import { d20Notation, rollDice, rollDie, type RandomSource } from './dice';
 
 // ============================================================================
 // Armor Class
@@ -23,6 +24,9 @@ export interface ArmorCalculation {
   total: number;
 }
 
+/** AC a shield adds */
+export const SHIELD_AC_BONUS = 2;
+
 /**
  * Calculate Armor Class
  *
@@ -55,7 +59,7 @@ export function calculateAC(
   // If unarmored, base is 10 + DEX
   const baseAC = armorType === 'unarmored' ? 10 : armorBase;
   const dexContribution = armorType === 'unarmored' ? dexMod : effectiveDexMod;
-  const shieldBonus = hasShield ? 2 : 0;
+  const shieldBonus = hasShield ? SHIELD_AC_BONUS : 0;
 
   return {
     base: baseAC,
@@ -113,7 +117,7 @@ function getHitDieMax(dieType: DieType): number {
 /**
  * Get the average roll for a hit die (rounded up)
  */
-function getHitDieAverage(dieType: DieType): number {
+export function getHitDieAverage(dieType: DieType): number {
   return Math.ceil(getHitDieMax(dieType) / 2) + 1;
 }
 
@@ -623,21 +627,25 @@ export function recoverHitDice(currentRemaining: number, total: number): number
  * Roll a hit die
  *
  * @param dieType - Die type (e.g., 'd8')
+ * @param random - Random source (Math.random by default)
  * @returns Random roll (1 to max)
  */
-export function rollHitDie(dieType: DieType): number {
-  const max = getHitDieMax(dieType);
-  return Math.floor(Math.random() * max) + 1;
+export function rollHitDie(dieType: DieType, random: RandomSource = Math.random): number {
+  return rollDie(getHitDieMax(dieType), random);
 }
 
 /**
  * Roll initiative
  *
  * @param initiativeModifier - Initiative modifier
+ * @param random - Random source (Math.random by default)
  * @returns Initiative roll result
  */
-export function rollInitiative(initiativeModifier: number): number {
-  return Math.floor(Math.random() * 20) + 1 + initiativeModifier;
+export function rollInitiative(
+  initiativeModifier: number,
+  random: RandomSource = Math.random
+): number {
+  return rollDice(d20Notation(initiativeModifier), { random }).total;
 }
 
 /**
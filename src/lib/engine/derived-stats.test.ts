@@ -0,0 +1,310 @@
+/**
+ * Derived Character Stats Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { buildCharacter } from './character-builder';
+import { deriveCharacterStats } from './derived-stats';
+import { mockCharacter, mockSpellcaster } from '@/lib/debug/mockCharacters';
+import type { Character } from '@/types/character';
+import type { Open5eClass, Open5eItem } from '@/types/open5e';
+
+const chainMail = {
+  key: 'chain-mail',
+  name: 'Chain Mail',
+  armor_category: 'Heavy Armor',
+  armor_class: 16,
+} as Open5eItem;
+const shield = {
+  key: 'shield',
+  name: 'Shield',
+  armor_category: 'Shield',
+  armor_class: 2,
+} as Open5eItem;
+
+const armored: Character = {
+  ...mockCharacter,
+  inventory: [
+    { id: 'armor', name: 'Chain Mail', quantity: 1, equipped: true, itemKey: 'chain-mail' },
+    { id: 'shield', name: 'Shield', quantity: 1, equipped: true, itemKey: 'shield' },
+  ],
+};
+
+describe('deriveCharacterStats', () => {
+  it('derives scores, saves, skills and initiative from the inputs', () => {
+    const stats = deriveCharacterStats(mockCharacter);
+
+    expect(stats.abilityScores.total.STR).toBe(18);
+    expect(stats.abilityScores.modifier.STR).toBe(4);
+    expect(stats.proficiencyBonus).toBe(3);
+    expect(stats.savingThrows.STR).toMatchObject({ total: 7, isProficient: true });
+    expect(stats.savingThrows.DEX).toMatchObject({ total: 2, isProficient: false });
+    expect(stats.skills.athletics.total).toBe(7);
+    expect(stats.initiative.total).toBe(2);
+    expect(stats.spellcasting).toBeNull();
+  });
+
+  it('ignores stale stored totals', () => {
+    const stale: Character = {
+      ...mockCharacter,
+      abilityScores: {
+        ...mockCharacter.abilityScores,
+        total: { ...mockCharacter.abilityScores.total, STR: 3 },
+        modifier: { ...mockCharacter.abilityScores.modifier, STR: -4 },
+      },
+      skills: mockCharacter.skills.map((s) => ({ ...s, bonus: 99 })),
+    };
+    const stats = deriveCharacterStats(stale);
+
+    expect(stats.abilityScores.total.STR).toBe(18);
+    expect(stats.skills.athletics.total).toBe(7);
+  });
+
+  it('applies ability score overrides', () => {
+    const stats = deriveCharacterStats({
+      ...mockCharacter,
+      abilityScores: {
+        ...mockCharacter.abilityScores,
+        override: { ...mockCharacter.abilityScores.override, DEX: 20 },
+      },
+    });
+
+    expect(stats.abilityScores.total.DEX).toBe(20);
+    expect(stats.abilityScores.modifier.DEX).toBe(5);
+    expect(stats.initiative.total).toBe(5);
+  });
+
+  it('calculates armor class from equipped armor when items are available', () => {
+    expect(deriveCharacterStats(armored, { items: [chainMail, shield] }).armorClass).toMatchObject({
+      base: 16,
+      dexModifier: 0,
+      shieldBonus: 2,
+      total: 18,
+    });
+    expect(deriveCharacterStats(armored).armorClass.total).toBe(mockCharacter.combat.ac.total);
+  });
+
+  it('does not count the stored shield bonus of a built character twice', () => {
+    const fighter = {
+      key: 'fighter',
+      name: 'Fighter',
+      hit_dice: '1d10',
+      prof_armor: 'All armor, shields',
+      prof_weapons: 'Simple weapons, martial weapons',
+      prof_tools: 'None',
+      prof_saving_throws: ['Strength', 'Constitution'],
+      spellcasting_ability: null,
+      archetypes: [],
+      class_features: [],
+    } as unknown as Open5eClass;
+    const built = buildCharacter(
+      {
+        class: { classKey: 'fighter', level: 1, skillKeys: [] },
+        abilityScores: {
+          method: 'standard',
+          scores: { STR: 15, DEX: 14, CON: 13, INT: 12, WIS: 10, CHA: 8 },
+        },
+        equipment: {
+          items: [
+            { itemKey: 'chain-mail', quantity: 1, equipped: true },
+            { itemKey: 'shield', quantity: 1, equipped: true },
+          ],
+        },
+        description: { name: 'Aldric' },
+      },
+      { classData: fighter, items: [chainMail, shield] }
+    );
+    const character: Character = {
+      ...built,
+      id: 'built',
+      createdAt: new Date(0),
+      updatedAt: new Date(0),
+    };
+
+    const stats = deriveCharacterStats(character, { items: [chainMail, shield] });
+
+    expect(character.combat.ac.total).toBe(18);
+    expect(stats.armorClass.total).toBe(18);
+    expect(stats.breakdown.ac?.sources).toEqual([
+      { label: 'Chain Mail', value: 16 },
+      { label: 'Shield', value: 2 },
+    ]);
+  });
+
+  it('keeps the stored AC bonus of a shield that does not resolve to an item', () => {
+    const customShield: Character = {
+      ...armored,
+      combat: { ...armored.combat, ac: { base: 16, dexModifier: 0, bonus: 3, total: 19 } },
+      inventory: [
+        armored.inventory[0],
+        { id: 'custom', name: 'Shield +1', quantity: 1, equipped: true },
+      ],
+    };
+
+    const stats = deriveCharacterStats(customShield, { items: [chainMail, shield] });
+
+    expect(stats.armorClass.total).toBe(19);
+    expect(stats.breakdown.ac?.sources).toContainEqual({ label: 'Bonus', value: 3 });
+  });
+
+  it('adjusts stored hit points for a derived CON modifier', () => {
+    const tough = deriveCharacterStats({
+      ...mockCharacter,
+      abilityScores: {
+        ...mockCharacter.abilityScores,
+        override: { ...mockCharacter.abilityScores.override, CON: 19 },
+      },
+    });
+
+    // CON 15 (+2) raised to 19 (+4) at level 5
+    expect(tough.maxHp).toBe(mockCharacter.combat.maxHp + 10);
+    expect(tough.breakdown.maxHp?.sources).toEqual([
+      { label: 'Hit points', value: mockCharacter.combat.maxHp },
+      { label: 'CON modifier', value: 10 },
+    ]);
+    expect(deriveCharacterStats(mockCharacter).maxHp).toBe(mockCharacter.combat.maxHp);
+  });
+
+  it('applies character overrides', () => {
+    const stats = deriveCharacterStats(
+      {
+        ...mockSpellcaster,
+        overrides: { ac: 20, maxHp: 50, spellSaveDC: 17, proficiencyBonus: 4 },
+      },
+      { items: [chainMail] }
+    );
+
+    expect(stats.armorClass.total).toBe(20);
+    expect(stats.maxHp).toBe(50);
+    expect(stats.proficiencyBonus).toBe(4);
+    expect(stats.savingThrows.INT.total).toBe(8);
+    expect(stats.skills.perception.proficiencyBonus).toBe(4);
+    expect(stats.passivePerception).toBe(15);
+    expect(stats.spellcasting).toMatchObject({ saveDC: 17, attackBonus: 8 });
+  });
+
+  it('derives spellcasting stats for the casting class', () => {
+    const stats = deriveCharacterStats(mockSpellcaster);
+
+    expect(stats.spellcasting).toMatchObject({ ability: 'INT', saveDC: 15, attackBonus: 7 });
+  });
+
+  it('reuses the result for the same character and content', () => {
+    const index = { items: [chainMail] };
+
+    expect(deriveCharacterStats(armored, index)).toBe(deriveCharacterStats(armored, index));
+    expect(deriveCharacterStats(armored, { items: [] })).not.toBe(
+      deriveCharacterStats(armored, index)
+    );
+  });
+
+  it('applies effects from items, features and conditions', () => {
+    const stats = deriveCharacterStats(
+      {
+        ...armored,
+        inventory: [
+          ...armored.inventory,
+          {
+            id: 'gauntlets',
+            name: 'Gauntlets of Ogre Power',
+            quantity: 1,
+            equipped: true,
+            requiresAttunement: true,
+            attuned: true,
+            effects: [{ type: 'set', target: 'ability:STR', value: 19 }],
+          },
+          {
+            id: 'cloak',
+            name: 'Cloak of Protection',
+            quantity: 1,
+            equipped: true,
+            effects: [
+              { type: 'bonus', target: 'ac', value: 1 },
+              { type: 'bonus', target: 'saves', value: 1 },
+            ],
+          },
+        ],
+        features: [
+          {
+            id: 'mobile',
+            name: 'Mobile',
+            description: '',
+            source: 'Feat: Mobile',
+            effects: [
+              { type: 'bonus', target: 'speed', value: 10 },
+              { type: 'proficiency', target: 'skill:stealth', level: 'proficient' },
+            ],
+          },
+        ],
+        conditions: [
+          {
+            conditionKey: 'poisoned',
+            effects: [{ type: 'resistance', damageType: 'poison' }],
+          },
+        ],
+      },
+      { items: [chainMail, shield] }
+    );
+
+    expect(stats.abilityScores.total.STR).toBe(19);
+    expect(stats.savingThrows.STR.total).toBe(4 + 3 + 1);
+    expect(stats.armorClass).toMatchObject({ magicBonus: 1, total: 19 });
+    expect(stats.breakdown.ac?.sources).toContainEqual({ label: 'Cloak of Protection', value: 1 });
+    expect(stats.speed).toBe(mockCharacter.combat.speed + 10);
+    expect(stats.skills.stealth).toMatchObject({ proficiencyLevel: 'proficient', total: 5 });
+    expect(stats.resistances).toEqual({ poison: ['poisoned'] });
+  });
+
+  it('applies armor penalties and alternative AC formulas', () => {
+    const heavy = { ...chainMail, strength_requirement: 13, stealth_disadvantage: true };
+    const stats = deriveCharacterStats(
+      {
+        ...armored,
+        abilityScores: {
+          ...mockCharacter.abilityScores,
+          override: { ...mockCharacter.abilityScores.override, STR: 10 },
+        },
+        proficiencies: { ...mockCharacter.proficiencies, armor: ['light', 'shields'] },
+      },
+      { items: [heavy, shield] }
+    );
+
+    expect(stats.armor?.warnings.map((w) => w.kind)).toEqual(['proficiency', 'strength']);
+    expect(stats.speed).toBe(mockCharacter.combat.speed - 10);
+    expect(stats.breakdown['skill:stealth']?.disadvantage).toEqual(['Chain Mail']);
+    expect(stats.breakdown['save:DEX']?.disadvantage).toEqual(['Chain Mail']);
+
+    const barbarian = deriveCharacterStats(
+      {
+        ...mockCharacter,
+        classes: [{ ...mockCharacter.classes[0], key: 'barbarian', name: 'Barbarian' }],
+        inventory: [],
+      },
+      { items: [chainMail] }
+    );
+    expect(barbarian.armorClass.total).toBe(10 + 2 + 2);
+    expect(barbarian.breakdown.ac?.sources[0]).toEqual({
+      label: 'Unarmored Defense (Barbarian)',
+      value: 10,
+    });
+  });
+
+  it('replaces stored weapon actions with attacks for equipped weapons', () => {
+    const longsword = {
+      key: 'longsword',
+      name: 'Longsword',
+      category: 'Martial Melee Weapons',
+      damage_dice: '1d8',
+      damage_type: 'slashing',
+      properties: ['versatile (1d10)'],
+    } as Open5eItem;
+    const stats = deriveCharacterStats(mockCharacter, { items: [longsword, chainMail, shield] });
+    const attacks = stats.actions.filter((a) => a.sourceKey === 'longsword');
+
+    expect(attacks).toHaveLength(1);
+    expect(attacks[0].attackDetails).toMatchObject({ bonus: 7, damage: '1d8 + 4' });
+    expect(stats.actions.some((a) => a.name === 'Second Wind')).toBe(true);
+    expect(deriveCharacterStats(mockCharacter).actions).toBe(mockCharacter.actions);
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * Derived Character Stats - D&D 5e
+ *
+ * Recomputes every number shown on the character sheet from the character's
+ * inputs (ability score parts, proficiencies, level, equipped armor and the
+ * effects of items, features and conditions) instead of trusting the totals
+ * stored on the character, which can drift when an input changes. Manual
+ * values in `Character.overrides` and `abilityScores.override` take
+ * precedence over the calculated ones.
+ */
+
+import {
+  ABILITY_SCORES,
+  SKILLS,
+  type AbilityScore,
+  type CharacterAction,
+  type ProficiencyLevel,
+} from '@/types/game';
+import type { Character } from '@/types/character';
+import type { Open5eItem } from '@/types/open5e';
+import { calculateAbilityScores, calculateModifier } from './ability-scores';
+import { resolveArmorClass, type ArmorResolution } from './armor';
+import {
+  calculateInitiative,
+  SHIELD_AC_BONUS,
+  type ArmorCalculation,
+  type InitiativeCalculation,
+} from './combat';
+import {
+  applyEffects,
+  collectCharacterEffects,
+  getGrantedProficiency,
+  getResistances,
+  sumEffectBonuses,
+  type SourcedEffect,
+  type StatBreakdowns,
+  type StatSource,
+} from './effects';
+import {
+  calculateAllSavingThrowModifiers,
+  calculateAllSkillModifiers,
+  calculateProficiencyBonus,
+  calculateProficiencyLevelBonus,
+  getProficiencyLevelName,
+  type SavingThrowModifier,
+  type SkillModifier,
+} from './proficiency';
+import {
+  calculateSpellAttackBonus,
+  calculateSpellcastingStats,
+  calculateSpellSaveDC,
+  isSpellcaster,
+  type SpellcastingStats,
+} from './spellcasting';
+import { buildWeaponAttacks, mergeWeaponAttacks } from './weapons';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Open5E content the derivation looks up by key */
+export interface CharacterContentIndex {
+  /** Item data used to find equipped armor, shields and weapons */
+  items: Open5eItem[];
+}
+
+export interface DerivedCharacterStats {
+  abilityScores: ReturnType<typeof calculateAbilityScores>;
+  proficiencyBonus: number;
+  savingThrows: Record<AbilityScore, SavingThrowModifier>;
+  skills: Record<string, SkillModifier>;
+  passivePerception: number;
+  armorClass: ArmorCalculation;
+  /** Worn armor, AC formula and armor warnings; null without item data */
+  armor: ArmorResolution | null;
+  initiative: InitiativeCalculation;
+  speed: number;
+  spellcasting: SpellcastingStats | null;
+  maxHp: number;
+  /** Stored actions plus attacks for the equipped weapons */
+  actions: CharacterAction[];
+  /** How each value was built */
+  breakdown: StatBreakdowns;
+  /** Damage types the character resists, with the sources granting it */
+  resistances: Record<string, string[]>;
+}
+
+export const EMPTY_CONTENT_INDEX: CharacterContentIndex = { items: [] };
+
+// ============================================================================
+// Derivation
+// ============================================================================
+
+/** Drop parts that add nothing, keeping the first (base) part */
+function parts(...sources: StatSource[]): StatSource[] {
+  return sources.filter((source, index) => index === 0 || source.value !== 0);
+}
+
+/**
+ * Ability scores from their parts plus effect bonuses; set values and manual
+ * overrides replace the total
+ */
+function deriveAbilityScores(
+  character: Character,
+  effects: SourcedEffect[],
+  breakdown: StatBreakdowns
+): DerivedCharacterStats['abilityScores'] {
+  const { base, racialBonus, asiBonus, otherBonus, override } = character.abilityScores;
+  const bonuses = Object.fromEntries(
+    ABILITY_SCORES.map((ability) => [ability, sumEffectBonuses(effects, `ability:${ability}`)])
+  ) as Record<AbilityScore, ReturnType<typeof sumEffectBonuses>>;
+  const other = { ...otherBonus };
+  for (const ability of ABILITY_SCORES) other[ability] += bonuses[ability].total;
+
+  const scores = calculateAbilityScores(base, racialBonus, asiBonus, other);
+  for (const ability of ABILITY_SCORES) {
+    const applied = applyEffects(
+      scores.total[ability],
+      parts(
+        { label: 'Base score', value: base[ability] },
+        { label: 'Racial bonus', value: racialBonus[ability] },
+        { label: 'Ability Score Improvement', value: asiBonus[ability] },
+        { label: 'Other bonus', value: otherBonus[ability] },
+        ...bonuses[ability].sources
+      ),
+      effects,
+      `ability:${ability}`,
+      { override: override?.[ability], includeBonuses: false }
+    );
+    scores.total[ability] = applied.total;
+    scores.modifier[ability] = calculateModifier(applied.total);
+    breakdown[`ability:${ability}`] = applied.breakdown;
+  }
+  return scores;
+}
+
+/**
+ * Armor class from the resolved armor formula, or the stored breakdown when
+ * the item data needed to identify the armor is not available. Item effects
+ * count as magic bonuses, feature and condition effects as feature bonuses.
+ */
+function deriveArmorClass(
+  character: Character,
+  armor: ArmorResolution | null,
+  effects: SourcedEffect[],
+  breakdown: StatBreakdowns
+): ArmorCalculation {
+  const { ac } = character.combat;
+  // The builder and importer store the bonus of the shield they resolved; the
+  // equipped armor counts that shield again, so only the rest of the bonus is kept
+  const storedBonus = armor?.shield ? Math.max(0, ac.bonus - SHIELD_AC_BONUS) : ac.bonus;
+  const itemBonus = sumEffectBonuses(effects, 'ac', 'item');
+  const featureBonus = sumEffectBonuses(effects, 'ac', 'feature');
+  const conditionBonus = sumEffectBonuses(effects, 'ac', 'condition');
+  const magicBonus = storedBonus + itemBonus.total;
+  const otherBonus = featureBonus.total + conditionBonus.total;
+
+  let armorClass: ArmorCalculation = {
+    base: ac.base,
+    dexModifier: ac.dexModifier,
+    shieldBonus: 0,
+    magicBonus,
+    featureBonus: otherBonus,
+    total: ac.total + itemBonus.total + otherBonus,
+  };
+  let baseSources: StatSource[] = [{ label: 'Armor', value: ac.base }];
+  if (armor) {
+    const { calculation, formula } = armor;
+    armorClass = {
+      ...calculation,
+      magicBonus: calculation.magicBonus + magicBonus,
+      featureBonus: otherBonus,
+      total: calculation.total + magicBonus + otherBonus,
+    };
+    baseSources = formula.baseSources;
+  }
+
+  const applied = applyEffects(
+    armorClass.total,
+    parts(
+      ...baseSources,
+      { label: 'DEX modifier', value: armorClass.dexModifier },
+      { label: armor?.shield?.name ?? 'Shield', value: armorClass.shieldBonus },
+      { label: 'Magic armor', value: armor?.formula.magicBonus ?? 0 },
+      { label: 'Bonus', value: storedBonus },
+      ...itemBonus.sources,
+      ...featureBonus.sources,
+      ...conditionBonus.sources
+    ),
+    effects,
+    'ac',
+    { override: character.overrides?.ac, includeBonuses: false }
+  );
+  breakdown.ac = applied.breakdown;
+  return { ...armorClass, total: applied.total };
+}
+
+/**
+ * Spellcasting stats for the first class (or subclass) that casts spells,
+ * falling back to the stored spellcasting ability for characters whose class
+ * the engine does not know
+ */
+function deriveSpellcasting(
+  character: Character,
+  totals: Record<AbilityScore, number>,
+  proficiencyBonus: number,
+  effects: SourcedEffect[],
+  breakdown: StatBreakdowns
+): SpellcastingStats | null {
+  if (!character.spellcasting) return null;
+
+  const casterKey = character.classes
+    .flatMap((c) => [c.key, c.archetype ?? ''])
+    .find((key) => key && isSpellcaster(key));
+  const stats = casterKey ? calculateSpellcastingStats(casterKey, totals, character.level) : null;
+  const ability = stats?.ability ?? character.spellcasting.ability;
+  if (!ability) return null;
+
+  const abilityModifier = calculateModifier(totals[ability]);
+  const base = parts(
+    { label: `${ability} modifier`, value: abilityModifier },
+    { label: 'Proficiency', value: proficiencyBonus }
+  );
+  const saveDC = applyEffects(
+    calculateSpellSaveDC(proficiencyBonus, abilityModifier),
+    [{ label: 'Base', value: 8 }, ...base],
+    effects,
+    'spellSaveDC',
+    { override: character.overrides?.spellSaveDC }
+  );
+  const attackBonus = applyEffects(
+    calculateSpellAttackBonus(proficiencyBonus, abilityModifier),
+    base,
+    effects,
+    'spellAttack'
+  );
+  breakdown.spellSaveDC = saveDC.breakdown;
+  breakdown.spellAttack = attackBonus.breakdown;
+
+  return {
+    ability,
+    abilityModifier,
+    proficiencyBonus,
+    saveDC: saveDC.total,
+    attackBonus: attackBonus.total,
+    itemBonus: stats?.itemBonus ?? 0,
+  };
+}
+
+function computeCharacterStats(
+  character: Character,
+  contentIndex: CharacterContentIndex
+): DerivedCharacterStats {
+  const { level, overrides = {} } = character;
+  const effects = collectCharacterEffects(character);
+  const breakdown: StatBreakdowns = {};
+  const abilityScores = deriveAbilityScores(character, effects, breakdown);
+  const totals = abilityScores.total;
+  const modifiers = abilityScores.modifier;
+
+  // Armor penalties (disadvantage, speed) apply like any other effect
+  const armor =
+    contentIndex.items.length > 0 ? resolveArmorClass(character, contentIndex.items, totals) : null;
+  if (armor) effects.push(...armor.effects);
+
+  // The engine calculates the level-based bonus; an overridden bonus replaces
+  // the proficiency part of each modifier
+  const levelBonus = calculateProficiencyBonus(level);
+  const proficiencyBonus = overrides.proficiencyBonus ?? levelBonus;
+
+  const skillProficiencies: Record<string, ProficiencyLevel> = {};
+  for (const skill of character.skills) {
+    skillProficiencies[skill.skillKey] = skill.proficiency;
+  }
+  for (const skill of SKILLS) {
+    const current = skillProficiencies[skill.key] ?? 'none';
+    skillProficiencies[skill.key] = getGrantedProficiency(current, effects, `skill:${skill.key}`);
+  }
+  const proficientSaves = ABILITY_SCORES.filter((ability) => {
+    const current = character.proficiencies.savingThrows?.includes(ability) ? 'proficient' : 'none';
+    return getGrantedProficiency(current, effects, `save:${ability}`) !== 'none';
+  });
+
+  const skills = calculateAllSkillModifiers(totals, skillProficiencies, level);
+  const savingThrows = calculateAllSavingThrowModifiers(totals, proficientSaves, level);
+  if (proficiencyBonus !== levelBonus) {
+    for (const skill of Object.values(skills)) {
+      skill.proficiencyBonus = calculateProficiencyLevelBonus(
+        skill.proficiencyLevel,
+        proficiencyBonus
+      );
+      skill.total = skill.abilityModifier + skill.proficiencyBonus;
+    }
+    for (const save of Object.values(savingThrows)) {
+      save.proficiencyBonus = save.isProficient ? proficiencyBonus : 0;
+      save.total = save.abilityModifier + save.proficiencyBonus;
+    }
+  }
+
+  for (const skill of SKILLS) {
+    const modifier = skills[skill.key];
+    const applied = applyEffects(
+      modifier.total,
+      parts(
+        { label: `${skill.ability} modifier`, value: modifier.abilityModifier },
+        {
+          label: getProficiencyLevelName(modifier.proficiencyLevel),
+          value: modifier.proficiencyBonus,
+        }
+      ),
+      effects,
+      `skill:${skill.key}`
+    );
+    modifier.total = applied.total;
+    breakdown[`skill:${skill.key}`] = applied.breakdown;
+  }
+  for (const ability of ABILITY_SCORES) {
+    const save = savingThrows[ability];
+    const applied = applyEffects(
+      save.total,
+      parts(
+        { label: `${ability} modifier`, value: save.abilityModifier },
+        { label: 'Proficiency', value: save.proficiencyBonus }
+      ),
+      effects,
+      `save:${ability}`
+    );
+    save.total = applied.total;
+    breakdown[`save:${ability}`] = applied.breakdown;
+  }
+
+  const passivePerception = applyEffects(
+    10 + skills.perception.total,
+    [
+      { label: 'Base', value: 10 },
+      { label: 'Perception', value: skills.perception.total },
+    ],
+    effects,
+    'passivePerception'
+  );
+  breakdown.passivePerception = passivePerception.breakdown;
+
+  const initiativeBonus = sumEffectBonuses(effects, 'initiative');
+  const initiative = calculateInitiative(totals.DEX, initiativeBonus.total);
+  const appliedInitiative = applyEffects(
+    initiative.total,
+    parts({ label: 'DEX modifier', value: modifiers.DEX }, ...initiativeBonus.sources),
+    effects,
+    'initiative',
+    { includeBonuses: false }
+  );
+  breakdown.initiative = appliedInitiative.breakdown;
+
+  const speed = applyEffects(
+    character.combat.speed,
+    [{ label: 'Base speed', value: character.combat.speed }],
+    effects,
+    'speed'
+  );
+  breakdown.speed = speed.breakdown;
+
+  // Stored hit points were rolled with the stored CON modifier; every level gains
+  // or loses the difference when CON is derived differently (overrides, effects)
+  const conAdjustment =
+    (modifiers.CON - character.abilityScores.modifier.CON) * Math.max(1, character.level);
+  const baseMaxHp = Math.max(1, character.combat.maxHp + conAdjustment);
+  const maxHp = applyEffects(
+    baseMaxHp,
+    parts(
+      { label: 'Hit points', value: character.combat.maxHp },
+      { label: 'CON modifier', value: baseMaxHp - character.combat.maxHp }
+    ),
+    effects,
+    'maxHp',
+    { override: overrides.maxHp }
+  );
+  breakdown.maxHp = maxHp.breakdown;
+
+  return {
+    abilityScores,
+    proficiencyBonus,
+    savingThrows,
+    skills,
+    passivePerception: passivePerception.total,
+    armorClass: deriveArmorClass(character, armor, effects, breakdown),
+    armor,
+    initiative: { ...initiative, total: appliedInitiative.total },
+    speed: speed.total,
+    spellcasting: deriveSpellcasting(character, totals, proficiencyBonus, effects, breakdown),
+    maxHp: maxHp.total,
+    actions:
+      contentIndex.items.length > 0
+        ? mergeWeaponAttacks(
+            character.actions,
+            buildWeaponAttacks(character, contentIndex.items, totals),
+            contentIndex.items
+          )
+        : character.actions,
+    breakdown,
+    resistances: getResistances(effects),
+  };
+}
+
+// Characters are updated immutably, so the object identity is a cache key
+const statsCache = new WeakMap<
+  Character,
+  { contentIndex: CharacterContentIndex; stats: DerivedCharacterStats }
+>();
+
+/**
+ * Derive every calculated value on the character sheet
+ *
+ * Results are cached per character object and content index, so repeated
+ * calls while rendering the same character are free.
+ *
+ * @param character - Character to derive stats for
+ * @param contentIndex - Open5E content referenced by the character; without
+ *   item data the stored armor class and actions are used
+ * @returns Ability scores, proficiency bonus, saves, skills, AC, initiative,
+ *   speed, spellcasting, maximum HP and weapon attacks with effects and manual
+ *   overrides applied, and a breakdown of where each value came from
+ */
+export function deriveCharacterStats(
+  character: Character,
+  contentIndex: CharacterContentIndex = EMPTY_CONTENT_INDEX
+): DerivedCharacterStats {
+  const cached = statsCache.get(character);
+  if (cached?.contentIndex === contentIndex) return cached.stats;
+
+  const stats = computeCharacterStats(character, contentIndex);
+  statsCache.set(character, { contentIndex, stats });
+  return stats;
+}
@@ -0,0 +1,139 @@
+/**
+ * Dice Engine Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { createSeededRandom } from './ability-scores';
+import {
+  d20Notation,
+  formatDiceNotation,
+  parseDiceNotation,
+  rollDice,
+  rollDie,
+  type RandomSource,
+} from './dice';
+
+/** Random source that rolls the given faces, assuming every die has `sides` sides */
+function faces(sides: number, ...values: number[]): RandomSource {
+  let index = 0;
+  return () => (values[index++ % values.length] - 1) / sides;
+}
+
+describe('parseDiceNotation', () => {
+  it('should parse dice and constant terms', () => {
+    expect(parseDiceNotation('2d6 + 3')).toEqual({
+      terms: [
+        { kind: 'dice', sign: 1, count: 2, sides: 6, keep: null, mode: 'normal' },
+        { kind: 'constant', sign: 1, value: 3 },
+      ],
+      damageType: null,
+    });
+    expect(parseDiceNotation('d8-1').terms[0]).toMatchObject({ count: 1, sides: 8 });
+    expect(parseDiceNotation('d8-1').terms[1]).toEqual({ kind: 'constant', sign: -1, value: 1 });
+  });
+
+  it('should parse keep, drop and advantage', () => {
+    expect(parseDiceNotation('4d6kh3').terms[0]).toMatchObject({
+      keep: { highest: true, count: 3 },
+    });
+    expect(parseDiceNotation('4d6dl1').terms[0]).toMatchObject({
+      keep: { highest: true, count: 3 },
+    });
+    expect(parseDiceNotation('1d20adv+5').terms[0]).toMatchObject({
+      count: 2,
+      keep: { highest: true, count: 1 },
+      mode: 'advantage',
+    });
+    expect(parseDiceNotation('1d20dis').terms[0]).toMatchObject({
+      keep: { highest: false, count: 1 },
+      mode: 'disadvantage',
+    });
+  });
+
+  it('should read a trailing damage type', () => {
+    expect(parseDiceNotation('8d6 fire').damageType).toBe('fire');
+    expect(parseDiceNotation('1d8 + 4 Slashing').damageType).toBe('slashing');
+  });
+
+  it('should reject invalid notation', () => {
+    for (const notation of ['', 'abc', '2d', '2d6++3', '3d6adv', '4d6kh5', '1000d6', '2d6 +fire']) {
+      expect(() => parseDiceNotation(notation), notation).toThrow('Invalid dice notation');
+    }
+  });
+
+  it('should format parsed notation', () => {
+    for (const notation of ['2d6+3', '4d6kh3', '1d20adv+5', '1d20dis-1', '8d6 fire']) {
+      expect(formatDiceNotation(parseDiceNotation(notation))).toBe(notation);
+    }
+  });
+});
+
+describe('d20Notation', () => {
+  it('should build d20 notation for a modifier and roll mode', () => {
+    expect(d20Notation(5)).toBe('1d20+5');
+    expect(d20Notation(-1, 'disadvantage')).toBe('1d20dis-1');
+    expect(d20Notation(0, 'advantage')).toBe('1d20adv');
+  });
+});
+
+describe('rollDie', () => {
+  it('should stay within the die', () => {
+    expect(rollDie(6, () => 0)).toBe(1);
+    expect(rollDie(6, () => 0.9999)).toBe(6);
+  });
+});
+
+describe('rollDice', () => {
+  it('should total the dice and constants with a per-die breakdown', () => {
+    const result = rollDice('2d6+3', { random: faces(6, 4, 5) });
+
+    expect(result.total).toBe(12);
+    expect(result.terms[0].dice).toEqual([
+      { sides: 6, value: 4, kept: true },
+      { sides: 6, value: 5, kept: true },
+    ]);
+    expect(result.natural).toBeNull();
+  });
+
+  it('should keep the highest dice', () => {
+    const result = rollDice('4d6kh3', { random: faces(6, 2, 6, 1, 5) });
+
+    expect(result.total).toBe(13);
+    expect(result.terms[0].dice.map((die) => die.kept)).toEqual([true, true, false, true]);
+  });
+
+  it('should roll advantage and disadvantage', () => {
+    expect(rollDice('1d20adv+5', { random: faces(20, 7, 15) }).total).toBe(20);
+    expect(rollDice('1d20dis+5', { random: faces(20, 7, 15) }).total).toBe(12);
+  });
+
+  it('should detect critical hits and fumbles on the kept d20', () => {
+    const critical = rollDice('1d20+5', { random: faces(20, 20) });
+    expect(critical).toMatchObject({ natural: 20, isCritical: true, isFumble: false, total: 25 });
+
+    const fumble = rollDice('1d20adv', { random: faces(20, 1, 1) });
+    expect(fumble).toMatchObject({ natural: 1, isCritical: false, isFumble: true });
+
+    // The dropped 20 does not count
+    expect(rollDice('1d20dis', { random: faces(20, 20, 3) }).isCritical).toBe(false);
+  });
+
+  it('should double damage dice on a critical hit', () => {
+    const result = rollDice('1d8+4 slashing', { random: faces(8, 3, 6), critical: true });
+
+    expect(result.notation).toBe('2d8+4 slashing');
+    expect(result.terms[0].dice).toHaveLength(2);
+    expect(result.total).toBe(13);
+    expect(result.damageType).toBe('slashing');
+  });
+
+  it('should repeat rolls from the same seed', () => {
+    const first = rollDice('8d6 fire', { random: createSeededRandom(42) });
+    const second = rollDice('8d6 fire', { random: createSeededRandom(42) });
+
+    expect(second).toEqual(first);
+    expect(first.total).toBeGreaterThanOrEqual(8);
+    expect(first.total).toBeLessThanOrEqual(48);
+  });
+});
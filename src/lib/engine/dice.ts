@@ -0,0 +1,286 @@
+/**
+ * Dice Engine - D&D 5e
+ *
+ * Parses and rolls dice notation as written on a character sheet:
+ *
+ * - `2d6+3`, `1d8 + 1d6 - 1` - dice and constant terms
+ * - `4d6kh3`, `4d6dl1`, `2d20kl1` - keep or drop the highest or lowest dice
+ * - `1d20adv+5`, `d20dis` - advantage or disadvantage on a d20
+ * - `8d6 fire` - trailing words name the damage type
+ *
+ * Rolls take the random source as an option so tests can use a seeded one
+ * (see createSeededRandom), and return every die rolled so the sheet can show
+ * how a total was reached.
+ */
+
+import type { RollMode } from './effects';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Returns a number in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+export interface DiceTerm {
+  kind: 'dice';
+  sign: 1 | -1;
+  count: number;
+  sides: number;
+  /** Dice kept after rolling; all of them when null */
+  keep: { highest: boolean; count: number } | null;
+  /** Written as advantage or disadvantage rather than keep */
+  mode: RollMode;
+}
+
+export interface ConstantTerm {
+  kind: 'constant';
+  sign: 1 | -1;
+  value: number;
+}
+
+export type DiceExpressionTerm = DiceTerm | ConstantTerm;
+
+export interface DiceExpression {
+  terms: DiceExpressionTerm[];
+  damageType: string | null;
+}
+
+export interface DieResult {
+  sides: number;
+  value: number;
+  /** False for dice dropped by keep/drop or advantage */
+  kept: boolean;
+}
+
+export interface TermResult {
+  term: DiceExpressionTerm;
+  /** Every die rolled for the term (empty for constants) */
+  dice: DieResult[];
+  /** Signed contribution to the total */
+  total: number;
+}
+
+export interface DiceRollResult {
+  /** Notation as rolled, with dice doubled for critical hits */
+  notation: string;
+  terms: TermResult[];
+  total: number;
+  damageType: string | null;
+  /** The kept d20 of a d20 roll, or null */
+  natural: number | null;
+  /** Natural 20 on a d20 roll */
+  isCritical: boolean;
+  /** Natural 1 on a d20 roll */
+  isFumble: boolean;
+  /** Rolled as critical hit damage (dice doubled) */
+  critical: boolean;
+}
+
+export interface RollOptions {
+  /** Random source; Math.random by default */
+  random?: RandomSource;
+  /** Roll critical hit damage: every damage die is rolled twice */
+  critical?: boolean;
+}
+
+/** Largest number of dice or sides a single term may have */
+export const MAX_DICE = 100;
+export const MAX_SIDES = 1000;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const DICE_TERM = /^(\d*)d(\d+)(?:(kh|kl|dh|dl|k|d)(\d+))?(adv|dis)?$/;
+
+function parseTerm(text: string, sign: 1 | -1, notation: string): DiceExpressionTerm {
+  if (/^\d+$/.test(text)) return { kind: 'constant', sign, value: Number(text) };
+
+  const match = text.match(DICE_TERM);
+  if (!match) throw new Error(`Invalid dice notation: ${notation}`);
+  const [, countText, sidesText, keepType, keepText, modeText] = match;
+  const count = countText ? Number(countText) : 1;
+  const sides = Number(sidesText);
+  if (count < 1 || count > MAX_DICE || sides < 1 || sides > MAX_SIDES) {
+    throw new Error(`Invalid dice notation: ${notation}`);
+  }
+
+  if (modeText) {
+    if (count !== 1 || keepType) throw new Error(`Invalid dice notation: ${notation}`);
+    const highest = modeText === 'adv';
+    return {
+      kind: 'dice',
+      sign,
+      count: 2,
+      sides,
+      keep: { highest, count: 1 },
+      mode: highest ? 'advantage' : 'disadvantage',
+    };
+  }
+
+  let keep: DiceTerm['keep'] = null;
+  if (keepType) {
+    const amount = Number(keepText);
+    // Dropping the lowest N is keeping the highest (count - N), and so on
+    const dropping = keepType.startsWith('d');
+    const highest = keepType === 'k' || keepType === 'kh' || keepType === 'dl';
+    keep = { highest, count: dropping ? count - amount : amount };
+    if (keep.count < 0 || keep.count > count) {
+      throw new Error(`Invalid dice notation: ${notation}`);
+    }
+  }
+  return { kind: 'dice', sign, count, sides, keep, mode: 'normal' };
+}
+
+/**
+ * Parse dice notation
+ *
+ * @param notation - Dice notation, e.g. "2d6+3", "4d6kh3", "1d20adv+5", "8d6 fire"
+ * @returns Parsed terms and damage type
+ * @throws Error if the notation cannot be parsed
+ */
+export function parseDiceNotation(notation: string): DiceExpression {
+  const normalized = notation
+    .trim()
+    .toLowerCase()
+    .replace(/\s*([+-])\s*/g, '$1');
+  const [formula = '', ...words] = normalized.split(/\s+/);
+  if (!formula || !/^[+-]?[^+-]+([+-][^+-]+)*$/.test(formula)) {
+    throw new Error(`Invalid dice notation: ${notation}`);
+  }
+
+  const terms = [...formula.matchAll(/([+-]?)([^+-]+)/g)].map(([, signText, text]) =>
+    parseTerm(text, signText === '-' ? -1 : 1, notation)
+  );
+  if (words.some((word) => !/^[a-z]+$/.test(word))) {
+    throw new Error(`Invalid dice notation: ${notation}`);
+  }
+
+  return { terms, damageType: words.length > 0 ? words.join(' ') : null };
+}
+
+/**
+ * Write parsed dice back as notation
+ *
+ * @param expression - Parsed dice
+ * @returns Notation, e.g. "1d20adv+5"
+ */
+export function formatDiceNotation(expression: DiceExpression): string {
+  const formula = expression.terms
+    .map((term, index) => {
+      const sign = term.sign === -1 ? '-' : index > 0 ? '+' : '';
+      if (term.kind === 'constant') return `${sign}${term.value}`;
+      if (term.mode !== 'normal') {
+        return `${sign}1d${term.sides}${term.mode === 'advantage' ? 'adv' : 'dis'}`;
+      }
+      const keep = term.keep ? `${term.keep.highest ? 'kh' : 'kl'}${term.keep.count}` : '';
+      return `${sign}${term.count}d${term.sides}${keep}`;
+    })
+    .join('');
+  return expression.damageType ? `${formula} ${expression.damageType}` : formula;
+}
+
+/**
+ * Notation for a d20 roll
+ *
+ * @param modifier - Bonus added to the roll
+ * @param mode - Advantage, disadvantage or neither
+ * @returns Notation, e.g. "1d20adv+5"
+ */
+export function d20Notation(modifier: number, mode: RollMode = 'normal'): string {
+  const suffix = mode === 'advantage' ? 'adv' : mode === 'disadvantage' ? 'dis' : '';
+  if (modifier === 0) return `1d20${suffix}`;
+  return `1d20${suffix}${modifier > 0 ? '+' : '-'}${Math.abs(modifier)}`;
+}
+
+// ============================================================================
+// Rolling
+// ============================================================================
+
+/**
+ * Roll one die
+ *
+ * @param sides - Number of sides
+ * @param random - Random source
+ * @returns Value from 1 to sides
+ */
+export function rollDie(sides: number, random: RandomSource = Math.random): number {
+  return Math.floor(random() * sides) + 1;
+}
+
+function rollTerm(term: DiceExpressionTerm, random: RandomSource, critical: boolean): TermResult {
+  if (term.kind === 'constant') {
+    return { term, dice: [], total: term.sign * term.value };
+  }
+
+  // Critical hits roll every damage die twice; d20 rolls are never doubled
+  const doubled = critical && term.sides !== 20;
+  const count = doubled ? term.count * 2 : term.count;
+  const values = Array.from({ length: count }, () => rollDie(term.sides, random));
+
+  let keptIndexes = new Set(values.keys());
+  if (term.keep) {
+    const keepCount = doubled ? term.keep.count * 2 : term.keep.count;
+    const order = [...values.keys()].sort((a, b) =>
+      term.keep!.highest ? values[b] - values[a] : values[a] - values[b]
+    );
+    keptIndexes = new Set(order.slice(0, keepCount));
+  }
+
+  const dice = values.map((value, index) => ({
+    sides: term.sides,
+    value,
+    kept: keptIndexes.has(index),
+  }));
+  const sum = dice.filter((die) => die.kept).reduce((total, die) => total + die.value, 0);
+  return { term, dice, total: term.sign * sum };
+}
+
+/**
+ * Roll dice notation
+ *
+ * @param notation - Dice notation or an already parsed expression
+ * @param options - Random source and critical hit damage
+ * @returns Total with every die rolled, and critical/fumble flags for d20 rolls
+ * @throws Error if the notation cannot be parsed
+ */
+export function rollDice(
+  notation: string | DiceExpression,
+  options: RollOptions = {}
+): DiceRollResult {
+  const { random = Math.random, critical = false } = options;
+  const expression = typeof notation === 'string' ? parseDiceNotation(notation) : notation;
+  const terms = expression.terms.map((term) => rollTerm(term, random, critical));
+
+  // A d20 roll is the first d20 term when exactly one of its dice counts
+  const d20 = terms.find((result) => result.term.kind === 'dice' && result.term.sides === 20);
+  const keptD20 = d20?.dice.filter((die) => die.kept) ?? [];
+  const natural = keptD20.length === 1 ? keptD20[0].value : null;
+
+  const rolled: DiceExpression = critical
+    ? {
+        ...expression,
+        terms: expression.terms.map((term) =>
+          term.kind === 'dice' && term.sides !== 20 && term.mode === 'normal'
+            ? {
+                ...term,
+                count: term.count * 2,
+                keep: term.keep && { ...term.keep, count: term.keep.count * 2 },
+              }
+            : term
+        ),
+      }
+    : expression;
+
+  return {
+    notation: formatDiceNotation(rolled),
+    terms,
+    total: terms.reduce((sum, result) => sum + result.total, 0),
+    damageType: expression.damageType,
+    natural,
+    isCritical: natural === 20,
+    isFumble: natural === 1,
+    critical,
+  };
+}
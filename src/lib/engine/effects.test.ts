@@ -0,0 +1,178 @@
+/**
+ * Effects Engine Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  applyEffects,
+  collectCharacterEffects,
+  getGrantedProficiency,
+  getResistances,
+  getRollMode,
+  isItemActive,
+  sumEffectBonuses,
+  type EffectOrigin,
+  type SourcedEffect,
+} from './effects';
+import type { CharacterEffect, EquipmentItem } from '@/types/game';
+
+function item(overrides: Partial<EquipmentItem> = {}): EquipmentItem {
+  return { id: 'item', name: 'Ring of Protection', quantity: 1, equipped: true, ...overrides };
+}
+
+function sourced(
+  effect: CharacterEffect,
+  source = 'Test',
+  origin: EffectOrigin = 'item'
+): SourcedEffect {
+  return { effect, source, origin };
+}
+
+describe('isItemActive', () => {
+  it('should apply equipped items', () => {
+    expect(isItemActive(item())).toBe(true);
+    expect(isItemActive(item({ equipped: false }))).toBe(false);
+  });
+
+  it('should require attunement when the item needs it', () => {
+    expect(isItemActive(item({ requiresAttunement: true }))).toBe(false);
+    expect(isItemActive(item({ requiresAttunement: true, attuned: true, equipped: false }))).toBe(
+      true
+    );
+  });
+});
+
+describe('collectCharacterEffects', () => {
+  it('should gather effects from active items, features and conditions', () => {
+    const ac: CharacterEffect = { type: 'bonus', target: 'ac', value: 1 };
+    const effects = collectCharacterEffects({
+      inventory: [
+        item({ effects: [ac] }),
+        item({ name: 'Stowed Ring', equipped: false, effects: [ac] }),
+      ],
+      features: [
+        {
+          id: 'alert',
+          name: 'Alert',
+          description: '',
+          source: 'Feat: Alert',
+          effects: [{ type: 'bonus', target: 'initiative', value: 5 }],
+        },
+      ],
+      conditions: [
+        {
+          conditionKey: 'poisoned',
+          effects: [{ type: 'disadvantage', target: 'skill:stealth' }],
+        },
+      ],
+    });
+
+    expect(effects.map((e) => [e.source, e.origin])).toEqual([
+      ['Ring of Protection', 'item'],
+      ['Alert', 'feature'],
+      ['poisoned', 'condition'],
+    ]);
+  });
+});
+
+describe('applyEffects', () => {
+  it('should add bonuses with their sources', () => {
+    const result = applyEffects(
+      15,
+      [{ label: 'Armor', value: 15 }],
+      [
+        sourced({ type: 'bonus', target: 'ac', value: 1 }, 'Ring of Protection'),
+        sourced({ type: 'bonus', target: 'speed', value: 10 }),
+      ],
+      'ac'
+    );
+
+    expect(result.total).toBe(16);
+    expect(result.breakdown.sources).toEqual([
+      { label: 'Armor', value: 15 },
+      { label: 'Ring of Protection', value: 1 },
+    ]);
+  });
+
+  it('should raise the value to a set value only when higher', () => {
+    const gauntlets = sourced({ type: 'set', target: 'ability:STR', value: 19 }, 'Gauntlets');
+
+    expect(applyEffects(10, [], [gauntlets], 'ability:STR').total).toBe(19);
+    expect(applyEffects(20, [], [gauntlets], 'ability:STR').total).toBe(20);
+    expect(applyEffects(10, [], [gauntlets], 'ability:STR').breakdown.sources).toEqual([
+      { label: 'Gauntlets (sets)', value: 19 },
+    ]);
+  });
+
+  it('should apply set values after bonuses and overrides last', () => {
+    const effects = [
+      sourced({ type: 'bonus', target: 'ability:STR', value: 2 }),
+      sourced({ type: 'set', target: 'ability:STR', value: 19 }),
+    ];
+
+    expect(applyEffects(18, [], effects, 'ability:STR').total).toBe(20);
+    expect(applyEffects(18, [], effects, 'ability:STR', { override: 12 }).total).toBe(12);
+  });
+
+  it('should apply effects on all saves to each save', () => {
+    const cloak = sourced({ type: 'bonus', target: 'saves', value: 1 }, 'Cloak');
+
+    expect(applyEffects(2, [], [cloak], 'save:DEX').total).toBe(3);
+    expect(applyEffects(2, [], [cloak], 'skill:stealth').total).toBe(2);
+  });
+
+  it('should record advantage and disadvantage', () => {
+    const { breakdown } = applyEffects(
+      0,
+      [],
+      [
+        sourced({ type: 'advantage', target: 'save:WIS' }, 'Bless'),
+        sourced({ type: 'disadvantage', target: 'save:WIS' }, 'Frightened'),
+      ],
+      'save:WIS'
+    );
+
+    expect(breakdown.advantage).toEqual(['Bless']);
+    expect(breakdown.disadvantage).toEqual(['Frightened']);
+    expect(getRollMode(breakdown)).toBe('normal');
+    expect(getRollMode({ ...breakdown, disadvantage: [] })).toBe('advantage');
+  });
+});
+
+describe('sumEffectBonuses', () => {
+  it('should filter bonuses by origin', () => {
+    const effects = [
+      sourced({ type: 'bonus', target: 'ac', value: 1 }, 'Ring', 'item'),
+      sourced({ type: 'bonus', target: 'ac', value: 1 }, 'Defense', 'feature'),
+    ];
+
+    expect(sumEffectBonuses(effects, 'ac').total).toBe(2);
+    expect(sumEffectBonuses(effects, 'ac', 'feature').sources).toEqual([
+      { label: 'Defense', value: 1 },
+    ]);
+  });
+});
+
+describe('getGrantedProficiency', () => {
+  it('should keep the higher proficiency level', () => {
+    const effects = [
+      sourced({ type: 'proficiency', target: 'skill:stealth', level: 'proficient' }),
+    ];
+
+    expect(getGrantedProficiency('none', effects, 'skill:stealth')).toBe('proficient');
+    expect(getGrantedProficiency('expertise', effects, 'skill:stealth')).toBe('expertise');
+    expect(getGrantedProficiency('none', effects, 'skill:arcana')).toBe('none');
+  });
+});
+
+describe('getResistances', () => {
+  it('should group resistances by damage type', () => {
+    expect(
+      getResistances([
+        sourced({ type: 'resistance', damageType: 'Fire' }, 'Ring of Fire Resistance'),
+        sourced({ type: 'resistance', damageType: 'fire' }, 'Tiefling'),
+      ])
+    ).toEqual({ fire: ['Ring of Fire Resistance', 'Tiefling'] });
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * Effects Engine - D&D 5e
+ *
+ * Collects the effects attached to a character's equipment, features and
+ * conditions, and applies them to sheet values. Effects stack in a fixed
+ * order:
+ *
+ * 1. Proficiency grants raise a save or skill to the granted level
+ * 2. Bonuses are added to the calculated value
+ * 3. Set values replace the result when higher ("your Strength score is 19")
+ * 4. Manual overrides on the character replace everything
+ *
+ * Every applied value keeps the list of sources it came from, so the sheet
+ * can show how a number was built.
+ */
+
+import type { CharacterEffect, EffectTarget, EquipmentItem, ProficiencyLevel } from '@/types/game';
+import type { Character } from '@/types/character';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EffectOrigin = 'item' | 'feature' | 'condition';
+
+/** An effect together with what granted it */
+export interface SourcedEffect {
+  effect: CharacterEffect;
+  source: string;
+  origin: EffectOrigin;
+}
+
+/** One part of a sheet value, e.g. "DEX modifier +2" */
+export interface StatSource {
+  label: string;
+  value: number;
+}
+
+export type RollMode = 'advantage' | 'disadvantage' | 'normal';
+
+/** How a sheet value was built */
+export interface StatBreakdown {
+  sources: StatSource[];
+  /** Sources granting advantage on rolls with this value */
+  advantage: string[];
+  /** Sources imposing disadvantage on rolls with this value */
+  disadvantage: string[];
+}
+
+/** Breakdowns of the sheet values, keyed by the effect target they belong to */
+export type StatBreakdowns = Partial<Record<EffectTarget, StatBreakdown>>;
+
+export interface AppliedValue {
+  total: number;
+  breakdown: StatBreakdown;
+}
+
+// ============================================================================
+// Collection
+// ============================================================================
+
+/**
+ * Whether an item's effects apply
+ *
+ * @param item - Inventory entry
+ * @returns True when equipped, or attuned for items that require attunement
+ */
+export function isItemActive(item: EquipmentItem): boolean {
+  return item.requiresAttunement ? item.attuned === true : item.equipped;
+}
+
+/**
+ * Gather the effects currently active on a character
+ *
+ * @param character - Character to collect effects for
+ * @returns Effects from active items, features and conditions, with their sources
+ */
+export function collectCharacterEffects(
+  character: Pick<Character, 'inventory' | 'features' | 'conditions'>
+): SourcedEffect[] {
+  const effects: SourcedEffect[] = [];
+  const add = (list: CharacterEffect[] | undefined, source: string, origin: EffectOrigin) => {
+    for (const effect of list ?? []) effects.push({ effect, source, origin });
+  };
+
+  for (const item of character.inventory) {
+    if (isItemActive(item)) add(item.effects, item.name, 'item');
+  }
+  for (const feature of character.features) {
+    add(feature.effects, feature.name, 'feature');
+  }
+  for (const condition of character.conditions) {
+    add(condition.effects, condition.source ?? condition.conditionKey, 'condition');
+  }
+  return effects;
+}
+
+// ============================================================================
+// Application
+// ============================================================================
+
+function matches(effect: CharacterEffect, target: EffectTarget): boolean {
+  if (effect.type === 'resistance') return false;
+  // Effects on every save also apply to each individual save
+  return effect.target === target || (effect.target === 'saves' && target.startsWith('save:'));
+}
+
+/**
+ * Effects that apply to a target
+ *
+ * @param effects - Active effects
+ * @param target - Sheet value
+ * @param origin - Only effects granted by this kind of source
+ * @returns Matching effects
+ */
+export function getTargetEffects(
+  effects: SourcedEffect[],
+  target: EffectTarget,
+  origin?: EffectOrigin
+): SourcedEffect[] {
+  return effects.filter(
+    ({ effect, origin: from }) => matches(effect, target) && (!origin || from === origin)
+  );
+}
+
+/**
+ * Sum of the bonuses to a target
+ *
+ * @param effects - Active effects
+ * @param target - Sheet value
+ * @param origin - Only bonuses granted by this kind of source
+ * @returns Total bonus and one source per bonus
+ */
+export function sumEffectBonuses(
+  effects: SourcedEffect[],
+  target: EffectTarget,
+  origin?: EffectOrigin
+): { total: number; sources: StatSource[] } {
+  const sources: StatSource[] = [];
+  for (const { effect, source } of getTargetEffects(effects, target, origin)) {
+    if (effect.type === 'bonus' && effect.value !== 0) {
+      sources.push({ label: source, value: effect.value });
+    }
+  }
+  return { total: sources.reduce((sum, s) => sum + s.value, 0), sources };
+}
+
+/**
+ * Apply bonuses, set values and a manual override to a calculated value
+ *
+ * @param value - Calculated value before effects
+ * @param sources - Parts of the calculated value
+ * @param effects - Active effects
+ * @param target - Sheet value
+ * @param options.override - Manual value that replaces the result
+ * @param options.includeBonuses - Whether to add bonuses (false when the
+ *   calculation already included them)
+ * @returns Final value with its breakdown
+ */
+export function applyEffects(
+  value: number,
+  sources: StatSource[],
+  effects: SourcedEffect[],
+  target: EffectTarget,
+  options: { override?: number | null; includeBonuses?: boolean } = {}
+): AppliedValue {
+  const { override, includeBonuses = true } = options;
+  const targetEffects = getTargetEffects(effects, target);
+  const breakdown: StatBreakdown = {
+    sources: [...sources],
+    advantage: targetEffects.filter((e) => e.effect.type === 'advantage').map((e) => e.source),
+    disadvantage: targetEffects
+      .filter((e) => e.effect.type === 'disadvantage')
+      .map((e) => e.source),
+  };
+  let total = value;
+
+  if (includeBonuses) {
+    const bonuses = sumEffectBonuses(effects, target);
+    total += bonuses.total;
+    breakdown.sources.push(...bonuses.sources);
+  }
+
+  for (const { effect, source } of targetEffects) {
+    if (effect.type === 'set' && effect.value > total) {
+      total = effect.value;
+      breakdown.sources = [{ label: `${source} (sets)`, value: effect.value }];
+    }
+  }
+
+  if (override !== undefined && override !== null) {
+    total = override;
+    breakdown.sources = [{ label: 'Manual override', value: override }];
+  }
+
+  return { total, breakdown };
+}
+
+/**
+ * Whether rolls with a value have advantage, disadvantage or neither
+ * (advantage and disadvantage cancel out)
+ *
+ * @param breakdown - Breakdown of the value
+ * @returns Roll mode
+ */
+export function getRollMode(breakdown: StatBreakdown): RollMode {
+  const hasAdvantage = breakdown.advantage.length > 0;
+  const hasDisadvantage = breakdown.disadvantage.length > 0;
+  if (hasAdvantage === hasDisadvantage) return 'normal';
+  return hasAdvantage ? 'advantage' : 'disadvantage';
+}
+
+const PROFICIENCY_RANK: Record<ProficiencyLevel, number> = {
+  none: 0,
+  half: 1,
+  proficient: 2,
+  expertise: 3,
+};
+
+/**
+ * Proficiency level after proficiency grants
+ *
+ * @param current - Level from the character's own proficiencies
+ * @param effects - Active effects
+ * @param target - Save or skill
+ * @returns The higher of the current and granted levels
+ */
+export function getGrantedProficiency(
+  current: ProficiencyLevel,
+  effects: SourcedEffect[],
+  target: EffectTarget
+): ProficiencyLevel {
+  let level = current;
+  for (const { effect } of getTargetEffects(effects, target)) {
+    if (effect.type === 'proficiency' && PROFICIENCY_RANK[effect.level] > PROFICIENCY_RANK[level]) {
+      level = effect.level;
+    }
+  }
+  return level;
+}
+
+/**
+ * Damage resistances granted by effects
+ *
+ * @param effects - Active effects
+ * @returns Damage types with the sources granting resistance to them
+ */
+export function getResistances(effects: SourcedEffect[]): Record<string, string[]> {
+  const resistances: Record<string, string[]> = {};
+  for (const { effect, source } of effects) {
+    if (effect.type !== 'resistance') continue;
+    const damageType = effect.damageType.toLowerCase();
+    (resistances[damageType] ??= []).push(source);
+  }
+  return resistances;
+}
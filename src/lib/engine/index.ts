@@ -13,9 +13,28 @@ export * from './proficiency';
 
 // Combat calculations
 export * from './combat';
+export * from './armor';
+export * from './weapons';
 
 // Spellcasting calculations
 export * from './spellcasting';
 
 // Character progression
 export * from './progression';
+
+// Multiclassing
+export * from './multiclass';
+
+// Resting
+export * from './rest';
+
+// Dice rolling
+export * from './dice';
+
+// Derived sheet values
+export * from './effects';
+export * from './derived-stats';
+
+// Character creation
+export * from './character-builder';
+export * from './starting-equipment';
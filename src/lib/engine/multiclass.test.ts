@@ -0,0 +1,117 @@
+/**
+ * Multiclassing Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  calculateMulticlassSpellcasting,
+  canMulticlassInto,
+  formatMulticlassPrerequisite,
+  meetsMulticlassPrerequisite,
+  mergeMulticlassProficiencies,
+} from './multiclass';
+import { mockCharacter } from '@/lib/debug/mockCharacters';
+
+describe('meetsMulticlassPrerequisite', () => {
+  const scores = { STR: 8, DEX: 14, CON: 12, INT: 10, WIS: 13, CHA: 12 };
+
+  it('accepts any one of the listed options', () => {
+    expect(meetsMulticlassPrerequisite('fighter', scores)).toBe(true);
+    expect(meetsMulticlassPrerequisite('monk', scores)).toBe(true);
+  });
+
+  it('requires every ability in an option', () => {
+    expect(meetsMulticlassPrerequisite('paladin', scores)).toBe(false);
+    expect(meetsMulticlassPrerequisite('wizard', scores)).toBe(false);
+  });
+
+  it('passes classes without a prerequisite', () => {
+    expect(meetsMulticlassPrerequisite('artificer', scores)).toBe(true);
+  });
+});
+
+describe('formatMulticlassPrerequisite', () => {
+  it('describes alternatives and combined minimums', () => {
+    expect(formatMulticlassPrerequisite('fighter')).toBe('STR 13 or DEX 13');
+    expect(formatMulticlassPrerequisite('paladin')).toBe('STR 13 and CHA 13');
+    expect(formatMulticlassPrerequisite('artificer')).toBeNull();
+  });
+});
+
+describe('canMulticlassInto', () => {
+  it('checks the new class and the current classes', () => {
+    expect(canMulticlassInto(mockCharacter, 'rogue')).toEqual({ allowed: true, reasons: [] });
+    expect(canMulticlassInto(mockCharacter, 'wizard').reasons).toEqual(['Wizard requires INT 13.']);
+
+    const weak = {
+      ...mockCharacter,
+      abilityScores: {
+        ...mockCharacter.abilityScores,
+        total: { ...mockCharacter.abilityScores.total, STR: 10, DEX: 10 },
+      },
+    };
+    expect(canMulticlassInto(weak, 'barbarian').reasons).toEqual([
+      'Fighter requires STR 13 or DEX 13.',
+      'Barbarian requires STR 13.',
+    ]);
+  });
+
+  it('respects the campaign multiclassing switch', () => {
+    expect(canMulticlassInto(mockCharacter, 'rogue', { useMulticlassing: false })).toEqual({
+      allowed: false,
+      reasons: ['Multiclassing is turned off for this campaign.'],
+    });
+    expect(canMulticlassInto(mockCharacter, 'rogue', { useMulticlassing: true }).allowed).toBe(
+      true
+    );
+  });
+
+  it('rejects a class the character already has', () => {
+    expect(canMulticlassInto(mockCharacter, 'fighter').allowed).toBe(false);
+  });
+});
+
+describe('mergeMulticlassProficiencies', () => {
+  it('adds the reduced proficiencies without duplicates', () => {
+    const merged = mergeMulticlassProficiencies(
+      { armor: ['Light armor'], weapons: [], tools: [], languages: ['Common'] },
+      'cleric'
+    );
+    expect(merged).toEqual({
+      armor: ['Light armor', 'Medium armor', 'Shields'],
+      weapons: [],
+      tools: [],
+      languages: ['Common'],
+    });
+  });
+});
+
+describe('calculateMulticlassSpellcasting', () => {
+  it('combines casters and keeps Pact Magic separate', () => {
+    const result = calculateMulticlassSpellcasting([
+      { classKey: 'wizard', level: 3 },
+      { classKey: 'warlock', level: 3 },
+    ]);
+    expect(result.slots).toEqual([
+      { level: 1, max: 4, used: 0 },
+      { level: 2, max: 2, used: 0 },
+    ]);
+    expect(result.pactMagic).toEqual({ level: 2, max: 2, used: 0 });
+  });
+
+  it('carries used slots over, capped at the new maximum', () => {
+    const result = calculateMulticlassSpellcasting(
+      [
+        { classKey: 'wizard', level: 3 },
+        { classKey: 'paladin', level: 2 },
+      ],
+      { slots: [{ level: 1, max: 4, used: 3 }], pactMagic: { level: 1, max: 1, used: 1 } }
+    );
+    expect(result.slots).toEqual([
+      { level: 1, max: 4, used: 3 },
+      { level: 2, max: 3, used: 0 },
+    ]);
+    expect(result.pactMagic).toBeNull();
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Multiclassing - D&D 5e
+ *
+ * Ability score prerequisites for taking a level in a new class, the reduced
+ * proficiencies a multiclassed character gains, and combined spell slots with
+ * warlock Pact Magic tracked separately.
+ */
+
+import { ABILITY_SCORES, type AbilityScore, type SpellSlot } from '@/types/game';
+import type { Character, Spellcasting } from '@/types/character';
+import type { CampaignSettings } from '@/types/campaign';
+import {
+  calculateMulticlassSpellSlots,
+  calculatePactMagicSlots,
+  getCasterType,
+} from './spellcasting';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Ability minimums for a class: any one entry must be met in full
+ * (fighter: STR 13 or DEX 13; monk: DEX 13 and WIS 13)
+ */
+export type MulticlassPrerequisite = Partial<Record<AbilityScore, number>>[];
+
+export interface MulticlassProficiencies {
+  armor: string[];
+  weapons: string[];
+  tools: string[];
+  /** Skills picked from the class list */
+  skillChoices: number;
+}
+
+export interface MulticlassCheck {
+  allowed: boolean;
+  reasons: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const MULTICLASS_PREREQUISITES: Record<string, MulticlassPrerequisite> = {
+  barbarian: [{ STR: 13 }],
+  bard: [{ CHA: 13 }],
+  cleric: [{ WIS: 13 }],
+  druid: [{ WIS: 13 }],
+  fighter: [{ STR: 13 }, { DEX: 13 }],
+  monk: [{ DEX: 13, WIS: 13 }],
+  paladin: [{ STR: 13, CHA: 13 }],
+  ranger: [{ DEX: 13, WIS: 13 }],
+  rogue: [{ DEX: 13 }],
+  sorcerer: [{ CHA: 13 }],
+  warlock: [{ CHA: 13 }],
+  wizard: [{ INT: 13 }],
+};
+
+/** Proficiencies gained when multiclassing into a class (not as the first class) */
+export const MULTICLASS_PROFICIENCIES: Record<string, MulticlassProficiencies> = {
+  barbarian: {
+    armor: ['Shields'],
+    weapons: ['Simple weapons', 'Martial weapons'],
+    tools: [],
+    skillChoices: 0,
+  },
+  bard: { armor: ['Light armor'], weapons: [], tools: ['One musical instrument'], skillChoices: 1 },
+  cleric: {
+    armor: ['Light armor', 'Medium armor', 'Shields'],
+    weapons: [],
+    tools: [],
+    skillChoices: 0,
+  },
+  druid: {
+    armor: ['Light armor', 'Medium armor', 'Shields'],
+    weapons: [],
+    tools: [],
+    skillChoices: 0,
+  },
+  fighter: {
+    armor: ['Light armor', 'Medium armor', 'Shields'],
+    weapons: ['Simple weapons', 'Martial weapons'],
+    tools: [],
+    skillChoices: 0,
+  },
+  monk: { armor: [], weapons: ['Simple weapons', 'Shortswords'], tools: [], skillChoices: 0 },
+  paladin: {
+    armor: ['Light armor', 'Medium armor', 'Shields'],
+    weapons: ['Simple weapons', 'Martial weapons'],
+    tools: [],
+    skillChoices: 0,
+  },
+  ranger: {
+    armor: ['Light armor', 'Medium armor', 'Shields'],
+    weapons: ['Simple weapons', 'Martial weapons'],
+    tools: [],
+    skillChoices: 1,
+  },
+  rogue: { armor: ['Light armor'], weapons: [], tools: ["Thieves' tools"], skillChoices: 1 },
+  sorcerer: { armor: [], weapons: [], tools: [], skillChoices: 0 },
+  warlock: { armor: ['Light armor'], weapons: ['Simple weapons'], tools: [], skillChoices: 0 },
+  wizard: { armor: [], weapons: [], tools: [], skillChoices: 0 },
+};
+
+// ============================================================================
+// Prerequisites
+// ============================================================================
+
+/**
+ * Check a class's multiclass prerequisite against ability scores
+ *
+ * @param classKey - Engine class key
+ * @param abilityScores - Total ability scores
+ * @returns True when met (classes without a prerequisite always pass)
+ */
+export function meetsMulticlassPrerequisite(
+  classKey: string,
+  abilityScores: Record<AbilityScore, number>
+): boolean {
+  const options = MULTICLASS_PREREQUISITES[classKey.toLowerCase()];
+  if (!options) return true;
+  return options.some((minimums) =>
+    ABILITY_SCORES.every((ability) => abilityScores[ability] >= (minimums[ability] ?? 0))
+  );
+}
+
+/**
+ * Describe a class's multiclass prerequisite
+ *
+ * @param classKey - Engine class key
+ * @returns Text such as "STR 13 or DEX 13", or null when there is none
+ */
+export function formatMulticlassPrerequisite(classKey: string): string | null {
+  const options = MULTICLASS_PREREQUISITES[classKey.toLowerCase()];
+  if (!options) return null;
+  return options
+    .map((minimums) =>
+      Object.entries(minimums)
+        .map(([ability, score]) => `${ability} ${score}`)
+        .join(' and ')
+    )
+    .join(' or ');
+}
+
+/**
+ * Check whether a character may take its first level in another class.
+ * Both the new class and every current class must meet their prerequisites.
+ *
+ * @param character - Character classes and ability scores
+ * @param classKey - Engine key of the new class
+ * @param settings - Campaign settings (multiclassing is allowed without a campaign)
+ * @returns Whether the pick is allowed, with the reasons when it is not
+ */
+export function canMulticlassInto(
+  character: Pick<Character, 'classes' | 'abilityScores'>,
+  classKey: string,
+  settings?: Pick<CampaignSettings, 'useMulticlassing'> | null
+): MulticlassCheck {
+  const reasons: string[] = [];
+  const key = classKey.toLowerCase();
+  const totals = character.abilityScores.total;
+
+  if (settings && !settings.useMulticlassing) {
+    reasons.push('Multiclassing is turned off for this campaign.');
+  }
+  if (character.classes.some((c) => c.key === key)) {
+    reasons.push('The character already has levels in this class.');
+  }
+  for (const classKey of [...character.classes.map((c) => c.key), key]) {
+    if (!meetsMulticlassPrerequisite(classKey, totals)) {
+      const name =
+        character.classes.find((c) => c.key === classKey)?.name ??
+        classKey.charAt(0).toUpperCase() + classKey.slice(1);
+      reasons.push(`${name} requires ${formatMulticlassPrerequisite(classKey)}.`);
+    }
+  }
+
+  return { allowed: reasons.length === 0, reasons };
+}
+
+// ============================================================================
+// Proficiencies
+// ============================================================================
+
+/**
+ * Get the proficiencies gained when multiclassing into a class
+ *
+ * @param classKey - Engine class key
+ * @returns Reduced proficiencies (empty for unknown classes)
+ */
+export function getMulticlassProficiencies(classKey: string): MulticlassProficiencies {
+  return (
+    MULTICLASS_PROFICIENCIES[classKey.toLowerCase()] ?? {
+      armor: [],
+      weapons: [],
+      tools: [],
+      skillChoices: 0,
+    }
+  );
+}
+
+/**
+ * Add a new class's multiclass proficiencies to a character's, skipping ones
+ * already held (compared case-insensitively)
+ *
+ * @param proficiencies - Current proficiencies
+ * @param classKey - Engine key of the new class
+ * @returns Merged proficiencies
+ */
+export function mergeMulticlassProficiencies(
+  proficiencies: Character['proficiencies'],
+  classKey: string
+): Character['proficiencies'] {
+  const gained = getMulticlassProficiencies(classKey);
+  const merge = (current: string[], added: string[]) => {
+    const known = new Set(current.map((entry) => entry.toLowerCase()));
+    return [...current, ...added.filter((entry) => !known.has(entry.toLowerCase()))];
+  };
+
+  return {
+    ...proficiencies,
+    armor: merge(proficiencies.armor, gained.armor),
+    weapons: merge(proficiencies.weapons, gained.weapons),
+    tools: merge(proficiencies.tools, gained.tools),
+  };
+}
+
+// ============================================================================
+// Spell Slots
+// ============================================================================
+
+/**
+ * Spell slots for a character's classes. Spellcasting classes share the
+ * multiclass slot table; warlock levels give separate Pact Magic slots.
+ * Used slots carry over, capped at the new maximum.
+ *
+ * @param classes - Class keys and levels
+ * @param previous - Current slots, for used counts
+ * @returns Shared slots with at least one use, and Pact Magic (null without warlock levels)
+ */
+export function calculateMulticlassSpellcasting(
+  classes: Array<{ classKey: string; level: number }>,
+  previous?: Pick<Spellcasting, 'slots' | 'pactMagic'> | null
+): { slots: SpellSlot[]; pactMagic: SpellSlot | null } {
+  const slots = calculateMulticlassSpellSlots(classes)
+    .filter((slot) => slot.max > 0)
+    .map((slot) => {
+      const used = previous?.slots.find((s) => s.level === slot.level)?.used ?? 0;
+      return { ...slot, used: Math.min(used, slot.max) };
+    });
+
+  const warlockLevels = classes
+    .filter((c) => getCasterType(c.classKey) === 'pact')
+    .reduce((total, c) => total + c.level, 0);
+  const pact = calculatePactMagicSlots(warlockLevels);
+  const pactMagic = pact
+    ? {
+        level: pact.slotLevel,
+        max: pact.slots,
+        used: Math.min(previous?.pactMagic?.used ?? 0, pact.slots),
+      }
+    : null;
+
+  return { slots, pactMagic };
+}
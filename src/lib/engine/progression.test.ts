@@ -0,0 +1,182 @@
+/**
+ * Character Progression Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  applyLevelUp,
+  getLevelUpFeatures,
+  getXPForLevel,
+  isAbilityScoreImprovementLevel,
+  validateAbilityScoreImprovement,
+} from './progression';
+import { mockCharacter, mockSpellcaster } from '@/lib/debug/mockCharacters';
+import type { Open5eClass } from '@/types/open5e';
+
+const fighter: Open5eClass = {
+  key: 'fighter',
+  name: 'Fighter',
+  url: '',
+  document: 'wotc-srd',
+  description: '',
+  hit_dice: '1d10',
+  hp_at_1st_level: '',
+  hp_at_higher_levels: '',
+  prof_armor: '',
+  prof_weapons: '',
+  prof_tools: '',
+  prof_saving_throws: [],
+  prof_skills: '',
+  equipment: '',
+  spellcasting_ability: null,
+  subtypes_name: 'Martial Archetypes',
+  archetypes: [
+    {
+      key: 'champion',
+      name: 'Champion',
+      description: '',
+      features: [
+        { key: 'improved-critical', name: 'Improved Critical', description: '', level: 3 },
+        { key: 'remarkable-athlete', name: 'Remarkable Athlete', description: '', level: 7 },
+      ],
+    },
+  ],
+  class_features: [
+    { key: 'action-surge', name: 'Action Surge', description: '', level: 2 },
+    { key: 'martial-archetype', name: 'Martial Archetype', description: '', level: 3 },
+    { key: 'extra-attack', name: 'Extra Attack', description: '', level: 5 },
+  ],
+};
+
+describe('getXPForLevel', () => {
+  it('returns the threshold for a level', () => {
+    expect(getXPForLevel(5)).toBe(6500);
+    expect(getXPForLevel(21)).toBe(355000);
+  });
+});
+
+describe('isAbilityScoreImprovementLevel', () => {
+  it('uses the class ASI levels', () => {
+    expect(isAbilityScoreImprovementLevel('wizard', 4)).toBe(true);
+    expect(isAbilityScoreImprovementLevel('wizard', 6)).toBe(false);
+    expect(isAbilityScoreImprovementLevel('fighter', 6)).toBe(true);
+    expect(isAbilityScoreImprovementLevel('rogue', 10)).toBe(true);
+  });
+});
+
+describe('validateAbilityScoreImprovement', () => {
+  const totals = { STR: 19, DEX: 14, CON: 15, INT: 10, WIS: 12, CHA: 8 };
+
+  it('accepts +2 to one ability or +1 to two', () => {
+    expect(validateAbilityScoreImprovement({ CON: 2 }, totals)).toEqual([]);
+    expect(validateAbilityScoreImprovement({ STR: 1, DEX: 1 }, totals)).toEqual([]);
+  });
+
+  it('rejects other splits and scores above 20', () => {
+    expect(validateAbilityScoreImprovement({ DEX: 1 }, totals)).toHaveLength(1);
+    expect(validateAbilityScoreImprovement({ DEX: 1, CON: 1, WIS: 1 }, totals)).toHaveLength(1);
+    expect(validateAbilityScoreImprovement({ STR: 2 }, totals)).toEqual([
+      'STR cannot be raised above 20.',
+    ]);
+  });
+});
+
+describe('getLevelUpFeatures', () => {
+  it('returns class features at exactly the new level', () => {
+    expect(getLevelUpFeatures(fighter, 5).map((f) => f.id)).toEqual(['class-extra-attack']);
+    expect(getLevelUpFeatures(fighter, 4)).toEqual([]);
+  });
+
+  it('includes earlier archetype features when the archetype is picked late', () => {
+    const features = getLevelUpFeatures(fighter, 7, 'champion', true);
+    expect(features.map((f) => f.id)).toEqual([
+      'archetype-improved-critical',
+      'archetype-remarkable-athlete',
+    ]);
+    expect(features[0].source).toBe('Class: Fighter (Champion)');
+    expect(getLevelUpFeatures(fighter, 7, 'champion').map((f) => f.id)).toEqual([
+      'archetype-remarkable-athlete',
+    ]);
+  });
+});
+
+describe('applyLevelUp', () => {
+  it('advances the class, hit points, hit dice and proficiency-based bonuses', () => {
+    const update = applyLevelUp(mockCharacter, {
+      classKey: 'fighter',
+      className: 'Fighter',
+      hitDiceValue: 10,
+      hpGained: 8,
+      features: getLevelUpFeatures(fighter, 6),
+      abilityIncreases: { CON: 2 },
+    });
+
+    expect(update.level).toBe(6);
+    expect(update.classes?.[0].level).toBe(6);
+    expect(update.abilityScores?.total.CON).toBe(17);
+    expect(update.abilityScores?.asiBonus.CON).toBe(2);
+    // 8 for the level plus 1 for each earlier level from the higher CON modifier
+    expect(update.combat?.maxHp).toBe(mockCharacter.combat.maxHp + 13);
+    expect(update.combat?.currentHp).toBe(mockCharacter.combat.currentHp + 13);
+    expect(update.combat?.hitDice).toEqual({ type: 'd10', total: 6, used: 1 });
+    expect(update.spellcasting).toBeNull();
+  });
+
+  it('adds a new class at level 1 and recalculates skills at the new proficiency bonus', () => {
+    const update = applyLevelUp(
+      { ...mockCharacter, level: 8, classes: [{ ...mockCharacter.classes[0], level: 8 }] },
+      { classKey: 'rogue', className: 'Rogue', hitDiceValue: 8, hpGained: 7 }
+    );
+
+    expect(update.classes?.map((c) => [c.key, c.level, c.isPrimary])).toEqual([
+      ['fighter', 8, true],
+      ['rogue', 1, false],
+    ]);
+    // Athletics: STR 18 (+4) with proficiency +4 at level 9
+    expect(update.skills?.find((s) => s.skillKey === 'athletics')?.bonus).toBe(8);
+    expect(update.proficiencies?.tools).toEqual(["Thieves' tools"]);
+    expect(update.proficiencies?.weapons).toEqual(mockCharacter.proficiencies.weapons);
+  });
+
+  it('updates spell slots, save DC and learned spells for casters', () => {
+    const update = applyLevelUp(mockSpellcaster, {
+      classKey: 'wizard',
+      className: 'Wizard',
+      hitDiceValue: 6,
+      hpGained: 5,
+      spells: [
+        {
+          id: 'spell-counterspell',
+          spellKey: 'counterspell',
+          name: 'Counterspell',
+          level: 3,
+          school: 'Abjuration',
+          prepared: true,
+        },
+      ],
+    });
+
+    expect(update.spellcasting?.slots).toEqual([
+      { level: 1, max: 4, used: 1 },
+      { level: 2, max: 3, used: 1 },
+      { level: 3, max: 3, used: 0 },
+    ]);
+    expect(update.spellcasting?.pactMagic).toBeNull();
+    expect(update.spellcasting?.saveDC).toBe(15);
+    expect(update.spellcasting?.knownSpells.at(-1)?.spellKey).toBe('counterspell');
+    expect(update.spellcasting?.preparedSpells).toContainEqual({
+      spellKey: 'counterspell',
+      level: 3,
+    });
+  });
+
+  it('refuses to go past level 20', () => {
+    expect(() =>
+      applyLevelUp(
+        { ...mockCharacter, level: 20 },
+        { classKey: 'fighter', className: 'Fighter', hitDiceValue: 10, hpGained: 6 }
+      )
+    ).toThrow('level 20');
+  });
+});
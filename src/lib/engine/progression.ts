@@ -4,6 +4,19 @@
  * Functions for level-up calculations, XP thresholds, and multiclassing.
  */
 
+import { ABILITY_SCORES, SKILLS, type AbilityScore, type CharacterFeature } from '@/types/game';
+import type { Character, CharacterUpdate, KnownSpell } from '@/types/character';
+import type { Open5eClass } from '@/types/open5e';
+import { calculateAbilityScores, calculateModifier } from './ability-scores';
+import { calculateProficiencyBonus, calculateSkillModifier } from './proficiency';
+import {
+  calculateSpellAttackBonus,
+  calculateSpellSaveDC,
+  getSpellcastingAbility,
+} from './spellcasting';
+import { createPassiveFeature } from './features';
+import { calculateMulticlassSpellcasting, mergeMulticlassProficiencies } from './multiclass';
+
 // XP thresholds for each level (5e standard)
 export const XP_THRESHOLDS: Record<number, number> = {
   1: 0,
@@ -34,3 +47,251 @@ export const XP_THRESHOLDS: Record<number, number> = {
 export function getXPForLevel(level: number): number {
   return XP_THRESHOLDS[level] ?? 355000;
 }
+
+// ============================================================================
+// Level Up
+// ============================================================================
+
+const MAX_LEVEL = 20;
+const MAX_ABILITY_SCORE = 20;
+
+/** Class levels granting an Ability Score Improvement (or a feat instead) */
+export const ASI_LEVELS: Record<string, number[]> = {
+  default: [4, 8, 12, 16, 19],
+  fighter: [4, 6, 8, 12, 14, 16, 19],
+  rogue: [4, 8, 10, 12, 16, 19],
+};
+
+/**
+ * Check whether reaching a class level grants an Ability Score Improvement
+ *
+ * @param classKey - Engine class key
+ * @param classLevel - New level in the class
+ * @returns True when an ASI or feat is due
+ */
+export function isAbilityScoreImprovementLevel(classKey: string, classLevel: number): boolean {
+  const levels = ASI_LEVELS[classKey.toLowerCase()] ?? ASI_LEVELS.default;
+  return levels.includes(classLevel);
+}
+
+/**
+ * Validate an Ability Score Improvement: +2 to one ability or +1 to two,
+ * without raising a score above 20
+ *
+ * @param increases - Increase per ability
+ * @param totals - Current total ability scores
+ * @returns Error messages (empty when valid)
+ */
+export function validateAbilityScoreImprovement(
+  increases: Partial<Record<AbilityScore, number>>,
+  totals: Record<AbilityScore, number>
+): string[] {
+  const errors: string[] = [];
+  const entries = ABILITY_SCORES.filter((a) => (increases[a] ?? 0) !== 0);
+  const sum = entries.reduce((total, a) => total + (increases[a] ?? 0), 0);
+
+  if (sum !== 2 || entries.some((a) => (increases[a] ?? 0) < 0 || (increases[a] ?? 0) > 2)) {
+    errors.push('Increase one ability score by 2 or two ability scores by 1.');
+  }
+  for (const ability of entries) {
+    if (totals[ability] + (increases[ability] ?? 0) > MAX_ABILITY_SCORE) {
+      errors.push(`${ability} cannot be raised above ${MAX_ABILITY_SCORE}.`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Class and archetype features gained on reaching a class level. When the
+ * archetype is picked at this level its earlier features are included too.
+ *
+ * @param classData - Open5E class
+ * @param classLevel - New level in the class
+ * @param archetypeKey - Archetype of the class (if any)
+ * @param isNewArchetype - Whether the archetype is picked at this level
+ * @returns Features with the same IDs and sources as the character builder uses
+ */
+export function getLevelUpFeatures(
+  classData: Open5eClass,
+  classLevel: number,
+  archetypeKey?: string,
+  isNewArchetype: boolean = false
+): CharacterFeature[] {
+  const classSource = `Class: ${classData.name}`;
+  const features = (classData.class_features ?? [])
+    .filter((feature) => feature.level === classLevel)
+    .map((feature) =>
+      createPassiveFeature(
+        `class-${feature.key}`,
+        feature.name,
+        feature.description,
+        classSource,
+        feature.level
+      )
+    );
+
+  const archetype = archetypeKey
+    ? classData.archetypes?.find((a) => a.key === archetypeKey)
+    : undefined;
+  for (const feature of archetype?.features ?? []) {
+    if (isNewArchetype ? feature.level > classLevel : feature.level !== classLevel) continue;
+    features.push(
+      createPassiveFeature(
+        `archetype-${feature.key}`,
+        feature.name,
+        feature.description,
+        `${classSource} (${archetype!.name})`,
+        feature.level
+      )
+    );
+  }
+
+  return features;
+}
+
+/** Everything decided in the level-up dialog */
+export interface LevelUpChoice {
+  /** Engine key of the class gaining the level */
+  classKey: string;
+  className: string;
+  hitDiceValue: number;
+  /** Hit points gained, from calculateLevelUpHP */
+  hpGained: number;
+  /** Archetype picked at this level */
+  archetypeKey?: string;
+  /** New class and archetype features */
+  features?: CharacterFeature[];
+  /** Ability Score Improvement */
+  abilityIncreases?: Partial<Record<AbilityScore, number>>;
+  /** Feat taken instead of an Ability Score Improvement */
+  feat?: CharacterFeature;
+  /** Spells learned at this level */
+  spells?: KnownSpell[];
+}
+
+/**
+ * Apply a level-up to a character
+ *
+ * @param character - Character before the level-up
+ * @param choice - Class, hit points, features, ASI or feat and spells
+ * @returns Single update covering classes, level, hit points, hit dice,
+ *   ability scores, skills, proficiencies, features and spellcasting
+ * @throws Error if the character is already level 20
+ */
+export function applyLevelUp(character: Character, choice: LevelUpChoice): CharacterUpdate {
+  if (character.level >= MAX_LEVEL) {
+    throw new Error(`Characters cannot advance past level ${MAX_LEVEL}`);
+  }
+  const level = character.level + 1;
+
+  // Classes
+  const existing = character.classes.find((c) => c.key === choice.classKey);
+  const classes = existing
+    ? character.classes.map((c) =>
+        c.key === choice.classKey
+          ? {
+              ...c,
+              level: c.level + 1,
+              ...(choice.archetypeKey ? { archetype: choice.archetypeKey } : {}),
+            }
+          : c
+      )
+    : [
+        ...character.classes,
+        {
+          key: choice.classKey,
+          name: choice.className,
+          level: 1,
+          hitDiceValue: choice.hitDiceValue,
+          isPrimary: character.classes.length === 0,
+          ...(choice.archetypeKey ? { archetype: choice.archetypeKey } : {}),
+        },
+      ];
+
+  // Ability scores
+  const scores = character.abilityScores;
+  const asiBonus = { ...scores.asiBonus };
+  for (const ability of ABILITY_SCORES) {
+    asiBonus[ability] += choice.abilityIncreases?.[ability] ?? 0;
+  }
+  const recalculated = calculateAbilityScores(
+    scores.base,
+    scores.racialBonus,
+    asiBonus,
+    scores.otherBonus
+  );
+  const total = { ...recalculated.total };
+  for (const ability of ABILITY_SCORES) {
+    const override = scores.override[ability];
+    if (override !== null) total[ability] = override;
+  }
+  const modifier = Object.fromEntries(
+    ABILITY_SCORES.map((a) => [a, calculateModifier(total[a])])
+  ) as Record<AbilityScore, number>;
+
+  // Hit points: the new level, plus earlier levels when the CON modifier rose
+  const conGain = modifier.CON - scores.modifier.CON;
+  const hpGained = Math.max(1, choice.hpGained) + conGain * character.level;
+
+  // Proficiency bonus changes flow into skills and spellcasting
+  const proficiencyBonus = calculateProficiencyBonus(level);
+  const skills = character.skills.map((skill) =>
+    SKILLS.some((s) => s.key === skill.skillKey)
+      ? {
+          ...skill,
+          bonus: calculateSkillModifier(skill.skillKey, total, skill.proficiency, level).total,
+        }
+      : skill
+  );
+
+  const featureIds = new Set(character.features.map((f) => f.id));
+  const features = [...character.features];
+  for (const feature of [...(choice.features ?? []), ...(choice.feat ? [choice.feat] : [])]) {
+    if (featureIds.has(feature.id)) continue;
+    featureIds.add(feature.id);
+    features.push(feature);
+  }
+
+  let spellcasting = character.spellcasting;
+  const ability = spellcasting?.ability ?? getSpellcastingAbility(choice.classKey);
+  if (ability) {
+    const knownKeys = new Set(spellcasting?.knownSpells.map((s) => s.spellKey));
+    const learned = (choice.spells ?? []).filter((s) => !knownKeys.has(s.spellKey));
+    const abilityModifier = modifier[ability];
+    spellcasting = {
+      ability,
+      saveDC: calculateSpellSaveDC(proficiencyBonus, abilityModifier),
+      attackBonus: calculateSpellAttackBonus(proficiencyBonus, abilityModifier),
+      ...calculateMulticlassSpellcasting(
+        classes.map((c) => ({ classKey: c.key, level: c.level })),
+        spellcasting
+      ),
+      preparedSpells: [
+        ...(spellcasting?.preparedSpells ?? []),
+        ...learned
+          .filter((s) => s.prepared && s.level > 0)
+          .map((s) => ({ spellKey: s.spellKey, level: s.level })),
+      ],
+      knownSpells: [...(spellcasting?.knownSpells ?? []), ...learned],
+    };
+  }
+
+  return {
+    classes,
+    level,
+    abilityScores: { ...scores, asiBonus, total, modifier },
+    skills,
+    combat: {
+      ...character.combat,
+      maxHp: character.combat.maxHp + hpGained,
+      currentHp: character.combat.currentHp + hpGained,
+      hitDice: { ...character.combat.hitDice, total: level },
+    },
+    // A new class beyond the first grants only its multiclass proficiencies
+    ...(!existing && character.classes.length > 0
+      ? { proficiencies: mergeMulticlassProficiencies(character.proficiencies, choice.classKey) }
+      : {}),
+    features,
+    spellcasting,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Resting Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { applyLongRest, applyShortRest, getRemainingHitDice, resetActionsOnRest } from './rest';
+import { mockCharacter, mockSpellcaster } from '@/lib/debug/mockCharacters';
+import type { Character } from '@/types/character';
+
+const tired: Character = {
+  ...mockCharacter,
+  combat: {
+    ...mockCharacter.combat,
+    currentHp: 10,
+    hitDice: { type: 'd10', total: 5, used: 4 },
+    deathSaves: { successes: 1, failures: 2 },
+  },
+  features: mockCharacter.features.map((f) =>
+    f.uses ? { ...f, uses: { ...f.uses, used: 1 } } : f
+  ),
+  actions: mockCharacter.actions.map((a) => (a.uses ? { ...a, uses: { ...a.uses, used: 1 } } : a)),
+  conditions: [{ conditionKey: 'exhaustion', exhaustionLevel: 2 }],
+};
+
+describe('getRemainingHitDice', () => {
+  it('subtracts spent dice from the total', () => {
+    expect(getRemainingHitDice(mockCharacter)).toBe(4);
+    expect(getRemainingHitDice(tired)).toBe(1);
+  });
+});
+
+describe('resetActionsOnRest', () => {
+  it('resets short-rest uses on a short rest and everything but "other" on a long rest', () => {
+    const actions = [
+      { ...tired.actions[0], uses: { max: 1, used: 1, resetOn: 'long' as const } },
+      { ...tired.actions[0], uses: { max: 2, used: 2, resetOn: 'short' as const } },
+      { ...tired.actions[0], uses: { max: 1, used: 1, resetOn: 'other' as const } },
+    ];
+    expect(resetActionsOnRest(actions, 'short').map((a) => a.uses?.used)).toEqual([1, 0, 1]);
+    expect(resetActionsOnRest(actions, 'long').map((a) => a.uses?.used)).toEqual([0, 0, 1]);
+  });
+});
+
+describe('applyShortRest', () => {
+  it('heals from spent hit dice and resets short-rest uses', () => {
+    // d10 roll of 6 with CON 15 (+2)
+    const update = applyShortRest(tired, [6]);
+
+    expect(update.combat?.currentHp).toBe(18);
+    expect(update.combat?.hitDice.used).toBe(5);
+    expect(update.features?.every((f) => !f.uses || f.uses.used === 0)).toBe(true);
+    expect(update.actions?.every((a) => !a.uses || a.uses.used === 0)).toBe(true);
+    expect(update.conditions).toBeUndefined();
+  });
+
+  it('heals up to the derived maximum hit points', () => {
+    const wounded: Character = {
+      ...tired,
+      combat: { ...tired.combat, currentHp: mockCharacter.combat.maxHp - 1 },
+    };
+
+    expect(applyShortRest(wounded, [6]).combat?.currentHp).toBe(mockCharacter.combat.maxHp);
+    expect(applyShortRest(wounded, [6], mockCharacter.combat.maxHp + 5).combat?.currentHp).toBe(
+      mockCharacter.combat.maxHp + 5
+    );
+  });
+
+  it('refuses to spend more hit dice than remain', () => {
+    expect(() => applyShortRest(tired, [6, 6])).toThrow('Not enough hit dice');
+  });
+
+  it('restores Pact Magic but not shared slots', () => {
+    const warlock: Character = {
+      ...mockSpellcaster,
+      spellcasting: {
+        ...mockSpellcaster.spellcasting!,
+        pactMagic: { level: 1, max: 1, used: 1 },
+      },
+    };
+    const update = applyShortRest(warlock);
+
+    expect(update.spellcasting?.pactMagic).toEqual({ level: 1, max: 1, used: 0 });
+    expect(update.spellcasting?.slots).toEqual(mockSpellcaster.spellcasting?.slots);
+  });
+});
+
+describe('applyLongRest', () => {
+  it('restores hit points, half the hit dice and death saves, and lowers exhaustion', () => {
+    const update = applyLongRest(tired);
+
+    expect(update.combat?.currentHp).toBe(mockCharacter.combat.maxHp);
+    expect(update.combat?.tempHp).toBe(0);
+    // Half of 5 rounded up
+    expect(update.combat?.hitDice.used).toBe(1);
+    expect(update.combat?.deathSaves).toEqual({ successes: 0, failures: 0 });
+    expect(update.conditions).toEqual([{ conditionKey: 'exhaustion', exhaustionLevel: 1 }]);
+    expect(update.spellcasting).toBeNull();
+  });
+
+  it('restores hit points to the derived maximum', () => {
+    const update = applyLongRest(tired, mockCharacter.combat.maxHp + 10);
+    expect(update.combat?.currentHp).toBe(mockCharacter.combat.maxHp + 10);
+  });
+
+  it('removes the last level of exhaustion and restores every slot', () => {
+    const update = applyLongRest({
+      ...mockSpellcaster,
+      conditions: [{ conditionKey: 'exhaustion', exhaustionLevel: 1 }],
+    });
+
+    expect(update.conditions).toEqual([]);
+    expect(update.spellcasting?.slots.every((s) => s.used === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Resting - D&D 5e
+ *
+ * Short and long rests for a whole character: spending hit dice, recovering
+ * hit dice, hit points, spell slots and limited uses, and reducing exhaustion.
+ * Each rest is returned as one character update.
+ */
+
+import type { CharacterAction } from '@/types/game';
+import type { Character, CharacterUpdate } from '@/types/character';
+import { applyHealing, calculateHitDieHeal, recoverHitDiceOnLongRest } from './hp';
+import { resetFeaturesOnRest, type RestType } from './features';
+import { restoreAllSpellSlots } from './spellcasting';
+
+// ============================================================================
+// Hit Dice
+// ============================================================================
+
+/**
+ * Count the hit dice a character can still spend
+ *
+ * @param character - Character combat stats
+ * @returns Remaining hit dice
+ */
+export function getRemainingHitDice(character: Pick<Character, 'combat'>): number {
+  const { total, used } = character.combat.hitDice;
+  return Math.max(0, total - used);
+}
+
+// ============================================================================
+// Limited Uses
+// ============================================================================
+
+/**
+ * Reset action uses on a rest, following the same rules as features
+ *
+ * @param actions - Character actions
+ * @param restType - Type of rest
+ * @returns Actions with recovered uses
+ */
+export function resetActionsOnRest(
+  actions: CharacterAction[],
+  restType: RestType
+): CharacterAction[] {
+  return actions.map((action) => {
+    if (!action.uses || action.uses.used === 0) return action;
+
+    const shouldReset =
+      restType === 'long' ? action.uses.resetOn !== 'other' : action.uses.resetOn === 'short';
+
+    return shouldReset ? { ...action, uses: { ...action.uses, used: 0 } } : action;
+  });
+}
+
+// ============================================================================
+// Rests
+// ============================================================================
+
+/**
+ * Finish a short rest
+ * Rules: spend hit dice to heal (die + CON modifier each, minimum 1), regain
+ * short-rest uses and Pact Magic slots
+ *
+ * @param character - Character taking the rest
+ * @param hitDieRolls - One result per hit die spent (rolled or average)
+ * @param maxHp - Derived maximum hit points (with effects and overrides) to heal up to
+ * @returns Single update for hit points, hit dice, features, actions and Pact Magic
+ */
+export function applyShortRest(
+  character: Character,
+  hitDieRolls: number[] = [],
+  maxHp: number = character.combat.maxHp
+): CharacterUpdate {
+  const { combat, spellcasting } = character;
+
+  if (hitDieRolls.length > getRemainingHitDice(character)) {
+    throw new Error('Not enough hit dice remaining');
+  }
+
+  const healing = hitDieRolls.reduce(
+    (total, roll) =>
+      total + calculateHitDieHeal(combat.hitDice.type, roll, character.abilityScores.total.CON),
+    0
+  );
+  const healed = applyHealing(combat.currentHp, combat.tempHp, maxHp, healing);
+
+  return {
+    combat: {
+      ...combat,
+      currentHp: healed.newHp,
+      hitDice: { ...combat.hitDice, used: combat.hitDice.used + hitDieRolls.length },
+      deathSaves: healed.deathSaves
+        ? { successes: healed.deathSaves.successes, failures: healed.deathSaves.failures }
+        : combat.deathSaves,
+    },
+    features: resetFeaturesOnRest(character.features, 'short'),
+    actions: resetActionsOnRest(character.actions, 'short'),
+    spellcasting:
+      spellcasting?.pactMagic != null
+        ? { ...spellcasting, pactMagic: { ...spellcasting.pactMagic, used: 0 } }
+        : spellcasting,
+  };
+}
+
+/**
+ * Finish a long rest
+ * Rules: regain all hit points and half the total hit dice (minimum 1), all
+ * spell slots and limited uses; death saves clear, temporary hit points end
+ * and exhaustion drops by one level
+ *
+ * @param character - Character taking the rest
+ * @param maxHp - Derived maximum hit points (with effects and overrides) to restore to
+ * @returns Single update for hit points, hit dice, slots, features, actions and conditions
+ */
+export function applyLongRest(
+  character: Character,
+  maxHp: number = character.combat.maxHp
+): CharacterUpdate {
+  const { combat, spellcasting } = character;
+  const { type, total } = combat.hitDice;
+
+  const pool = recoverHitDiceOnLongRest({
+    [type]: { total, remaining: getRemainingHitDice(character) },
+  });
+
+  const conditions = character.conditions
+    .map((c) =>
+      c.conditionKey === 'exhaustion' ? { ...c, exhaustionLevel: (c.exhaustionLevel ?? 1) - 1 } : c
+    )
+    .filter((c) => c.conditionKey !== 'exhaustion' || (c.exhaustionLevel ?? 0) > 0);
+
+  return {
+    combat: {
+      ...combat,
+      currentHp: maxHp,
+      tempHp: 0,
+      hitDice: { ...combat.hitDice, used: total - pool[type].remaining },
+      deathSaves: { successes: 0, failures: 0 },
+    },
+    features: resetFeaturesOnRest(character.features, 'long'),
+    actions: resetActionsOnRest(character.actions, 'long'),
+    spellcasting: spellcasting
+      ? {
+          ...spellcasting,
+          slots: restoreAllSpellSlots(spellcasting.slots),
+          pactMagic: spellcasting.pactMagic && { ...spellcasting.pactMagic, used: 0 },
+        }
+      : null,
+    conditions,
+  };
+}
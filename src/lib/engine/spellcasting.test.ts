@@ -23,6 +23,7 @@ import {
   calculateMaxPreparedSpells,
   calculateSpellPreparationLimits,
   calculateSpellsKnownLimit,
+  calculateSpellSelectionLimits,
   canCastRituals,
   formatSpellSlots,
   getTotalSpellSlots,
@@ -271,6 +272,16 @@ describe('Spell Slots', () => {
       expect(slots[4].max).toBe(2);
     });
 
+    it('should leave warlock levels out of the shared slots', () => {
+      // Wizard 3 + Warlock 5 = effective level 3
+      const slots = calculateMulticlassSpellSlots([
+        { classKey: 'wizard', level: 3 },
+        { classKey: 'warlock', level: 5 },
+      ]);
+      expect(slots[2].max).toBe(2);
+      expect(slots[3].max).toBe(0);
+    });
+
     it('should combine multiple full casters', () => {
       // Wizard 3 + Cleric 3 = effective level 6
       const slots = calculateMulticlassSpellSlots([
@@ -413,6 +424,42 @@ describe('Spell Preparation', () => {
       expect(calculateSpellsKnownLimit('wizard', 5)).toBeNull();
     });
   });
+
+  describe('calculateSpellSelectionLimits', () => {
+    it('should give wizards a spellbook and prepared limit', () => {
+      expect(calculateSpellSelectionLimits('wizard', 1, 16)).toEqual({
+        cantrips: 3,
+        spells: 4,
+        spellbook: 6,
+        maxSpellLevel: 1,
+        mode: 'prepared',
+      });
+      expect(calculateSpellSelectionLimits('wizard', 5, 16)?.spellbook).toBe(14);
+    });
+
+    it('should use spells known for known casters', () => {
+      expect(calculateSpellSelectionLimits('sorcerer', 3, 16)).toEqual({
+        cantrips: 4,
+        spells: 4,
+        spellbook: null,
+        maxSpellLevel: 2,
+        mode: 'known',
+      });
+    });
+
+    it('should give half casters no spells before their first slot', () => {
+      expect(calculateSpellSelectionLimits('paladin', 1, 14)).toMatchObject({
+        cantrips: 0,
+        spells: 0,
+        maxSpellLevel: 0,
+      });
+      expect(calculateSpellSelectionLimits('paladin', 2, 14)?.spells).toBe(3);
+    });
+
+    it('should return null for non-casters', () => {
+      expect(calculateSpellSelectionLimits('fighter', 5, 10)).toBeNull();
+    });
+  });
 });
 
 describe('Ritual Casting', () => {
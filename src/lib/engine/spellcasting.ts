@@ -303,7 +303,7 @@ export function calculateSpellSlots(classLevel: number, casterType: CasterType):
 
 /**
  * Calculate multiclass spell slots (PHB rules)
- * Sum effective caster levels from all classes, then look up slots
+ * Sum effective caster levels from all classes except warlock, then look up slots
  *
  * @param classLevels - Array of { classKey, level }
  * @returns Array of spell slot counts
@@ -315,6 +315,8 @@ export function calculateMulticlassSpellSlots(
 
   for (const { classKey, level } of classLevels) {
     const casterType = getCasterType(classKey);
+    // Warlock levels give Pact Magic slots, which are tracked separately
+    if (casterType === 'pact') continue;
     totalEffectiveLevel += calculateEffectiveCasterLevel(level, casterType);
   }
 
@@ -365,6 +367,7 @@ export function getMaxSpellLevel(classLevel: number, casterType: CasterType): Sp
 
   const effectiveLevel = calculateEffectiveCasterLevel(classLevel, casterType);
   const slots = FULL_CASTER_SLOTS[Math.min(20, effectiveLevel)];
+  if (!slots) return 0; // Half and third casters before their first slot
 
   // Find highest level with slots
   for (let i = 9; i >= 1; i--) {
@@ -485,6 +488,58 @@ export function calculateSpellsKnownLimit(
   };
 }
 
+export interface SpellSelectionLimits {
+  cantrips: number;
+  /** Spells known (known casters) or prepared (preparation casters) */
+  spells: number;
+  /** Spells in a wizard's spellbook, null for other classes */
+  spellbook: number | null;
+  maxSpellLevel: SpellLevel | null;
+  mode: 'known' | 'prepared';
+}
+
+/**
+ * Calculate how many spells a character picks when created at a class level
+ * Wizards copy 6 spells into their spellbook at 1st level and 2 more per level,
+ * then prepare from it.
+ *
+ * @param classKey - Class identifier
+ * @param classLevel - Class level
+ * @param abilityScore - Spellcasting ability score
+ * @returns Pick limits (null for non-casters)
+ */
+export function calculateSpellSelectionLimits(
+  classKey: string,
+  classLevel: number,
+  abilityScore: number
+): SpellSelectionLimits | null {
+  const lowerKey = classKey.toLowerCase();
+  if (!isSpellcaster(lowerKey)) return null;
+
+  const maxSpellLevel = getMaxSpellLevel(classLevel, getCasterType(lowerKey));
+  const hasLeveledSpells = (maxSpellLevel ?? 0) >= 1;
+  const cantrips = CANTRIPS_KNOWN[lowerKey]?.[classLevel] ?? 0;
+
+  if (isPreparationCaster(lowerKey)) {
+    const limits = calculateSpellPreparationLimits(lowerKey, classLevel, abilityScore);
+    return {
+      cantrips,
+      spells: hasLeveledSpells ? (limits?.maxPrepared ?? 0) : 0,
+      spellbook: lowerKey === 'wizard' ? 6 + 2 * (classLevel - 1) : null,
+      maxSpellLevel,
+      mode: 'prepared',
+    };
+  }
+
+  return {
+    cantrips,
+    spells: hasLeveledSpells ? (SPELLS_KNOWN[lowerKey]?.[classLevel] ?? 0) : 0,
+    spellbook: null,
+    maxSpellLevel,
+    mode: 'known',
+  };
+}
+
 // ============================================================================
 // Ritual Casting
 // ============================================================================
@@ -0,0 +1,187 @@
+/**
+ * Starting Equipment Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  getStartingGold,
+  getWeaponChoices,
+  matchEquipmentItem,
+  parseStartingEquipment,
+  resolveStartingEquipment,
+} from './starting-equipment';
+import type { Open5eItem } from '@/types/open5e';
+
+function item(key: string, name: string, overrides: Partial<Open5eItem> = {}): Open5eItem {
+  return {
+    key,
+    name,
+    url: '',
+    document: 'wotc-srd',
+    type: 'item',
+    description: '',
+    cost: '',
+    weight: null,
+    damage_dice: null,
+    damage_type: null,
+    properties: [],
+    category: '',
+    armor_class: null,
+    armor_category: null,
+    strength_requirement: null,
+    stealth_disadvantage: false,
+    ...overrides,
+  };
+}
+
+const catalog: Open5eItem[] = [
+  item('chain-mail', 'Chain Mail', { armor_class: 16, armor_category: 'Heavy' }),
+  item('leather', 'Leather', { armor_class: 11, armor_category: 'Light' }),
+  item('shield', 'Shield', { armor_class: 2, armor_category: 'Shield' }),
+  item('longbow', 'Longbow', { category: 'Martial Ranged Weapons' }),
+  item('longsword', 'Longsword', { category: 'Martial Melee Weapons' }),
+  item('handaxe', 'Handaxe', { category: 'Simple Melee Weapons' }),
+  item('crossbow-light', 'Crossbow, light', { category: 'Simple Ranged Weapons' }),
+  item('arrows', 'Arrows (20)'),
+  item('crossbow-bolts', 'Crossbow bolts (20)'),
+  item('explorers-pack', "Explorer's Pack"),
+  item('dungeoneers-pack', "Dungeoneer's Pack"),
+];
+
+const FIGHTER_EQUIPMENT = `You start with the following equipment, in addition to the equipment granted by your background:
+
+* (*a*) chain mail or (*b*) leather armor, longbow, and 20 arrows
+* (*a*) a martial weapon and a shield or (*b*) two martial weapons
+* (*a*) a light crossbow and 20 bolts or (*b*) two handaxes
+* (*a*) a dungeoneer's pack or (*b*) an explorer's pack`;
+
+describe('matchEquipmentItem', () => {
+  it('ignores word order, plurals, possessives and the armor suffix', () => {
+    expect(matchEquipmentItem('light crossbow', catalog)?.key).toBe('crossbow-light');
+    expect(matchEquipmentItem("explorer's pack", catalog)?.key).toBe('explorers-pack');
+    expect(matchEquipmentItem('leather armor', catalog)?.key).toBe('leather');
+    expect(matchEquipmentItem('handaxes', catalog)?.key).toBe('handaxe');
+  });
+
+  it('falls back to the shortest item containing every word', () => {
+    expect(matchEquipmentItem('arrows', catalog)?.key).toBe('arrows');
+    expect(matchEquipmentItem('bolts', catalog)?.key).toBe('crossbow-bolts');
+    expect(matchEquipmentItem('signet ring', catalog)).toBeNull();
+  });
+});
+
+describe('parseStartingEquipment', () => {
+  it('parses bulleted class choices into groups', () => {
+    const groups = parseStartingEquipment(FIGHTER_EQUIPMENT, 'class', catalog);
+
+    expect(groups).toHaveLength(4);
+    expect(groups[0].id).toBe('class-0');
+    expect(groups[0].options.map((o) => o.entries.map((e) => e.itemKey))).toEqual([
+      ['chain-mail'],
+      ['leather', 'longbow', 'arrows'],
+    ]);
+    expect(groups[0].options[1].entries[2].quantity).toBe(1);
+    expect(groups[2].options[1].entries[0]).toMatchObject({ itemKey: 'handaxe', quantity: 2 });
+  });
+
+  it('expands generic weapons into one pick per weapon', () => {
+    const [, weapons] = parseStartingEquipment(FIGHTER_EQUIPMENT, 'class', catalog);
+
+    expect(weapons.options[0].entries).toEqual([
+      {
+        id: 'class-1-0-0',
+        name: 'Martial weapon',
+        quantity: 1,
+        itemKey: null,
+        weaponCategory: 'martial',
+        melee: false,
+      },
+      { id: 'class-1-0-1', name: 'Shield', quantity: 1, itemKey: 'shield' },
+    ]);
+    expect(weapons.options[1].entries).toHaveLength(2);
+    expect(getWeaponChoices(weapons.options[1].entries[0], catalog).map((w) => w.key)).toEqual([
+      'longbow',
+      'longsword',
+    ]);
+  });
+
+  it('parses background text as a fixed grant with gold', () => {
+    const [group] = parseStartingEquipment(
+      'A set of common clothes, a signet ring, and a belt pouch containing 10 gp',
+      'background',
+      catalog
+    );
+
+    expect(group.options).toHaveLength(1);
+    expect(group.options[0].gold).toBe(10);
+    expect(group.options[0].entries.map((e) => e.name)).toEqual([
+      'Set of common clothes',
+      'Signet ring',
+      'Belt pouch',
+    ]);
+  });
+
+  it('parses 2024 lettered options with a gold alternative', () => {
+    const [group] = parseStartingEquipment(
+      'Choose A or B: (A) Chain Mail, Longsword, and 4 GP; or (B) 155 GP',
+      'class',
+      catalog
+    );
+
+    expect(group.options.map((o) => o.gold)).toEqual([4, 155]);
+    expect(group.options[0].entries.map((e) => e.itemKey)).toEqual(['chain-mail', 'longsword']);
+    expect(group.options[1].entries).toEqual([]);
+  });
+
+  it('returns no groups for empty text', () => {
+    expect(parseStartingEquipment('', 'class')).toEqual([]);
+    expect(parseStartingEquipment(undefined, 'background')).toEqual([]);
+  });
+});
+
+describe('resolveStartingEquipment', () => {
+  const groups = [
+    ...parseStartingEquipment(FIGHTER_EQUIPMENT, 'class', catalog),
+    ...parseStartingEquipment('A belt pouch containing 10 gp', 'background', catalog),
+  ];
+
+  it('resolves chosen options, weapon picks and equipped marks', () => {
+    const result = resolveStartingEquipment(
+      groups,
+      {
+        choices: { 'class-0': 0, 'class-1': 0, 'class-2': 1, 'class-3': 1 },
+        weaponPicks: { 'class-1-0-0': 'longsword' },
+        equippedIds: ['class-0-0-0', 'class-1-0-1'],
+      },
+      catalog
+    );
+
+    expect(result.missing).toEqual([]);
+    expect(result.currency).toEqual({ gp: 10 });
+    expect(result.items.map((i) => [i.name, i.quantity, i.equipped])).toEqual([
+      ['Chain Mail', 1, true],
+      ['Longsword', 1, false],
+      ['Shield', 1, true],
+      ['Handaxe', 2, false],
+      ["Explorer's Pack", 1, false],
+      ['Belt pouch', 1, false],
+    ]);
+  });
+
+  it('reports unchosen groups and weapon picks', () => {
+    const result = resolveStartingEquipment(groups, { choices: { 'class-1': 1 } }, catalog);
+    expect(result.missing).toEqual(['class-0', 'class-1-1-0', 'class-1-1-1', 'class-2', 'class-3']);
+  });
+
+  it('replaces everything with gold when taking gold instead', () => {
+    expect(getStartingGold('fighter')).toBe(125);
+    expect(getStartingGold('monk')).toBe(12);
+    expect(getStartingGold('artificer')).toBeNull();
+    expect(resolveStartingEquipment(groups, { takeGold: true }, catalog, 125)).toEqual({
+      items: [],
+      currency: { gp: 125 },
+      missing: [],
+    });
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * Starting Equipment - D&D 5e
+ *
+ * Parses the free-text starting equipment of Open5E classes and backgrounds
+ * ("(a) chain mail or (b) leather armor, longbow, and 20 arrows") into
+ * structured choice groups linked to item keys, and resolves the wizard's
+ * choices into inventory items and gold.
+ */
+
+import type { Open5eItem } from '@/types/open5e';
+import type { WizardSelections } from '@/types/character';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WeaponCategory = 'simple' | 'martial';
+
+/** One item (or generic weapon slot) granted by an option */
+export interface EquipmentEntry {
+  /** Entry ID within the groups, used for weapon picks and equipped marks */
+  id: string;
+  name: string;
+  quantity: number;
+  /** Matched Open5E item key, or null for items without data */
+  itemKey: string | null;
+  /** Set for generic entries ("a martial weapon") the player picks a weapon for */
+  weaponCategory?: WeaponCategory;
+  melee?: boolean;
+}
+
+export interface EquipmentOption {
+  label: string;
+  entries: EquipmentEntry[];
+  gold: number;
+}
+
+/** A "choose one of (a)/(b)" line; a single option is a fixed grant */
+export interface EquipmentChoiceGroup {
+  id: string;
+  source: 'class' | 'background';
+  options: EquipmentOption[];
+}
+
+export type EquipmentSelection = NonNullable<WizardSelections['equipment']>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Starting wealth by class (2014 rules): dice count of d4, times the multiplier, in gp */
+export const STARTING_GOLD: Record<string, { dice: number; multiplier: number }> = {
+  barbarian: { dice: 2, multiplier: 10 },
+  bard: { dice: 5, multiplier: 10 },
+  cleric: { dice: 5, multiplier: 10 },
+  druid: { dice: 2, multiplier: 10 },
+  fighter: { dice: 5, multiplier: 10 },
+  monk: { dice: 5, multiplier: 1 },
+  paladin: { dice: 5, multiplier: 10 },
+  ranger: { dice: 5, multiplier: 10 },
+  rogue: { dice: 4, multiplier: 10 },
+  sorcerer: { dice: 3, multiplier: 10 },
+  warlock: { dice: 4, multiplier: 10 },
+  wizard: { dice: 4, multiplier: 10 },
+};
+
+const QUANTITY_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  ten: 10,
+  twenty: 20,
+};
+
+// ============================================================================
+// Item Matching
+// ============================================================================
+
+function toWords(value: string): string[] {
+  return value
+    .toLowerCase()
+    .replace(/'s\b/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter((word) => word.length > 0)
+    .map((word) =>
+      word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word
+    );
+}
+
+/**
+ * Find the Open5E item for an equipment name. Word order, plurals and
+ * possessives are ignored ("a light crossbow" matches "Crossbow, light"),
+ * then the shortest item containing every word is used ("20 arrows" matches
+ * "Arrows (20)").
+ *
+ * @param name - Equipment name from the text
+ * @param catalog - Weapons, armor and items to match against
+ * @returns Matched item, or null
+ */
+export function matchEquipmentItem(name: string, catalog: Open5eItem[]): Open5eItem | null {
+  const candidates = [toWords(name)];
+  if (candidates[0].at(-1) === 'armor' && candidates[0].length > 1) {
+    candidates.push(candidates[0].slice(0, -1));
+  }
+
+  for (const words of candidates) {
+    const key = [...words].sort().join(' ');
+    const exact = catalog.find((item) => [...toWords(item.name)].sort().join(' ') === key);
+    if (exact) return exact;
+  }
+
+  const words = candidates[0];
+  if (words.length === 0) return null;
+  const partial = catalog
+    .filter((item) => {
+      const itemWords = toWords(item.name);
+      return words.every((word) => itemWords.includes(word));
+    })
+    .sort((a, b) => a.name.length - b.name.length);
+  return partial[0] ?? null;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+function parseEntries(text: string, idPrefix: string, catalog: Open5eItem[]): EquipmentEntry[] {
+  const entries: EquipmentEntry[] = [];
+
+  for (const part of text.split(/,|;|\band\b/i)) {
+    let phrase = part
+      .replace(/\bcontaining\s+\d+\s*gp\b/i, '')
+      .replace(/^\s*\d+\s*gp\s*$/i, '')
+      .trim()
+      .replace(/\.$/, '');
+    if (!phrase) continue;
+
+    let quantity = 1;
+    const quantityMatch = phrase.match(/^(\d+|one|two|three|four|five|six|ten|twenty)\s+/i);
+    if (quantityMatch) {
+      const token = quantityMatch[1].toLowerCase();
+      quantity = QUANTITY_WORDS[token] ?? parseInt(token, 10);
+      phrase = phrase.slice(quantityMatch[0].length);
+    }
+    phrase = phrase.replace(/^(?:a|an|the|any|some)\s+/i, '').trim();
+    if (!phrase) continue;
+
+    const weaponMatch = phrase.match(/\b(simple|martial)\s+(melee\s+)?weapons?\b/i);
+    if (weaponMatch) {
+      const weaponCategory = weaponMatch[1].toLowerCase() as WeaponCategory;
+      for (let i = 0; i < quantity; i++) {
+        entries.push({
+          id: `${idPrefix}-${entries.length}`,
+          name: `${weaponCategory === 'simple' ? 'Simple' : 'Martial'}${weaponMatch[2] ? ' melee' : ''} weapon`,
+          quantity: 1,
+          itemKey: null,
+          weaponCategory,
+          melee: Boolean(weaponMatch[2]),
+        });
+      }
+      continue;
+    }
+
+    const item = matchEquipmentItem(phrase, catalog);
+    // Bundled items ("Arrows (20)") already carry the count in the item
+    const bundled = item?.name.includes(`(${quantity})`) ?? false;
+    entries.push({
+      id: `${idPrefix}-${entries.length}`,
+      name: item?.name ?? phrase.charAt(0).toUpperCase() + phrase.slice(1),
+      quantity: bundled ? 1 : quantity,
+      itemKey: item?.key ?? null,
+    });
+  }
+
+  return entries;
+}
+
+function parseGold(text: string): number {
+  let gold = 0;
+  for (const match of text.matchAll(/(\d+)\s*gp\b/gi)) {
+    gold += parseInt(match[1], 10);
+  }
+  return gold;
+}
+
+/**
+ * Parse starting equipment text into choice groups. Bulleted lines become one
+ * group each (the introduction before the list is ignored); unbulleted text is
+ * a single group. Lettered options ("(a) ... or (b) ...") become the group's options.
+ *
+ * @param text - Equipment text from the class or background
+ * @param source - Where the equipment comes from
+ * @param catalog - Weapons, armor and items to link entries to
+ * @returns Choice groups in text order
+ */
+export function parseStartingEquipment(
+  text: string | null | undefined,
+  source: EquipmentChoiceGroup['source'],
+  catalog: Open5eItem[] = []
+): EquipmentChoiceGroup[] {
+  if (!text?.trim()) return [];
+
+  const lines = text.split(/\n+/);
+  const bullets = lines.filter((line) => /^\s*[*•-]\s+/.test(line));
+  const groupTexts = (bullets.length > 0 ? bullets : [lines.join(' ')]).map((line) =>
+    line
+      .replace(/^\s*[*•-]\s+/, '')
+      .replace(/[*_]/g, '')
+      .trim()
+  );
+
+  return groupTexts
+    .filter((line) => line.length > 0)
+    .map((line, groupIndex) => {
+      const id = `${source}-${groupIndex}`;
+      const pieces = line.split(/\(\s*[a-c]\s*\)/i);
+      const optionTexts =
+        pieces.length > 1
+          ? pieces.slice(1).map((piece) =>
+              piece
+                .replace(/[\s,;]*\bor\s*$/i, '')
+                .replace(/[\s,;]+$/, '')
+                .trim()
+            )
+          : [line];
+
+      const options = optionTexts.map((optionText, optionIndex) => {
+        const withoutNotes = optionText.replace(/\([^)]*\)/g, '');
+        return {
+          label: optionText,
+          entries: parseEntries(withoutNotes, `${id}-${optionIndex}`, catalog),
+          gold: parseGold(withoutNotes),
+        };
+      });
+
+      return { id, source, options };
+    });
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Average starting gold for a class when taking gold instead of equipment
+ *
+ * @param classKey - Engine class key
+ * @returns Gold pieces, or null when the class has no starting wealth entry
+ */
+export function getStartingGold(classKey: string): number | null {
+  const wealth = STARTING_GOLD[classKey];
+  return wealth ? Math.floor(wealth.dice * 2.5 * wealth.multiplier) : null;
+}
+
+/**
+ * Filter weapons for a generic weapon entry
+ *
+ * @param entry - Entry with a weapon category
+ * @param weapons - Weapon data
+ * @returns Weapons the player may pick
+ */
+export function getWeaponChoices(entry: EquipmentEntry, weapons: Open5eItem[]): Open5eItem[] {
+  if (!entry.weaponCategory) return [];
+  return weapons.filter((weapon) => {
+    const category = weapon.category?.toLowerCase() ?? '';
+    return category.includes(entry.weaponCategory!) && (!entry.melee || category.includes('melee'));
+  });
+}
+
+/**
+ * Turn the equipment choices into inventory items and currency
+ *
+ * @param groups - Class and background choice groups
+ * @param selection - Chosen options, weapon picks and equipped marks
+ * @param catalog - Item data used to name picked weapons
+ * @param startingGold - Gold granted when taking gold instead of equipment
+ * @returns Items and currency for selections.equipment, plus unresolved choices
+ */
+export function resolveStartingEquipment(
+  groups: EquipmentChoiceGroup[],
+  selection: Partial<EquipmentSelection> | undefined,
+  catalog: Open5eItem[] = [],
+  startingGold: number | null = null
+): Pick<EquipmentSelection, 'items' | 'currency'> & { missing: string[] } {
+  if (selection?.takeGold && startingGold !== null) {
+    return { items: [], currency: { gp: startingGold }, missing: [] };
+  }
+
+  const byKey = new Map(catalog.map((item) => [item.key, item]));
+  const equipped = new Set(selection?.equippedIds ?? []);
+  const items: EquipmentSelection['items'] = [];
+  const missing: string[] = [];
+  let gold = 0;
+
+  for (const group of groups) {
+    const optionIndex = group.options.length === 1 ? 0 : selection?.choices?.[group.id];
+    const option = optionIndex === undefined ? undefined : group.options[optionIndex];
+    if (!option) {
+      missing.push(group.id);
+      continue;
+    }
+
+    gold += option.gold;
+    for (const entry of option.entries) {
+      const itemKey = entry.weaponCategory ? selection?.weaponPicks?.[entry.id] : entry.itemKey;
+      if (entry.weaponCategory && !itemKey) {
+        missing.push(entry.id);
+        continue;
+      }
+      items.push({
+        itemKey: itemKey ?? undefined,
+        name: (itemKey && byKey.get(itemKey)?.name) || entry.name,
+        quantity: entry.quantity,
+        equipped: equipped.has(entry.id),
+        entryId: entry.id,
+      });
+    }
+  }
+
+  return { items, currency: { gp: gold }, missing };
+}
@@ -0,0 +1,223 @@
+/**
+ * Weapon Attacks Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import {
+  buildWeaponAttacks,
+  getWeaponCategory,
+  hasWeaponProficiency,
+  mergeWeaponAttacks,
+  parseWeaponProperties,
+} from './weapons';
+import type { AbilityScore, CharacterAction, EquipmentItem } from '@/types/game';
+import type { Character } from '@/types/character';
+import type { Open5eItem } from '@/types/open5e';
+
+function weapon(key: string, name: string, overrides: Partial<Open5eItem>): Open5eItem {
+  return {
+    key,
+    name,
+    type: '',
+    category: 'Simple Melee Weapons',
+    damage_type: 'slashing',
+    properties: [],
+    ...overrides,
+  } as Open5eItem;
+}
+
+const items: Open5eItem[] = [
+  weapon('longsword', 'Longsword', {
+    category: 'Martial Melee Weapons',
+    damage_dice: '1d8',
+    properties: ['versatile (1d10)'],
+  }),
+  weapon('rapier', 'Rapier', {
+    category: 'Martial Melee Weapons',
+    damage_dice: '1d8',
+    damage_type: 'piercing',
+    properties: ['finesse'],
+  }),
+  weapon('dagger', 'Dagger', {
+    damage_dice: '1d4',
+    damage_type: 'piercing',
+    properties: ['finesse', 'light', 'thrown (range 20/60)'],
+  }),
+  weapon('handaxe', 'Handaxe', {
+    damage_dice: '1d6',
+    properties: ['light', 'thrown (range 20/60)'],
+  }),
+  weapon('crossbow-hand', 'Crossbow, hand', {
+    category: 'Martial Ranged Weapons',
+    damage_dice: '1d6',
+    damage_type: 'piercing',
+    properties: ['ammunition (range 30/120)', 'light', 'loading'],
+  }),
+  weapon('rope', 'Rope', { damage_dice: null, category: 'Adventuring Gear' }),
+];
+
+const scores: Record<AbilityScore, number> = {
+  STR: 16,
+  DEX: 18,
+  CON: 12,
+  INT: 10,
+  WIS: 10,
+  CHA: 10,
+};
+
+function held(itemKey: string, name: string, equipped = true): EquipmentItem {
+  return { id: itemKey, name, quantity: 1, equipped, itemKey };
+}
+
+function wielder(inventory: EquipmentItem[], weapons = ['Simple weapons']) {
+  return {
+    inventory,
+    level: 5,
+    proficiencies: { weapons } as Character['proficiencies'],
+  };
+}
+
+describe('parseWeaponProperties', () => {
+  it('should parse string properties', () => {
+    expect(parseWeaponProperties(['finesse', 'light', 'thrown (range 20/60)'])).toMatchObject({
+      finesse: true,
+      light: true,
+      thrown: true,
+      range: { normal: 20, long: 60 },
+    });
+    expect(parseWeaponProperties(['Versatile (1d10)', 'Two-Handed'])).toMatchObject({
+      versatileDice: '1d10',
+      twoHanded: true,
+    });
+  });
+
+  it('should parse v2 property objects', () => {
+    const properties = parseWeaponProperties([
+      { property: { name: 'Ammunition' }, detail: 'range 80/320' },
+      { property: { name: 'Two-Handed' } },
+    ]);
+
+    expect(properties).toMatchObject({
+      ammunition: true,
+      twoHanded: true,
+      range: { normal: 80, long: 320 },
+      labels: ['Ammunition (range 80/320)', 'Two-Handed'],
+    });
+  });
+});
+
+describe('hasWeaponProficiency', () => {
+  it('should match weapon categories and specific weapons', () => {
+    const [longsword, , , , handCrossbow] = items;
+
+    expect(getWeaponCategory(longsword)).toBe('martial');
+    expect(hasWeaponProficiency(['Simple weapons'], longsword)).toBe(false);
+    expect(hasWeaponProficiency(['martial'], longsword)).toBe(true);
+    expect(hasWeaponProficiency(['Simple weapons', 'Longswords'], longsword)).toBe(true);
+    expect(hasWeaponProficiency(['Hand crossbows'], handCrossbow)).toBe(true);
+  });
+});
+
+describe('buildWeaponAttacks', () => {
+  it('should build attacks for equipped weapons only', () => {
+    const attacks = buildWeaponAttacks(
+      wielder(
+        [held('longsword', 'Longsword'), held('rapier', 'Rapier', false), held('rope', 'Rope')],
+        ['Martial weapons']
+      ),
+      items,
+      scores
+    );
+
+    expect(attacks).toHaveLength(1);
+    expect(attacks[0]).toMatchObject({
+      name: 'Longsword',
+      type: 'action',
+      isAttack: true,
+      source: 'weapon',
+      sourceKey: 'longsword',
+      attackDetails: {
+        ability: 'STR',
+        bonus: 3 + 3,
+        damage: '1d8 + 3',
+        versatileDamage: '1d10 + 3',
+        damageType: 'slashing',
+        range: '5 ft.',
+      },
+    });
+  });
+
+  it('should use DEX for finesse and ranged weapons and include magic bonuses', () => {
+    const attacks = buildWeaponAttacks(
+      wielder([held('rapier', 'Rapier +1'), held('crossbow-hand', 'Hand Crossbow')], ['martial']),
+      items,
+      scores
+    );
+
+    expect(attacks[0].attackDetails).toMatchObject({
+      ability: 'DEX',
+      bonus: 4 + 3 + 1,
+      damage: '1d8 + 5',
+    });
+    expect(attacks[1].attackDetails).toMatchObject({
+      ability: 'DEX',
+      bonus: 4 + 3,
+      range: '30/120 ft.',
+    });
+  });
+
+  it('should leave out the proficiency bonus without proficiency', () => {
+    const [attack] = buildWeaponAttacks(wielder([held('longsword', 'Longsword')]), items, scores);
+
+    expect(attack.attackDetails?.bonus).toBe(3);
+    expect(attack.description).toContain('Not proficient');
+  });
+
+  it('should add off-hand attacks when wielding two light melee weapons', () => {
+    const attacks = buildWeaponAttacks(
+      wielder([held('dagger', 'Dagger'), held('handaxe', 'Handaxe')]),
+      items,
+      scores
+    );
+
+    expect(attacks.map((a) => [a.name, a.type])).toEqual([
+      ['Dagger', 'action'],
+      ['Handaxe', 'action'],
+      ['Dagger (off-hand)', 'bonus'],
+      ['Handaxe (off-hand)', 'bonus'],
+    ]);
+    expect(attacks[0].attackDetails?.range).toBe('5 ft. or 20/60 ft.');
+    expect(attacks[3].attackDetails?.damage).toBe('1d6');
+  });
+});
+
+describe('mergeWeaponAttacks', () => {
+  it('should replace stored attacks for known weapons', () => {
+    const stored: CharacterAction[] = [
+      {
+        id: 'longsword-attack',
+        name: 'Longsword',
+        type: 'action',
+        description: '',
+        isAttack: true,
+        source: 'weapon',
+        sourceKey: 'longsword',
+      },
+      {
+        id: 'second-wind',
+        name: 'Second Wind',
+        type: 'bonus',
+        description: '',
+        isAttack: false,
+        source: 'feature',
+      },
+    ];
+    const generated = buildWeaponAttacks(wielder([held('dagger', 'Dagger')]), items, scores);
+
+    expect(mergeWeaponAttacks(stored, generated, items).map((a) => a.name)).toEqual([
+      'Dagger',
+      'Second Wind',
+    ]);
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Weapon Attacks - D&D 5e
+ *
+ * Builds attack actions for the weapons a character has equipped, from the
+ * Open5E weapon data: damage dice and type, properties (finesse, versatile,
+ * thrown, ammunition, light, two-handed, reach), weapon category for
+ * proficiency, and +N enchantments from the item name.
+ */
+
+import type { AbilityScore, CharacterAction, EquipmentItem } from '@/types/game';
+import type { Character } from '@/types/character';
+import type { Open5eItem } from '@/types/open5e';
+import { toOpen5eDisplayString } from '@/lib/utils';
+import { parseMagicBonus } from './armor';
+import {
+  calculateAttackBonus,
+  calculateWeaponDamage,
+  formatDamage,
+  getAttackAbilityModifier,
+  type AttackType,
+} from './combat';
+import type { WeaponCategory } from './starting-equipment';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface WeaponRange {
+  normal: number;
+  long: number;
+}
+
+/** Weapon properties that change how an attack is made */
+export interface WeaponProperties {
+  finesse: boolean;
+  light: boolean;
+  heavy: boolean;
+  twoHanded: boolean;
+  reach: boolean;
+  loading: boolean;
+  thrown: boolean;
+  ammunition: boolean;
+  /** Two-handed damage dice of a versatile weapon */
+  versatileDice: string | null;
+  /** Range of a thrown or ammunition weapon */
+  range: WeaponRange | null;
+  /** Property names for display ("Finesse", "Thrown (range 20/60)") */
+  labels: string[];
+}
+
+// ============================================================================
+// Weapon Data
+// ============================================================================
+
+/**
+ * Display text of an Open5E weapon property, which the v2 API returns as
+ * `{ property: { name }, detail }` objects instead of strings
+ */
+function getPropertyText(property: unknown): string {
+  if (property && typeof property === 'object' && 'property' in property) {
+    const { property: inner, detail } = property as { property: unknown; detail?: unknown };
+    const name = toOpen5eDisplayString(inner);
+    return detail ? `${name} (${toOpen5eDisplayString(detail)})` : name;
+  }
+  return toOpen5eDisplayString(property);
+}
+
+function parseRange(text: string): WeaponRange | null {
+  const match = text.match(/(\d+)\s*\/\s*(\d+)/);
+  return match ? { normal: Number(match[1]), long: Number(match[2]) } : null;
+}
+
+/**
+ * Parse the properties of an Open5E weapon
+ *
+ * @param properties - Weapon properties, as strings or v2 property objects
+ * @returns Parsed properties
+ */
+export function parseWeaponProperties(properties: unknown[]): WeaponProperties {
+  const result: WeaponProperties = {
+    finesse: false,
+    light: false,
+    heavy: false,
+    twoHanded: false,
+    reach: false,
+    loading: false,
+    thrown: false,
+    ammunition: false,
+    versatileDice: null,
+    range: null,
+    labels: [],
+  };
+
+  for (const property of properties) {
+    const label = getPropertyText(property).trim();
+    if (!label) continue;
+    result.labels.push(label);
+    const text = label.toLowerCase();
+
+    if (text.startsWith('finesse')) result.finesse = true;
+    else if (text.startsWith('light')) result.light = true;
+    else if (text.startsWith('heavy')) result.heavy = true;
+    else if (text.startsWith('two-handed') || text.startsWith('two handed')) {
+      result.twoHanded = true;
+    } else if (text.startsWith('reach')) result.reach = true;
+    else if (text.startsWith('loading')) result.loading = true;
+    else if (text.startsWith('versatile')) {
+      result.versatileDice = text.match(/\d+d\d+/)?.[0] ?? null;
+    } else if (text.startsWith('thrown') || text.startsWith('ammunition')) {
+      result[text.startsWith('thrown') ? 'thrown' : 'ammunition'] = true;
+      result.range = parseRange(text) ?? result.range;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Whether an Open5E item is a weapon
+ *
+ * @param item - Open5E item
+ * @returns True when the item deals damage
+ */
+export function isWeapon(item: Open5eItem): boolean {
+  return Boolean(item.damage_dice);
+}
+
+function getCategoryText(weapon: Open5eItem): string {
+  return `${toOpen5eDisplayString(weapon.category)} ${toOpen5eDisplayString(weapon.type)}`.toLowerCase();
+}
+
+/**
+ * Simple or martial category of an Open5E weapon
+ *
+ * @param weapon - Open5E weapon
+ * @returns Weapon category, or null when the data does not say
+ */
+export function getWeaponCategory(weapon: Open5eItem): WeaponCategory | null {
+  const text = getCategoryText(weapon);
+  if (text.includes('martial')) return 'martial';
+  if (text.includes('simple')) return 'simple';
+  return null;
+}
+
+/**
+ * Normalize a weapon name for matching against proficiency entries, so that
+ * "Crossbow, hand", "Hand crossbows" and "Longsword +1" match their entries
+ */
+function normalizeWeaponName(name: string): string {
+  const [first, rest] = name
+    .toLowerCase()
+    .replace(/\s*\+\d+/g, '')
+    .split(/\s*,\s*/);
+  return (rest ? `${rest} ${first}` : first).trim().replace(/s$/, '');
+}
+
+/**
+ * Whether a character's weapon proficiencies cover a weapon
+ *
+ * @param proficiencies - Weapon proficiencies ("Simple weapons", "martial", "Longswords")
+ * @param weapon - Open5E weapon
+ * @returns True when proficient with the weapon's category or the weapon itself
+ */
+export function hasWeaponProficiency(proficiencies: string[], weapon: Open5eItem): boolean {
+  const category = getWeaponCategory(weapon);
+  const name = normalizeWeaponName(weapon.name);
+  return proficiencies.some((entry) => {
+    const text = entry.toLowerCase();
+    if (category && new RegExp(`\\b${category}\\b`).test(text)) return true;
+    return normalizeWeaponName(text.replace(/\bweapons?\b/, '')) === name;
+  });
+}
+
+// ============================================================================
+// Attacks
+// ============================================================================
+
+function formatRange(properties: WeaponProperties, attackType: AttackType): string {
+  const ranged = properties.range
+    ? `${properties.range.normal}/${properties.range.long} ft.`
+    : 'Ranged';
+  if (attackType === 'ranged') return ranged;
+  const melee = properties.reach ? '10 ft.' : '5 ft.';
+  return properties.thrown && properties.range ? `${melee} or ${ranged}` : melee;
+}
+
+function buildWeaponAttack(
+  entry: EquipmentItem,
+  weapon: Open5eItem,
+  character: Pick<Character, 'proficiencies' | 'level'>,
+  scores: Record<AbilityScore, number>,
+  offHand: boolean
+): CharacterAction {
+  const properties = parseWeaponProperties(weapon.properties ?? []);
+  const attackType: AttackType =
+    properties.ammunition || getCategoryText(weapon).includes('ranged') ? 'ranged' : 'melee';
+  const isProficient = hasWeaponProficiency(character.proficiencies.weapons, weapon);
+  const magicBonus = parseMagicBonus(entry.name) || parseMagicBonus(weapon.name);
+  const { ability } = getAttackAbilityModifier(
+    attackType,
+    properties.finesse,
+    scores.STR,
+    scores.DEX
+  );
+  const attack = calculateAttackBonus(
+    attackType,
+    properties.finesse,
+    isProficient,
+    scores.STR,
+    scores.DEX,
+    character.level,
+    magicBonus
+  );
+  const damageFor = (dice: string) => {
+    const damage = calculateWeaponDamage(
+      dice,
+      attackType,
+      properties.finesse,
+      scores.STR,
+      scores.DEX,
+      magicBonus
+    );
+    // The off-hand attack only adds a negative ability modifier to damage
+    if (offHand) damage.abilityModifier = Math.min(0, damage.abilityModifier);
+    return formatDamage(damage);
+  };
+
+  const name = offHand ? `${entry.name} (off-hand)` : entry.name;
+  const notes = [
+    properties.labels.join(', '),
+    isProficient ? '' : 'Not proficient: no proficiency bonus to hit.',
+  ].filter(Boolean);
+
+  return {
+    id: `weapon-${entry.id}${offHand ? '-off-hand' : ''}`,
+    name,
+    type: offHand ? 'bonus' : 'action',
+    description: notes.join('. '),
+    isAttack: true,
+    attackDetails: {
+      id: `weapon-${entry.id}-attack${offHand ? '-off-hand' : ''}`,
+      name,
+      ability,
+      bonus: attack.total,
+      damage: damageFor(weapon.damage_dice ?? ''),
+      versatileDamage:
+        properties.versatileDice && !offHand ? damageFor(properties.versatileDice) : undefined,
+      damageType: toOpen5eDisplayString(weapon.damage_type),
+      range: formatRange(properties, attackType),
+      properties: properties.labels,
+      itemKey: weapon.key,
+    },
+    source: 'weapon',
+    sourceKey: weapon.key,
+  };
+}
+
+/**
+ * Attack actions for a character's equipped weapons
+ *
+ * Each equipped weapon gets an attack action. With two or more light melee
+ * weapons equipped, each of them also gets an off-hand bonus action attack.
+ *
+ * @param character - Character wielding the weapons
+ * @param items - Open5E items referenced by the inventory
+ * @param scores - Ability score totals
+ * @returns Attack actions in inventory order
+ */
+export function buildWeaponAttacks(
+  character: Pick<Character, 'inventory' | 'proficiencies' | 'level'>,
+  items: Open5eItem[],
+  scores: Record<AbilityScore, number>
+): CharacterAction[] {
+  const byKey = new Map(items.map((item) => [item.key, item]));
+  const wielded = character.inventory.flatMap((entry) => {
+    const weapon = entry.equipped && entry.itemKey ? byKey.get(entry.itemKey) : undefined;
+    return weapon && isWeapon(weapon) ? [{ entry, weapon }] : [];
+  });
+
+  const lightMelee = wielded.filter(({ weapon }) => {
+    const properties = parseWeaponProperties(weapon.properties ?? []);
+    return (
+      properties.light && !properties.ammunition && !getCategoryText(weapon).includes('ranged')
+    );
+  });
+  const offHand = lightMelee.length >= 2 ? lightMelee : [];
+
+  return [
+    ...wielded.map(({ entry, weapon }) =>
+      buildWeaponAttack(entry, weapon, character, scores, false)
+    ),
+    ...offHand.map(({ entry, weapon }) =>
+      buildWeaponAttack(entry, weapon, character, scores, true)
+    ),
+  ];
+}
+
+/**
+ * A character's actions with the attacks of their equipped weapons
+ *
+ * Stored weapon actions for weapons in the item data are replaced by the
+ * generated attacks, so they follow what is equipped.
+ *
+ * @param actions - Actions stored on the character
+ * @param attacks - Generated weapon attacks
+ * @param items - Open5E items referenced by the inventory
+ * @returns Generated attacks followed by the remaining stored actions
+ */
+export function mergeWeaponAttacks(
+  actions: CharacterAction[],
+  attacks: CharacterAction[],
+  items: Open5eItem[]
+): CharacterAction[] {
+  const weaponKeys = new Set(items.filter(isWeapon).map((item) => item.key));
+  return [
+    ...attacks,
+    ...actions.filter(
+      (action) =>
+        action.source !== 'weapon' || !action.sourceKey || !weaponKeys.has(action.sourceKey)
+    ),
+  ];
+}
@@ -0,0 +1,371 @@
+/**
+ * CharacterSheetDocument
+ *
+ * Classic three-page 5e character sheet for @react-pdf/renderer:
+ * - Page 1: identity, abilities and saves, skills, combat and attacks
+ * - Page 2: spellcasting stats, slots and spells by level
+ * - Page 3: inventory, currency, features, proficiencies and notes
+ *
+ * Uses only the built-in PDF fonts so it renders offline.
+ */
+
+import React from 'react';
+import { Document, Page, StyleSheet, Text, View } from '@react-pdf/renderer';
+
+import type { CharacterSheetData } from './sheet-data';
+
+const styles = StyleSheet.create({
+  page: { padding: 28, fontSize: 9, fontFamily: 'Helvetica', color: '#1f1f1f' },
+  header: {
+    flexDirection: 'row',
+    borderBottomWidth: 2,
+    borderBottomColor: '#7a1c1c',
+    paddingBottom: 6,
+    marginBottom: 10,
+  },
+  name: { fontSize: 20, fontFamily: 'Helvetica-Bold', width: '40%' },
+  headerFields: { flexDirection: 'row', flexWrap: 'wrap', width: '60%' },
+  headerField: { width: '33%', marginBottom: 4 },
+  label: { fontSize: 6.5, color: '#666666', textTransform: 'uppercase' },
+  value: { fontSize: 9.5 },
+  row: { flexDirection: 'row' },
+  column: { flexDirection: 'column' },
+  box: { borderWidth: 1, borderColor: '#444444', borderRadius: 4, padding: 6, marginBottom: 8 },
+  boxTitle: {
+    fontSize: 7,
+    fontFamily: 'Helvetica-Bold',
+    textTransform: 'uppercase',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  ability: {
+    borderWidth: 1,
+    borderColor: '#444444',
+    borderRadius: 4,
+    alignItems: 'center',
+    paddingVertical: 4,
+    marginBottom: 6,
+  },
+  abilityModifier: { fontSize: 16, fontFamily: 'Helvetica-Bold' },
+  stat: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#444444',
+    borderRadius: 4,
+    alignItems: 'center',
+    padding: 4,
+    marginRight: 4,
+  },
+  statValue: { fontSize: 14, fontFamily: 'Helvetica-Bold' },
+  line: { flexDirection: 'row', marginBottom: 2 },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+    borderWidth: 0.75,
+    borderColor: '#1f1f1f',
+    marginTop: 1.5,
+    marginRight: 4,
+  },
+  bold: { fontFamily: 'Helvetica-Bold' },
+  muted: { color: '#666666' },
+  tableHeader: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#999999',
+    marginBottom: 2,
+    fontFamily: 'Helvetica-Bold',
+  },
+});
+
+/** Filled or empty circle for proficiency, prepared spells and death saves */
+function Dot({ filled }: { filled: boolean }) {
+  return <View style={[styles.dot, filled ? { backgroundColor: '#1f1f1f' } : {}]} />;
+}
+
+function Field({ label, value }: { label: string; value: string | number }) {
+  return (
+    <View style={styles.headerField}>
+      <Text style={styles.value}>{value || ' '}</Text>
+      <Text style={styles.label}>{label}</Text>
+    </View>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <View style={styles.stat}>
+      <Text style={styles.statValue}>{value}</Text>
+      <Text style={styles.label}>{label}</Text>
+    </View>
+  );
+}
+
+function Header({ data }: { data: CharacterSheetData }) {
+  return (
+    <View style={styles.header}>
+      <Text style={styles.name}>{data.name}</Text>
+      <View style={styles.headerFields}>
+        <Field label="Class & Level" value={data.classLine} />
+        <Field label="Background" value={data.background} />
+        <Field label="Player Name" value={data.playerName} />
+        <Field label="Species" value={data.race} />
+        <Field label="Alignment" value={data.alignment} />
+        <Field label="Experience Points" value={data.experiencePoints} />
+      </View>
+    </View>
+  );
+}
+
+function MainPage({ data }: { data: CharacterSheetData }) {
+  return (
+    <Page size="LETTER" style={styles.page}>
+      <Header data={data} />
+      <View style={styles.row}>
+        {/* Abilities */}
+        <View style={[styles.column, { width: '14%', marginRight: 8 }]}>
+          {data.abilities.map((a) => (
+            <View key={a.ability} style={styles.ability}>
+              <Text style={styles.label}>{a.ability}</Text>
+              <Text style={styles.abilityModifier}>{a.modifier}</Text>
+              <Text>{a.score}</Text>
+            </View>
+          ))}
+        </View>
+
+        {/* Proficiency, saves and skills */}
+        <View style={[styles.column, { width: '30%', marginRight: 8 }]}>
+          <View style={[styles.box, styles.row]}>
+            <Text style={[styles.bold, { width: 28 }]}>{data.proficiencyBonus}</Text>
+            <Text>Proficiency Bonus</Text>
+          </View>
+          <View style={styles.box}>
+            {data.abilities.map((a) => (
+              <View key={a.ability} style={styles.line}>
+                <Dot filled={a.saveProficient} />
+                <Text style={{ width: 22 }}>{a.save}</Text>
+                <Text>{a.ability}</Text>
+              </View>
+            ))}
+            <Text style={styles.boxTitle}>Saving Throws</Text>
+          </View>
+          <View style={styles.box}>
+            {data.skills.map((skill) => (
+              <View key={skill.name} style={styles.line}>
+                <Dot filled={skill.proficiency !== 'none'} />
+                <Text style={{ width: 22 }}>{skill.modifier}</Text>
+                <Text>
+                  {skill.name} <Text style={styles.muted}>({skill.ability})</Text>
+                  {skill.proficiency === 'expertise' ? ' [E]' : ''}
+                </Text>
+              </View>
+            ))}
+            <Text style={styles.boxTitle}>Skills</Text>
+          </View>
+          <View style={[styles.box, styles.row]}>
+            <Text style={[styles.bold, { width: 28 }]}>{data.passivePerception}</Text>
+            <Text>Passive Wisdom (Perception)</Text>
+          </View>
+        </View>
+
+        {/* Combat and attacks */}
+        <View style={[styles.column, { flex: 1 }]}>
+          <View style={[styles.row, { marginBottom: 8 }]}>
+            <Stat label="Armor Class" value={data.armorClass} />
+            <Stat label="Initiative" value={data.initiative} />
+            <Stat label="Speed" value={`${data.speed} ft`} />
+          </View>
+          <View style={styles.box}>
+            <Text>
+              <Text style={styles.bold}>Hit Point Maximum:</Text> {data.hitPoints.max}
+            </Text>
+            <Text style={[styles.statValue, { textAlign: 'center', marginVertical: 6 }]}>
+              {data.hitPoints.current}
+            </Text>
+            <Text style={styles.boxTitle}>Current Hit Points</Text>
+            {data.hitPoints.temp > 0 && (
+              <Text style={{ textAlign: 'center' }}>Temporary: {data.hitPoints.temp}</Text>
+            )}
+          </View>
+          <View style={styles.row}>
+            <View style={[styles.box, { flex: 1, marginRight: 4 }]}>
+              <Text style={{ textAlign: 'center' }}>{data.hitDice}</Text>
+              <Text style={styles.boxTitle}>Hit Dice</Text>
+            </View>
+            <View style={[styles.box, { flex: 1 }]}>
+              {(['successes', 'failures'] as const).map((kind) => (
+                <View key={kind} style={styles.line}>
+                  <Text style={{ width: 44 }}>
+                    {kind === 'successes' ? 'Successes' : 'Failures'}
+                  </Text>
+                  {[0, 1, 2].map((index) => (
+                    <Dot key={index} filled={data.deathSaves[kind] > index} />
+                  ))}
+                </View>
+              ))}
+              <Text style={styles.boxTitle}>Death Saves</Text>
+            </View>
+          </View>
+          <View style={styles.box}>
+            <View style={styles.tableHeader}>
+              <Text style={{ width: '38%' }}>Name</Text>
+              <Text style={{ width: '14%' }}>Atk</Text>
+              <Text style={{ width: '48%' }}>Damage/Type</Text>
+            </View>
+            {data.attacks.length === 0 && <Text style={styles.muted}>No attacks</Text>}
+            {data.attacks.map((attack, index) => (
+              <View key={index} style={styles.line}>
+                <Text style={{ width: '38%' }}>{attack.name}</Text>
+                <Text style={{ width: '14%' }}>{attack.bonus}</Text>
+                <Text style={{ width: '48%' }}>{attack.damage}</Text>
+              </View>
+            ))}
+            <Text style={styles.boxTitle}>Attacks & Spellcasting</Text>
+          </View>
+          <View style={styles.box}>
+            <Text>
+              <Text style={styles.bold}>Armor:</Text> {data.proficiencies.armor.join(', ') || '-'}
+            </Text>
+            <Text>
+              <Text style={styles.bold}>Weapons:</Text>{' '}
+              {data.proficiencies.weapons.join(', ') || '-'}
+            </Text>
+            <Text>
+              <Text style={styles.bold}>Tools:</Text> {data.proficiencies.tools.join(', ') || '-'}
+            </Text>
+            <Text>
+              <Text style={styles.bold}>Languages:</Text>{' '}
+              {data.proficiencies.languages.join(', ') || '-'}
+            </Text>
+            <Text style={styles.boxTitle}>Other Proficiencies & Languages</Text>
+          </View>
+        </View>
+      </View>
+    </Page>
+  );
+}
+
+function SpellPage({
+  spellcasting,
+}: {
+  spellcasting: NonNullable<CharacterSheetData['spellcasting']>;
+}) {
+  return (
+    <Page size="LETTER" style={styles.page}>
+      <View style={[styles.row, { marginBottom: 10 }]}>
+        <Stat label="Spellcasting Ability" value={spellcasting.ability} />
+        <Stat label="Spell Save DC" value={spellcasting.saveDC} />
+        <Stat label="Spell Attack Bonus" value={spellcasting.attackBonus} />
+        {spellcasting.pactMagic && (
+          <Stat
+            label={`Pact Magic (level ${spellcasting.pactMagic.level})`}
+            value={`${spellcasting.pactMagic.max - spellcasting.pactMagic.used}/${spellcasting.pactMagic.max}`}
+          />
+        )}
+      </View>
+      <View style={[styles.row, { flexWrap: 'wrap' }]}>
+        {spellcasting.levels.map((level) => (
+          <View key={level.level} style={[styles.box, { width: '32%', marginRight: '1%' }]}>
+            <View style={[styles.tableHeader, { justifyContent: 'space-between' }]}>
+              <Text>{level.level === 0 ? 'Cantrips' : `Level ${level.level}`}</Text>
+              {level.slots && (
+                <Text>
+                  Slots {level.slots.max - level.slots.used}/{level.slots.max}
+                </Text>
+              )}
+            </View>
+            {level.spells.map((spell) => (
+              <View key={spell.name} style={styles.line}>
+                {level.level > 0 && <Dot filled={spell.prepared} />}
+                <Text>
+                  {spell.name} <Text style={styles.muted}>{spell.school}</Text>
+                </Text>
+              </View>
+            ))}
+          </View>
+        ))}
+      </View>
+    </Page>
+  );
+}
+
+function DetailsPage({ data }: { data: CharacterSheetData }) {
+  const { currency, personality } = data;
+  const traits: Array<[string, string[]]> = [
+    ['Personality Traits', personality.traits],
+    ['Ideals', personality.ideals],
+    ['Bonds', personality.bonds],
+    ['Flaws', personality.flaws],
+  ];
+
+  return (
+    <Page size="LETTER" style={styles.page}>
+      <View style={styles.row}>
+        <View style={[styles.column, { width: '40%', marginRight: 8 }]}>
+          <View style={styles.box}>
+            {data.inventory.length === 0 && <Text style={styles.muted}>No items</Text>}
+            {data.inventory.map((item) => (
+              <View key={item.id} style={styles.line}>
+                <Dot filled={item.equipped} />
+                <Text>
+                  {item.name}
+                  {item.quantity > 1 ? ` x${item.quantity}` : ''}
+                </Text>
+              </View>
+            ))}
+            <Text style={styles.boxTitle}>Equipment</Text>
+          </View>
+          <View style={[styles.box, styles.row, { justifyContent: 'space-around' }]}>
+            {(['cp', 'sp', 'ep', 'gp', 'pp'] as const).map((coin) => (
+              <View key={coin} style={{ alignItems: 'center' }}>
+                <Text style={styles.bold}>{currency[coin]}</Text>
+                <Text style={styles.label}>{coin}</Text>
+              </View>
+            ))}
+          </View>
+          {traits.map(([label, entries]) => (
+            <View key={label} style={styles.box}>
+              <Text>{entries.join('\n') || ' '}</Text>
+              <Text style={styles.boxTitle}>{label}</Text>
+            </View>
+          ))}
+        </View>
+
+        <View style={[styles.column, { flex: 1 }]}>
+          <View style={styles.box}>
+            {data.features.map((feature, index) => (
+              <View key={index} style={{ marginBottom: 4 }} wrap={false}>
+                <Text style={styles.bold}>
+                  {feature.name} <Text style={styles.muted}>({feature.source})</Text>
+                </Text>
+                <Text>{feature.description}</Text>
+              </View>
+            ))}
+            <Text style={styles.boxTitle}>Features & Traits</Text>
+          </View>
+          {(personality.backstory || data.notes.length > 0) && (
+            <View style={styles.box}>
+              {personality.backstory ? <Text>{personality.backstory}</Text> : null}
+              {data.notes.map((note, index) => (
+                <Text key={index} style={{ marginTop: 4 }}>
+                  {note}
+                </Text>
+              ))}
+              <Text style={styles.boxTitle}>Backstory & Notes</Text>
+            </View>
+          )}
+        </View>
+      </View>
+    </Page>
+  );
+}
+
+export function CharacterSheetDocument({ data }: { data: CharacterSheetData }) {
+  return (
+    <Document title={`${data.name} - Character Sheet`} author={data.playerName || undefined}>
+      <MainPage data={data} />
+      {data.spellcasting && <SpellPage spellcasting={data.spellcasting} />}
+      <DetailsPage data={data} />
+    </Document>
+  );
+}
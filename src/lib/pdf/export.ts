@@ -0,0 +1,68 @@
+/**
+ * Character Sheet PDF Export
+ *
+ * Renders the sheet in the browser and downloads it. The renderer is loaded
+ * on demand so it stays out of the main bundle; with the static export it
+ * is served from the app's own chunks and works offline.
+ */
+
+import { createElement, type ReactElement } from 'react';
+import type { DocumentProps } from '@react-pdf/renderer';
+
+import type { Character } from '@/types/character';
+import type { Open5eItem } from '@/types/open5e';
+import { buildCharacterSheetData } from './sheet-data';
+
+/**
+ * File name for a character's PDF ("Thorin Oakenshield" → "thorin-oakenshield.pdf")
+ *
+ * @param name - Character name
+ * @returns Safe file name
+ */
+export function getCharacterPdfFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || 'character'}.pdf`;
+}
+
+/**
+ * Render a character sheet PDF
+ *
+ * @param character - Character to export
+ * @param items - Open5E items for the inventory (for armor class)
+ * @returns PDF file contents
+ */
+export async function renderCharacterPdf(
+  character: Character,
+  items: Open5eItem[] = []
+): Promise<Blob> {
+  const [{ pdf }, { CharacterSheetDocument }] = await Promise.all([
+    import('@react-pdf/renderer'),
+    import('./CharacterSheetDocument'),
+  ]);
+  const data = buildCharacterSheetData(character, items);
+  // The element renders a <Document>, which is what pdf() expects
+  const element = createElement(CharacterSheetDocument, { data }) as ReactElement<DocumentProps>;
+  return pdf(element).toBlob();
+}
+
+/**
+ * Render a character sheet PDF and download it
+ *
+ * @param character - Character to export
+ * @param items - Open5E items for the inventory (for armor class)
+ */
+export async function downloadCharacterPdf(
+  character: Character,
+  items: Open5eItem[] = []
+): Promise<void> {
+  const blob = await renderCharacterPdf(character, items);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getCharacterPdfFileName(character.name);
+  link.click();
+  URL.revokeObjectURL(url);
+}
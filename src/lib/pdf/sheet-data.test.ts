@@ -0,0 +1,91 @@
+/**
+ * Character Sheet PDF Data Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+
+import { buildCharacterSheetData } from './sheet-data';
+import { getCharacterPdfFileName } from './export';
+import { mockCharacter, mockSpellcaster } from '@/lib/debug/mockCharacters';
+import type { Character } from '@/types/character';
+import type { Open5eItem } from '@/types/open5e';
+
+describe('buildCharacterSheetData', () => {
+  it('derives modifiers, saves and skills from the ability scores', () => {
+    const data = buildCharacterSheetData({
+      ...mockCharacter,
+      proficiencies: { ...mockCharacter.proficiencies, savingThrows: ['STR', 'CON'] },
+    });
+
+    expect(data.classLine).toBe('Fighter 5');
+    expect(data.proficiencyBonus).toBe('+3');
+    expect(data.abilities.find((a) => a.ability === 'STR')).toMatchObject({
+      score: 18,
+      modifier: '+4',
+      save: '+7',
+      saveProficient: true,
+    });
+    expect(data.abilities.find((a) => a.ability === 'DEX')?.save).toBe('+2');
+    expect(data.skills.find((s) => s.name === 'Athletics')?.modifier).toBe('+7');
+    expect(data.initiative).toBe('+2');
+    expect(data.spellcasting).toBeNull();
+  });
+
+  it('ignores stale stored totals', () => {
+    const stale: Character = {
+      ...mockCharacter,
+      abilityScores: {
+        ...mockCharacter.abilityScores,
+        total: { ...mockCharacter.abilityScores.total, STR: 3 },
+      },
+      skills: mockCharacter.skills.map((s) => ({ ...s, bonus: 99 })),
+    };
+    const data = buildCharacterSheetData(stale);
+
+    expect(data.abilities[0].score).toBe(18);
+    expect(data.skills.every((s) => s.modifier !== '+99')).toBe(true);
+  });
+
+  it('recomputes attack bonuses and damage', () => {
+    const data = buildCharacterSheetData(mockCharacter);
+    expect(data.attacks[0]).toMatchObject({
+      name: 'Longsword',
+      bonus: '+7',
+      damage: '1d8 + 4 slashing',
+    });
+  });
+
+  it('calculates armor class from equipped armor when items are available', () => {
+    const chainMail = {
+      key: 'chain-mail',
+      armor_category: 'Heavy Armor',
+      armor_class: 16,
+    } as Open5eItem;
+    const character: Character = {
+      ...mockCharacter,
+      inventory: [
+        { id: 'armor', name: 'Chain Mail', quantity: 1, equipped: true, itemKey: 'chain-mail' },
+      ],
+    };
+
+    expect(buildCharacterSheetData(character, [chainMail]).armorClass).toBe(16);
+    expect(buildCharacterSheetData(character).armorClass).toBe(mockCharacter.combat.ac.total);
+  });
+
+  it('groups spells by level with slots and spellcasting stats', () => {
+    const data = buildCharacterSheetData(mockSpellcaster);
+
+    expect(data.spellcasting?.ability).toBe('INT');
+    expect(data.spellcasting?.saveDC).toBe(mockSpellcaster.spellcasting?.saveDC);
+    const levelOne = data.spellcasting?.levels.find((l) => l.level === 1);
+    expect(levelOne?.slots).toEqual({ level: 1, max: 4, used: 1 });
+    expect(levelOne?.spells.length).toBeGreaterThan(0);
+  });
+});
+
+describe('getCharacterPdfFileName', () => {
+  it('slugifies the character name', () => {
+    expect(getCharacterPdfFileName('Thorin Oakenshield')).toBe('thorin-oakenshield.pdf');
+    expect(getCharacterPdfFileName('  ')).toBe('character.pdf');
+  });
+});
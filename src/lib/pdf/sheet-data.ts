@@ -0,0 +1,193 @@
+/**
+ * Character Sheet PDF Data
+ *
+ * Derives every number printed on the PDF sheet from the character's
+ * ability scores, proficiencies and level with the engine functions,
+ * instead of copying the stored totals.
+ */
+
+import { ABILITY_SCORES, SKILLS, type AbilityScore, type SpellSlot } from '@/types/game';
+import type { Character, KnownSpell } from '@/types/character';
+import type { Open5eItem } from '@/types/open5e';
+import { calculateModifier, formatModifier } from '@/lib/engine/ability-scores';
+import { formatDamage } from '@/lib/engine/combat';
+import { deriveCharacterStats } from '@/lib/engine/derived-stats';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SheetAbility {
+  ability: AbilityScore;
+  score: number;
+  modifier: string;
+  save: string;
+  saveProficient: boolean;
+}
+
+export interface SheetSkill {
+  name: string;
+  ability: AbilityScore;
+  modifier: string;
+  proficiency: Character['skills'][number]['proficiency'];
+}
+
+export interface SheetAttack {
+  name: string;
+  bonus: string;
+  damage: string;
+  range: string;
+}
+
+export interface SheetSpellLevel {
+  level: number;
+  slots: SpellSlot | null;
+  spells: Array<Pick<KnownSpell, 'name' | 'school' | 'prepared'>>;
+}
+
+export interface CharacterSheetData {
+  name: string;
+  playerName: string;
+  classLine: string;
+  race: string;
+  background: string;
+  alignment: string;
+  level: number;
+  experiencePoints: number;
+  proficiencyBonus: string;
+  abilities: SheetAbility[];
+  skills: SheetSkill[];
+  passivePerception: number;
+  armorClass: number;
+  initiative: string;
+  speed: number;
+  hitPoints: { current: number; max: number; temp: number };
+  hitDice: string;
+  deathSaves: Character['combat']['deathSaves'];
+  attacks: SheetAttack[];
+  proficiencies: Character['proficiencies'];
+  spellcasting: {
+    ability: AbilityScore;
+    saveDC: number;
+    attackBonus: string;
+    pactMagic: SpellSlot | null;
+    levels: SheetSpellLevel[];
+  } | null;
+  inventory: Character['inventory'];
+  currency: Character['currency'];
+  features: Array<{ name: string; source: string; description: string }>;
+  personality: Character['personality'];
+  notes: string[];
+}
+
+// ============================================================================
+// Derivation
+// ============================================================================
+
+/**
+ * Build the values printed on the character sheet PDF
+ *
+ * @param character - Character to export
+ * @param items - Open5E items for the inventory, used to find equipped armor
+ *   (the stored AC is used when they are not available)
+ * @returns Sheet data with derived modifiers, saves, skills, AC and spell stats
+ */
+export function buildCharacterSheetData(
+  character: Character,
+  items: Open5eItem[] = []
+): CharacterSheetData {
+  const stats = deriveCharacterStats(character, { items });
+  const totals = stats.abilityScores.total;
+  const level = character.level;
+  const proficiencyBonus = stats.proficiencyBonus;
+
+  const skills = SKILLS.map((skill) => {
+    const modifier = stats.skills[skill.key];
+    return {
+      name: skill.name,
+      ability: skill.ability,
+      modifier: formatModifier(modifier.total),
+      proficiency: modifier.proficiencyLevel,
+    };
+  });
+
+  const attacks = character.actions.flatMap((action) => {
+    const attack = action.attackDetails;
+    if (!action.isAttack || !attack) return [];
+    const abilityModifier = calculateModifier(totals[attack.ability]);
+    const dice = attack.damage.match(/^\d+d\d+/)?.[0];
+    return [
+      {
+        name: attack.name,
+        bonus: formatModifier(abilityModifier + proficiencyBonus),
+        damage: `${dice ? formatDamage({ dice, abilityModifier, magicBonus: 0 }) : attack.damage} ${attack.damageType}`,
+        range: attack.range,
+      },
+    ];
+  });
+
+  const spellcasting = character.spellcasting;
+  const spellAbility = spellcasting?.ability;
+  let spellSheet: CharacterSheetData['spellcasting'] = null;
+  if (spellcasting && spellAbility) {
+    const levels: SheetSpellLevel[] = [];
+    for (let spellLevel = 0; spellLevel <= 9; spellLevel++) {
+      const spells = spellcasting.knownSpells
+        .filter((s) => s.level === spellLevel)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(({ name, school, prepared }) => ({ name, school, prepared }));
+      const slots = spellcasting.slots.find((s) => s.level === spellLevel && s.max > 0) ?? null;
+      if (spells.length > 0 || slots) levels.push({ level: spellLevel, slots, spells });
+    }
+    spellSheet = {
+      ability: stats.spellcasting?.ability ?? spellAbility,
+      saveDC: stats.spellcasting?.saveDC ?? spellcasting.saveDC,
+      attackBonus: formatModifier(stats.spellcasting?.attackBonus ?? spellcasting.attackBonus),
+      pactMagic: spellcasting.pactMagic ?? null,
+      levels,
+    };
+  }
+
+  return {
+    name: character.name,
+    playerName: character.playerName,
+    classLine: character.classes.map((c) => `${c.name} ${c.level}`).join(' / '),
+    race: character.race.name,
+    background: character.background.name,
+    alignment: character.alignment,
+    level,
+    experiencePoints: character.experiencePoints,
+    proficiencyBonus: formatModifier(proficiencyBonus),
+    abilities: ABILITY_SCORES.map((ability) => ({
+      ability,
+      score: totals[ability],
+      modifier: formatModifier(stats.abilityScores.modifier[ability]),
+      save: formatModifier(stats.savingThrows[ability].total),
+      saveProficient: stats.savingThrows[ability].isProficient,
+    })),
+    skills,
+    passivePerception: stats.passivePerception,
+    armorClass: stats.armorClass.total,
+    initiative: formatModifier(stats.initiative.total),
+    speed: stats.speed,
+    hitPoints: {
+      current: character.combat.currentHp,
+      max: stats.maxHp,
+      temp: character.combat.tempHp,
+    },
+    hitDice: `${character.combat.hitDice.total - character.combat.hitDice.used}/${character.combat.hitDice.total} ${character.combat.hitDice.type}`,
+    deathSaves: character.combat.deathSaves,
+    attacks,
+    proficiencies: character.proficiencies,
+    spellcasting: spellSheet,
+    inventory: character.inventory,
+    currency: character.currency,
+    features: character.features.map(({ name, source, description }) => ({
+      name,
+      source,
+      description,
+    })),
+    personality: character.personality,
+    notes: character.sessionNotes.map((note) => note.content),
+  };
+}
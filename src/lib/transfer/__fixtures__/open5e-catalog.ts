@@ -0,0 +1,209 @@
+/**
+ * Open5E content the importer fixtures are matched against
+ */
+
+import type {
+  Open5eBackground,
+  Open5eClass,
+  Open5eFeat,
+  Open5eItem,
+  Open5eRace,
+  Open5eSpell,
+} from '@/types/open5e';
+import type { ImportCatalog } from '../external';
+
+const entity = (key: string, name: string) => ({
+  key,
+  name,
+  url: `https://api.open5e.com/v2/${key}/`,
+  document: 'wotc-srd',
+});
+
+const feature = (key: string, name: string, level: number) => ({
+  key,
+  name,
+  description: `${name} description`,
+  level,
+});
+
+function createClass(
+  key: string,
+  name: string,
+  hitDice: string,
+  features: ReturnType<typeof feature>[],
+  archetypes: Open5eClass['archetypes'] = []
+): Open5eClass {
+  return {
+    ...entity(key, name),
+    description: '',
+    hit_dice: hitDice,
+    hp_at_1st_level: '',
+    hp_at_higher_levels: '',
+    prof_armor: '',
+    prof_weapons: '',
+    prof_tools: '',
+    prof_saving_throws: [],
+    prof_skills: '',
+    equipment: '',
+    spellcasting_ability: null,
+    subtypes_name: '',
+    archetypes,
+    class_features: features,
+  } as Open5eClass;
+}
+
+function createItem(key: string, name: string, overrides: Partial<Open5eItem> = {}): Open5eItem {
+  return {
+    ...entity(key, name),
+    type: 'gear',
+    description: '',
+    cost: '',
+    weight: null,
+    damage_dice: null,
+    damage_type: null,
+    properties: [],
+    category: '',
+    armor_class: null,
+    armor_category: null,
+    strength_requirement: null,
+    stealth_disadvantage: false,
+    ...overrides,
+  };
+}
+
+function createSpell(key: string, name: string, level: number, school: string): Open5eSpell {
+  return {
+    ...entity(key, name),
+    level,
+    school,
+    casting_time: '1 action',
+    range: '120 feet',
+    duration: 'Instantaneous',
+    concentration: false,
+    ritual: false,
+    components: ['V', 'S'],
+    material: null,
+    desc: `${name} description`,
+    higher_levels: null,
+    classes: ['wizard'],
+    circles: null,
+    archetypes: null,
+  };
+}
+
+const classes = [
+  createClass(
+    'fighter',
+    'Fighter',
+    '1d10',
+    [feature('second-wind', 'Second Wind', 1), feature('action-surge', 'Action Surge', 2)],
+    [
+      {
+        key: 'champion',
+        name: 'Champion',
+        description: '',
+        features: [feature('improved-critical', 'Improved Critical', 3)],
+      },
+    ]
+  ),
+  createClass('wizard', 'Wizard', '1d6', [feature('arcane-recovery', 'Arcane Recovery', 1)]),
+  createClass(
+    'rogue',
+    'Rogue',
+    '1d8',
+    [feature('sneak-attack', 'Sneak Attack', 1), feature('cunning-action', 'Cunning Action', 2)],
+    [
+      {
+        key: 'thief',
+        name: 'Thief',
+        description: '',
+        features: [feature('fast-hands', 'Fast Hands', 3)],
+      },
+    ]
+  ),
+];
+
+const species: Open5eRace[] = [
+  {
+    ...entity('dwarf', 'Dwarf'),
+    description: '',
+    speed: 25,
+    size: 'medium',
+    languages: [],
+    language_desc: '',
+    traits: [
+      { name: 'Darkvision', description: 'See in the dark.' },
+      { name: 'Dwarven Resilience', description: 'Resist poison.' },
+    ],
+    subraces: [
+      {
+        key: 'hill-dwarf',
+        name: 'Hill Dwarf',
+        description: '',
+        traits: [{ name: 'Dwarven Toughness', description: 'More hit points.' }],
+      },
+    ],
+  },
+  {
+    ...entity('elf', 'Elf'),
+    description: '',
+    speed: 30,
+    size: 'medium',
+    languages: [],
+    language_desc: '',
+    traits: [{ name: 'Fey Ancestry', description: 'Resist charm.' }],
+    subraces: [
+      {
+        key: 'wood-elf',
+        name: 'Wood Elf',
+        description: '',
+        traits: [{ name: 'Mask of the Wild', description: 'Hide in nature.' }],
+      },
+    ],
+  },
+];
+
+const backgrounds = [
+  {
+    ...entity('soldier', 'Soldier'),
+    description: '',
+    skill_proficiencies: [],
+    tool_proficiencies: [],
+    languages: [],
+    equipment: '',
+    feature: 'Military Rank',
+    feature_description: 'You have a military rank.',
+    personality_traits: [],
+    ideals: [],
+    bonds: [],
+    flaws: [],
+  },
+] as Open5eBackground[];
+
+const feats: Open5eFeat[] = [{ ...entity('tough', 'Tough'), desc: 'Gain hit points.' }];
+
+const spells = [
+  createSpell('fire-bolt', 'Fire Bolt', 0, 'evocation'),
+  createSpell('magic-missile', 'Magic Missile', 1, 'evocation'),
+  createSpell('shield', 'Shield', 1, 'abjuration'),
+  createSpell('minor-illusion', 'Minor Illusion', 0, 'illusion'),
+];
+
+const items = [
+  createItem('chain-mail', 'Chain Mail', { armor_class: 16, armor_category: 'Heavy' }),
+  createItem('leather-armor', 'Leather Armor', { armor_class: 11, armor_category: 'Light' }),
+  createItem('shield-item', 'Shield', { armor_class: 2, armor_category: 'Shield' }),
+  createItem('longsword', 'Longsword', { damage_dice: '1d8', damage_type: 'slashing' }),
+  createItem('handaxe', 'Handaxe', { damage_dice: '1d6', damage_type: 'slashing' }),
+  createItem('shortsword', 'Shortsword', { damage_dice: '1d6', damage_type: 'piercing' }),
+  createItem('thieves-tools', "Thieves' tools"),
+];
+
+export const importCatalog: ImportCatalog = {
+  classes,
+  species,
+  backgrounds,
+  feats,
+  spells,
+  items,
+};
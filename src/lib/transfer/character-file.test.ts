@@ -0,0 +1,146 @@
+/**
+ * Character File Tests
+ * @module transfer/character-file.test
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { db } from '@/lib/db/database';
+import {
+  createCharacterFile,
+  getCharacterFileName,
+  importCharacterFile,
+  parseCharacterFile,
+} from './character-file';
+import { CHARACTER_FILE_FORMAT, CHARACTER_FILE_VERSION } from './migrations';
+import { mockCharacter } from '@/lib/debug/mockCharacters';
+
+function serialize(value: unknown): string {
+  return JSON.stringify(value);
+}
+
+describe('Character Files', () => {
+  beforeEach(async () => {
+    if (!db.isOpen()) {
+      await db.open();
+    }
+    await Promise.all([db.characters.clear(), db.campaigns.clear()]);
+  });
+
+  describe('createCharacterFile', () => {
+    it('should wrap the character in a versioned envelope', () => {
+      const file = createCharacterFile(mockCharacter, ['wotc-srd']);
+
+      expect(file).toMatchObject({
+        format: CHARACTER_FILE_FORMAT,
+        schemaVersion: CHARACTER_FILE_VERSION,
+        edition: mockCharacter.edition,
+        documentKeys: ['wotc-srd'],
+        character: mockCharacter,
+      });
+    });
+  });
+
+  describe('getCharacterFileName', () => {
+    it('should slugify the character name', () => {
+      expect(getCharacterFileName('Aldric the Bold!')).toBe('aldric-the-bold.dndnb.json');
+      expect(getCharacterFileName('???')).toBe('character.dndnb.json');
+    });
+  });
+
+  describe('parseCharacterFile', () => {
+    it('should round-trip an exported character with dates restored', () => {
+      const result = parseCharacterFile(serialize(createCharacterFile(mockCharacter, [])));
+
+      expect(result.valid).toBe(true);
+      if (!result.valid) return;
+      expect(result.migratedFrom).toBeNull();
+      expect(result.file.character.createdAt).toBeInstanceOf(Date);
+      expect(result.file.character).toEqual(mockCharacter);
+    });
+
+    it('should report invalid JSON', () => {
+      expect(parseCharacterFile('{not json')).toEqual({
+        valid: false,
+        errors: ['The file is not valid JSON'],
+      });
+    });
+
+    it('should report every invalid field with its path', () => {
+      const file = serialize({
+        ...createCharacterFile(mockCharacter, []),
+        documentKeys: 'wotc-srd',
+        character: { ...mockCharacter, level: 0, currency: { ...mockCharacter.currency, gp: -5 } },
+      });
+
+      expect(parseCharacterFile(file)).toEqual({
+        valid: false,
+        errors: [
+          'documentKeys: expected an array of strings',
+          'character.level: must be at least 1, got 0',
+          'character.currency.gp: must be at least 0, got -5',
+        ],
+      });
+    });
+
+    it('should reject an envelope whose edition disagrees with the character', () => {
+      const file = serialize({ ...createCharacterFile(mockCharacter, []), edition: '2024' });
+
+      expect(parseCharacterFile(file)).toEqual({
+        valid: false,
+        errors: ['edition: file says 2024 but the character is 2014'],
+      });
+    });
+
+    it('should migrate bare characters from older exports', () => {
+      const result = parseCharacterFile(serialize(mockCharacter));
+
+      expect(result.valid).toBe(true);
+      if (!result.valid) return;
+      expect(result.migratedFrom).toBe(0);
+      expect(result.file.character.name).toBe(mockCharacter.name);
+    });
+  });
+
+  describe('importCharacterFile', () => {
+    it('should store the character under its own ID', async () => {
+      const result = await importCharacterFile(
+        serialize(createCharacterFile(mockCharacter, ['wotc-srd']))
+      );
+
+      expect(result).toMatchObject({ valid: true, idChanged: false, campaignRemoved: false });
+      const stored = await db.characters.toArray();
+      expect(stored.map((c) => c.id)).toEqual([mockCharacter.id]);
+    });
+
+    it('should give the character a new ID when it already exists', async () => {
+      const text = serialize(createCharacterFile(mockCharacter, []));
+      await importCharacterFile(text);
+
+      const result = await importCharacterFile(text);
+
+      expect(result).toMatchObject({ valid: true, idChanged: true });
+      if (!result.valid) return;
+      expect(result.character.id).not.toBe(mockCharacter.id);
+      expect(await db.characters.count()).toBe(2);
+    });
+
+    it('should drop links to campaigns that do not exist here', async () => {
+      const text = serialize(
+        createCharacterFile({ ...mockCharacter, campaignId: 'elsewhere' }, [])
+      );
+
+      const result = await importCharacterFile(text);
+
+      expect(result).toMatchObject({ valid: true, campaignRemoved: true });
+      if (!result.valid) return;
+      expect(result.character.campaignId).toBeUndefined();
+    });
+
+    it('should not store anything when the file is invalid', async () => {
+      const result = await importCharacterFile(serialize({ ...mockCharacter, level: 'five' }));
+
+      expect(result.valid).toBe(false);
+      expect(await db.characters.count()).toBe(0);
+    });
+  });
+});
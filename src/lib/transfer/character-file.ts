@@ -0,0 +1,205 @@
+/**
+ * Character Files
+ *
+ * Export a single character as a versioned JSON file and import it again,
+ * e.g. to share a character with the DM. Files carry the schema version,
+ * edition and the Open5E documents the character uses; older files are
+ * migrated forward and every field is validated before anything is stored.
+ * @module transfer/character-file
+ */
+
+import type { Character } from '@/types/character';
+import type { Edition } from '@/types/game';
+import { db } from '@/lib/db/database';
+import { saveImportedCharacter } from '@/lib/db/characters';
+import {
+  CHARACTER_FILE_FORMAT,
+  CHARACTER_FILE_VERSION,
+  migrateCharacterPayload,
+} from './migrations';
+import { formatValidationErrors, validateCharacterData } from './validation';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Versioned envelope around an exported character */
+export interface CharacterFile {
+  format: typeof CHARACTER_FILE_FORMAT;
+  /** Character schema version the file was written with */
+  schemaVersion: number;
+  exportedAt: string;
+  edition: Edition;
+  /** Open5E documents (rulebooks) the character's content comes from */
+  documentKeys: string[];
+  character: Character;
+}
+
+export type CharacterFileParseResult =
+  | { valid: true; file: CharacterFile; migratedFrom: number | null }
+  | { valid: false; errors: string[] };
+
+export type CharacterImportResult =
+  | {
+      valid: true;
+      character: Character;
+      /** The file's ID was already taken, so the character got a new one */
+      idChanged: boolean;
+      /** The campaign the character belonged to does not exist here */
+      campaignRemoved: boolean;
+      migratedFrom: number | null;
+    }
+  | { valid: false; errors: string[] };
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Wrap a character in a versioned file envelope
+ * @param character - Character to export
+ * @param documentKeys - Open5E documents the character uses
+ * @returns Character file
+ */
+export function createCharacterFile(character: Character, documentKeys: string[]): CharacterFile {
+  return {
+    format: CHARACTER_FILE_FORMAT,
+    schemaVersion: CHARACTER_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    edition: character.edition,
+    documentKeys: [...documentKeys],
+    character,
+  };
+}
+
+/**
+ * File name for a character's export ("Thorin Oakenshield" → "thorin-oakenshield.dndnb.json")
+ * @param name - Character name
+ * @returns Safe file name
+ */
+export function getCharacterFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `${slug || 'character'}.dndnb.json`;
+}
+
+/**
+ * Download a character as a JSON file
+ * @param character - Character to export
+ * @param documentKeys - Open5E documents the character uses
+ */
+export function downloadCharacterFile(character: Character, documentKeys: string[]): void {
+  downloadJsonFile(
+    createCharacterFile(character, documentKeys),
+    getCharacterFileName(character.name)
+  );
+}
+
+/**
+ * Download data as a pretty-printed JSON file
+ * @param data - Data to serialize
+ * @param fileName - Name of the downloaded file
+ */
+export function downloadJsonFile(data: unknown, fileName: string): void {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Parse, migrate and validate a character file
+ * @param text - File contents
+ * @returns The file with dates restored, or readable errors ("character.combat.maxHp: …")
+ */
+export function parseCharacterFile(text: string): CharacterFileParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { valid: false, errors: ['The file is not valid JSON'] };
+  }
+
+  const migrated = migrateCharacterPayload(parsed);
+  if ('error' in migrated) {
+    return { valid: false, errors: [migrated.error] };
+  }
+
+  const { payload, fromVersion } = migrated;
+  const errors: string[] = [];
+  if (typeof payload.exportedAt !== 'string') {
+    errors.push('exportedAt: expected a string');
+  }
+  if (
+    !Array.isArray(payload.documentKeys) ||
+    payload.documentKeys.some((k) => typeof k !== 'string')
+  ) {
+    errors.push('documentKeys: expected an array of strings');
+  }
+  errors.push(...formatValidationErrors(validateCharacterData(payload.character, 'character')));
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const character = payload.character as Character;
+  if (payload.edition !== character.edition) {
+    return {
+      valid: false,
+      errors: [
+        `edition: file says ${String(payload.edition)} but the character is ${character.edition}`,
+      ],
+    };
+  }
+
+  return {
+    valid: true,
+    file: {
+      ...(payload as unknown as CharacterFile),
+      character: {
+        ...character,
+        createdAt: new Date(character.createdAt),
+        updatedAt: new Date(character.updatedAt),
+        sessionNotes: character.sessionNotes.map((note) => ({
+          ...note,
+          timestamp: new Date(note.timestamp),
+        })),
+      },
+    },
+    migratedFrom: fromVersion === CHARACTER_FILE_VERSION ? null : fromVersion,
+  };
+}
+
+/**
+ * Import a character file into the local database
+ * The character gets a new ID if one with the same ID already exists, and
+ * loses its campaign link if that campaign is not in this browser.
+ * @param text - File contents
+ * @returns The stored character, or readable errors
+ */
+export async function importCharacterFile(text: string): Promise<CharacterImportResult> {
+  const parsed = parseCharacterFile(text);
+  if (!parsed.valid) return parsed;
+
+  const { campaignId, ...character } = parsed.file.character;
+  const campaignExists = campaignId ? (await db.campaigns.get(campaignId)) !== undefined : false;
+  const { character: stored, idChanged } = await saveImportedCharacter(
+    campaignExists ? { ...character, campaignId } : character
+  );
+
+  return {
+    valid: true,
+    character: stored,
+    idChanged,
+    campaignRemoved: campaignId !== undefined && !campaignExists,
+    migratedFrom: parsed.migratedFrom,
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * D&D Beyond Import Tests
+ * @module transfer/dndbeyond.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getDndBeyondCharacter, importDndBeyondCharacter } from './dndbeyond';
+import { EMPTY_IMPORT_CATALOG } from './external';
+import { validateCharacterData } from './validation';
+import { importCatalog } from './__fixtures__/open5e-catalog';
+import fixture from './__fixtures__/dndbeyond-character.json';
+
+function importFixture() {
+  const result = importDndBeyondCharacter(fixture, importCatalog);
+  if (!result.valid) throw new Error(result.errors.join('\n'));
+  return result;
+}
+
+describe('getDndBeyondCharacter', () => {
+  it('should unwrap the character service response', () => {
+    expect(getDndBeyondCharacter(fixture)?.name).toBe('Thorin Stonehelm');
+    expect(getDndBeyondCharacter(fixture.data)?.name).toBe('Thorin Stonehelm');
+  });
+
+  it('should not recognise other JSON', () => {
+    expect(getDndBeyondCharacter({ name: 'Thorin' })).toBeNull();
+    expect(getDndBeyondCharacter('Thorin')).toBeNull();
+  });
+});
+
+describe('importDndBeyondCharacter', () => {
+  it('should produce a valid character', () => {
+    const { character } = importFixture();
+    const now = new Date();
+    expect(
+      validateCharacterData({ ...character, id: 'imported', createdAt: now, updatedAt: now })
+    ).toEqual([]);
+  });
+
+  it('should map identity, species, background and alignment', () => {
+    const { character } = importFixture();
+
+    expect(character.name).toBe('Thorin Stonehelm');
+    expect(character.race).toEqual({ key: 'dwarf', name: 'Dwarf', subrace: 'Hill Dwarf' });
+    expect(character.background).toEqual({ key: 'soldier', name: 'Soldier' });
+    expect(character.alignment).toBe('Lawful Neutral');
+    expect(character.experiencePoints).toBe(6500);
+    expect(character.edition).toBe('2014');
+  });
+
+  it('should put the starting class first and link subclasses', () => {
+    const { character } = importFixture();
+
+    expect(character.level).toBe(5);
+    expect(character.classes).toEqual([
+      {
+        key: 'fighter',
+        name: 'Fighter',
+        level: 3,
+        hitDiceValue: 10,
+        isPrimary: true,
+        archetype: 'champion',
+      },
+      { key: 'wizard', name: 'Wizard', level: 2, hitDiceValue: 6, isPrimary: false },
+    ]);
+    expect(character.combat.hitDice).toEqual({ type: 'd10', total: 5, used: 0 });
+  });
+
+  it('should separate species bonuses from base scores', () => {
+    const { abilityScores } = importFixture().character;
+
+    expect(abilityScores.base).toEqual({ STR: 15, DEX: 12, CON: 14, INT: 13, WIS: 10, CHA: 8 });
+    expect(abilityScores.racialBonus).toMatchObject({ CON: 2, WIS: 1 });
+    expect(abilityScores.otherBonus).toMatchObject({ CHA: 1 });
+    expect(abilityScores.total).toEqual({ STR: 15, DEX: 12, CON: 16, INT: 13, WIS: 11, CHA: 9 });
+  });
+
+  it('should compute hit points, armor class and speed', () => {
+    const { combat } = importFixture().character;
+
+    // 30 base + 5 bonus + CON +3 × 5 levels
+    expect(combat.maxHp).toBe(50);
+    expect(combat.currentHp).toBe(42);
+    expect(combat.tempHp).toBe(3);
+    // Chain mail and shield
+    expect(combat.ac.total).toBe(18);
+    expect(combat.speed).toBe(25);
+  });
+
+  it('should read proficiencies, saves and skills', () => {
+    const { character } = importFixture();
+
+    expect(character.proficiencies).toEqual({
+      armor: ['Light Armor', 'Medium Armor', 'Heavy Armor', 'Shields'],
+      weapons: ['Battleaxe', 'Simple Weapons', 'Martial Weapons'],
+      tools: ["Smith's Tools", 'Vehicles (Land)'],
+      languages: ['Common', 'Dwarvish'],
+      savingThrows: ['STR', 'CON'],
+    });
+    expect(character.skills.map((s) => [s.skillKey, s.proficiency])).toEqual([
+      ['perception', 'proficient'],
+      ['athletics', 'expertise'],
+      ['intimidation', 'proficient'],
+    ]);
+  });
+
+  it('should link inventory to Open5E items', () => {
+    const { inventory } = importFixture().character;
+
+    expect(inventory.map((item) => [item.name, item.itemKey, item.quantity])).toEqual([
+      ['Chain Mail', 'chain-mail', 1],
+      ['Shield', 'shield-item', 1],
+      ['Longsword', 'longsword', 1],
+      ['Handaxe', 'handaxe', 2],
+      ['Lucky Rabbit Foot', undefined, 1],
+    ]);
+  });
+
+  it('should build spellcasting from the caster class', () => {
+    const { spellcasting } = importFixture().character;
+
+    expect(spellcasting).toMatchObject({
+      ability: 'INT',
+      saveDC: 12,
+      attackBonus: 4,
+      slots: [{ level: 1, max: 3, used: 0 }],
+      preparedSpells: [{ spellKey: 'magic-missile', level: 1 }],
+    });
+    expect(spellcasting?.knownSpells.map((s) => [s.spellKey, s.prepared])).toEqual([
+      ['fire-bolt', true],
+      ['magic-missile', true],
+      ['shield', false],
+    ]);
+  });
+
+  it('should match features to Open5E and keep the rest as custom features', () => {
+    const { features } = importFixture().character;
+    const byName = Object.fromEntries(features.map((f) => [f.name, f]));
+
+    expect(byName['Second Wind']).toMatchObject({
+      id: 'class-second-wind',
+      sourceKey: 'second-wind',
+      description: 'Regain 1d10 + fighter level hit points.',
+    });
+    expect(byName['Action Surge'].description).toBe('Action Surge description');
+    expect(byName['Improved Critical'].source).toBe('Class: Fighter (Champion)');
+    expect(byName['Dwarven Toughness'].source).toBe('Species: Hill Dwarf');
+    expect(byName['Military Rank'].source).toBe('Background: Soldier');
+    expect(byName.Tough.sourceKey).toBe('tough');
+    expect(byName.Stonecunning).toMatchObject({ source: 'Species: Hill Dwarf' });
+    expect(byName.Stonecunning.sourceKey).toBeUndefined();
+    // Above the class level
+    expect(byName.Indomitable).toBeUndefined();
+  });
+
+  it('should report what was approximated', () => {
+    const { approximations, character } = importFixture();
+
+    expect(approximations.map((a) => [a.section, a.name])).toEqual([
+      ['item', 'Lucky Rabbit Foot'],
+      ['feature', 'Stonecunning'],
+      ['spell', "Tasha's Hideous Laughter"],
+    ]);
+    expect(character.features.some((f) => f.name === "Tasha's Hideous Laughter")).toBe(true);
+  });
+
+  it('should keep personality, appearance and currency', () => {
+    const { character } = importFixture();
+
+    expect(character.personality.traits).toEqual([
+      'I face problems head-on.',
+      "I'm always polite and respectful.",
+    ]);
+    expect(character.personality.backstory).toBe('Served in the Ironhold guard.');
+    expect(character.appearance).toMatchObject({ age: '112', weight: '160 lb.', eyes: 'Grey' });
+    expect(character.currency).toEqual({ cp: 12, sp: 4, ep: 0, gp: 87, pp: 1 });
+  });
+
+  it('should report everything as approximated without Open5E content', () => {
+    const result = importDndBeyondCharacter(fixture, EMPTY_IMPORT_CATALOG);
+
+    expect(result.valid).toBe(true);
+    if (!result.valid) return;
+    expect(result.character.classes[0]).toMatchObject({ key: 'fighter', hitDiceValue: 10 });
+    expect(result.approximations.filter((a) => a.section === 'class')).toHaveLength(3);
+  });
+
+  it('should reject other JSON', () => {
+    expect(importDndBeyondCharacter({}, importCatalog)).toEqual({
+      valid: false,
+      errors: ['Not a D&D Beyond character'],
+    });
+  });
+});
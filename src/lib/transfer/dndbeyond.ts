@@ -0,0 +1,376 @@
+/**
+ * D&D Beyond Import
+ *
+ * Reads the character JSON served by D&D Beyond's character service (the
+ * file community export tools save, with or without the `{ success, data }`
+ * wrapper) into an ExternalCharacter for conversion.
+ * @module transfer/dndbeyond
+ */
+
+import {
+  ABILITY_SCORES,
+  ALIGNMENTS,
+  calculateModifier,
+  type AbilityScore,
+  type Edition,
+  type ProficiencyLevel,
+} from '@/types/game';
+import { findSkillKey } from '@/lib/engine/character-builder';
+import {
+  convertExternalCharacter,
+  createAbilityRecord,
+  stripHtml,
+  type ExternalCharacter,
+  type ExternalImportResult,
+  type ImportCatalog,
+} from './external';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface DdbDefinition {
+  name?: string;
+  description?: string;
+  level?: number;
+  requiredLevel?: number;
+  hitDice?: number;
+}
+
+interface DdbModifier {
+  type?: string;
+  subType?: string;
+  value?: number | null;
+  friendlySubtypeName?: string;
+}
+
+interface DdbSpell {
+  definition?: DdbDefinition;
+  prepared?: boolean;
+  alwaysPrepared?: boolean;
+}
+
+/** The parts of a D&D Beyond character the importer reads */
+export interface DdbCharacter {
+  name?: string;
+  alignmentId?: number | null;
+  currentXp?: number;
+  race?: {
+    fullName?: string;
+    baseName?: string;
+    baseRaceName?: string;
+    isSubRace?: boolean;
+    racialTraits?: { definition?: DdbDefinition }[];
+    weightSpeeds?: { normal?: { walk?: number } };
+  } | null;
+  classes?: {
+    level?: number;
+    isStartingClass?: boolean;
+    definition?: DdbDefinition;
+    subclassDefinition?: DdbDefinition | null;
+    classFeatures?: { definition?: DdbDefinition }[];
+  }[];
+  background?: {
+    definition?: { name?: string; featureName?: string; featureDescription?: string } | null;
+  } | null;
+  stats?: { id: number; value: number | null }[];
+  bonusStats?: { id: number; value: number | null }[];
+  overrideStats?: { id: number; value: number | null }[];
+  modifiers?: Record<string, DdbModifier[] | undefined>;
+  baseHitPoints?: number;
+  bonusHitPoints?: number | null;
+  overrideHitPoints?: number | null;
+  removedHitPoints?: number;
+  temporaryHitPoints?: number;
+  inventory?: { definition?: DdbDefinition; quantity?: number; equipped?: boolean }[];
+  currencies?: { cp?: number; sp?: number; ep?: number; gp?: number; pp?: number };
+  classSpells?: { spells?: DdbSpell[] }[];
+  spells?: Record<string, DdbSpell[] | null | undefined>;
+  feats?: { definition?: DdbDefinition }[];
+  traits?: {
+    personalityTraits?: string | null;
+    ideals?: string | null;
+    bonds?: string | null;
+    flaws?: string | null;
+    appearance?: string | null;
+  };
+  notes?: {
+    backstory?: string | null;
+    allies?: string | null;
+    enemies?: string | null;
+    otherNotes?: string | null;
+  };
+  age?: number | null;
+  hair?: string | null;
+  eyes?: string | null;
+  skin?: string | null;
+  height?: string | null;
+  weight?: number | null;
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/** D&D Beyond stat IDs 1-6 in order */
+const ABILITY_NAMES: Record<AbilityScore, string> = {
+  STR: 'strength',
+  DEX: 'dexterity',
+  CON: 'constitution',
+  INT: 'intelligence',
+  WIS: 'wisdom',
+  CHA: 'charisma',
+};
+
+const PROFICIENCY_RANK: ProficiencyLevel[] = ['none', 'half', 'proficient', 'expertise'];
+
+const MODIFIER_PROFICIENCY: Record<string, ProficiencyLevel> = {
+  'half-proficiency': 'half',
+  proficiency: 'proficient',
+  expertise: 'expertise',
+};
+
+/**
+ * Unwrap the character from a D&D Beyond response
+ * @param payload - Parsed JSON
+ * @returns The character, or null if the JSON is not a D&D Beyond character
+ */
+export function getDndBeyondCharacter(payload: unknown): DdbCharacter | null {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) return null;
+  const record = payload as Record<string, unknown>;
+  const character = (
+    typeof record.data === 'object' && record.data !== null ? record.data : record
+  ) as Record<string, unknown>;
+  const isCharacter =
+    Array.isArray(character.stats) &&
+    Array.isArray(character.classes) &&
+    typeof character.modifiers === 'object';
+  return isCharacter ? (character as DdbCharacter) : null;
+}
+
+function lines(text: string | null | undefined): string[] {
+  return (text ?? '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+function statValue(stats: DdbCharacter['stats'], index: number): number | null {
+  return stats?.find((stat) => stat.id === index + 1)?.value ?? null;
+}
+
+/**
+ * Read a D&D Beyond character into the shared import shape
+ * @param character - Character from getDndBeyondCharacter
+ * @param edition - Rules edition for the character (D&D Beyond exports do not say)
+ * @returns Character data ready for matching
+ */
+export function readDndBeyondCharacter(
+  character: DdbCharacter,
+  edition: Edition = '2014'
+): ExternalCharacter {
+  const modifierGroups = character.modifiers ?? {};
+  const allModifiers = Object.values(modifierGroups).flatMap((group) => group ?? []);
+
+  // Ability scores: species (and 2024 background) bonuses are kept apart from other bonuses
+  const abilityScores = createAbilityRecord(10);
+  const racialBonus = createAbilityRecord(0);
+  const otherBonus = createAbilityRecord(0);
+  ABILITY_SCORES.forEach((ability, index) => {
+    const override = statValue(character.overrideStats, index);
+    abilityScores[ability] = override ?? statValue(character.stats, index) ?? 10;
+    if (override !== null) return;
+    otherBonus[ability] += statValue(character.bonusStats, index) ?? 0;
+    for (const [group, modifiers] of Object.entries(modifierGroups)) {
+      for (const modifier of modifiers ?? []) {
+        if (modifier.type !== 'bonus' || modifier.subType !== `${ABILITY_NAMES[ability]}-score`) {
+          continue;
+        }
+        const target = group === 'race' || group === 'background' ? racialBonus : otherBonus;
+        target[ability] += modifier.value ?? 0;
+      }
+    }
+  });
+
+  // Proficiencies
+  const savingThrows: AbilityScore[] = [];
+  const skillLevels = new Map<string, ProficiencyLevel>();
+  const proficiencies = {
+    armor: [] as string[],
+    weapons: [] as string[],
+    tools: [] as string[],
+    languages: [] as string[],
+  };
+  const add = (list: string[], value: string) => {
+    if (value && !list.includes(value)) list.push(value);
+  };
+  for (const modifier of allModifiers) {
+    const subType = modifier.subType ?? '';
+    const label = modifier.friendlySubtypeName ?? subType;
+    if (modifier.type === 'language') {
+      add(proficiencies.languages, label);
+      continue;
+    }
+    const level = MODIFIER_PROFICIENCY[modifier.type ?? ''];
+    if (!level) continue;
+
+    const save = ABILITY_SCORES.find((a) => subType === `${ABILITY_NAMES[a]}-saving-throws`);
+    const skillKey = findSkillKey(subType);
+    if (save) {
+      if (!savingThrows.includes(save)) savingThrows.push(save);
+    } else if (/armor$|^shields?$/.test(subType)) {
+      add(proficiencies.armor, label);
+    } else if (/weapons$/.test(subType)) {
+      add(proficiencies.weapons, label);
+    } else if (/(tools|kit|supplies|set|utensils|vehicles|instrument)s?$/.test(subType)) {
+      add(proficiencies.tools, label);
+    } else if (/saving-throws$|^choose-/.test(subType)) {
+      continue;
+    } else if (skillKey) {
+      const current = skillLevels.get(skillKey) ?? 'none';
+      if (PROFICIENCY_RANK.indexOf(level) > PROFICIENCY_RANK.indexOf(current)) {
+        skillLevels.set(skillKey, level);
+      }
+    } else {
+      // Individual weapons ("longsword", "hand-crossbow")
+      add(proficiencies.weapons, label);
+    }
+  }
+
+  // Classes, starting class first
+  const classes = [...(character.classes ?? [])].sort(
+    (a, b) => Number(b.isStartingClass ?? false) - Number(a.isStartingClass ?? false)
+  );
+  const level = classes.reduce((total, c) => total + (c.level ?? 0), 0);
+
+  // Hit points (base hit points exclude the Constitution modifier)
+  const conScore = abilityScores.CON + racialBonus.CON + otherBonus.CON;
+  const maxHp =
+    character.overrideHitPoints ??
+    (character.baseHitPoints ?? 0) +
+      (character.bonusHitPoints ?? 0) +
+      calculateModifier(conScore) * level;
+
+  // Spells from class lists and from species, items and feats
+  const spells = [
+    ...(character.classSpells ?? []).flatMap((list) => list.spells ?? []),
+    ...Object.values(character.spells ?? {}).flatMap((list) => list ?? []),
+  ].map((spell) => ({
+    name: spell.definition?.name ?? '',
+    level: spell.definition?.level ?? 0,
+    prepared: Boolean(spell.prepared || spell.alwaysPrepared),
+  }));
+
+  const features: ExternalCharacter['features'] = [
+    ...classes.flatMap((c) =>
+      (c.classFeatures ?? [])
+        .filter((f) => (f.definition?.requiredLevel ?? 1) <= (c.level ?? 0))
+        .map((f) => ({
+          name: f.definition?.name ?? '',
+          description: f.definition?.description ?? '',
+          source: 'class' as const,
+          origin: c.definition?.name,
+          level: f.definition?.requiredLevel,
+        }))
+    ),
+    ...(character.race?.racialTraits ?? []).map((t) => ({
+      name: t.definition?.name ?? '',
+      description: t.definition?.description ?? '',
+      source: 'species' as const,
+    })),
+    ...(character.feats ?? []).map((f) => ({
+      name: f.definition?.name ?? '',
+      description: f.definition?.description ?? '',
+      source: 'feat' as const,
+    })),
+  ];
+  const backgroundDefinition = character.background?.definition;
+  if (backgroundDefinition?.featureName) {
+    features.push({
+      name: backgroundDefinition.featureName,
+      description: backgroundDefinition.featureDescription ?? '',
+      source: 'background',
+    });
+  }
+
+  const race = character.race;
+  const speciesName = race?.baseRaceName ?? race?.baseName ?? race?.fullName;
+
+  return {
+    name: character.name ?? '',
+    playerName: '',
+    edition,
+    species: speciesName
+      ? {
+          name: speciesName,
+          ...(race?.isSubRace && race.fullName ? { subrace: race.fullName } : {}),
+        }
+      : null,
+    background: backgroundDefinition?.name ?? null,
+    // Alignment IDs 1-9 follow the usual grid order
+    alignment: character.alignmentId ? (ALIGNMENTS[character.alignmentId - 1] ?? null) : null,
+    experiencePoints: character.currentXp ?? 0,
+    classes: classes.map((c) => ({
+      name: c.definition?.name ?? '',
+      level: c.level ?? 0,
+      ...(c.subclassDefinition?.name ? { subclass: c.subclassDefinition.name } : {}),
+      ...(c.definition?.hitDice ? { hitDie: c.definition.hitDice } : {}),
+    })),
+    abilityScores,
+    racialBonus,
+    otherBonus,
+    savingThrows,
+    skills: Array.from(skillLevels, ([name, proficiency]) => ({ name, proficiency })),
+    hitPoints: {
+      max: maxHp,
+      current: maxHp - (character.removedHitPoints ?? 0),
+      temp: character.temporaryHitPoints ?? 0,
+    },
+    speed: race?.weightSpeeds?.normal?.walk ?? null,
+    proficiencies,
+    items: (character.inventory ?? []).map((entry) => ({
+      name: entry.definition?.name ?? '',
+      quantity: entry.quantity ?? 1,
+      equipped: entry.equipped ?? false,
+    })),
+    spells: spells.filter((spell) => spell.name),
+    features: features.filter((feature) => feature.name),
+    currency: { ...character.currencies },
+    personality: {
+      traits: lines(character.traits?.personalityTraits),
+      ideals: lines(character.traits?.ideals),
+      bonds: lines(character.traits?.bonds),
+      flaws: lines(character.traits?.flaws),
+      appearance: character.traits?.appearance ?? '',
+      backstory: stripHtml(character.notes?.backstory),
+      allies: stripHtml(character.notes?.allies),
+      enemies: stripHtml(character.notes?.enemies),
+      notes: stripHtml(character.notes?.otherNotes),
+    },
+    appearance: {
+      age: character.age ? String(character.age) : '',
+      height: character.height ?? '',
+      weight: character.weight ? `${character.weight} lb.` : '',
+      eyes: character.eyes ?? '',
+      skin: character.skin ?? '',
+      hair: character.hair ?? '',
+    },
+  };
+}
+
+/**
+ * Import a D&D Beyond character
+ * @param payload - Parsed D&D Beyond JSON
+ * @param catalog - Open5E content to match names against
+ * @param edition - Rules edition for the character
+ * @returns The converted character and what was approximated, or errors
+ */
+export function importDndBeyondCharacter(
+  payload: unknown,
+  catalog: ImportCatalog,
+  edition: Edition = '2014'
+): ExternalImportResult {
+  const character = getDndBeyondCharacter(payload);
+  if (!character) return { valid: false, errors: ['Not a D&D Beyond character'] };
+  return convertExternalCharacter(readDndBeyondCharacter(character, edition), catalog);
+}
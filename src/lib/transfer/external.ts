@@ -0,0 +1,594 @@
+/**
+ * External Character Conversion
+ *
+ * Shared mapping for characters coming from other tools (D&D Beyond,
+ * Foundry VTT). Each importer reads its own format into an
+ * ExternalCharacter; this module matches the names it found against Open5E
+ * content and builds a complete Character, recording everything that had to
+ * be approximated so the player can review it.
+ * @module transfer/external
+ */
+
+import {
+  ABILITY_SCORES,
+  ALIGNMENTS,
+  CLASS_HIT_DICE,
+  type AbilityScore,
+  type Alignment,
+  type Appearance,
+  type CharacterFeature,
+  type Currency,
+  type DieType,
+  type Edition,
+  type EquipmentItem,
+  type Personality,
+  type ProficiencyLevel,
+  type SpellLevel,
+} from '@/types/game';
+import type { CharacterClass, KnownSpell, Spellcasting } from '@/types/character';
+import type {
+  Open5eBackground,
+  Open5eClass,
+  Open5eEntity,
+  Open5eFeat,
+  Open5eItem,
+  Open5eRace,
+  Open5eSpell,
+} from '@/types/open5e';
+import { toOpen5eDisplayString } from '@/lib/utils';
+import { calculateAbilityScores } from '@/lib/engine/ability-scores';
+import {
+  findSkillKey,
+  getEngineClassKey,
+  parseHitDie,
+  resolveArmor,
+  type NewCharacter,
+} from '@/lib/engine/character-builder';
+import { calculateAC, calculateInitiative } from '@/lib/engine/combat';
+import { calculateMulticlassSpellcasting } from '@/lib/engine/multiclass';
+import { calculateSkillModifier } from '@/lib/engine/proficiency';
+import { calculateSpellcastingStats, isSpellcaster } from '@/lib/engine/spellcasting';
+import { matchEquipmentItem } from '@/lib/engine/starting-equipment';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Open5E content that imported names are matched against */
+export interface ImportCatalog {
+  classes: Open5eClass[];
+  species: Open5eRace[];
+  backgrounds: Open5eBackground[];
+  feats: Open5eFeat[];
+  spells: Open5eSpell[];
+  /** Weapons, armor, gear and magic items */
+  items: Open5eItem[];
+}
+
+export const EMPTY_IMPORT_CATALOG: ImportCatalog = {
+  classes: [],
+  species: [],
+  backgrounds: [],
+  feats: [],
+  spells: [],
+  items: [],
+};
+
+/** Something that could not be matched exactly and was kept in a simpler form */
+export interface ImportApproximation {
+  section: 'class' | 'species' | 'background' | 'alignment' | 'item' | 'spell' | 'feature';
+  name: string;
+  message: string;
+}
+
+export type ExternalFeatureSource = 'class' | 'species' | 'background' | 'feat' | 'other';
+
+/** A character read from another tool's export, before matching */
+export interface ExternalCharacter {
+  name: string;
+  playerName: string;
+  edition: Edition;
+  species: { name: string; subrace?: string } | null;
+  background: string | null;
+  alignment: string | null;
+  experiencePoints: number;
+  /** Starting class first */
+  classes: { name: string; level: number; subclass?: string; hitDie?: number }[];
+  /** Scores before species bonuses (or final scores with no bonuses) */
+  abilityScores: Record<AbilityScore, number>;
+  racialBonus: Record<AbilityScore, number>;
+  otherBonus: Record<AbilityScore, number>;
+  savingThrows: AbilityScore[];
+  skills: { name: string; proficiency: ProficiencyLevel }[];
+  hitPoints: { max: number; current: number; temp: number };
+  hitDiceUsed?: number;
+  deathSaves?: { successes: number; failures: number };
+  /** Used spell slots by slot level */
+  spellSlotsUsed?: Partial<Record<SpellLevel, number>>;
+  pactSlotsUsed?: number;
+  speed: number | null;
+  proficiencies: { armor: string[]; weapons: string[]; tools: string[]; languages: string[] };
+  items: { name: string; quantity: number; equipped: boolean }[];
+  spells: { name: string; level: number; prepared: boolean }[];
+  features: {
+    name: string;
+    description: string;
+    source: ExternalFeatureSource;
+    /** Class, species or feat the feature belongs to, when known */
+    origin?: string;
+    level?: number;
+    uses?: CharacterFeature['uses'];
+  }[];
+  currency: Partial<Currency>;
+  personality: Partial<Personality>;
+  appearance: Partial<Appearance>;
+}
+
+export type ExternalImportResult =
+  | { valid: true; character: NewCharacter; approximations: ImportApproximation[] }
+  | { valid: false; errors: string[] };
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const DEFAULT_SPEED = 30;
+
+/**
+ * Create a record with every ability set to the same value
+ * @param value - Value for each ability
+ * @returns Ability record
+ */
+export function createAbilityRecord(value: number): Record<AbilityScore, number> {
+  return Object.fromEntries(ABILITY_SCORES.map((ability) => [ability, value])) as Record<
+    AbilityScore,
+    number
+  >;
+}
+
+/**
+ * Strip HTML tags and entities from rich text descriptions
+ * @param html - HTML text
+ * @returns Plain text with paragraphs on separate lines
+ */
+export function stripHtml(html: string | null | undefined): string {
+  if (!html) return '';
+  return html
+    .replace(/<\/(p|div|li|h\d)>|<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&rsquo;/g, "'")
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+/**
+ * Find Open5E content by name, ignoring case and punctuation. When both
+ * editions have an entry with the name, the one for the character's edition wins.
+ *
+ * @param entries - Open5E entries to search
+ * @param name - Name from the import
+ * @param edition - Character edition
+ * @returns Matched entry, or undefined
+ */
+export function findByName<T extends Pick<Open5eEntity, 'name'> & { document?: string }>(
+  entries: T[],
+  name: string,
+  edition: Edition
+): T | undefined {
+  const target = normalizeName(name);
+  if (!target) return undefined;
+  const matches = entries.filter((entry) => normalizeName(entry.name) === target);
+  return (
+    matches.find((entry) => (entry.document ?? '').includes('2024') === (edition === '2024')) ??
+    matches[0]
+  );
+}
+
+function toAlignment(value: string | null): Alignment | null {
+  if (!value) return null;
+  const target = normalizeName(value);
+  if (target === 'neutral' || target === 'n') return 'True Neutral';
+  const initials: Record<string, Alignment> = Object.fromEntries(
+    ALIGNMENTS.map((a) => [
+      a
+        .split(' ')
+        .map((word) => word[0].toLowerCase())
+        .join(''),
+      a,
+    ])
+  );
+  return ALIGNMENTS.find((a) => normalizeName(a) === target) ?? initials[target] ?? null;
+}
+
+// ============================================================================
+// Conversion
+// ============================================================================
+
+/**
+ * Build a Character from another tool's data, matching classes, species,
+ * background, items, spells and features to Open5E content by name.
+ * Unmatched items and features are kept as custom entries, and unmatched
+ * spells become features; each is listed in the approximations.
+ *
+ * @param data - Character read from the external format
+ * @param catalog - Open5E content to match against
+ * @returns The character (without ID or timestamps) and what was approximated
+ */
+export function convertExternalCharacter(
+  data: ExternalCharacter,
+  catalog: ImportCatalog
+): ExternalImportResult {
+  const { edition } = data;
+  const approximations: ImportApproximation[] = [];
+  const approximate = (section: ImportApproximation['section'], name: string, message: string) =>
+    approximations.push({ section, name, message });
+
+  const name = data.name.trim();
+  if (!name) return { valid: false, errors: ['The character has no name'] };
+  const importedClasses = data.classes.filter((c) => c.level > 0);
+  if (importedClasses.length === 0) {
+    return { valid: false, errors: ['The character has no class levels'] };
+  }
+
+  // Classes
+  const classData = importedClasses.map((c) => findByName(catalog.classes, c.name, edition));
+  const classes: CharacterClass[] = importedClasses.map((imported, index) => {
+    const matched = classData[index];
+    const key = matched ? getEngineClassKey(matched) : slugify(imported.name);
+    if (!matched) {
+      approximate('class', imported.name, 'Not found in Open5E; kept as a custom class');
+    }
+    const archetype = imported.subclass
+      ? matched?.archetypes?.find(
+          (a) => normalizeName(a.name) === normalizeName(imported.subclass!)
+        )
+      : undefined;
+    if (imported.subclass && !archetype) {
+      approximate('class', imported.subclass, 'Subclass not found in Open5E; not linked');
+    }
+    return {
+      key,
+      name: matched?.name ?? imported.name,
+      level: Math.min(20, imported.level),
+      hitDiceValue:
+        imported.hitDie ?? parseHitDie(matched?.hit_dice, parseHitDie(CLASS_HIT_DICE[key])),
+      isPrimary: index === 0,
+      ...(archetype ? { archetype: archetype.key } : {}),
+    };
+  });
+  const level = Math.min(
+    20,
+    classes.reduce((total, c) => total + c.level, 0)
+  );
+
+  // Species and background
+  let species = data.species ? findByName(catalog.species, data.species.name, edition) : undefined;
+  let subrace =
+    species && data.species?.subrace
+      ? species.subraces?.find(
+          (s) => normalizeName(s.name) === normalizeName(data.species!.subrace!)
+        )
+      : undefined;
+  if (data.species && !species) {
+    // Exports often name only the subrace ("Hill Dwarf")
+    for (const candidate of catalog.species) {
+      const match = candidate.subraces?.find(
+        (s) => normalizeName(s.name) === normalizeName(data.species!.subrace ?? data.species!.name)
+      );
+      if (match) {
+        species = candidate;
+        subrace = match;
+        break;
+      }
+    }
+  }
+  if (data.species && !species) {
+    approximate('species', data.species.name, 'Not found in Open5E; kept by name only');
+  }
+  const background = data.background
+    ? findByName(catalog.backgrounds, data.background, edition)
+    : undefined;
+  if (data.background && !background) {
+    approximate('background', data.background, 'Not found in Open5E; kept by name only');
+  }
+
+  const alignment = toAlignment(data.alignment);
+  if (data.alignment && !alignment) {
+    approximate('alignment', data.alignment, 'Not a standard alignment; set to True Neutral');
+  }
+
+  // Ability scores and skills
+  const scores = calculateAbilityScores(
+    data.abilityScores,
+    data.racialBonus,
+    createAbilityRecord(0),
+    data.otherBonus
+  );
+  const totals = scores.total;
+  const skills = data.skills
+    .filter((skill) => skill.proficiency !== 'none')
+    .flatMap((skill) => {
+      const skillKey = findSkillKey(skill.name);
+      if (!skillKey) return [];
+      return [
+        {
+          skillKey,
+          proficiency: skill.proficiency,
+          bonus: calculateSkillModifier(skillKey, totals, skill.proficiency, level).total,
+          source: 'Imported',
+        },
+      ];
+    });
+
+  // Inventory
+  const inventory: EquipmentItem[] = data.items.map((imported, index) => {
+    const item = matchEquipmentItem(imported.name, catalog.items);
+    if (!item) {
+      approximate('item', imported.name, 'Not found in Open5E; added as a custom item');
+    }
+    return {
+      id: `item-${item?.key ?? slugify(imported.name)}-${index}`,
+      name: item?.name ?? imported.name,
+      quantity: Math.max(0, Math.floor(imported.quantity)),
+      equipped: imported.equipped,
+      ...(item ? { itemKey: item.key } : {}),
+    };
+  });
+  const armor = resolveArmor(inventory, catalog.items);
+  const ac = calculateAC(armor.armorType, armor.armorBase, totals.DEX, armor.hasShield);
+
+  // Features: matched against the classes, subclasses, species traits and feats
+  const features: CharacterFeature[] = [];
+  const featureNames = new Set<string>();
+  const addFeature = (feature: CharacterFeature) => {
+    const key = normalizeName(feature.name);
+    if (featureNames.has(key)) return;
+    featureNames.add(key);
+    features.push(feature);
+  };
+
+  for (const imported of data.features) {
+    const target = normalizeName(imported.name);
+    const description = stripHtml(imported.description);
+    let matched: CharacterFeature | null = null;
+
+    if (imported.source === 'class' || imported.source === 'other') {
+      for (const [index, c] of classData.entries()) {
+        const archetypeKey = classes[index].archetype;
+        const archetype = c?.archetypes?.find((a) => a.key === archetypeKey);
+        const classFeature = [...(c?.class_features ?? []), ...(archetype?.features ?? [])].find(
+          (f) => normalizeName(f.name) === target
+        );
+        if (c && classFeature) {
+          const fromArchetype = archetype?.features.includes(classFeature);
+          matched = {
+            id: `${fromArchetype ? 'archetype' : 'class'}-${classFeature.key}`,
+            name: classFeature.name,
+            description: description || classFeature.description,
+            source: fromArchetype ? `Class: ${c.name} (${archetype!.name})` : `Class: ${c.name}`,
+            sourceKey: classFeature.key,
+            level: classFeature.level,
+          };
+          break;
+        }
+      }
+    }
+    if (!matched && (imported.source === 'species' || imported.source === 'other') && species) {
+      const trait = [...(species.traits ?? []), ...(subrace?.traits ?? [])].find(
+        (t) => normalizeName(t.name) === target
+      );
+      if (trait) {
+        matched = {
+          id: `species-${slugify(trait.name)}`,
+          name: trait.name,
+          description: description || trait.description,
+          source: `Species: ${subrace?.name ?? species.name}`,
+        };
+      }
+    }
+    if (!matched && (imported.source === 'feat' || imported.source === 'other')) {
+      const feat = findByName(catalog.feats, imported.name, edition);
+      if (feat) {
+        matched = {
+          id: `feat-${feat.key}`,
+          name: feat.name,
+          description: description || feat.desc,
+          source: `Feat: ${feat.name}`,
+          sourceKey: feat.key,
+        };
+      }
+    }
+    if (!matched && imported.source === 'background' && background?.feature) {
+      if (normalizeName(background.feature) === target) {
+        matched = {
+          id: `background-${slugify(background.feature)}`,
+          name: background.feature,
+          description: description || background.feature_description,
+          source: `Background: ${background.name}`,
+        };
+      }
+    }
+
+    if (matched) {
+      addFeature(imported.uses ? { ...matched, uses: imported.uses } : matched);
+      continue;
+    }
+    approximate('feature', imported.name, 'Not found in Open5E; added as a custom feature');
+    const origin = imported.origin ?? '';
+    const sources: Record<ExternalFeatureSource, string> = {
+      class: `Class: ${origin || classes[0].name}`,
+      species: `Species: ${origin || subrace?.name || species?.name || data.species?.name || ''}`,
+      background: `Background: ${origin || background?.name || data.background || ''}`,
+      feat: `Feat: ${origin || imported.name}`,
+      other: origin || 'Imported',
+    };
+    addFeature({
+      id: `imported-${slugify(imported.name)}-${features.length}`,
+      name: imported.name,
+      description,
+      source: sources[imported.source],
+      ...(imported.level !== undefined ? { level: imported.level } : {}),
+      ...(imported.uses ? { uses: imported.uses } : {}),
+    });
+  }
+
+  // Spells: casters get a spellcasting block, unmatched spells become features
+  const casterClass = classes.find((c) => isSpellcaster(c.key));
+  const stats = casterClass ? calculateSpellcastingStats(casterClass.key, totals, level) : null;
+  const knownSpells: KnownSpell[] = [];
+  for (const imported of data.spells) {
+    const spell = findByName(catalog.spells, imported.name, edition);
+    if (!spell || !stats) {
+      approximate(
+        'spell',
+        imported.name,
+        spell
+          ? 'No spellcasting class; added as a feature'
+          : 'Not found in Open5E; added as a feature'
+      );
+      addFeature({
+        id: `spell-${slugify(imported.name)}`,
+        name: imported.name,
+        description: spell?.desc ?? '',
+        source: 'Spell',
+        ...(spell ? { sourceKey: spell.key } : {}),
+      });
+      continue;
+    }
+    if (knownSpells.some((s) => s.spellKey === spell.key)) continue;
+    const spellLevel = Math.min(9, Math.max(0, spell.level)) as SpellLevel;
+    knownSpells.push({
+      id: `spell-${spell.key}`,
+      spellKey: spell.key,
+      name: spell.name,
+      level: spellLevel,
+      school: toOpen5eDisplayString(spell.school),
+      prepared: spellLevel === 0 || imported.prepared,
+    });
+  }
+  let spellcasting: Spellcasting | null = null;
+  if (stats) {
+    const { slots, pactMagic } = calculateMulticlassSpellcasting(
+      classes.map((c) => ({ classKey: c.key, level: c.level })),
+      {
+        slots: Object.entries(data.spellSlotsUsed ?? {}).map(([slotLevel, used]) => ({
+          level: Number(slotLevel) as SpellLevel,
+          max: used ?? 0,
+          used: used ?? 0,
+        })),
+        pactMagic: data.pactSlotsUsed
+          ? { level: 1, max: data.pactSlotsUsed, used: data.pactSlotsUsed }
+          : null,
+      }
+    );
+    spellcasting = {
+      ability: stats.ability,
+      saveDC: stats.saveDC,
+      attackBonus: stats.attackBonus,
+      slots,
+      pactMagic,
+      preparedSpells: knownSpells
+        .filter((s) => s.prepared && s.level > 0)
+        .map((s) => ({ spellKey: s.spellKey, level: s.level })),
+      knownSpells,
+    };
+  }
+
+  const maxHp = Math.max(1, Math.round(data.hitPoints.max));
+  const hitDie = `d${classes[0].hitDiceValue}` as DieType;
+
+  return {
+    valid: true,
+    approximations,
+    character: {
+      name,
+      playerName: data.playerName,
+      race: {
+        key: species?.key ?? '',
+        name: species?.name ?? data.species?.name ?? '',
+        ...(subrace ? { subrace: subrace.name } : {}),
+      },
+      classes,
+      background: {
+        key: background?.key ?? '',
+        name: background?.name ?? data.background ?? '',
+      },
+      alignment: alignment ?? 'True Neutral',
+      level,
+      experiencePoints: Math.max(0, Math.floor(data.experiencePoints)),
+      edition,
+      abilityScores: {
+        ...scores,
+        override: { STR: null, DEX: null, CON: null, INT: null, WIS: null, CHA: null },
+        generationMethod: 'manual',
+      },
+      skills,
+      combat: {
+        maxHp,
+        currentHp: Math.min(maxHp, Math.max(0, Math.round(data.hitPoints.current))),
+        tempHp: Math.max(0, Math.round(data.hitPoints.temp)),
+        ac: {
+          base: ac.base,
+          dexModifier: ac.dexModifier,
+          bonus: ac.shieldBonus + ac.magicBonus + ac.featureBonus,
+          total: ac.total,
+        },
+        initiative: calculateInitiative(totals.DEX).total,
+        speed: data.speed ?? species?.speed ?? DEFAULT_SPEED,
+        hitDice: {
+          type: hitDie,
+          total: level,
+          used: Math.min(level, Math.max(0, data.hitDiceUsed ?? 0)),
+        },
+        deathSaves: data.deathSaves ?? { successes: 0, failures: 0 },
+      },
+      proficiencies: { ...data.proficiencies, savingThrows: data.savingThrows },
+      spellcasting,
+      inventory,
+      currency: { cp: 0, sp: 0, ep: 0, gp: 0, pp: 0, ...data.currency },
+      features,
+      actions: [],
+      conditions: [],
+      personality: {
+        traits: [],
+        ideals: [],
+        bonds: [],
+        flaws: [],
+        appearance: '',
+        backstory: '',
+        allies: '',
+        enemies: '',
+        notes: '',
+        ...data.personality,
+      },
+      appearance: {
+        age: '',
+        height: '',
+        weight: '',
+        eyes: '',
+        skin: '',
+        hair: '',
+        other: '',
+        ...data.appearance,
+      },
+      sessionNotes: [],
+      overrides: {},
+    },
+  };
+}
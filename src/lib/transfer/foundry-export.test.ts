@@ -0,0 +1,198 @@
+/**
+ * Foundry VTT Export Tests
+ * @module transfer/foundry-export.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createFoundryActor, getFoundryActorFileName } from './foundry-export';
+import { importFoundryActor } from './foundry';
+import { EMPTY_IMPORT_CATALOG } from './external';
+import { importCatalog } from './__fixtures__/open5e-catalog';
+import { mockCharacter, mockSpellcaster } from '@/lib/debug/mockCharacters';
+import type { Character } from '@/types/character';
+
+type Actor = ReturnType<typeof createFoundryActor>;
+type ActorSystem = {
+  abilities: Record<string, { value: number; proficient: number }>;
+  skills: Record<string, { value: number }>;
+  attributes: { hp: { value: number; max: number }; ac: { flat: number } };
+  traits: Record<string, { value: string[]; custom: string }>;
+  spells: Record<string, { value: number; override: number | null }>;
+};
+
+const fighter: Character = {
+  ...mockCharacter,
+  proficiencies: { ...mockCharacter.proficiencies, savingThrows: ['STR', 'CON'] },
+};
+
+const system = (actor: Actor) => actor.system as ActorSystem;
+const itemsOfType = (actor: Actor, type: string) => actor.items.filter((i) => i.type === type);
+
+function roundTrip(character: Character): Omit<Character, 'id' | 'createdAt' | 'updatedAt'> {
+  const actor = JSON.parse(JSON.stringify(createFoundryActor(character, importCatalog)));
+  const result = importFoundryActor(actor, importCatalog);
+  if (!result.valid) throw new Error(result.errors.join('\n'));
+  return result.character;
+}
+
+describe('createFoundryActor', () => {
+  it('should write abilities, saves and skills', () => {
+    const actor = createFoundryActor(fighter, importCatalog);
+
+    expect(actor.type).toBe('character');
+    expect(system(actor).abilities.str).toEqual({ value: 18, proficient: 1 });
+    expect(system(actor).abilities.dex).toEqual({ value: 14, proficient: 0 });
+    expect(system(actor).skills.ath).toEqual({ value: 1 });
+    expect(system(actor).skills.acr).toEqual({ value: 0 });
+    expect(Object.keys(system(actor).skills)).toHaveLength(18);
+  });
+
+  it('should write HP, AC and proficiencies', () => {
+    const actor = createFoundryActor(mockCharacter, importCatalog);
+
+    expect(system(actor).attributes.hp.max).toBe(mockCharacter.combat.maxHp);
+    expect(system(actor).attributes.ac.flat).toBe(mockCharacter.combat.ac.total);
+    expect(system(actor).traits.languages).toEqual({ value: ['common', 'dwarvish'], custom: '' });
+  });
+
+  it('should embed class items with spent hit dice', () => {
+    const character = {
+      ...mockCharacter,
+      combat: { ...mockCharacter.combat, hitDice: { ...mockCharacter.combat.hitDice, used: 2 } },
+    };
+    const [fighter] = itemsOfType(createFoundryActor(character, importCatalog), 'class');
+
+    expect(fighter.name).toBe('Fighter');
+    expect(fighter.system).toMatchObject({
+      identifier: 'fighter',
+      levels: 5,
+      hd: { denomination: 'd10', spent: 2 },
+    });
+  });
+
+  it('should type inventory items from their Open5E entry', () => {
+    const actor = createFoundryActor(mockCharacter, importCatalog);
+    const byName = new Map(actor.items.map((item) => [item.name, item]));
+
+    expect(byName.get('Longsword')?.type).toBe('weapon');
+    expect(byName.get('Chain Mail')?.system).toMatchObject({
+      type: { value: 'heavy' },
+      armor: { value: 16, dex: 0 },
+    });
+    expect(byName.get("Explorer's Pack")?.type).toBe('loot');
+  });
+
+  it('should resolve spell descriptions and write remaining slots', () => {
+    const actor = createFoundryActor(mockSpellcaster, importCatalog);
+    const missile = itemsOfType(actor, 'spell').find((s) => s.name === 'Magic Missile');
+
+    expect(missile?.system).toMatchObject({
+      level: 1,
+      school: 'evo',
+      description: { value: '<p>Magic Missile description</p>' },
+      range: { value: 120, units: 'ft' },
+      activation: { type: 'action', cost: 1 },
+    });
+    expect(system(actor).spells.spell1).toEqual({ value: 3, override: 4 });
+    expect(system(actor).spells.spell4).toEqual({ value: 0, override: null });
+  });
+
+  it('should write features with their origin and uses', () => {
+    const actor = createFoundryActor(mockCharacter, importCatalog);
+    const secondWind = itemsOfType(actor, 'feat').find((f) => f.name === 'Second Wind');
+
+    expect(secondWind?.system).toMatchObject({
+      type: { value: 'class' },
+      requirements: 'Fighter 1',
+      uses: { per: 'sr' },
+    });
+  });
+
+  it('should export without Open5E content', () => {
+    const actor = createFoundryActor(mockSpellcaster, EMPTY_IMPORT_CATALOG);
+
+    expect(itemsOfType(actor, 'spell')).toHaveLength(
+      mockSpellcaster.spellcasting!.knownSpells.length
+    );
+    expect(actor.items.every((item) => /^[a-z0-9]{16}$/.test(item._id))).toBe(true);
+  });
+});
+
+describe('Foundry round trip', () => {
+  it('should keep classes, scores and proficiencies', () => {
+    const imported = roundTrip(fighter);
+
+    expect(imported.name).toBe(mockCharacter.name);
+    expect(
+      imported.classes.map(({ key, level, hitDiceValue }) => ({ key, level, hitDiceValue }))
+    ).toEqual([{ key: 'fighter', level: 5, hitDiceValue: 10 }]);
+    expect(imported.abilityScores.total).toEqual(mockCharacter.abilityScores.total);
+    expect(imported.proficiencies.savingThrows).toEqual(['STR', 'CON']);
+    expect(imported.proficiencies.languages).toEqual(mockCharacter.proficiencies.languages);
+    expect(imported.proficiencies.armor).toEqual(mockCharacter.proficiencies.armor);
+    expect(
+      imported.skills
+        .filter((s) => s.proficiency !== 'none')
+        .map((s) => s.skillKey)
+        .sort()
+    ).toEqual(
+      mockCharacter.skills
+        .filter((s) => s.proficiency !== 'none')
+        .map((s) => s.skillKey)
+        .sort()
+    );
+  });
+
+  it('should keep hit points, hit dice and death saves', () => {
+    const character: Character = {
+      ...mockCharacter,
+      combat: {
+        ...mockCharacter.combat,
+        currentHp: 20,
+        hitDice: { ...mockCharacter.combat.hitDice, used: 3 },
+        deathSaves: { successes: 1, failures: 2 },
+      },
+    };
+    const imported = roundTrip(character);
+
+    expect(imported.combat.currentHp).toBe(20);
+    expect(imported.combat.maxHp).toBe(mockCharacter.combat.maxHp);
+    expect(imported.combat.hitDice.used).toBe(3);
+    expect(imported.combat.deathSaves).toEqual({ successes: 1, failures: 2 });
+  });
+
+  it('should keep inventory and features', () => {
+    const imported = roundTrip(mockCharacter);
+
+    expect(
+      imported.inventory.map(({ name, quantity, equipped }) => ({ name, quantity, equipped }))
+    ).toEqual(
+      mockCharacter.inventory.map(({ name, quantity, equipped }) => ({ name, quantity, equipped }))
+    );
+    expect(imported.features.map(({ name, source, uses }) => ({ name, source, uses }))).toEqual(
+      mockCharacter.features.map(({ name, source, uses }) => ({ name, source, uses }))
+    );
+  });
+
+  it('should keep spells and used slots', () => {
+    const imported = roundTrip(mockSpellcaster);
+    const catalogSpells = mockSpellcaster.spellcasting!.knownSpells.filter((spell) =>
+      importCatalog.spells.some((s) => s.key === spell.spellKey)
+    );
+
+    expect(imported.spellcasting?.knownSpells.map((s) => [s.name, s.level, s.prepared])).toEqual(
+      catalogSpells.map((s) => [s.name, s.level, s.prepared])
+    );
+    expect(imported.spellcasting?.slots.find((s) => s.level === 1)).toMatchObject({
+      max: 4,
+      used: 1,
+    });
+  });
+});
+
+describe('getFoundryActorFileName', () => {
+  it('should follow Foundry export naming', () => {
+    expect(getFoundryActorFileName('Aldric the Bold')).toBe('fvtt-Actor-aldric-the-bold.json');
+    expect(getFoundryActorFileName('!!!')).toBe('fvtt-Actor-character.json');
+  });
+});
@@ -0,0 +1,512 @@
+/**
+ * Foundry VTT Export
+ *
+ * Turns a character into a dnd5e system actor that can be imported in
+ * Foundry VTT ("Import Data" on an actor). Classes, species, background,
+ * inventory, spells and features become embedded items; anything linked to
+ * Open5E is resolved to the full entry so descriptions come along. Actions
+ * and conditions have no equivalent in the actor data and are not exported.
+ * @module transfer/foundry-export
+ */
+
+import {
+  ABILITY_SCORES,
+  SPELL_LEVELS,
+  type AbilityScore,
+  type CharacterFeature,
+  type ProficiencyLevel,
+} from '@/types/game';
+import type { Character, KnownSpell } from '@/types/character';
+import type { Open5eItem, Open5eSpell } from '@/types/open5e';
+import { toOpen5eDisplayString } from '@/lib/utils';
+import { getEngineClassKey } from '@/lib/engine/character-builder';
+import { downloadJsonFile } from './character-file';
+import type { ImportCatalog } from './external';
+import { FOUNDRY_SKILL_IDS, FOUNDRY_TRAIT_LABELS } from './foundry';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** An embedded item on an exported actor */
+export interface FoundryItemData {
+  _id: string;
+  name: string;
+  type: string;
+  system: Record<string, unknown>;
+}
+
+/** A dnd5e character actor as written by the exporter */
+export interface FoundryActorData {
+  name: string;
+  type: 'character';
+  img: string;
+  system: Record<string, unknown>;
+  items: FoundryItemData[];
+  flags: { dndnb: { characterId: string; exportedAt: string } };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const DEFAULT_IMAGE = 'icons/svg/mystery-man.svg';
+
+const PROFICIENCY_VALUES: Record<ProficiencyLevel, number> = {
+  none: 0,
+  half: 0.5,
+  proficient: 1,
+  expertise: 2,
+};
+
+const USE_PERIODS: Record<NonNullable<CharacterFeature['uses']>['resetOn'], string> = {
+  short: 'sr',
+  long: 'lr',
+  dawn: 'dawn',
+  other: 'charges',
+};
+
+const SCHOOL_IDS: Record<string, string> = {
+  abjuration: 'abj',
+  conjuration: 'con',
+  divination: 'div',
+  enchantment: 'enc',
+  evocation: 'evo',
+  illusion: 'ill',
+  necromancy: 'nec',
+  transmutation: 'trs',
+};
+
+const ARMOR_TRAITS = ['lgt', 'med', 'hvy', 'shl'];
+const WEAPON_TRAITS = ['sim', 'mar'];
+
+/** Feature source prefixes and the Foundry feature type they map to */
+const FEATURE_TYPES: [prefix: string, type: string][] = [
+  ['Class: ', 'class'],
+  ['Species: ', 'race'],
+  ['Race: ', 'race'],
+  ['Background: ', 'background'],
+  ['Feat: ', 'feat'],
+];
+
+/** Foundry document IDs are 16 alphanumeric characters */
+function createId(index: number): string {
+  return `dndnb${String(index).padStart(11, '0')}`;
+}
+
+function toHtml(text: string | null | undefined): string {
+  if (!text) return '';
+  return text
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .map(
+      (paragraph) =>
+        `<p>${paragraph
+          .replace(/&/g, '&amp;')
+          .replace(/</g, '&lt;')
+          .replace(/>/g, '&gt;')
+          .replace(/\n/g, '<br />')}</p>`
+    )
+    .join('');
+}
+
+/**
+ * Split proficiency labels into Foundry trait IDs and custom entries. Labels
+ * the importer would read back unchanged ("Light armor", "Longsword") become
+ * IDs; everything else is kept verbatim in the custom list.
+ */
+function toTrait(labels: string[], knownIds: string[] = []): { value: string[]; custom: string } {
+  const value: string[] = [];
+  const custom: string[] = [];
+  for (const label of labels) {
+    const known = knownIds.find((id) => FOUNDRY_TRAIT_LABELS[id] === label);
+    if (known) {
+      value.push(known);
+    } else if (/^[A-Z][a-z]+$/.test(label)) {
+      value.push(label.toLowerCase());
+    } else {
+      custom.push(label);
+    }
+  }
+  return { value, custom: custom.join(';') };
+}
+
+/** Parse "120 feet", "1 minute" or "Self" into a Foundry value and unit */
+function parseMeasure(text: string | null | undefined, units: Record<string, string>) {
+  const normalized = (text ?? '').toLowerCase();
+  const match = normalized.match(/(\d+)\s*([a-z ]+)/);
+  for (const [word, unit] of Object.entries(units)) {
+    if ((match?.[2] ?? normalized).includes(word)) {
+      return { value: match ? parseInt(match[1], 10) : null, units: unit };
+    }
+  }
+  return { value: null, units: '' };
+}
+
+// ============================================================================
+// Items
+// ============================================================================
+
+function createInventoryItem(
+  entry: Character['inventory'][number],
+  item: Open5eItem | undefined,
+  id: string
+): FoundryItemData {
+  const base = {
+    quantity: entry.quantity,
+    equipped: entry.equipped,
+    description: { value: toHtml(item?.description) },
+    source: item ? { custom: item.document } : {},
+    weight: { value: parseFloat(item?.weight ?? '') || 0, units: 'lb' },
+  };
+  const armorCategory = item?.armor_category?.toLowerCase() ?? '';
+
+  if (item?.damage_dice) {
+    return {
+      _id: id,
+      name: entry.name,
+      type: 'weapon',
+      system: {
+        ...base,
+        damage: { parts: [[`${item.damage_dice} + @mod`, item.damage_type ?? '']] },
+        properties: item.properties.map((p) => toOpen5eDisplayString(p).toLowerCase()),
+      },
+    };
+  }
+  if (item && item.armor_class !== null && armorCategory) {
+    const type = armorCategory.includes('shield')
+      ? 'shield'
+      : (['light', 'medium', 'heavy'].find((t) => armorCategory.includes(t)) ?? 'light');
+    return {
+      _id: id,
+      name: entry.name,
+      type: 'equipment',
+      system: {
+        ...base,
+        type: { value: type },
+        armor: {
+          value: item.armor_class,
+          dex: type === 'medium' ? 2 : type === 'heavy' ? 0 : null,
+        },
+        strength: item.strength_requirement,
+        stealth: item.stealth_disadvantage,
+      },
+    };
+  }
+  return { _id: id, name: entry.name, type: 'loot', system: base };
+}
+
+function createSpellItem(
+  spell: KnownSpell,
+  data: Open5eSpell | undefined,
+  id: string
+): FoundryItemData {
+  const components = (data?.components ?? []).map((c) => c.toUpperCase());
+  const description = [data?.desc, data?.higher_levels && `At Higher Levels. ${data.higher_levels}`]
+    .filter(Boolean)
+    .join('\n\n');
+  return {
+    _id: id,
+    name: spell.name,
+    type: 'spell',
+    system: {
+      level: spell.level,
+      school: SCHOOL_IDS[spell.school.toLowerCase()] ?? '',
+      description: { value: toHtml(description) },
+      preparation: { mode: 'prepared', prepared: spell.prepared },
+      activation: (() => {
+        const { value, units } = parseMeasure(data?.casting_time, {
+          'bonus action': 'bonus',
+          reaction: 'reaction',
+          action: 'action',
+          minute: 'minute',
+          hour: 'hour',
+        });
+        return { type: units, cost: value };
+      })(),
+      range: parseMeasure(data?.range, { feet: 'ft', mile: 'mi', self: 'self', touch: 'touch' }),
+      duration: parseMeasure(data?.duration, {
+        instantaneous: 'inst',
+        round: 'round',
+        minute: 'minute',
+        hour: 'hour',
+        day: 'day',
+      }),
+      components: {
+        vocal: components.includes('V'),
+        somatic: components.includes('S'),
+        material: components.includes('M'),
+        ritual: data?.ritual ?? false,
+        concentration: data?.concentration ?? false,
+      },
+      materials: { value: data?.material ?? '' },
+    },
+  };
+}
+
+function createFeatureItem(
+  feature: CharacterFeature,
+  description: string,
+  id: string
+): FoundryItemData {
+  const [prefix, type] = FEATURE_TYPES.find(([p]) => feature.source.startsWith(p)) ?? ['', ''];
+  const origin = feature.source.slice(prefix.length);
+  const requirements = [origin, feature.level].filter((part) => part !== undefined && part !== '');
+  return {
+    _id: id,
+    name: feature.name,
+    type: 'feat',
+    system: {
+      type: { value: type },
+      requirements: requirements.join(' '),
+      description: { value: toHtml(description) },
+      ...(feature.uses
+        ? {
+            uses: {
+              value: feature.uses.max - feature.uses.used,
+              max: String(feature.uses.max),
+              per: USE_PERIODS[feature.uses.resetOn],
+              spent: feature.uses.used,
+            },
+          }
+        : {}),
+    },
+  };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Convert a character into a Foundry VTT dnd5e actor
+ * @param character - Character to export
+ * @param catalog - Open5E content used to resolve linked classes, items, spells and features
+ * @returns Actor data for Foundry's "Import Data"
+ */
+export function createFoundryActor(character: Character, catalog: ImportCatalog): FoundryActorData {
+  let nextId = 0;
+  const id = () => createId(nextId++);
+  const items: FoundryItemData[] = [];
+
+  // Classes and subclasses (spent hit dice go to the starting class first)
+  let hitDiceSpent = character.combat.hitDice.used;
+  let originalClass = '';
+  const classes = [...character.classes].sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary));
+  for (const characterClass of classes) {
+    const data = catalog.classes.find((c) => getEngineClassKey(c) === characterClass.key);
+    const classId = id();
+    originalClass ||= classId;
+    const spent = Math.min(characterClass.level, hitDiceSpent);
+    hitDiceSpent -= spent;
+    const denomination = `d${characterClass.hitDiceValue}`;
+    items.push({
+      _id: classId,
+      name: characterClass.name,
+      type: 'class',
+      system: {
+        identifier: characterClass.key,
+        levels: characterClass.level,
+        description: { value: toHtml(data?.description) },
+        hitDice: denomination,
+        hitDiceUsed: spent,
+        hd: { denomination, spent },
+        source: { rules: character.edition },
+      },
+    });
+
+    if (characterClass.archetype) {
+      const archetype = data?.archetypes?.find((a) => a.key === characterClass.archetype);
+      items.push({
+        _id: id(),
+        name: archetype?.name ?? characterClass.archetype,
+        type: 'subclass',
+        system: {
+          identifier: characterClass.archetype,
+          classIdentifier: characterClass.key,
+          description: { value: toHtml(archetype?.description) },
+        },
+      });
+    }
+  }
+
+  // Species and background
+  const species = catalog.species.find((s) => s.key === character.race.key);
+  if (character.race.name) {
+    const subrace = species?.subraces?.find((s) => s.name === character.race.subrace);
+    items.push({
+      _id: id(),
+      name: character.race.subrace ?? character.race.name,
+      type: 'race',
+      system: {
+        identifier: character.race.key,
+        description: { value: toHtml(subrace?.description ?? species?.description) },
+      },
+    });
+  }
+  const background = catalog.backgrounds.find((b) => b.key === character.background.key);
+  if (character.background.name) {
+    items.push({
+      _id: id(),
+      name: character.background.name,
+      type: 'background',
+      system: {
+        identifier: character.background.key,
+        description: {
+          value: toHtml(character.background.customDescription ?? background?.description),
+        },
+      },
+    });
+  }
+
+  // Inventory
+  const itemsByKey = new Map(catalog.items.map((item) => [item.key, item]));
+  for (const entry of character.inventory) {
+    items.push(
+      createInventoryItem(entry, entry.itemKey ? itemsByKey.get(entry.itemKey) : undefined, id())
+    );
+  }
+
+  // Spells
+  const spellsByKey = new Map(catalog.spells.map((spell) => [spell.key, spell]));
+  for (const spell of character.spellcasting?.knownSpells ?? []) {
+    items.push(createSpellItem(spell, spellsByKey.get(spell.spellKey), id()));
+  }
+
+  // Features, with descriptions from Open5E when the character has none
+  const classFeatures = catalog.classes.flatMap((c) => [
+    ...(c.class_features ?? []),
+    ...(c.archetypes ?? []).flatMap((a) => a.features ?? []),
+  ]);
+  for (const feature of character.features) {
+    const description =
+      feature.description ||
+      (feature.sourceKey
+        ? (classFeatures.find((f) => f.key === feature.sourceKey)?.description ??
+          catalog.feats.find((f) => f.key === feature.sourceKey)?.desc ??
+          spellsByKey.get(feature.sourceKey)?.desc ??
+          '')
+        : '');
+    items.push(createFeatureItem(feature, description, id()));
+  }
+
+  // Spell slots: remaining value with the maximum as an override
+  const spells: Record<string, { value: number; override: number | null }> = {};
+  for (const level of SPELL_LEVELS.slice(1)) {
+    const slot = character.spellcasting?.slots.find((s) => s.level === level);
+    spells[`spell${level}`] = slot
+      ? { value: slot.max - slot.used, override: slot.max }
+      : { value: 0, override: null };
+  }
+  const pact = character.spellcasting?.pactMagic;
+  spells.pact = pact
+    ? { value: pact.max - pact.used, override: pact.max }
+    : { value: 0, override: null };
+
+  const skillLevels = new Map(character.skills.map((s) => [s.skillKey, s.proficiency]));
+  const saves = character.proficiencies.savingThrows ?? [];
+  const toolIds = Object.keys(FOUNDRY_TRAIT_LABELS).filter(
+    (key) => !ARMOR_TRAITS.includes(key) && !WEAPON_TRAITS.includes(key)
+  );
+  const tools = toTrait(character.proficiencies.tools, toolIds);
+  const { personality, appearance } = character;
+  const biography = [
+    personality.backstory,
+    personality.allies && `Allies: ${personality.allies}`,
+    personality.enemies && `Enemies: ${personality.enemies}`,
+    personality.notes,
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    name: character.name,
+    type: 'character',
+    img: DEFAULT_IMAGE,
+    system: {
+      abilities: Object.fromEntries(
+        ABILITY_SCORES.map((ability: AbilityScore) => [
+          ability.toLowerCase(),
+          {
+            value:
+              character.abilityScores.override[ability] ?? character.abilityScores.total[ability],
+            proficient: saves.includes(ability) ? 1 : 0,
+          },
+        ])
+      ),
+      skills: Object.fromEntries(
+        Object.entries(FOUNDRY_SKILL_IDS).map(([foundryId, skillKey]) => [
+          foundryId,
+          { value: PROFICIENCY_VALUES[skillLevels.get(skillKey) ?? 'none'] },
+        ])
+      ),
+      attributes: {
+        hp: {
+          value: character.combat.currentHp,
+          max: character.overrides.maxHp ?? character.combat.maxHp,
+          temp: character.combat.tempHp,
+        },
+        ac: { calc: 'flat', flat: character.overrides.ac ?? character.combat.ac.total },
+        movement: { walk: character.combat.speed, units: 'ft' },
+        death: {
+          success: character.combat.deathSaves.successes,
+          failure: character.combat.deathSaves.failures,
+        },
+        spellcasting: character.spellcasting?.ability?.toLowerCase() ?? '',
+      },
+      details: {
+        alignment: character.alignment,
+        race: character.race.subrace ?? character.race.name,
+        background: character.background.name,
+        originalClass,
+        xp: { value: character.experiencePoints },
+        trait: personality.traits.join('\n'),
+        ideal: personality.ideals.join('\n'),
+        bond: personality.bonds.join('\n'),
+        flaw: personality.flaws.join('\n'),
+        appearance: personality.appearance,
+        biography: { value: toHtml(biography) },
+        age: appearance.age,
+        height: appearance.height,
+        weight: appearance.weight,
+        eyes: appearance.eyes,
+        skin: appearance.skin,
+        hair: appearance.hair,
+      },
+      traits: {
+        languages: toTrait(character.proficiencies.languages),
+        armorProf: toTrait(character.proficiencies.armor, ARMOR_TRAITS),
+        weaponProf: toTrait(character.proficiencies.weapons, WEAPON_TRAITS),
+        toolProf: { value: [], custom: tools.custom },
+      },
+      tools: Object.fromEntries(tools.value.map((tool) => [tool, { value: 1 }])),
+      currency: { ...character.currency },
+      spells,
+    },
+    items,
+    flags: { dndnb: { characterId: character.id, exportedAt: new Date().toISOString() } },
+  };
+}
+
+/**
+ * File name for a character's Foundry actor ("Thorin" → "fvtt-Actor-thorin.json")
+ * @param name - Character name
+ * @returns Safe file name
+ */
+export function getFoundryActorFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  return `fvtt-Actor-${slug || 'character'}.json`;
+}
+
+/**
+ * Download a character as a Foundry VTT actor file
+ * @param character - Character to export
+ * @param catalog - Open5E content used to resolve linked entries
+ */
+export function downloadFoundryActor(character: Character, catalog: ImportCatalog): void {
+  downloadJsonFile(createFoundryActor(character, catalog), getFoundryActorFileName(character.name));
+}
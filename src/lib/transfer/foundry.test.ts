@@ -0,0 +1,137 @@
+/**
+ * Foundry VTT Import Tests
+ * @module transfer/foundry.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getFoundryActor, importFoundryActor } from './foundry';
+import { validateCharacterData } from './validation';
+import { importCatalog } from './__fixtures__/open5e-catalog';
+import fixture from './__fixtures__/foundry-actor.json';
+
+function importFixture() {
+  const result = importFoundryActor(fixture, importCatalog);
+  if (!result.valid) throw new Error(result.errors.join('\n'));
+  return result;
+}
+
+describe('getFoundryActor', () => {
+  it('should recognise character actors only', () => {
+    expect(getFoundryActor(fixture)?.name).toBe('Elara Nightbreeze');
+    expect(getFoundryActor({ ...fixture, type: 'npc' })).toBeNull();
+    expect(getFoundryActor({ name: 'Elara' })).toBeNull();
+  });
+});
+
+describe('importFoundryActor', () => {
+  it('should produce a valid character', () => {
+    const { character } = importFixture();
+    const now = new Date();
+    expect(
+      validateCharacterData({ ...character, id: 'imported', createdAt: now, updatedAt: now })
+    ).toEqual([]);
+  });
+
+  it('should map the class, subclass and species items', () => {
+    const { character } = importFixture();
+
+    expect(character.classes).toEqual([
+      {
+        key: 'rogue',
+        name: 'Rogue',
+        level: 3,
+        hitDiceValue: 8,
+        isPrimary: true,
+        archetype: 'thief',
+      },
+    ]);
+    // Only the subrace is named, so the parent species is found through it
+    expect(character.race).toEqual({ key: 'elf', name: 'Elf', subrace: 'Wood Elf' });
+    expect(character.alignment).toBe('Chaotic Good');
+    expect(character.experiencePoints).toBe(900);
+  });
+
+  it('should use the final ability scores and proficiency levels', () => {
+    const { character } = importFixture();
+
+    expect(character.abilityScores.total).toEqual({
+      STR: 10,
+      DEX: 17,
+      CON: 12,
+      INT: 14,
+      WIS: 13,
+      CHA: 8,
+    });
+    expect(character.proficiencies.savingThrows).toEqual(['DEX', 'INT']);
+    expect(character.skills.map((s) => [s.skillKey, s.proficiency, s.bonus])).toEqual([
+      ['stealth', 'expertise', 7],
+      ['sleight_of_hand', 'proficient', 5],
+      ['perception', 'proficient', 3],
+      ['investigation', 'half', 3],
+    ]);
+  });
+
+  it('should read hit points, speed and armor class', () => {
+    const { combat } = importFixture().character;
+
+    expect(combat).toMatchObject({ maxHp: 24, currentHp: 20, tempHp: 0, speed: 35 });
+    // Leather armor + DEX
+    expect(combat.ac.total).toBe(14);
+  });
+
+  it('should translate trait IDs into readable proficiencies', () => {
+    const { proficiencies } = importFixture().character;
+
+    expect(proficiencies.armor).toEqual(['Light armor']);
+    expect(proficiencies.weapons).toEqual(['Simple weapons', 'Shortsword']);
+    expect(proficiencies.tools).toEqual(["Thieves' tools"]);
+    expect(proficiencies.languages).toEqual(['Common', 'Elvish', "Thieves' Cant"]);
+  });
+
+  it('should import inventory and features', () => {
+    const { character } = importFixture();
+
+    expect(character.inventory.map((item) => [item.name, item.itemKey ?? null])).toEqual([
+      ['Leather Armor', 'leather-armor'],
+      ['Shortsword', 'shortsword'],
+      ["Thieves' tools", 'thieves-tools'],
+      ['Cloak of Many Pockets', null],
+    ]);
+    expect(character.features.map((f) => [f.name, f.source])).toEqual([
+      ['Sneak Attack', 'Class: Rogue'],
+      ['Fast Hands', 'Class: Rogue (Thief)'],
+      ['Fey Ancestry', 'Species: Wood Elf'],
+      ['Rooftop Runner', 'Feat: Rooftop Runner'],
+      ['Minor Illusion', 'Spell'],
+    ]);
+  });
+
+  it('should report what was approximated', () => {
+    const { approximations, character } = importFixture();
+
+    expect(approximations.map((a) => [a.section, a.name])).toEqual([
+      ['background', 'Urchin'],
+      ['item', 'Cloak of Many Pockets'],
+      ['feature', 'Rooftop Runner'],
+      ['spell', 'Minor Illusion'],
+    ]);
+    expect(character.background).toEqual({ key: '', name: 'Urchin' });
+    expect(character.spellcasting).toBeNull();
+  });
+
+  it('should keep the biography as plain text', () => {
+    const { personality } = importFixture().character;
+    expect(personality.backstory).toBe('Raised in the Whispering Wood.');
+    expect(personality.traits).toEqual([
+      'I always have a plan for what to do when things go wrong.',
+    ]);
+  });
+
+  it('should reject actors without class levels', () => {
+    const actor = { ...fixture, items: fixture.items.filter((item) => item.type !== 'class') };
+    expect(importFoundryActor(actor, importCatalog)).toEqual({
+      valid: false,
+      errors: ['The character has no class levels'],
+    });
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * Foundry VTT Import
+ *
+ * Reads a dnd5e system character actor exported from Foundry VTT ("Export
+ * Data" on the actor) into an ExternalCharacter for conversion. Both the
+ * 3.x and 4.x data layouts are understood.
+ * @module transfer/foundry
+ */
+
+import {
+  ABILITY_SCORES,
+  SKILLS,
+  SPELL_LEVELS,
+  type AbilityScore,
+  type CharacterFeature,
+  type Edition,
+  type ProficiencyLevel,
+  type SpellLevel,
+} from '@/types/game';
+import { parseHitDie } from '@/lib/engine/character-builder';
+import {
+  convertExternalCharacter,
+  createAbilityRecord,
+  stripHtml,
+  type ExternalCharacter,
+  type ExternalFeatureSource,
+  type ExternalImportResult,
+  type ImportCatalog,
+} from './external';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface FoundryItem {
+  _id?: string;
+  name?: string;
+  type?: string;
+  system?: {
+    description?: { value?: string };
+    quantity?: number;
+    equipped?: boolean;
+    /** Class levels */
+    levels?: number;
+    /** Class hit die ("d10") and spent hit dice, 3.x */
+    hitDice?: string;
+    hitDiceUsed?: number;
+    /** Class hit die and spent hit dice, 4.x */
+    hd?: { denomination?: string; spent?: number };
+    /** Subclass parent */
+    classIdentifier?: string;
+    identifier?: string;
+    /** Spell level */
+    level?: number;
+    preparation?: { mode?: string; prepared?: boolean };
+    /** Feature kind: class, race, feat, background… */
+    type?: { value?: string };
+    requirements?: string;
+    /** Limited uses: remaining value and recovery period (3.x) or spent count (4.x) */
+    uses?: {
+      value?: number | null;
+      max?: number | string | null;
+      per?: string | null;
+      spent?: number;
+    };
+    source?: { rules?: string };
+  };
+}
+
+interface FoundryTrait {
+  value?: string[];
+  custom?: string;
+}
+
+/** The parts of a Foundry dnd5e actor the importer reads */
+export interface FoundryActor {
+  name?: string;
+  type?: string;
+  system?: {
+    abilities?: Record<string, { value?: number; proficient?: number }>;
+    skills?: Record<string, { value?: number }>;
+    attributes?: {
+      hp?: { value?: number | null; max?: number | null; temp?: number | null };
+      movement?: { walk?: number | null };
+      death?: { success?: number; failure?: number };
+    };
+    /** Spell slots ("spell1"…"spell9", "pact"): remaining value and max override */
+    spells?: Record<string, { value?: number; max?: number; override?: number | null }>;
+    details?: {
+      alignment?: string;
+      race?: string | null;
+      background?: string | null;
+      originalClass?: string;
+      xp?: { value?: number | null };
+      trait?: string;
+      ideal?: string;
+      bond?: string;
+      flaw?: string;
+      appearance?: string;
+      biography?: { value?: string };
+      age?: string;
+      height?: string;
+      weight?: string;
+      eyes?: string;
+      skin?: string;
+      hair?: string;
+    };
+    traits?: {
+      languages?: FoundryTrait;
+      armorProf?: FoundryTrait;
+      weaponProf?: FoundryTrait;
+      toolProf?: FoundryTrait;
+    };
+    /** Tool proficiencies, 4.x */
+    tools?: Record<string, { value?: number }>;
+    currency?: { cp?: number; sp?: number; ep?: number; gp?: number; pp?: number };
+  };
+  items?: FoundryItem[];
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/** Foundry skill IDs */
+export const FOUNDRY_SKILL_IDS: Record<string, string> = {
+  acr: 'acrobatics',
+  ani: 'animal_handling',
+  arc: 'arcana',
+  ath: 'athletics',
+  dec: 'deception',
+  his: 'history',
+  ins: 'insight',
+  itm: 'intimidation',
+  inv: 'investigation',
+  med: 'medicine',
+  nat: 'nature',
+  prc: 'perception',
+  prf: 'performance',
+  per: 'persuasion',
+  rel: 'religion',
+  slt: 'sleight_of_hand',
+  ste: 'stealth',
+  sur: 'survival',
+};
+
+const PROFICIENCY_VALUES: Record<number, ProficiencyLevel> = {
+  0.5: 'half',
+  1: 'proficient',
+  2: 'expertise',
+};
+
+/** Foundry armor, weapon and tool proficiency IDs */
+export const FOUNDRY_TRAIT_LABELS: Record<string, string> = {
+  lgt: 'Light armor',
+  med: 'Medium armor',
+  hvy: 'Heavy armor',
+  shl: 'Shields',
+  sim: 'Simple weapons',
+  mar: 'Martial weapons',
+  thief: "Thieves' tools",
+  disg: 'Disguise kit',
+  forg: 'Forgery kit',
+  herb: 'Herbalism kit',
+  navg: "Navigator's tools",
+  pois: "Poisoner's kit",
+};
+
+const INVENTORY_TYPES = [
+  'weapon',
+  'equipment',
+  'consumable',
+  'tool',
+  'loot',
+  'backpack',
+  'container',
+];
+
+const USE_PERIODS: Record<string, 'short' | 'long' | 'dawn' | 'other'> = {
+  sr: 'short',
+  lr: 'long',
+  day: 'dawn',
+  dawn: 'dawn',
+};
+
+const FEATURE_SOURCES: Record<string, ExternalFeatureSource> = {
+  class: 'class',
+  subclass: 'class',
+  race: 'species',
+  species: 'species',
+  background: 'background',
+  feat: 'feat',
+};
+
+/**
+ * Check whether parsed JSON is a Foundry dnd5e character actor
+ * @param payload - Parsed JSON
+ * @returns The actor, or null
+ */
+export function getFoundryActor(payload: unknown): FoundryActor | null {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) return null;
+  const actor = payload as Record<string, unknown>;
+  const system = actor.system as Record<string, unknown> | undefined;
+  const isActor =
+    actor.type === 'character' &&
+    typeof system?.abilities === 'object' &&
+    Array.isArray(actor.items);
+  return isActor ? (actor as FoundryActor) : null;
+}
+
+/** Turn a trait ID ("lgt", "thieves", "sleight-of-hand") into a readable label */
+function traitLabel(id: string): string {
+  if (FOUNDRY_TRAIT_LABELS[id]) return FOUNDRY_TRAIT_LABELS[id];
+  const words = id.replace(/[-_]+/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function readTrait(trait: FoundryTrait | undefined): string[] {
+  const custom = (trait?.custom ?? '')
+    .split(';')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return [...(trait?.value ?? []).map(traitLabel), ...custom];
+}
+
+function readUses(uses: NonNullable<FoundryItem['system']>['uses']): CharacterFeature['uses'] {
+  const max = Number(uses?.max);
+  if (!uses || !Number.isInteger(max) || max <= 0) return undefined;
+  const used = uses.spent ?? max - (uses.value ?? max);
+  return {
+    max,
+    used: Math.min(max, Math.max(0, used)),
+    resetOn: USE_PERIODS[uses.per ?? ''] ?? 'other',
+  };
+}
+
+/** Used slots from a slot's remaining value and maximum */
+function usedSlots(slot: { value?: number; max?: number; override?: number | null } | undefined) {
+  const max = slot?.override ?? slot?.max;
+  return max ? Math.max(0, max - (slot?.value ?? max)) : 0;
+}
+
+function lines(text: string | undefined): string[] {
+  return (text ?? '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read a Foundry actor into the shared import shape
+ * @param actor - Actor from getFoundryActor
+ * @returns Character data ready for matching
+ */
+export function readFoundryActor(actor: FoundryActor): ExternalCharacter {
+  const system = actor.system ?? {};
+  const details = system.details ?? {};
+  const items = actor.items ?? [];
+  const ofType = (...types: string[]) => items.filter((item) => types.includes(item.type ?? ''));
+
+  // Ability scores are stored as final values
+  const abilityScores = createAbilityRecord(10);
+  const savingThrows: AbilityScore[] = [];
+  for (const ability of ABILITY_SCORES) {
+    const data = system.abilities?.[ability.toLowerCase()];
+    abilityScores[ability] = data?.value ?? 10;
+    if (data?.proficient) savingThrows.push(ability);
+  }
+
+  const skills = Object.entries(system.skills ?? {}).flatMap(([id, skill]) => {
+    const proficiency = PROFICIENCY_VALUES[skill.value ?? 0];
+    const key = FOUNDRY_SKILL_IDS[id];
+    const name = SKILLS.find((s) => s.key === key)?.name;
+    return name && proficiency ? [{ name, proficiency }] : [];
+  });
+
+  // Classes, starting class first, with their subclasses
+  const subclasses = ofType('subclass');
+  const classItems = ofType('class').sort(
+    (a, b) => Number(b._id === details.originalClass) - Number(a._id === details.originalClass)
+  );
+  const classes = classItems.map((item) => {
+    const identifier = item.system?.identifier ?? item.name?.toLowerCase();
+    const subclass = subclasses.find((s) => s.system?.classIdentifier === identifier);
+    const hitDie = item.system?.hd?.denomination ?? item.system?.hitDice;
+    return {
+      name: item.name ?? '',
+      level: item.system?.levels ?? 1,
+      ...(subclass?.name ? { subclass: subclass.name } : {}),
+      ...(hitDie ? { hitDie: parseHitDie(hitDie) } : {}),
+    };
+  });
+  const edition: Edition = classItems.some((item) => item.system?.source?.rules === '2024')
+    ? '2024'
+    : '2014';
+
+  // Species and background are items in 4.x and text in older exports
+  const speciesItem = ofType('race', 'species')[0];
+  const speciesName = speciesItem?.name ?? details.race ?? null;
+  const backgroundName = ofType('background')[0]?.name ?? details.background ?? null;
+
+  const spellSlotsUsed: Partial<Record<SpellLevel, number>> = {};
+  for (const level of SPELL_LEVELS.slice(1)) {
+    const used = usedSlots(system.spells?.[`spell${level}`]);
+    if (used > 0) spellSlotsUsed[level] = used;
+  }
+
+  const hp = system.attributes?.hp;
+  const maxHp = hp?.max ?? hp?.value ?? 1;
+
+  const tools = [
+    ...readTrait(system.traits?.toolProf),
+    ...Object.entries(system.tools ?? {})
+      .filter(([, tool]) => (tool.value ?? 0) > 0)
+      .map(([id]) => traitLabel(id)),
+  ];
+
+  return {
+    name: actor.name ?? '',
+    playerName: '',
+    edition,
+    species: speciesName ? { name: speciesName } : null,
+    background: backgroundName,
+    alignment: details.alignment || null,
+    experiencePoints: details.xp?.value ?? 0,
+    classes,
+    abilityScores,
+    racialBonus: createAbilityRecord(0),
+    otherBonus: createAbilityRecord(0),
+    savingThrows,
+    skills,
+    hitPoints: { max: maxHp, current: hp?.value ?? maxHp, temp: hp?.temp ?? 0 },
+    hitDiceUsed: classItems.reduce(
+      (total, item) => total + (item.system?.hd?.spent ?? item.system?.hitDiceUsed ?? 0),
+      0
+    ),
+    deathSaves: {
+      successes: system.attributes?.death?.success ?? 0,
+      failures: system.attributes?.death?.failure ?? 0,
+    },
+    spellSlotsUsed,
+    pactSlotsUsed: usedSlots(system.spells?.pact),
+    speed: system.attributes?.movement?.walk ?? null,
+    proficiencies: {
+      armor: readTrait(system.traits?.armorProf),
+      weapons: readTrait(system.traits?.weaponProf),
+      tools,
+      languages: readTrait(system.traits?.languages),
+    },
+    items: ofType(...INVENTORY_TYPES).map((item) => ({
+      name: item.name ?? '',
+      quantity: item.system?.quantity ?? 1,
+      equipped: item.system?.equipped ?? false,
+    })),
+    spells: ofType('spell').map((item) => ({
+      name: item.name ?? '',
+      level: item.system?.level ?? 0,
+      prepared:
+        item.system?.preparation?.prepared === true ||
+        ['always', 'innate', 'pact', 'atwill'].includes(item.system?.preparation?.mode ?? ''),
+    })),
+    features: ofType('feat').map((item) => {
+      // Requirements name the owner and level ("Fighter 2")
+      const requirements = item.system?.requirements?.match(/^(.*?)\s*(\d+)?$/);
+      const uses = readUses(item.system?.uses);
+      return {
+        name: item.name ?? '',
+        description: item.system?.description?.value ?? '',
+        source: FEATURE_SOURCES[item.system?.type?.value ?? ''] ?? 'other',
+        ...(requirements?.[1] ? { origin: requirements[1] } : {}),
+        ...(requirements?.[2] ? { level: parseInt(requirements[2], 10) } : {}),
+        ...(uses ? { uses } : {}),
+      };
+    }),
+    currency: { ...system.currency },
+    personality: {
+      traits: lines(details.trait),
+      ideals: lines(details.ideal),
+      bonds: lines(details.bond),
+      flaws: lines(details.flaw),
+      appearance: details.appearance ?? '',
+      backstory: stripHtml(details.biography?.value),
+    },
+    appearance: {
+      age: details.age ?? '',
+      height: details.height ?? '',
+      weight: details.weight ?? '',
+      eyes: details.eyes ?? '',
+      skin: details.skin ?? '',
+      hair: details.hair ?? '',
+    },
+  };
+}
+
+/**
+ * Import a Foundry VTT dnd5e character actor
+ * @param payload - Parsed actor JSON
+ * @param catalog - Open5E content to match names against
+ * @returns The converted character and what was approximated, or errors
+ */
+export function importFoundryActor(payload: unknown, catalog: ImportCatalog): ExternalImportResult {
+  const actor = getFoundryActor(payload);
+  if (!actor) return { valid: false, errors: ['Not a Foundry VTT character actor'] };
+  return convertExternalCharacter(readFoundryActor(actor), catalog);
+}
@@ -0,0 +1,85 @@
+/**
+ * Character Import Tests
+ * @module transfer/import.test
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { db } from '@/lib/db/database';
+import { createCharacterFile } from './character-file';
+import { detectImportFormat, importCharacter } from './import';
+import { importCatalog } from './__fixtures__/open5e-catalog';
+import dndBeyondFixture from './__fixtures__/dndbeyond-character.json';
+import foundryFixture from './__fixtures__/foundry-actor.json';
+import { mockCharacter } from '@/lib/debug/mockCharacters';
+
+const DOCUMENT_KEYS = ['wotc-srd'];
+
+describe('Character Import', () => {
+  beforeEach(async () => {
+    if (!db.isOpen()) {
+      await db.open();
+    }
+    await Promise.all([db.characters.clear(), db.campaigns.clear()]);
+  });
+
+  describe('detectImportFormat', () => {
+    it('should recognise each supported tool', () => {
+      expect(detectImportFormat(dndBeyondFixture)).toBe('dndbeyond');
+      expect(detectImportFormat(foundryFixture)).toBe('foundry');
+      expect(detectImportFormat(createCharacterFile(mockCharacter, []))).toBe('dndnb');
+    });
+  });
+
+  describe('importCharacter', () => {
+    it('should restore DnDnB files without loading Open5E content', async () => {
+      const loadCatalog = vi.fn();
+
+      const result = await importCharacter(
+        JSON.stringify(createCharacterFile(mockCharacter, [])),
+        DOCUMENT_KEYS,
+        loadCatalog
+      );
+
+      expect(result).toMatchObject({ valid: true, format: 'dndnb', approximations: [] });
+      expect(loadCatalog).not.toHaveBeenCalled();
+    });
+
+    it('should convert and store characters from other tools', async () => {
+      const loadCatalog = vi.fn().mockResolvedValue(importCatalog);
+
+      const result = await importCharacter(
+        JSON.stringify(foundryFixture),
+        DOCUMENT_KEYS,
+        loadCatalog
+      );
+
+      expect(loadCatalog).toHaveBeenCalledWith(DOCUMENT_KEYS);
+      expect(result).toMatchObject({ valid: true, format: 'foundry' });
+      if (!result.valid) return;
+      expect(result.approximations).toHaveLength(4);
+      const stored = await db.characters.toArray();
+      expect(stored.map((c) => [c.id, c.name])).toEqual([
+        [result.character.id, 'Elara Nightbreeze'],
+      ]);
+    });
+
+    it('should explain when Open5E content cannot be loaded', async () => {
+      const result = await importCharacter(JSON.stringify(dndBeyondFixture), DOCUMENT_KEYS, () =>
+        Promise.reject(new Error('offline'))
+      );
+
+      expect(result).toEqual({
+        valid: false,
+        errors: ['Could not load Open5E content to match the character against. Try again online.'],
+      });
+      expect(await db.characters.count()).toBe(0);
+    });
+
+    it('should report invalid JSON', async () => {
+      expect(await importCharacter('nope', DOCUMENT_KEYS)).toEqual({
+        valid: false,
+        errors: ['The file is not valid JSON'],
+      });
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Character Import
+ *
+ * Single entry point for importing a character file. DnDnB files are
+ * restored as they are; D&D Beyond and Foundry VTT exports are converted
+ * against Open5E content and saved as new characters.
+ * @module transfer/import
+ */
+
+import type { Character } from '@/types/character';
+import {
+  fetchAllEquipment,
+  fetchBackgrounds,
+  fetchClasses,
+  fetchFeats,
+  fetchSpecies,
+  fetchSpells,
+} from '@/lib/api';
+import { createCharacter } from '@/lib/db/characters';
+import { importCharacterFile } from './character-file';
+import { getDndBeyondCharacter, importDndBeyondCharacter } from './dndbeyond';
+import type { ImportApproximation, ImportCatalog } from './external';
+import { getFoundryActor, importFoundryActor } from './foundry';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CharacterImportFormat = 'dndnb' | 'dndbeyond' | 'foundry';
+
+export type ImportResult =
+  | {
+      valid: true;
+      format: CharacterImportFormat;
+      character: Character;
+      /** The file's ID was already taken, so the character got a new one */
+      idChanged: boolean;
+      /** The campaign the character belonged to does not exist here */
+      campaignRemoved: boolean;
+      /** Schema version an older DnDnB file was migrated from */
+      migratedFrom: number | null;
+      /** What could not be matched to Open5E content (other tools only) */
+      approximations: ImportApproximation[];
+    }
+  | { valid: false; errors: string[] };
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Detect which tool a parsed file comes from
+ * @param payload - Parsed JSON
+ * @returns Format, or 'dndnb' for anything that is not another tool's export
+ */
+export function detectImportFormat(payload: unknown): CharacterImportFormat {
+  if (getDndBeyondCharacter(payload)) return 'dndbeyond';
+  if (getFoundryActor(payload)) return 'foundry';
+  return 'dndnb';
+}
+
+/**
+ * Fetch the Open5E content imported names are matched against
+ * @param documentKeys - Documents to match against
+ * @returns Import catalog
+ */
+export async function loadImportCatalog(documentKeys: string[]): Promise<ImportCatalog> {
+  const [classes, species, backgrounds, feats, spells, equipment] = await Promise.all([
+    fetchClasses(documentKeys),
+    fetchSpecies(documentKeys),
+    fetchBackgrounds(documentKeys),
+    fetchFeats(documentKeys),
+    fetchSpells(documentKeys),
+    fetchAllEquipment(documentKeys),
+  ]);
+  return {
+    classes,
+    species,
+    backgrounds,
+    feats,
+    spells,
+    items: [...equipment.weapons, ...equipment.armor, ...equipment.items, ...equipment.magicItems],
+  };
+}
+
+/**
+ * Import a character file from DnDnB, D&D Beyond or Foundry VTT
+ * @param text - File contents
+ * @param documentKeys - Open5E documents to match other tools' content against
+ * @param loadCatalog - Catalog loader (defaults to fetching from Open5E)
+ * @returns The stored character and import notes, or readable errors
+ */
+export async function importCharacter(
+  text: string,
+  documentKeys: string[],
+  loadCatalog: (documentKeys: string[]) => Promise<ImportCatalog> = loadImportCatalog
+): Promise<ImportResult> {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return { valid: false, errors: ['The file is not valid JSON'] };
+  }
+
+  const format = detectImportFormat(payload);
+  if (format === 'dndnb') {
+    const result = await importCharacterFile(text);
+    return result.valid ? { ...result, format, approximations: [] } : result;
+  }
+
+  let catalog: ImportCatalog;
+  try {
+    catalog = await loadCatalog(documentKeys);
+  } catch {
+    return {
+      valid: false,
+      errors: ['Could not load Open5E content to match the character against. Try again online.'],
+    };
+  }
+
+  const converted =
+    format === 'dndbeyond'
+      ? importDndBeyondCharacter(payload, catalog)
+      : importFoundryActor(payload, catalog);
+  if (!converted.valid) return converted;
+
+  return {
+    valid: true,
+    format,
+    character: await createCharacter(converted.character),
+    idChanged: false,
+    campaignRemoved: false,
+    migratedFrom: null,
+    approximations: converted.approximations,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Character File Migration Tests
+ * @module transfer/migrations.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CHARACTER_FILE_FORMAT,
+  CHARACTER_FILE_VERSION,
+  getPayloadVersion,
+  migrateCharacterPayload,
+} from './migrations';
+import { mockCharacter } from '@/lib/debug/mockCharacters';
+
+describe('getPayloadVersion', () => {
+  it('should read the version from the envelope', () => {
+    expect(getPayloadVersion({ format: CHARACTER_FILE_FORMAT, schemaVersion: 1 })).toBe(1);
+    expect(getPayloadVersion({ format: CHARACTER_FILE_FORMAT, schemaVersion: '1' })).toBeNull();
+  });
+
+  it('should treat a bare character as version 0', () => {
+    expect(getPayloadVersion({ id: 'abc', abilityScores: {} })).toBe(0);
+  });
+
+  it('should not recognise other JSON', () => {
+    expect(getPayloadVersion(null)).toBeNull();
+    expect(getPayloadVersion([])).toBeNull();
+    expect(getPayloadVersion({ name: 'Bob' })).toBeNull();
+  });
+});
+
+describe('migrateCharacterPayload', () => {
+  it('should leave current files unchanged', () => {
+    const file = { format: CHARACTER_FILE_FORMAT, schemaVersion: CHARACTER_FILE_VERSION };
+    expect(migrateCharacterPayload(file)).toEqual({
+      payload: file,
+      fromVersion: CHARACTER_FILE_VERSION,
+    });
+  });
+
+  it('should wrap bare characters and fill missing fields', () => {
+    const legacy = JSON.parse(JSON.stringify(mockCharacter));
+    for (const field of ['playerName', 'actions', 'appearance', 'edition']) {
+      delete legacy[field];
+    }
+
+    const result = migrateCharacterPayload(legacy);
+
+    expect(result).toMatchObject({
+      fromVersion: 0,
+      payload: {
+        format: CHARACTER_FILE_FORMAT,
+        schemaVersion: CHARACTER_FILE_VERSION,
+        edition: '2014',
+        documentKeys: [],
+        character: {
+          id: mockCharacter.id,
+          playerName: '',
+          actions: [],
+          edition: '2014',
+          appearance: { age: '', other: '' },
+        },
+      },
+    });
+  });
+
+  it('should refuse files from a newer version of the app', () => {
+    const result = migrateCharacterPayload({
+      format: CHARACTER_FILE_FORMAT,
+      schemaVersion: CHARACTER_FILE_VERSION + 1,
+    });
+    expect(result).toEqual({ error: expect.stringContaining('newer than this app supports') });
+  });
+
+  it('should refuse unrecognised JSON', () => {
+    expect(migrateCharacterPayload({ hello: 'world' })).toEqual({
+      error: 'Not a DnDnB character file',
+    });
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Character File Migrations
+ *
+ * Upgrades character files written by older versions of the app to the
+ * current schema, one version at a time, before they are validated.
+ * @module transfer/migrations
+ */
+
+/** Identifies DnDnB character files */
+export const CHARACTER_FILE_FORMAT = 'dndnb-character';
+
+/**
+ * Current character file schema version.
+ * Increment it and add a migration when the Character shape changes.
+ */
+export const CHARACTER_FILE_VERSION = 1;
+
+/** File payload as read from JSON, before validation */
+type Payload = Record<string, unknown>;
+
+/**
+ * Fill in character fields that older versions of the app did not store
+ * @param character - Character record as stored or exported
+ * @returns The character with every current top-level field present
+ */
+export function withCharacterDefaults(character: Payload): Payload {
+  return {
+    playerName: '',
+    experiencePoints: 0,
+    actions: [],
+    conditions: [],
+    sessionNotes: [],
+    overrides: {},
+    appearance: { age: '', height: '', weight: '', eyes: '', skin: '', hair: '', other: '' },
+    ...character,
+    edition: character.edition ?? '2014',
+  };
+}
+
+/**
+ * Migration registry - maps a schema version to the function that upgrades
+ * a payload from that version to the next
+ */
+const migrations: Record<number, (payload: Payload) => Payload> = {
+  // Version 0: a bare character object (copied from storage or an older
+  // export) without the envelope. Fills in fields that older characters lack.
+  0: (character) => ({
+    format: CHARACTER_FILE_FORMAT,
+    schemaVersion: 1,
+    exportedAt: new Date().toISOString(),
+    edition: character.edition ?? '2014',
+    documentKeys: [],
+    character: withCharacterDefaults(character),
+  }),
+};
+
+/**
+ * Detect the schema version of a parsed file
+ * @param payload - Parsed JSON
+ * @returns Schema version (0 for bare characters), or null if unrecognised
+ */
+export function getPayloadVersion(payload: unknown): number | null {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) return null;
+  const record = payload as Payload;
+
+  if (record.format === CHARACTER_FILE_FORMAT) {
+    return typeof record.schemaVersion === 'number' && Number.isInteger(record.schemaVersion)
+      ? record.schemaVersion
+      : null;
+  }
+
+  // Bare character from before files had an envelope
+  if (typeof record.id === 'string' && typeof record.abilityScores === 'object') return 0;
+
+  return null;
+}
+
+/**
+ * Upgrade a parsed file to the current schema version
+ * @param payload - Parsed JSON
+ * @returns The upgraded payload and the version it started from, or an error
+ */
+export function migrateCharacterPayload(
+  payload: unknown
+): { payload: Payload; fromVersion: number } | { error: string } {
+  const fromVersion = getPayloadVersion(payload);
+
+  if (fromVersion === null) {
+    return { error: 'Not a DnDnB character file' };
+  }
+  if (fromVersion > CHARACTER_FILE_VERSION) {
+    return {
+      error: `This file uses character format version ${fromVersion}, newer than this app supports (${CHARACTER_FILE_VERSION}). Update DnDnB and try again.`,
+    };
+  }
+
+  let current = payload as Payload;
+  for (let version = fromVersion; version < CHARACTER_FILE_VERSION; version++) {
+    const migration = migrations[version];
+    if (!migration) {
+      return { error: `No migration from character format version ${version}` };
+    }
+    current = migration(current);
+  }
+
+  return { payload: current, fromVersion };
+}
@@ -0,0 +1,78 @@
+/**
+ * Character Validation Tests
+ * @module transfer/validation.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatValidationErrors, validateCharacterData } from './validation';
+import { mockCharacter, mockSpellcaster } from '@/lib/debug/mockCharacters';
+
+/** Round-trip through JSON so dates become strings, as in a file */
+function asFileData(value: unknown): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(value));
+}
+
+describe('validateCharacterData', () => {
+  it('should accept complete characters', () => {
+    expect(validateCharacterData(asFileData(mockCharacter))).toEqual([]);
+    expect(validateCharacterData(asFileData(mockSpellcaster))).toEqual([]);
+  });
+
+  it('should accept in-memory characters with Date fields', () => {
+    expect(validateCharacterData(mockCharacter)).toEqual([]);
+  });
+
+  it('should ignore unknown fields', () => {
+    expect(validateCharacterData({ ...asFileData(mockCharacter), homebrew: true })).toEqual([]);
+  });
+
+  it('should reject non-objects', () => {
+    expect(validateCharacterData([])).toEqual([
+      { field: '', message: 'expected an object, got an array' },
+    ]);
+  });
+
+  it('should report nested problems with their paths', () => {
+    const data = asFileData(mockCharacter);
+    const combat = data.combat as Record<string, Record<string, unknown>>;
+    combat.hitDice.type = 'd7';
+    const classes = data.classes as Record<string, unknown>[];
+    classes[0].level = 21;
+    delete data.name;
+
+    expect(formatValidationErrors(validateCharacterData(data, 'character'))).toEqual([
+      'character.name: expected a string, got nothing',
+      'character.classes[0].level: must be at most 20, got 21',
+      'character.combat.hitDice.type: expected one of d4, d6, d8, d10, d12, d20, d100, got "d7"',
+    ]);
+  });
+
+  it('should check ability records and dates', () => {
+    const data = asFileData(mockCharacter);
+    const scores = data.abilityScores as Record<string, Record<string, unknown>>;
+    scores.base.STR = 15.5;
+    data.updatedAt = 'yesterday';
+
+    expect(formatValidationErrors(validateCharacterData(data))).toEqual([
+      'abilityScores.base.STR: expected a whole number, got 15.5',
+      'updatedAt: expected a date, got "yesterday"',
+    ]);
+  });
+
+  it('should check item, feature and condition effects', () => {
+    const data = asFileData(mockCharacter);
+    const inventory = data.inventory as Record<string, unknown>[];
+    inventory[0].effects = [
+      { type: 'bonus', target: 'ac', value: 1 },
+      { type: 'set', target: 'strength', value: 19 },
+      { type: 'teleport' },
+    ];
+    const features = data.features as Record<string, unknown>[];
+    features[0].effects = [{ type: 'proficiency', target: 'skill:stealth', level: 'proficient' }];
+
+    expect(formatValidationErrors(validateCharacterData(data))).toEqual([
+      'inventory[0].effects[1].target: expected an effect target, got "strength"',
+      'inventory[0].effects[2].type: expected one of bonus, set, advantage, disadvantage, proficiency, resistance, got "teleport"',
+    ]);
+  });
+});
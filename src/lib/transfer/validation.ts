@@ -0,0 +1,409 @@
+/**
+ * Character Validation
+ *
+ * Runtime validation of imported character data against the `Character`
+ * type. Every nested field is checked and each problem is reported with its
+ * path (e.g. "combat.hitDice.type") so players can see what is wrong with a
+ * file. Fields the app does not know about are ignored.
+ * @module transfer/validation
+ */
+
+import {
+  ABILITY_SCORES,
+  ALIGNMENTS,
+  EDITIONS,
+  SPELL_LEVELS,
+  type AbilityScore,
+} from '@/types/game';
+import type { CharacterValidationError } from '@/types/character';
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+/** Checks a value and records problems under its path */
+type Validator = (value: unknown, path: string, errors: CharacterValidationError[]) => void;
+
+function typeName(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return `a ${typeof value}`;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+const string: Validator = (value, path, errors) => {
+  if (typeof value !== 'string') {
+    errors.push({ field: path, message: `expected a string, got ${typeName(value)}` });
+  }
+};
+
+const boolean: Validator = (value, path, errors) => {
+  if (typeof value !== 'boolean') {
+    errors.push({ field: path, message: `expected true or false, got ${typeName(value)}` });
+  }
+};
+
+function number(options: { integer?: boolean; min?: number; max?: number } = {}): Validator {
+  return (value, path, errors) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push({ field: path, message: `expected a number, got ${typeName(value)}` });
+    } else if (options.integer && !Number.isInteger(value)) {
+      errors.push({ field: path, message: `expected a whole number, got ${value}` });
+    } else if (options.min !== undefined && value < options.min) {
+      errors.push({ field: path, message: `must be at least ${options.min}, got ${value}` });
+    } else if (options.max !== undefined && value > options.max) {
+      errors.push({ field: path, message: `must be at most ${options.max}, got ${value}` });
+    }
+  };
+}
+
+function oneOf(values: readonly (string | number)[]): Validator {
+  return (value, path, errors) => {
+    if (!values.includes(value as string | number)) {
+      errors.push({
+        field: path,
+        message: `expected one of ${values.join(', ')}, got ${JSON.stringify(value)}`,
+      });
+    }
+  };
+}
+
+/** ISO date string, or a Date when validating in-memory characters */
+const date: Validator = (value, path, errors) => {
+  const time =
+    value instanceof Date
+      ? value.getTime()
+      : typeof value === 'string'
+        ? Date.parse(value)
+        : Number.NaN;
+  if (Number.isNaN(time)) {
+    errors.push({ field: path, message: `expected a date, got ${JSON.stringify(value)}` });
+  }
+};
+
+function optional(validator: Validator): Validator {
+  return (value, path, errors) => {
+    if (value !== undefined) validator(value, path, errors);
+  };
+}
+
+function nullable(validator: Validator): Validator {
+  return (value, path, errors) => {
+    if (value !== null) validator(value, path, errors);
+  };
+}
+
+function array(item: Validator): Validator {
+  return (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push({ field: path, message: `expected an array, got ${typeName(value)}` });
+      return;
+    }
+    value.forEach((element, index) => item(element, join(path, index), errors));
+  };
+}
+
+function object(shape: Record<string, Validator>): Validator {
+  return (value, path, errors) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push({ field: path, message: `expected an object, got ${typeName(value)}` });
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    for (const [key, validator] of Object.entries(shape)) {
+      validator(record[key], join(path, key), errors);
+    }
+  };
+}
+
+function record(value: Validator): Validator {
+  return (input, path, errors) => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      errors.push({ field: path, message: `expected an object, got ${typeName(input)}` });
+      return;
+    }
+    for (const [key, entry] of Object.entries(input)) value(entry, join(path, key), errors);
+  };
+}
+
+function abilityRecord(value: Validator): Validator {
+  return object(
+    Object.fromEntries(ABILITY_SCORES.map((ability) => [ability, value])) as Record<
+      AbilityScore,
+      Validator
+    >
+  );
+}
+
+// ============================================================================
+// Character Schema
+// ============================================================================
+
+const count = number({ integer: true, min: 0 });
+const DIE_TYPES = ['d4', 'd6', 'd8', 'd10', 'd12', 'd20', 'd100'] as const;
+const PROFICIENCY_LEVELS = ['none', 'half', 'proficient', 'expertise'] as const;
+
+const spellSlot = object({
+  level: oneOf(SPELL_LEVELS),
+  max: count,
+  used: count,
+});
+
+const uses = (resetOn: readonly string[]) =>
+  optional(object({ max: count, used: count, resetOn: oneOf(resetOn) }));
+
+const EFFECT_TARGET =
+  /^(?:(?:ability|save):(?:STR|DEX|CON|INT|WIS|CHA)|skill:\w+|saves|passivePerception|ac|initiative|speed|maxHp|spellSaveDC|spellAttack)$/;
+const EFFECT_TYPES = ['bonus', 'set', 'advantage', 'disadvantage', 'proficiency', 'resistance'];
+
+const effectTarget: Validator = (value, path, errors) => {
+  if (typeof value !== 'string' || !EFFECT_TARGET.test(value)) {
+    errors.push({
+      field: path,
+      message: `expected an effect target, got ${JSON.stringify(value)}`,
+    });
+  }
+};
+
+/** Effect shapes differ by type, so the type picks the schema */
+const effect: Validator = (value, path, errors) => {
+  const type = (value as { type?: unknown } | null)?.type;
+  switch (type) {
+    case 'bonus':
+    case 'set':
+      return object({ target: effectTarget, value: number({ integer: true }) })(
+        value,
+        path,
+        errors
+      );
+    case 'advantage':
+    case 'disadvantage':
+      return object({ target: effectTarget })(value, path, errors);
+    case 'proficiency':
+      return object({ target: effectTarget, level: oneOf(PROFICIENCY_LEVELS) })(
+        value,
+        path,
+        errors
+      );
+    case 'resistance':
+      return object({ damageType: string })(value, path, errors);
+    default:
+      return object({ type: oneOf(EFFECT_TYPES) })(value, path, errors);
+  }
+};
+
+const effects = optional(array(effect));
+
+const attack = object({
+  id: string,
+  name: string,
+  ability: oneOf(ABILITY_SCORES),
+  bonus: number({ integer: true }),
+  damage: string,
+  versatileDamage: optional(string),
+  damageType: string,
+  range: string,
+  properties: array(string),
+  itemKey: optional(string),
+});
+
+const characterSchema = object({
+  id: string,
+  name: string,
+  playerName: string,
+  race: object({ key: string, name: string, subrace: optional(string) }),
+  classes: array(
+    object({
+      key: string,
+      name: string,
+      level: number({ integer: true, min: 1, max: 20 }),
+      hitDiceValue: number({ integer: true, min: 1 }),
+      isPrimary: boolean,
+      archetype: optional(string),
+    })
+  ),
+  background: object({ key: string, name: string, customDescription: optional(string) }),
+  alignment: oneOf(ALIGNMENTS),
+  level: number({ integer: true, min: 1, max: 20 }),
+  experiencePoints: count,
+  edition: oneOf(EDITIONS),
+  abilityScores: object({
+    base: abilityRecord(number({ integer: true })),
+    racialBonus: abilityRecord(number({ integer: true })),
+    asiBonus: abilityRecord(number({ integer: true })),
+    otherBonus: abilityRecord(number({ integer: true })),
+    override: abilityRecord(nullable(number({ integer: true }))),
+    total: abilityRecord(number({ integer: true })),
+    modifier: abilityRecord(number({ integer: true })),
+    generationMethod: oneOf(['standard', 'pointbuy', 'roll', 'manual']),
+  }),
+  skills: array(
+    object({
+      skillKey: string,
+      proficiency: oneOf(PROFICIENCY_LEVELS),
+      bonus: number({ integer: true }),
+      source: string,
+    })
+  ),
+  combat: object({
+    maxHp: count,
+    currentHp: count,
+    tempHp: count,
+    ac: object({
+      base: number({ integer: true }),
+      dexModifier: number({ integer: true }),
+      bonus: number({ integer: true }),
+      total: number({ integer: true }),
+    }),
+    initiative: number({ integer: true }),
+    speed: count,
+    hitDice: object({ type: oneOf(DIE_TYPES), total: count, used: count }),
+    deathSaves: object({
+      successes: number({ integer: true, min: 0, max: 3 }),
+      failures: number({ integer: true, min: 0, max: 3 }),
+    }),
+  }),
+  proficiencies: object({
+    armor: array(string),
+    weapons: array(string),
+    tools: array(string),
+    toolSources: optional(record(string)),
+    languages: array(string),
+    savingThrows: optional(array(oneOf(ABILITY_SCORES))),
+  }),
+  spellcasting: nullable(
+    object({
+      ability: nullable(oneOf(ABILITY_SCORES)),
+      saveDC: number({ integer: true }),
+      attackBonus: number({ integer: true }),
+      slots: array(spellSlot),
+      pactMagic: optional(nullable(spellSlot)),
+      preparedSpells: array(object({ spellKey: string, level: oneOf(SPELL_LEVELS) })),
+      knownSpells: array(
+        object({
+          id: string,
+          spellKey: string,
+          name: string,
+          level: oneOf(SPELL_LEVELS),
+          school: string,
+          prepared: boolean,
+        })
+      ),
+    })
+  ),
+  inventory: array(
+    object({
+      id: string,
+      name: string,
+      quantity: count,
+      equipped: boolean,
+      itemKey: optional(string),
+      requiresAttunement: optional(boolean),
+      attuned: optional(boolean),
+      effects,
+    })
+  ),
+  currency: object({ cp: count, sp: count, ep: count, gp: count, pp: count }),
+  features: array(
+    object({
+      id: string,
+      name: string,
+      description: string,
+      source: string,
+      sourceKey: optional(string),
+      level: optional(number({ integer: true, min: 0, max: 20 })),
+      uses: uses(['short', 'long', 'dawn', 'other']),
+      effects,
+    })
+  ),
+  actions: array(
+    object({
+      id: string,
+      name: string,
+      type: oneOf(['action', 'bonus', 'reaction']),
+      description: string,
+      isAttack: boolean,
+      attackDetails: optional(attack),
+      uses: uses(['short', 'long', 'dawn', 'turn', 'other']),
+      source: oneOf(['weapon', 'feature', 'spell', 'custom']),
+      sourceKey: optional(string),
+    })
+  ),
+  conditions: array(
+    object({
+      conditionKey: string,
+      source: optional(string),
+      duration: optional(string),
+      description: optional(string),
+      exhaustionLevel: optional(number({ integer: true, min: 0, max: 6 })),
+      effects,
+    })
+  ),
+  personality: object({
+    traits: array(string),
+    ideals: array(string),
+    bonds: array(string),
+    flaws: array(string),
+    appearance: string,
+    backstory: string,
+    allies: string,
+    enemies: string,
+    notes: string,
+  }),
+  appearance: object({
+    age: string,
+    height: string,
+    weight: string,
+    eyes: string,
+    skin: string,
+    hair: string,
+    other: string,
+  }),
+  sessionNotes: array(
+    object({
+      id: string,
+      content: string,
+      timestamp: date,
+      sessionNumber: optional(number({ integer: true, min: 0 })),
+    })
+  ),
+  createdAt: date,
+  updatedAt: date,
+  campaignId: optional(string),
+  overrides: object({
+    maxHp: optional(count),
+    ac: optional(number({ integer: true })),
+    proficiencyBonus: optional(number({ integer: true })),
+    spellSaveDC: optional(number({ integer: true })),
+  }),
+});
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Validate character data from an import file
+ * @param data - Parsed character data (dates may be ISO strings)
+ * @param path - Path prefix for error messages (e.g. "character")
+ * @returns Every problem found, empty when the data is a valid character
+ */
+export function validateCharacterData(data: unknown, path = ''): CharacterValidationError[] {
+  const errors: CharacterValidationError[] = [];
+  characterSchema(data, path, errors);
+  return errors;
+}
+
+/**
+ * Format validation errors for display, one per line
+ * @param errors - Errors from validateCharacterData
+ * @returns Lines such as "combat.hitDice.type: expected one of d4, d6, …"
+ */
+export function formatValidationErrors(errors: CharacterValidationError[]): string[] {
+  return errors.map((error) => (error.field ? `${error.field}: ${error.message}` : error.message));
+}
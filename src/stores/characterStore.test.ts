@@ -0,0 +1,115 @@
+/**
+ * Character Store Tests
+ *
+ * Undo/redo history of the character being edited.
+ * @module stores/characterStore.test
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getDraftChanges,
+  MAX_UNDO_STEPS,
+  UNDO_COALESCE_MS,
+  useCharacterStore,
+} from './characterStore';
+import { mockCharacter } from '@/lib/debug/mockCharacters';
+
+const store = () => useCharacterStore.getState();
+
+function setHp(currentHp: number) {
+  store().updateDraft({ combat: { ...store().draft!.combat!, currentHp } });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  store().setOriginal(mockCharacter);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('undo and redo', () => {
+  it('should step back and forward through edits', () => {
+    store().updateDraft({ name: 'First' });
+    vi.advanceTimersByTime(UNDO_COALESCE_MS);
+    store().updateDraft({ name: 'Second' });
+
+    expect(store().undo()).toEqual({ name: 'First' });
+    expect(store().draft?.name).toBe('First');
+    expect(store().undo()).toEqual({ name: mockCharacter.name });
+    expect(store().undo()).toBeNull();
+
+    expect(store().redo()).toEqual({ name: 'First' });
+    expect(store().redo()).toEqual({ name: 'Second' });
+    expect(store().redo()).toBeNull();
+  });
+
+  it('should clear redo after a new edit', () => {
+    store().updateDraft({ name: 'First' });
+    store().undo();
+    store().updateDraft({ experiencePoints: 100 });
+
+    expect(store().future).toEqual([]);
+    expect(store().redo()).toBeNull();
+  });
+
+  it('should coalesce rapid edits to the same fields', () => {
+    setHp(40);
+    vi.advanceTimersByTime(200);
+    setHp(39);
+    vi.advanceTimersByTime(200);
+    setHp(38);
+
+    expect(store().past).toHaveLength(1);
+    expect(store().undo()).toEqual({ combat: mockCharacter.combat });
+  });
+
+  it('should not coalesce edits after a pause or to other fields', () => {
+    setHp(40);
+    vi.advanceTimersByTime(UNDO_COALESCE_MS);
+    setHp(39);
+    store().updateDraft({ name: 'Renamed' });
+
+    expect(store().past).toHaveLength(3);
+  });
+
+  it('should limit the number of undo steps', () => {
+    for (let xp = 1; xp <= MAX_UNDO_STEPS + 10; xp++) {
+      store().updateDraft({ experiencePoints: xp });
+      vi.advanceTimersByTime(UNDO_COALESCE_MS);
+    }
+
+    expect(store().past).toHaveLength(MAX_UNDO_STEPS);
+  });
+
+  it('should make reset undoable', () => {
+    store().updateDraft({ name: 'Changed' });
+    store().reset();
+
+    expect(store().draft?.name).toBe(mockCharacter.name);
+    expect(store().undo()).toEqual({ name: 'Changed' });
+  });
+
+  it('should start a fresh history when a character is loaded', () => {
+    store().updateDraft({ name: 'Changed' });
+    store().setOriginal(mockCharacter);
+
+    expect(store().past).toEqual([]);
+    expect(store().undo()).toBeNull();
+  });
+});
+
+describe('getDraftChanges', () => {
+  it('should return the changed top-level fields with the new values', () => {
+    const to = { ...mockCharacter, name: 'New', currency: { ...mockCharacter.currency, gp: 1 } };
+
+    expect(getDraftChanges(mockCharacter, to)).toEqual({ name: 'New', currency: to.currency });
+  });
+
+  it('should ignore identity and timestamps', () => {
+    const to = { ...mockCharacter, id: 'other', updatedAt: new Date(0) };
+
+    expect(getDraftChanges(mockCharacter, to)).toEqual({});
+  });
+});
@@ -1,6 +1,12 @@
 import { create } from 'zustand';
 import type { Character, CharacterUpdate } from '@/types/character';
 
+/** Edits to the same fields within this window are undone together */
+export const UNDO_COALESCE_MS = 1000;
+
+/** Maximum number of undo steps kept */
+export const MAX_UNDO_STEPS = 100;
+
 interface CharacterState {
   // Currently edited character (for creation/editing)
   draft: Partial<Character> | null;
@@ -8,6 +14,12 @@ interface CharacterState {
   original: Character | null;
   // Whether there are unsaved changes
   hasChanges: boolean;
+  // Earlier drafts, most recent last
+  past: Partial<Character>[];
+  // Undone drafts, most recently undone last
+  future: Partial<Character>[];
+  // Fields and time of the last edit, for coalescing rapid edits
+  lastEdit: { fields: string; at: number } | null;
 
   // Actions
   setDraft: (draft: Partial<Character>) => void;
@@ -15,32 +27,87 @@ interface CharacterState {
   setOriginal: (character: Character) => void;
   reset: () => void;
   markSaved: () => void;
+  // Step back or forward; returns the changes to persist, or null if nothing to do
+  undo: () => CharacterUpdate | null;
+  redo: () => CharacterUpdate | null;
+}
+
+/**
+ * Top-level fields that differ between two drafts, with the values from `to`
+ * Drafts are updated immutably, so reference equality finds every change.
+ */
+export function getDraftChanges(
+  from: Partial<Character> | null,
+  to: Partial<Character> | null
+): CharacterUpdate {
+  const keys = new Set([...Object.keys(from ?? {}), ...Object.keys(to ?? {})]);
+  const changes: Record<string, unknown> = {};
+  for (const key of keys) {
+    if (key === 'id' || key === 'createdAt' || key === 'updatedAt') continue;
+    const before = from?.[key as keyof Character];
+    const after = to?.[key as keyof Character];
+    if (before !== after) changes[key] = after;
+  }
+  return changes as CharacterUpdate;
+}
+
+function pushPast(past: Partial<Character>[], draft: Partial<Character> | null) {
+  return draft ? [...past, draft].slice(-MAX_UNDO_STEPS) : past;
 }
 
-export const useCharacterStore = create<CharacterState>((set) => ({
+export const useCharacterStore = create<CharacterState>((set, get) => ({
   draft: null,
   original: null,
   hasChanges: false,
+  past: [],
+  future: [],
+  lastEdit: null,
 
-  setDraft: (draft) => set({ draft, hasChanges: true }),
-
-  updateDraft: (update) =>
+  setDraft: (draft) =>
     set((state) => ({
-      draft: state.draft ? { ...state.draft, ...update } : update,
+      draft,
       hasChanges: true,
+      past: pushPast(state.past, state.draft),
+      future: [],
+      lastEdit: null,
     })),
 
+  updateDraft: (update) =>
+    set((state) => {
+      // Rapid edits to the same fields (HP +/- clicks, typing) form one undo step
+      const fields = Object.keys(update).sort().join(',');
+      const now = Date.now();
+      const coalesce =
+        state.lastEdit !== null &&
+        state.lastEdit.fields === fields &&
+        now - state.lastEdit.at < UNDO_COALESCE_MS;
+
+      return {
+        draft: state.draft ? { ...state.draft, ...update } : update,
+        hasChanges: true,
+        past: coalesce ? state.past : pushPast(state.past, state.draft),
+        future: [],
+        lastEdit: { fields, at: now },
+      };
+    }),
+
   setOriginal: (character) =>
     set({
       original: character,
       draft: character,
       hasChanges: false,
+      past: [],
+      future: [],
+      lastEdit: null,
     }),
 
   reset: () =>
     set((state) => ({
       draft: state.original,
       hasChanges: false,
+      past: pushPast(state.past, state.draft),
+      future: [],
+      lastEdit: null,
     })),
 
   markSaved: () =>
@@ -48,4 +115,34 @@ export const useCharacterStore = create<CharacterState>((set) => ({
       original: state.draft as Character,
       hasChanges: false,
     })),
+
+  undo: () => {
+    const { past, future, draft } = get();
+    if (past.length === 0) return null;
+
+    const previous = past[past.length - 1];
+    set({
+      draft: previous,
+      hasChanges: true,
+      past: past.slice(0, -1),
+      future: draft ? [...future, draft] : future,
+      lastEdit: null,
+    });
+    return getDraftChanges(draft, previous);
+  },
+
+  redo: () => {
+    const { past, future, draft } = get();
+    if (future.length === 0) return null;
+
+    const next = future[future.length - 1];
+    set({
+      draft: next,
+      hasChanges: true,
+      past: pushPast(past, draft),
+      future: future.slice(0, -1),
+      lastEdit: null,
+    });
+    return getDraftChanges(draft, next);
+  },
 }));
@@ -4,7 +4,7 @@
  */
 
 import type { AbilityScore, Alignment, Edition, SpellLevel, CharacterAction } from './game';
-import type { GenerationMethod } from '@/lib/engine/ability-scores';
+import type { AbilityRoll, GenerationMethod, SpeciesBonus } from '@/lib/engine/ability-scores';
 import type {
   ActiveCondition,
   Appearance,
@@ -50,6 +50,8 @@ export interface Spellcasting {
   saveDC: number;
   attackBonus: number;
   slots: SpellSlot[];
+  // Warlock Pact Magic, kept apart from the shared multiclass slots
+  pactMagic?: SpellSlot | null;
   preparedSpells: PreparedSpell[];
   knownSpells: KnownSpell[];
 }
@@ -125,7 +127,11 @@ export interface Character {
     armor: string[];
     weapons: string[];
     tools: string[];
+    // Where each tool proficiency came from (class, background, ...), keyed by tool
+    toolSources?: Record<string, string>;
     languages: string[];
+    // Saving throw proficiencies (from the starting class)
+    savingThrows?: AbilityScore[];
   };
 
   // Spellcasting
@@ -197,29 +203,56 @@ export interface WizardSelections {
     classKey: string;
     level: number;
     archetypeKey?: string;
+    skillKeys?: string[];
   };
   background?: {
     backgroundKey: string;
     originFeatKey?: string;
+    // Grants recorded from the background so the character keeps their source
+    skillKeys?: string[];
+    toolProficiencies?: string[];
   };
   species?: {
     speciesKey: string;
     subraceKey?: string;
+    // Ability increases in applySpeciesBonuses shape (2014 rules)
+    abilityBonuses?: SpeciesBonus[];
+    bonusChoices?: Record<string, string>;
   };
   abilityScores?: {
     method: GenerationMethod;
     scores: Record<AbilityScore, number>;
+    // Standard array / rolled: ability -> index of the value in the pool
+    assignments?: Partial<Record<AbilityScore, number>>;
+    rollHistory?: { seed: number; rolls: AbilityRoll[] }[];
+    activeRoll?: number;
+    // 2024 rules: +2/+1 or +1/+1/+1 from the background
+    backgroundBonuses?: Partial<Record<AbilityScore, number>>;
   };
   equipment?: {
-    items: { itemKey: string; quantity: number; equipped?: boolean }[];
+    items: {
+      itemKey?: string;
+      name?: string;
+      quantity: number;
+      equipped?: boolean;
+      entryId?: string;
+    }[];
     currency?: Partial<Currency>;
+    // Choices behind the items so the step can be revisited (group/entry IDs from parseStartingEquipment)
+    choices?: Record<string, number>;
+    weaponPicks?: Record<string, string>;
+    equippedIds?: string[];
+    takeGold?: boolean;
   };
   spells?: {
     cantrips: string[];
     knownPrepared: { spellKey: string; level: SpellLevel }[];
+    // Wizards: every spell copied into the spellbook (knownPrepared is the prepared subset)
+    spellbook?: { spellKey: string; level: SpellLevel }[];
   };
   description?: {
     name: string;
+    alignment?: Alignment;
     personality?: Partial<Personality>;
     appearance?: Partial<Appearance>;
   };
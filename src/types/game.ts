@@ -109,6 +109,35 @@ export const SPELL_SCHOOLS = [
 ] as const;
 export type SpellSchool = (typeof SPELL_SCHOOLS)[number];
 
+// Effects (modifiers from items, features and conditions)
+
+/** Sheet value an effect changes; `saves` means every saving throw */
+export type EffectTarget =
+  | `ability:${AbilityScore}`
+  | `save:${AbilityScore}`
+  | 'saves'
+  | `skill:${string}`
+  | 'passivePerception'
+  | 'ac'
+  | 'initiative'
+  | 'speed'
+  | 'maxHp'
+  | 'spellSaveDC'
+  | 'spellAttack';
+
+export type CharacterEffect =
+  // Adds to the value, e.g. +1 AC from a Ring of Protection
+  | { type: 'bonus'; target: EffectTarget; value: number }
+  // Raises the value to at least this, e.g. Gauntlets of Ogre Power set STR to 19
+  | { type: 'set'; target: EffectTarget; value: number }
+  | { type: 'advantage' | 'disadvantage'; target: EffectTarget }
+  | {
+      type: 'proficiency';
+      target: `save:${AbilityScore}` | `skill:${string}`;
+      level: ProficiencyLevel;
+    }
+  | { type: 'resistance'; damageType: string };
+
 // Equipment
 export interface EquipmentItem {
   id: string;
@@ -117,6 +146,10 @@ export interface EquipmentItem {
   equipped: boolean;
   // Reference to Open5E item key
   itemKey?: string;
+  // Items that require attunement only apply their effects while attuned
+  requiresAttunement?: boolean;
+  attuned?: boolean;
+  effects?: CharacterEffect[];
 }
 
 // Currency
@@ -170,6 +203,7 @@ export interface ActiveCondition {
   duration?: string;
   description?: string;
   exhaustionLevel?: number;
+  effects?: CharacterEffect[];
 }
 
 // Attacks
@@ -179,6 +213,8 @@ export interface Attack {
   ability: AbilityScore;
   bonus: number;
   damage: string;
+  // Two-handed damage of a versatile weapon
+  versatileDamage?: string;
   damageType: string;
   range: string;
   properties: string[];
@@ -221,6 +257,7 @@ export interface CharacterFeature {
     used: number;
     resetOn: 'short' | 'long' | 'dawn' | 'other';
   };
+  effects?: CharacterEffect[];
 }
 
 // Personality
@@ -84,6 +84,8 @@ export interface Open5eBackground extends Open5eEntity {
   ideals: string[];
   bonds: string[];
   flaws: string[];
+  /** Open5E v2 benefit list (2024 backgrounds list their ability score options here) */
+  benefits?: Array<{ name: string; desc: string; type?: string }>;
 }
 
 // Ability